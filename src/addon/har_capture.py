@@ -2,26 +2,254 @@
 mitmdump addon for real-time HAR capture to JSON Lines file.
 
 This addon intercepts HTTP/HTTPS traffic and stores each request/response
-pair in a JSONL file (one JSON object per line) for later querying.
+pair in a JSONL file (one JSON object per line) for later querying. WebSocket
+messages go to a second JSONL file, linked to the entry of their handshake, and
+failed TLS handshakes and flows to a third, since they never reach the response hook.
+Bodies above blob_threshold bytes are kept out of the JSONL file, as blob files named by
+their SHA-256 under blob_dir.
+
+It also applies the rewrite and mock rules installed with mitm.set_rules, holds flows
+matching mitm.breakpoint_add breakpoints and injects the network conditions set with
+mitm.set_conditions, reloading each file whenever it changes.
 
 Usage:
-    mitmdump -s har_capture.py --set har_file=/path/to/traffic.jsonl
+    mitmdump -s har_capture.py --set har_file=/path/to/traffic.jsonl \
+        [--set rules_file=/path/to/rules.json] [--set breakpoints_file=/path/to/breakpoints.json] \
+        [--set conditions_file=/path/to/conditions.json] [--set websocket_file=/path/to/websocket.jsonl] \
+        [--set failures_file=/path/to/failures.jsonl] [--set blob_dir=/path/to/blobs --set blob_threshold=262144]
 """
+import asyncio
+import base64
+import hashlib
 import json
+import mimetypes
+import os
+import random
+import re
 import time
+import urllib.parse
 import uuid
 import threading
 from datetime import datetime
-from typing import Optional
-
-from mitmproxy import http, ctx
+from typing import List, Optional
+
+from mitmproxy import flowfilter, http, ctx, tls
+
+# Control headers sent by mitm.replay; removed before the request goes upstream
+ENTRY_ID_HEADER = "X-Mitm-Entry-Id"
+REPLAY_OF_HEADER = "X-Mitm-Replay-Of"
+ENTRY_ID_PATTERN = re.compile(r"^entry-[0-9a-f]{12}$")
+
+# Logged once the proxy is listening; must match MITMDUMP_READY_MARKER in mitmdump-startup.ts
+READY_MARKER = "HAR capture ready"
+
+
+def _apply_json_pointer(document, pointer: str, value, remove: bool):
+    """Set or remove the value at a JSON pointer; returns the (possibly new) document."""
+    if pointer == "":
+        return None if remove else value
+    tokens = [t.replace("~1", "/").replace("~0", "~") for t in pointer[1:].split("/")]
+    parent = document
+    for token in tokens[:-1]:
+        parent = parent[int(token)] if isinstance(parent, list) else parent[token]
+    last = tokens[-1]
+    if isinstance(parent, list):
+        if last == "-" and not remove:
+            parent.append(value)
+        elif remove:
+            del parent[int(last)]
+        else:
+            parent[int(last)] = value
+    elif remove:
+        del parent[last]
+    else:
+        parent[last] = value
+    return document
+
+
+class FlowMatch:
+    """Match conditions shared by rules and breakpoints."""
+
+    def __init__(self, match: dict):
+        self.host = (match.get("host") or "").lower() or None
+        self.path = re.compile(match["path"]) if match.get("path") else None
+        self.method = (match.get("method") or "").upper() or None
+        self.filter = None
+        if match.get("filter"):
+            self.filter = flowfilter.parse(match["filter"])
+            if self.filter is None:
+                raise ValueError(f"invalid filter: {match['filter']}")
+
+    def matches(self, flow: http.HTTPFlow) -> bool:
+        request = flow.request
+        if self.host:
+            host = request.pretty_host.lower()
+            if host != self.host and not host.endswith("." + self.host):
+                return False
+        if self.method and request.method.upper() != self.method:
+            return False
+        if self.path and not self.path.search(request.path):
+            return False
+        if self.filter and not self.filter(flow):
+            return False
+        return True
+
+
+class Rule:
+    """A rewrite or mock rule installed with mitm.set_rules."""
+
+    def __init__(self, spec: dict):
+        self.id = spec["id"]
+        self.match = FlowMatch(spec.get("match") or {})
+        self.map_local = spec.get("mapLocal")
+        self.map_remote = spec.get("mapRemote")
+        self.headers = spec.get("headers") or []
+        self.body_rewrites = []
+        for rewrite in spec.get("bodyRewrites") or []:
+            if rewrite.get("type") == "regex":
+                rewrite = dict(rewrite, compiled=re.compile(rewrite["pattern"]))
+            self.body_rewrites.append(rewrite)
+
+    def matches(self, flow: http.HTTPFlow) -> bool:
+        return self.match.matches(flow)
+
+    def apply_headers(self, message, phase: str) -> bool:
+        applied = False
+        for action in self.headers:
+            if action.get("phase") != phase:
+                continue
+            name = action["name"]
+            if action["action"] == "remove":
+                if name in message.headers:
+                    del message.headers[name]
+                    applied = True
+            elif action["action"] == "add":
+                message.headers.add(name, action.get("value", ""))
+                applied = True
+            elif action["action"] == "replace":
+                message.headers[name] = action.get("value", "")
+                applied = True
+        return applied
+
+    def apply_body_rewrites(self, message, phase: str) -> bool:
+        applied = False
+        for rewrite in self.body_rewrites:
+            if rewrite.get("phase") != phase or not message.raw_content:
+                continue
+            try:
+                text = message.get_text(strict=False)
+                if rewrite["type"] == "regex":
+                    text, count = rewrite["compiled"].subn(rewrite["replacement"], text)
+                    if count == 0:
+                        continue
+                else:
+                    document = _apply_json_pointer(
+                        json.loads(text), rewrite["pointer"], rewrite.get("value"), rewrite.get("remove", False)
+                    )
+                    text = json.dumps(document, ensure_ascii=False, separators=(",", ":"))
+                message.text = text
+                applied = True
+            except Exception as e:
+                ctx.log.warn(f"Rule {self.id}: body rewrite skipped: {e}")
+        return applied
+
+    def map_remote_url(self, flow: http.HTTPFlow) -> str:
+        """Target URL: scheme and authority from the rule, path and query unless the rule sets them."""
+        target = urllib.parse.urlsplit(self.map_remote["url"])
+        current = urllib.parse.urlsplit(flow.request.url)
+        path = target.path if target.path not in ("", "/") else current.path
+        query = target.query or current.query
+        return urllib.parse.urlunsplit((target.scheme, target.netloc, path, query, ""))
+
+    def map_local_response(self) -> Optional[http.Response]:
+        spec = self.map_local
+        headers = dict(spec.get("headers") or {})
+        if spec.get("file"):
+            try:
+                with open(spec["file"], "rb") as f:
+                    content = f.read()
+            except OSError as e:
+                ctx.log.error(f"Rule {self.id}: cannot read map-local file: {e}")
+                return None
+            if not any(name.lower() == "content-type" for name in headers):
+                guessed, _ = mimetypes.guess_type(spec["file"])
+                if guessed:
+                    headers["Content-Type"] = guessed
+        elif spec.get("bodyBase64") is not None:
+            content = base64.b64decode(spec["bodyBase64"])
+        else:
+            content = (spec.get("body") or "").encode("utf-8")
+        return http.Response.make(spec.get("status", 200), content, headers)
+
+
+class Breakpoint:
+    """A breakpoint installed with mitm.breakpoint_add."""
+
+    def __init__(self, spec: dict):
+        self.id = spec["id"]
+        self.match = FlowMatch(spec.get("match") or {})
+        self.phase = spec.get("phase", "request")
+        self.timeout_ms = spec.get("timeoutMs", 60000)
+        self.timeout_action = spec.get("timeoutAction", "continue")
+
+    def holds(self, flow: http.HTTPFlow, phase: str) -> bool:
+        return self.phase in (phase, "both") and self.match.matches(flow)
+
+
+class NetworkCondition:
+    """Latency, bandwidth and failure injection installed with mitm.set_conditions."""
+
+    def __init__(self, spec: dict):
+        self.id = spec["id"]
+        self.match = FlowMatch(spec.get("match") or {})
+        self.latency_ms = spec.get("latencyMs") or 0
+        self.jitter_ms = spec.get("jitterMs") or 0
+        self.upload_kbps = spec.get("uploadKbps")
+        self.download_kbps = spec.get("downloadKbps")
+        self.failure = spec.get("failure")
+
+    @staticmethod
+    def transfer_seconds(size: int, kbps: Optional[float]) -> float:
+        return size * 8 / (kbps * 1000) if kbps and size else 0.0
+
+
+def _write_json_atomic(path: str, data: dict):
+    temp_path = f"{path}.tmp"
+    with open(temp_path, "w", encoding="utf-8") as f:
+        json.dump(data, f)
+    os.replace(temp_path, path)
+
+
+def _held_message(message) -> dict:
+    """Snapshot of a held request or response body for mitm.pending."""
+    content = message.content or b""
+    held = {"bodySize": len(content)}
+    if content:
+        try:
+            held["body"] = content.decode("utf-8")
+        except UnicodeDecodeError:
+            held["bodyBase64"] = base64.b64encode(content).decode("ascii")
+    return held
 
 
 class HarCapture:
     def __init__(self):
         self.har_file: Optional[str] = None
         self.file_handle = None
+        self.websocket_handle = None
+        self.failures_handle = None
         self.lock = threading.Lock()
+        self.rules: List[Rule] = []
+        self.breakpoints: List[Breakpoint] = []
+        self.conditions: List[NetworkCondition] = []
+        # Modification time of each spec file when it was last read, by kind
+        self.mtimes: dict = {}
+        self.pending_dir: Optional[str] = None
+        self.decisions_dir: Optional[str] = None
+        # Requests opened per HTTP/2 client connection and flows captured per server
+        # connection, by connection ID; dropped when the connection closes
+        self.client_streams: dict = {}
+        self.server_flows: dict = {}
 
     def load(self, loader):
         loader.add_option(
@@ -30,12 +258,329 @@ class HarCapture:
             default="",
             help="Path to JSONL file for HAR storage"
         )
+        loader.add_option(
+            name="rules_file",
+            typespec=str,
+            default="",
+            help="Path to the JSON rules file written by mitm.set_rules"
+        )
+        loader.add_option(
+            name="breakpoints_file",
+            typespec=str,
+            default="",
+            help="Path to the JSON breakpoints file written by mitm.breakpoint_add"
+        )
+        loader.add_option(
+            name="conditions_file",
+            typespec=str,
+            default="",
+            help="Path to the JSON network conditions file written by mitm.set_conditions"
+        )
+        loader.add_option(
+            name="websocket_file",
+            typespec=str,
+            default="",
+            help="Path to JSONL file for WebSocket messages"
+        )
+        loader.add_option(
+            name="failures_file",
+            typespec=str,
+            default="",
+            help="Path to JSONL file for failed TLS handshakes and flows"
+        )
+        loader.add_option(
+            name="blob_dir",
+            typespec=str,
+            default="",
+            help="Directory for bodies stored as content-addressed blobs"
+        )
+        loader.add_option(
+            name="blob_threshold",
+            typespec=int,
+            default=0,
+            help="Store bodies larger than this many bytes in blob_dir; 0 keeps all bodies inline"
+        )
 
     def configure(self, updates):
         if "har_file" in updates and ctx.options.har_file:
             self.har_file = ctx.options.har_file
             self._open_file()
             ctx.log.info(f"HAR capture initialized with file: {self.har_file}")
+        if "websocket_file" in updates and ctx.options.websocket_file:
+            if self.websocket_handle:
+                self.websocket_handle.close()
+            self.websocket_handle = open(ctx.options.websocket_file, 'a', encoding='utf-8')
+        if "failures_file" in updates and ctx.options.failures_file:
+            if self.failures_handle:
+                self.failures_handle.close()
+            self.failures_handle = open(ctx.options.failures_file, 'a', encoding='utf-8')
+        if "rules_file" in updates:
+            self.mtimes.pop("rules", None)
+            self._reload_rules()
+        if "breakpoints_file" in updates and ctx.options.breakpoints_file:
+            base_dir = os.path.dirname(ctx.options.breakpoints_file)
+            self.pending_dir = os.path.join(base_dir, "pending")
+            self.decisions_dir = os.path.join(base_dir, "decisions")
+            # Flows held by a previous mitmdump are gone; so are the decisions meant for them
+            for directory in (self.pending_dir, self.decisions_dir):
+                os.makedirs(directory, exist_ok=True)
+                for name in os.listdir(directory):
+                    os.remove(os.path.join(directory, name))
+            self.mtimes.pop("breakpoints", None)
+            self._reload_breakpoints()
+        if "conditions_file" in updates:
+            self.mtimes.pop("conditions", None)
+            self._reload_conditions()
+
+    def _read_specs(self, path: str, kind: str) -> Optional[list]:
+        """
+        Read the specs listed under `kind` in a file written by the MCP server. Returns None
+        when the file did not change since it was last read, or cannot be read.
+        """
+        try:
+            mtime = os.stat(path).st_mtime_ns if path else None
+        except OSError:
+            mtime = None
+        if kind in self.mtimes and mtime == self.mtimes[kind]:
+            return None
+        self.mtimes[kind] = mtime
+
+        if mtime is None:
+            return []
+
+        try:
+            with open(path, encoding="utf-8") as f:
+                return json.load(f).get(kind, [])
+        except (OSError, ValueError) as e:
+            # Keep the previous specs; the file may be mid-write by another tool
+            ctx.log.error(f"Failed to read {kind} file {path}: {e}")
+            return None
+
+    @staticmethod
+    def _build(specs: list, factory, kind: str) -> list:
+        items = []
+        for spec in specs:
+            try:
+                items.append(factory(spec))
+            except Exception as e:
+                ctx.log.error(f"{factory.__name__} {spec.get('id')}: skipped: {e}")
+        ctx.log.info(f"Loaded {len(items)} {kind}")
+        return items
+
+    def _reload_rules(self):
+        """Reload the rules file if it changed since it was last read."""
+        specs = self._read_specs(ctx.options.rules_file, "rules")
+        if specs is not None:
+            self.rules = self._build([spec for spec in specs if spec.get("enabled", True)], Rule, "rules")
+
+    def _reload_breakpoints(self):
+        """Reload the breakpoints file if it changed since it was last read."""
+        specs = self._read_specs(ctx.options.breakpoints_file, "breakpoints")
+        if specs is not None:
+            self.breakpoints = self._build(specs, Breakpoint, "breakpoints")
+
+    def _reload_conditions(self):
+        """Reload the network conditions file if it changed since it was last read."""
+        specs = self._read_specs(ctx.options.conditions_file, "conditions")
+        if specs is not None:
+            self.conditions = self._build(specs, NetworkCondition, "conditions")
+
+    async def _hold(self, flow: http.HTTPFlow, phase: str):
+        """Hold a flow matching a breakpoint until mitm.resume decides or the timeout expires."""
+        self._reload_breakpoints()
+        if not self.pending_dir or (phase == "request" and flow.response is not None):
+            # Nothing to hold, or the request was already answered by a map-local rule
+            return
+        breakpoint = next((bp for bp in self.breakpoints if bp.holds(flow, phase)), None)
+        if breakpoint is None:
+            return
+
+        pending_id = f"{flow.metadata['mitm_entry_id']}.{phase}"
+        pending_path = os.path.join(self.pending_dir, f"{pending_id}.json")
+        decision_path = os.path.join(self.decisions_dir, f"{pending_id}.json")
+        held_at = time.time()
+        deadline = held_at + breakpoint.timeout_ms / 1000
+
+        request = {
+            "method": flow.request.method,
+            "url": flow.request.pretty_url,
+            "headers": [{"name": k, "value": v} for k, v in flow.request.headers.items(multi=True)],
+            **_held_message(flow.request),
+        }
+        pending = {
+            "id": pending_id,
+            "entryId": flow.metadata["mitm_entry_id"],
+            "breakpointId": breakpoint.id,
+            "phase": phase,
+            "heldAt": datetime.utcfromtimestamp(held_at).isoformat() + "Z",
+            "expiresAt": datetime.utcfromtimestamp(deadline).isoformat() + "Z",
+            "timeoutAction": breakpoint.timeout_action,
+            "request": request,
+        }
+        if phase == "response":
+            pending["response"] = {
+                "status": flow.response.status_code,
+                "statusText": flow.response.reason,
+                "headers": [{"name": k, "value": v} for k, v in flow.response.headers.items(multi=True)],
+                **_held_message(flow.response),
+            }
+
+        decision = None
+        try:
+            _write_json_atomic(pending_path, pending)
+            ctx.log.info(f"Breakpoint {breakpoint.id}: holding {pending_id}")
+            while decision is None and time.time() < deadline:
+                await asyncio.sleep(0.1)
+                try:
+                    with open(decision_path, encoding="utf-8") as f:
+                        decision = json.load(f)
+                except (OSError, ValueError):
+                    pass
+        finally:
+            for path in (pending_path, decision_path):
+                try:
+                    os.remove(path)
+                except OSError:
+                    pass
+
+        timed_out = decision is None
+        if timed_out:
+            decision = {"action": breakpoint.timeout_action}
+            ctx.log.info(f"Breakpoint {breakpoint.id}: {pending_id} timed out, {breakpoint.timeout_action}")
+
+        edited = self._apply_decision(flow, phase, decision)
+        flow.metadata.setdefault("mitm_breakpoints", []).append({
+            "id": breakpoint.id,
+            "phase": phase,
+            "action": decision["action"],
+            "edited": edited,
+            "timedOut": timed_out,
+        })
+
+    @staticmethod
+    def _apply_decision(flow: http.HTTPFlow, phase: str, decision: dict) -> bool:
+        """Apply a mitm.resume decision; returns whether the flow was edited."""
+        body = None
+        if decision.get("bodyBase64") is not None:
+            body = base64.b64decode(decision["bodyBase64"])
+        elif decision.get("body") is not None:
+            body = decision["body"].encode("utf-8")
+
+        action = decision.get("action", "continue")
+        if action == "drop":
+            if flow.killable:
+                flow.kill()
+            return False
+        if action == "respond":
+            flow.response = http.Response.make(
+                decision.get("status") or 200, body or b"", decision.get("setHeaders") or {}
+            )
+            return True
+
+        message = flow.request if phase == "request" else flow.response
+        edited = False
+        if decision.get("method"):
+            flow.request.method = decision["method"]
+            edited = True
+        if decision.get("url"):
+            flow.request.url = decision["url"]
+            edited = True
+        if decision.get("status") is not None:
+            flow.response.status_code = decision["status"]
+            edited = True
+        for name in decision.get("removeHeaders") or []:
+            if name in message.headers:
+                del message.headers[name]
+                edited = True
+        for name, value in (decision.get("setHeaders") or {}).items():
+            message.headers[name] = value
+            edited = True
+        if body is not None:
+            message.content = body
+            edited = True
+        return edited
+
+    async def _apply_request_condition(self, flow: http.HTTPFlow):
+        """Delay or fail a request according to the first matching network condition."""
+        self._reload_conditions()
+        if flow.response is not None or flow.error is not None:
+            # Answered locally or dropped at a breakpoint; nothing goes over the network
+            return
+        condition = next((c for c in self.conditions if c.match.matches(flow)), None)
+        if condition is None:
+            return
+
+        hit = {"id": condition.id}
+        flow.metadata["mitm_condition"] = hit
+
+        failure = condition.failure
+        if failure and random.uniform(0, 100) < failure["percent"]:
+            hit["failure"] = failure["mode"]
+            ctx.log.info(f"Condition {condition.id}: injecting {failure['mode']} for {flow.request.pretty_url}")
+            if failure["mode"] == "status":
+                hit["status"] = failure.get("status", 503)
+                flow.response = http.Response.make(hit["status"], b"", {"Content-Type": "text/plain"})
+                return
+            if failure["mode"] == "timeout":
+                await asyncio.sleep(failure.get("hangMs", 60000) / 1000)
+            if flow.killable:
+                flow.kill()
+            return
+
+        latency = (condition.latency_ms + random.uniform(0, condition.jitter_ms)) / 1000
+        throttle = NetworkCondition.transfer_seconds(len(flow.request.raw_content or b""), condition.upload_kbps)
+        if latency:
+            hit["latencyMs"] = int(latency * 1000)
+        if throttle:
+            hit["throttleMs"] = int(throttle * 1000)
+        await asyncio.sleep(latency + throttle)
+
+    async def _apply_response_condition(self, flow: http.HTTPFlow):
+        """Slow a response down to the download bandwidth of the condition its request matched."""
+        hit = flow.metadata.get("mitm_condition")
+        if not hit or hit.get("failure"):
+            return
+        condition = next((c for c in self.conditions if c.id == hit["id"]), None)
+        if condition is None:
+            return
+        throttle = NetworkCondition.transfer_seconds(len(flow.response.raw_content or b""), condition.download_kbps)
+        if throttle:
+            hit["throttleMs"] = hit.get("throttleMs", 0) + int(throttle * 1000)
+            await asyncio.sleep(throttle)
+
+    @staticmethod
+    def _tag(flow: http.HTTPFlow, rule: Rule):
+        applied = flow.metadata.setdefault("mitm_rules", [])
+        if rule.id not in applied:
+            applied.append(rule.id)
+
+    def _apply_request_rules(self, flow: http.HTTPFlow):
+        matched = [rule for rule in self.rules if rule.matches(flow)]
+        # Remembered so response actions still apply after map-remote changed the host
+        flow.metadata["mitm_matched_rules"] = [rule.id for rule in matched]
+        for rule in matched:
+            applied = rule.apply_headers(flow.request, "request")
+            applied = rule.apply_body_rewrites(flow.request, "request") or applied
+            if rule.map_remote:
+                flow.request.url = rule.map_remote_url(flow)
+                applied = True
+            if rule.map_local and flow.response is None:
+                response = rule.map_local_response()
+                if response is not None:
+                    flow.response = response
+                    applied = True
+            if applied:
+                self._tag(flow, rule)
+
+    def _apply_response_rules(self, flow: http.HTTPFlow):
+        matched = set(flow.metadata.get("mitm_matched_rules", []))
+        for rule in self.rules:
+            if rule.id not in matched and not rule.matches(flow):
+                continue
+            applied = rule.apply_headers(flow.response, "response")
+            applied = rule.apply_body_rewrites(flow.response, "response") or applied
+            if applied:
+                self._tag(flow, rule)
 
     def _open_file(self):
         """Open the JSONL file for appending."""
@@ -43,33 +588,199 @@ class HarCapture:
             self.file_handle.close()
         self.file_handle = open(self.har_file, 'a', encoding='utf-8')
 
-    def response(self, flow: http.HTTPFlow):
+    def requestheaders(self, flow: http.HTTPFlow):
+        """
+        Called when request headers arrive. Client-initiated HTTP/2 streams get odd IDs in the
+        order they are opened, which is the order this hook sees them in.
+        """
+        client = flow.client_conn
+        if client.alpn == b"h2":
+            opened = self.client_streams.get(client.id, 0)
+            self.client_streams[client.id] = opened + 1
+            flow.metadata["mitm_h2_stream_id"] = 2 * opened + 1
+
+    def client_disconnected(self, client):
+        self.client_streams.pop(client.id, None)
+
+    def server_disconnected(self, data):
+        self.server_flows.pop(data.server.id, None)
+
+    async def request(self, flow: http.HTTPFlow):
+        """Called when a request is received; picks up mitm.replay control headers."""
+        entry_id = flow.request.headers.pop(ENTRY_ID_HEADER, None)
+        replay_of = flow.request.headers.pop(REPLAY_OF_HEADER, None)
+        if entry_id and ENTRY_ID_PATTERN.match(entry_id):
+            flow.metadata["mitm_entry_id"] = entry_id
+        else:
+            # Assigned up front so a held flow can be reported under its future entry ID
+            flow.metadata["mitm_entry_id"] = f"entry-{uuid.uuid4().hex[:12]}"
+        if replay_of:
+            flow.metadata["mitm_replay_of"] = replay_of
+
+        self._reload_rules()
+        self._apply_request_rules(flow)
+        await self._hold(flow, "request")
+        await self._apply_request_condition(flow)
+
+    async def response(self, flow: http.HTTPFlow):
         """Called when a response is received."""
-        if not self.file_handle:
+        if flow.response:
+            self._apply_response_rules(flow)
+            await self._apply_response_condition(flow)
+            await self._hold(flow, "response")
+
+        self._capture(flow)
+
+    def error(self, flow: http.HTTPFlow):
+        """
+        Called when a flow fails. Flows killed by an injected failure or a breakpoint are
+        captured as entries; any other failure is recorded as a failure event.
+        """
+        if flow.metadata.get("mitm_condition") or flow.metadata.get("mitm_breakpoints"):
+            self._capture(flow)
+            return
+
+        client = flow.client_conn
+        self._write_failure({
+            "type": "http_error",
+            "host": flow.request.pretty_host,
+            "sni": client.sni,
+            "clientAddress": self._address(client.peername),
+            "serverAddress": self._address(flow.server_conn.address),
+            "error": flow.error.msg if flow.error else "unknown error",
+            "entryId": flow.metadata.get("mitm_entry_id"),
+            "url": flow.request.pretty_url,
+        })
+
+    def tls_failed_client(self, data: tls.TlsData):
+        """Called when the TLS handshake with the client fails, e.g. because it pins its certificates."""
+        client = data.context.client
+        self._write_failure({
+            "type": "tls_client",
+            "host": client.sni or self._address(data.context.server.address) or "",
+            "sni": client.sni,
+            "clientAddress": self._address(client.peername),
+            "serverAddress": self._address(data.context.server.address),
+            "error": data.conn.error or "TLS handshake failed",
+        })
+
+    def tls_failed_server(self, data: tls.TlsData):
+        """Called when the TLS handshake with the server fails."""
+        server = data.context.server
+        self._write_failure({
+            "type": "tls_server",
+            "host": server.sni or (server.address[0] if server.address else ""),
+            "sni": server.sni,
+            "clientAddress": self._address(data.context.client.peername),
+            "serverAddress": self._address(server.address),
+            "error": data.conn.error or "TLS handshake failed",
+        })
+
+    @staticmethod
+    def _address(address) -> Optional[str]:
+        return f"{address[0]}:{address[1]}" if address else None
+
+    def _write_failure(self, event: dict):
+        if not self.failures_handle:
+            return
+        now = time.time()
+        record = {
+            "id": f"fail-{uuid.uuid4().hex[:12]}",
+            "timestamp": datetime.utcfromtimestamp(now).isoformat() + 'Z',
+            "timestampMs": int(now * 1000),
+        }
+        record.update({key: value for key, value in event.items() if value is not None})
+        try:
+            with self.lock:
+                self.failures_handle.write(json.dumps(record, ensure_ascii=False) + '\n')
+                self.failures_handle.flush()
+        except Exception as e:
+            ctx.log.error(f"Error recording failure: {e}")
+
+    def websocket_message(self, flow: http.HTTPFlow):
+        """Called for each WebSocket message; the newest one is last in the list."""
+        message = flow.websocket.messages[-1]
+        payload, encoding = None, "text"
+        if message.is_text:
+            try:
+                payload = message.content.decode('utf-8')
+            except UnicodeDecodeError:
+                pass
+        if payload is None:
+            payload, encoding = base64.b64encode(message.content).decode('ascii'), "base64"
+
+        record = self._websocket_record(flow, message.timestamp, message.from_client)
+        record.update({
+            "opcode": "text" if message.is_text else "binary",
+            "size": len(message.content),
+            "payload": payload,
+            "encoding": encoding,
+        })
+        self._write_websocket(record)
+
+    def websocket_end(self, flow: http.HTTPFlow):
+        """Called when a WebSocket connection closes; recorded as a close message."""
+        websocket = flow.websocket
+        record = self._websocket_record(flow, time.time(), bool(websocket.closed_by_client))
+        reason = websocket.close_reason or ""
+        record.update({
+            "opcode": "close",
+            "size": len(reason.encode('utf-8')),
+            "payload": reason,
+            "encoding": "text",
+        })
+        if websocket.close_code is not None:
+            record["closeCode"] = websocket.close_code
+        self._write_websocket(record)
+
+    @staticmethod
+    def _websocket_record(flow: http.HTTPFlow, timestamp: float, from_client: bool) -> dict:
+        index = flow.metadata.get("mitm_ws_index", 0)
+        flow.metadata["mitm_ws_index"] = index + 1
+        return {
+            "id": f"ws-{uuid.uuid4().hex[:12]}",
+            "entryId": flow.metadata.get("mitm_entry_id", ""),
+            "index": index,
+            "timestamp": datetime.utcfromtimestamp(timestamp).isoformat() + 'Z',
+            "timestampMs": int(timestamp * 1000),
+            "direction": "send" if from_client else "receive",
+        }
+
+    def _write_websocket(self, record: dict):
+        if not self.websocket_handle:
+            return
+        try:
+            with self.lock:
+                self.websocket_handle.write(json.dumps(record, ensure_ascii=False) + '\n')
+                self.websocket_handle.flush()
+        except Exception as e:
+            ctx.log.error(f"Error capturing WebSocket message: {e}")
+
+    def _capture(self, flow: http.HTTPFlow):
+        if not self.file_handle or flow.metadata.get("mitm_captured"):
             return
 
         try:
             entry = self._flow_to_har_entry(flow)
             self._write_entry(entry)
+            flow.metadata["mitm_captured"] = True
         except Exception as e:
             ctx.log.error(f"Error capturing flow: {e}")
 
     def _flow_to_har_entry(self, flow: http.HTTPFlow) -> dict:
         """Convert mitmproxy flow to HAR entry format."""
-        entry_id = f"entry-{uuid.uuid4().hex[:12]}"
+        entry_id = flow.metadata.get("mitm_entry_id") or f"entry-{uuid.uuid4().hex[:12]}"
         timestamp = datetime.utcnow().isoformat() + 'Z'
         timestamp_ms = int(time.time() * 1000)
 
-        # Parse request headers
+        # Headers exactly as sent: repeated headers such as Set-Cookie stay separate, in order
         request_headers = [
             {"name": k, "value": v}
-            for k, v in flow.request.headers.items()
+            for k, v in flow.request.headers.items(multi=True)
         ]
-
-        # Parse response headers
         response_headers = [
             {"name": k, "value": v}
-            for k, v in flow.response.headers.items()
+            for k, v in flow.response.headers.items(multi=True)
         ] if flow.response else []
 
         # Parse query string
@@ -93,28 +804,8 @@ class HarCapture:
         request_host = flow.request.host
         request_path = flow.request.path
 
-        # Get request body (decode if text, base64 if binary)
-        request_body = None
-        request_body_size = 0
-        if flow.request.content:
-            request_body_size = len(flow.request.content)
-            try:
-                request_body = flow.request.content.decode('utf-8')
-            except:
-                # Binary data - store as base64
-                import base64
-                request_body = base64.b64encode(flow.request.content).decode('ascii')
-
-        # Get response body
-        response_body = None
-        response_body_size = 0
-        if flow.response and flow.response.content:
-            response_body_size = len(flow.response.content)
-            try:
-                response_body = flow.response.content.decode('utf-8')
-            except:
-                import base64
-                response_body = base64.b64encode(flow.response.content).decode('ascii')
+        request_body = self._store_body(flow.request.content)
+        response_body = self._store_body(flow.response.content if flow.response else None)
 
         # Build entry
         entry = {
@@ -129,8 +820,7 @@ class HarCapture:
                 "httpVersion": f"HTTP/{flow.request.http_version}",
                 "headers": request_headers,
                 "queryString": query_string,
-                "bodySize": request_body_size,
-                "body": request_body,
+                **request_body,
             },
             "response": {
                 "status": flow.response.status_code if flow.response else 0,
@@ -138,15 +828,116 @@ class HarCapture:
                 "httpVersion": f"HTTP/{flow.response.http_version}" if flow.response else "",
                 "headers": response_headers,
                 "contentType": content_type,
-                "bodySize": response_body_size,
-                "body": response_body,
+                **response_body,
             },
             "timings": timings,
             "serverIPAddress": flow.server_conn.ip_address[0] if flow.server_conn and flow.server_conn.ip_address else "",
+            "connection": self._connection_info(flow),
         }
 
+        if flow.metadata.get("mitm_replay_of"):
+            entry["replayOf"] = flow.metadata["mitm_replay_of"]
+        if flow.metadata.get("mitm_rules"):
+            entry["rules"] = flow.metadata["mitm_rules"]
+        if flow.metadata.get("mitm_breakpoints"):
+            entry["breakpoints"] = flow.metadata["mitm_breakpoints"]
+        if flow.metadata.get("mitm_condition"):
+            entry["condition"] = flow.metadata["mitm_condition"]
+
         return entry
 
+    def _store_body(self, content: Optional[bytes]) -> dict:
+        """
+        Body fields of an entry. Bodies are stored inline as text when they decode as UTF-8 and
+        as base64 otherwise; bodies above the blob threshold only by the SHA-256 of their blob,
+        with the encoding they would have had inline.
+        """
+        if not content:
+            return {"bodySize": 0, "body": None}
+
+        try:
+            text = content.decode('utf-8')
+        except UnicodeDecodeError:
+            text = None
+        encoding = "text" if text is not None else "base64"
+
+        threshold = ctx.options.blob_threshold
+        if ctx.options.blob_dir and threshold > 0 and len(content) > threshold:
+            try:
+                return {"bodySize": len(content), "bodySha256": self._write_blob(content), "bodyEncoding": encoding}
+            except OSError as e:
+                ctx.log.error(f"Error writing body blob, storing it inline: {e}")
+
+        body = text if text is not None else base64.b64encode(content).decode('ascii')
+        return {"bodySize": len(content), "body": body, "bodyEncoding": encoding}
+
+    @staticmethod
+    def _write_blob(content: bytes) -> str:
+        """Write a blob unless one with the same content exists; returns its SHA-256."""
+        sha256 = hashlib.sha256(content).hexdigest()
+        directory = os.path.join(ctx.options.blob_dir, sha256[:2])
+        path = os.path.join(directory, sha256)
+        if os.path.exists(path):
+            # A fresh mtime keeps mitm.clear from pruning it before this entry is written
+            os.utime(path)
+        else:
+            os.makedirs(directory, exist_ok=True)
+            temp_path = f"{path}.{uuid.uuid4().hex[:8]}.tmp"
+            with open(temp_path, 'wb') as f:
+                f.write(content)
+            os.replace(temp_path, path)
+        return sha256
+
+    def _connection_info(self, flow: http.HTTPFlow) -> dict:
+        """TLS parameters, addresses and reuse of the connections that carried a flow."""
+        client, server = flow.client_conn, flow.server_conn
+        info = {"clientConnectionId": client.id}
+        if client.peername:
+            info["clientAddress"] = self._address(client.peername)
+        if client.tls_established:
+            info["clientTls"] = self._tls_info(client)
+        if flow.metadata.get("mitm_h2_stream_id"):
+            info["http2StreamId"] = flow.metadata["mitm_h2_stream_id"]
+
+        if server and server.id:
+            served = self.server_flows.get(server.id, 0)
+            self.server_flows[server.id] = served + 1
+            info["serverConnectionId"] = server.id
+            if server.peername or server.address:
+                info["serverAddress"] = self._address(server.peername or server.address)
+            info["reused"] = served > 0
+            if server.tls_established:
+                info["serverTls"] = self._tls_info(server)
+                info["serverTls"]["certificates"] = [
+                    self._certificate_summary(cert) for cert in server.certificate_list
+                ]
+        return info
+
+    @staticmethod
+    def _tls_info(conn) -> dict:
+        info = {
+            "version": conn.tls_version,
+            "cipher": conn.cipher,
+            "alpn": conn.alpn.decode('ascii', 'replace') if conn.alpn else None,
+            "sni": conn.sni,
+        }
+        return {key: value for key, value in info.items() if value}
+
+    @staticmethod
+    def _certificate_summary(cert) -> dict:
+        def name(attributes) -> str:
+            return ", ".join(f"{key}={value}" for key, value in attributes)
+
+        return {
+            "subject": name(cert.subject),
+            "issuer": name(cert.issuer),
+            "notBefore": cert.notbefore.isoformat(),
+            "notAfter": cert.notafter.isoformat(),
+            "sha256": cert.fingerprint().hex(),
+            "serial": format(cert.serial, "x"),
+            "altNames": [str(altname) for altname in cert.altnames],
+        }
+
     def _calculate_timings(self, flow: http.HTTPFlow) -> dict:
         """Calculate timing information from flow timestamps."""
         timings = {
@@ -185,11 +976,19 @@ class HarCapture:
             self.file_handle.flush()
             ctx.log.debug(f"Captured: {entry['request']['method']} {entry['request']['url'][:80]}")
 
+    def running(self):
+        """Called once the proxy is listening; the MCP server waits for this line at startup."""
+        ctx.log.info(READY_MARKER)
+
     def done(self):
         """Called when mitmproxy is shutting down."""
         if self.file_handle:
             self.file_handle.close()
             ctx.log.info("HAR capture file closed")
+        if self.websocket_handle:
+            self.websocket_handle.close()
+        if self.failures_handle:
+            self.failures_handle.close()
 
 
 addons = [HarCapture()]
@@ -27,6 +27,8 @@ export interface Config {
   // Timeouts (ms)
   startTimeout: number;
   stopTimeout: number;
+  // How often to re-read session state.json when fs.watch misses a change
+  statePollInterval: number;
 }
 
 export function loadConfig(): Config {
@@ -52,5 +54,6 @@ export function loadConfig(): Config {
 
     startTimeout: parseInt(process.env.MITM_START_TIMEOUT || '10000', 10),
     stopTimeout: parseInt(process.env.MITM_STOP_TIMEOUT || '5000', 10),
+    statePollInterval: parseInt(process.env.MITM_STATE_POLL_INTERVAL || '2000', 10),
   };
 }
@@ -0,0 +1,209 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash, randomUUID } from 'crypto';
+import { JsonlEntry } from '../types/traffic.js';
+import { MitmError, ErrorCode } from '../types/errors.js';
+import { encodeBody, storedBodyBytes } from '../utils/body.js';
+
+// Directory under the session's mitm/ dir where har_capture.py writes body blobs
+export const BLOBS_DIR = 'blobs';
+
+const SHA256_PATTERN = /^[0-9a-f]{64}$/;
+// Blobs are read this many bytes at a time when searched
+const BLOB_CHUNK_BYTES = 1024 * 1024;
+// Characters of one chunk's text repeated at the start of the next
+const BLOB_WINDOW_OVERLAP = 64 * 1024;
+
+type StoredMessage = JsonlEntry['request'] | JsonlEntry['response'];
+
+/**
+ * Content-addressed body blobs written by har_capture.py: blobs/<first 2 hex>/<sha256>,
+ * holding the raw body bytes. Identical bodies share one file.
+ */
+export class BlobStore {
+  constructor(private readonly dir: string) {}
+
+  private blobPath(sha256: string): string {
+    if (!SHA256_PATTERN.test(sha256)) {
+      throw new MitmError(ErrorCode.INVALID_ARGUMENT, `Invalid blob hash: ${sha256}`, { sha256 });
+    }
+    return path.join(this.dir, sha256.slice(0, 2), sha256);
+  }
+
+  private missing(sha256: string, error: unknown): MitmError {
+    return new MitmError(
+      ErrorCode.INTERNAL_ERROR,
+      `Failed to read body blob ${sha256}: ${error instanceof Error ? error.message : String(error)}`,
+      { sha256, dir: this.dir }
+    );
+  }
+
+  /**
+   * Read up to `length` bytes of a blob starting at `offset`.
+   */
+  async read(sha256: string, offset: number, length: number): Promise<Buffer> {
+    let handle: fs.promises.FileHandle | undefined;
+    try {
+      handle = await fs.promises.open(this.blobPath(sha256), 'r');
+      const buffer = Buffer.alloc(length);
+      const { bytesRead } = await handle.read(buffer, 0, length, offset);
+      return buffer.subarray(0, bytesRead);
+    } catch (error) {
+      throw error instanceof MitmError ? error : this.missing(sha256, error);
+    } finally {
+      await handle?.close();
+    }
+  }
+
+  /**
+   * A copy of the entry with blob bodies of up to `maxBytes` read back inline, for code that
+   * needs the bytes. Larger bodies stay in their blobs and are listed in `oversized`.
+   */
+  async inline(
+    entry: JsonlEntry,
+    maxBytes: number
+  ): Promise<{ entry: JsonlEntry; oversized: Array<'request' | 'response'> }> {
+    const oversized = (['request', 'response'] as const).filter(
+      side => entry[side].bodySha256 && entry[side].bodySize > maxBytes
+    );
+    if (!entry.request.bodySha256 && !entry.response.bodySha256) return { entry, oversized };
+    return {
+      entry: {
+        ...entry,
+        request: await this.inlineMessage(entry.request, maxBytes),
+        response: await this.inlineMessage(entry.response, maxBytes),
+      },
+      oversized,
+    };
+  }
+
+  /**
+   * A copy of one message with its blob body read back inline, unless larger than `maxBytes`.
+   */
+  async inlineMessage<T extends StoredMessage>(message: T, maxBytes: number): Promise<T> {
+    if (!message.bodySha256 || message.bodySize > maxBytes) return message;
+    let content: Buffer;
+    try {
+      content = await fs.promises.readFile(this.blobPath(message.bodySha256));
+    } catch (error) {
+      throw error instanceof MitmError ? error : this.missing(message.bodySha256, error);
+    }
+    const { body, encoding } = encodeBody(content);
+    const { bodySha256: _, ...rest } = message;
+    return { ...rest, body, bodyEncoding: encoding } as T;
+  }
+
+  /**
+   * Read the first `maxBytes` of a blob as text in chunks, UTF-8 or (for binary bodies) latin1,
+   * so a body of any size can be searched without holding it in memory. Each window repeats
+   * the last BLOB_WINDOW_OVERLAP characters of the one before, so a match spanning two chunks
+   * is found as long as it is no longer than that; offset is where the window starts in the text.
+   */
+  async *textWindows(
+    sha256: string,
+    binary: boolean,
+    maxBytes: number,
+    chunkBytes = BLOB_CHUNK_BYTES
+  ): AsyncGenerator<{ text: string; offset: number }> {
+    const blobPath = this.blobPath(sha256);
+    const decoder = new TextDecoder('utf-8');
+    let carried = '';
+    let offset = 0;
+    try {
+      const stream = fs.createReadStream(blobPath, { highWaterMark: chunkBytes, end: maxBytes - 1 });
+      for await (const chunk of stream as AsyncIterable<Buffer>) {
+        const text = carried + (binary ? chunk.toString('latin1') : decoder.decode(chunk, { stream: true }));
+        yield { text, offset };
+        const keep = Math.min(text.length, BLOB_WINDOW_OVERLAP);
+        offset += text.length - keep;
+        carried = text.slice(text.length - keep);
+      }
+    } catch (error) {
+      throw error instanceof MitmError ? error : this.missing(sha256, error);
+    }
+    // A character cut off at the end of the last chunk
+    const rest = binary ? '' : decoder.decode();
+    if (rest) yield { text: carried + rest, offset };
+  }
+
+  /**
+   * Whether a regex matches the first `maxBytes` of a blob, read in chunks (see textWindows).
+   */
+  async test(sha256: string, binary: boolean, re: RegExp, maxBytes: number): Promise<boolean> {
+    for await (const window of this.textWindows(sha256, binary, maxBytes)) {
+      re.lastIndex = 0;
+      if (re.test(window.text)) return true;
+    }
+    return false;
+  }
+
+  /**
+   * Write a blob unless one with the same content exists, the way har_capture.py does.
+   * Returns its SHA-256.
+   */
+  async write(content: Buffer): Promise<string> {
+    const sha256 = createHash('sha256').update(content).digest('hex');
+    const blobPath = this.blobPath(sha256);
+    try {
+      // A fresh mtime keeps a concurrent prune from deleting it before the entry is written
+      const now = new Date();
+      await fs.promises.utimes(blobPath, now, now);
+    } catch {
+      await fs.promises.mkdir(path.dirname(blobPath), { recursive: true });
+      const tempPath = `${blobPath}.${randomUUID()}.tmp`;
+      await fs.promises.writeFile(tempPath, content);
+      await fs.promises.rename(tempPath, blobPath);
+    }
+    return sha256;
+  }
+
+  /**
+   * A copy of the entry with bodies larger than `threshold` bytes moved into blobs, as the
+   * addon stores them. A threshold of 0 keeps every body inline.
+   */
+  async externalize(entry: JsonlEntry, threshold: number): Promise<JsonlEntry> {
+    if (threshold <= 0) return entry;
+    return {
+      ...entry,
+      request: await this.externalizeMessage(entry.request, threshold),
+      response: await this.externalizeMessage(entry.response, threshold),
+    };
+  }
+
+  private async externalizeMessage<T extends StoredMessage>(message: T, threshold: number): Promise<T> {
+    if (!message.body) return message;
+    const content = storedBodyBytes(message.body, message.bodyEncoding);
+    if (content.length <= threshold) return message;
+    const { body: _, ...rest } = message;
+    // The blob holds the bytes; bodyEncoding says how they would have been stored inline
+    return { ...rest, bodySha256: await this.write(content), bodyEncoding: encodeBody(content).encoding } as T;
+  }
+
+  /**
+   * Delete blobs no entry refers to any more. Returns the number deleted. Blobs modified
+   * after modifiedBeforeMs are kept: the addon writes a blob before the entry that refers to it.
+   */
+  async prune(referenced: Set<string>, modifiedBeforeMs: number): Promise<number> {
+    let deleted = 0;
+    let prefixes: string[];
+    try {
+      prefixes = await fs.promises.readdir(this.dir);
+    } catch {
+      return 0;
+    }
+    for (const prefix of prefixes) {
+      const prefixDir = path.join(this.dir, prefix);
+      const names = await fs.promises.readdir(prefixDir).catch(() => [] as string[]);
+      for (const name of names) {
+        // Leave the addon's in-progress temporary files alone
+        if (!SHA256_PATTERN.test(name) || referenced.has(name)) continue;
+        const blobPath = path.join(prefixDir, name);
+        const stat = await fs.promises.stat(blobPath).catch(() => null);
+        if (!stat || stat.mtimeMs >= modifiedBeforeMs) continue;
+        await fs.promises.rm(blobPath, { force: true });
+        deleted++;
+      }
+    }
+    return deleted;
+  }
+}
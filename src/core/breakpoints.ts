@@ -0,0 +1,164 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { RuleMatch } from '../types/schemas.js';
+import { MitmError, ErrorCode } from '../types/errors.js';
+import { writeFileAtomic } from '../utils/atomic-file.js';
+
+export type BreakpointPhase = 'request' | 'response';
+
+export interface Breakpoint {
+  id: string;
+  match: RuleMatch;
+  phase: BreakpointPhase | 'both';
+  timeoutMs: number;
+  timeoutAction: 'continue' | 'drop';
+  createdAt: string;
+}
+
+// breakpoints.json, read by har_capture.py through its breakpoints_file option
+export interface BreakpointsFile {
+  version: 1;
+  updatedAt: string;
+  breakpoints: Breakpoint[];
+}
+
+type Header = { name: string; value: string };
+
+// Text bodies are in body, anything that is not UTF-8 in bodyBase64
+interface HeldBody {
+  bodySize: number;
+  body?: string;
+  bodyBase64?: string;
+}
+
+// Written by the addon to pending/<id>.json for as long as it holds the flow
+export interface PendingFlow {
+  id: string;
+  entryId: string;
+  breakpointId: string;
+  phase: BreakpointPhase;
+  heldAt: string;
+  expiresAt: string;
+  timeoutAction: 'continue' | 'drop';
+  request: HeldBody & { method: string; url: string; headers: Header[] };
+  response?: HeldBody & { status: number; statusText: string; headers: Header[] };
+}
+
+// Written to decisions/<id>.json; the addon applies it and removes both files
+export interface ResumeDecision {
+  action: 'continue' | 'drop' | 'respond';
+  method?: string;
+  url?: string;
+  status?: number;
+  setHeaders?: Record<string, string>;
+  removeHeaders?: string[];
+  body?: string;
+  bodyBase64?: string;
+}
+
+// Pending IDs become file names, so only the addon's own format is accepted
+const PENDING_ID_PATTERN = /^[\w.-]+$/;
+
+function pendingPath(mitmDir: string, pendingId: string): string {
+  return path.join(mitmDir, 'pending', `${pendingId}.json`);
+}
+
+export async function readBreakpointsFile(filePath: string): Promise<Breakpoint[]> {
+  try {
+    const content = await fs.promises.readFile(filePath, 'utf-8');
+    return (JSON.parse(content) as BreakpointsFile).breakpoints ?? [];
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw new MitmError(
+      ErrorCode.INTERNAL_ERROR,
+      `Failed to read breakpoints: ${error instanceof Error ? error.message : String(error)}`,
+      { path: filePath }
+    );
+  }
+}
+
+export async function writeBreakpointsFile(filePath: string, breakpoints: Breakpoint[]): Promise<void> {
+  const content: BreakpointsFile = { version: 1, updatedAt: new Date().toISOString(), breakpoints };
+  await writeFileAtomic(filePath, JSON.stringify(content, null, 2));
+}
+
+/**
+ * Read one held flow. Returns null when it was released, timed out or never existed.
+ */
+export async function readPendingFlow(mitmDir: string, pendingId: string): Promise<PendingFlow | null> {
+  if (!PENDING_ID_PATTERN.test(pendingId)) return null;
+  try {
+    const pending = JSON.parse(await fs.promises.readFile(pendingPath(mitmDir, pendingId), 'utf-8')) as PendingFlow;
+    return Date.parse(pending.expiresAt) > Date.now() ? pending : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * List the flows the addon currently holds, oldest first.
+ */
+export async function listPendingFlows(mitmDir: string): Promise<PendingFlow[]> {
+  let files: string[];
+  try {
+    files = await fs.promises.readdir(path.join(mitmDir, 'pending'));
+  } catch {
+    return [];
+  }
+
+  const pending: PendingFlow[] = [];
+  for (const file of files) {
+    if (!file.endsWith('.json')) continue;
+    const flow = await readPendingFlow(mitmDir, file.slice(0, -'.json'.length));
+    if (flow) pending.push(flow);
+  }
+  return pending.sort((a, b) => a.heldAt.localeCompare(b.heldAt));
+}
+
+/**
+ * Check that a decision fits the phase the flow is held in.
+ * Throws MitmError(INVALID_ARGUMENT).
+ */
+export function validateDecision(pending: PendingFlow, decision: ResumeDecision): void {
+  const invalid = (message: string) =>
+    new MitmError(ErrorCode.INVALID_ARGUMENT, message, { pendingId: pending.id, phase: pending.phase });
+
+  if (decision.body !== undefined && decision.bodyBase64 !== undefined) {
+    throw invalid('Specify either body or bodyBase64, not both');
+  }
+  if (decision.action === 'drop') {
+    const edits = ['method', 'url', 'status', 'setHeaders', 'removeHeaders', 'body', 'bodyBase64'] as const;
+    if (edits.some(key => decision[key] !== undefined)) {
+      throw invalid('A dropped flow takes no edits');
+    }
+    return;
+  }
+  if ((decision.method !== undefined || decision.url !== undefined) &&
+      (decision.action === 'respond' || pending.phase === 'response')) {
+    throw invalid('method and url can only be changed on a request that is continued');
+  }
+  if (decision.status !== undefined && decision.action === 'continue' && pending.phase === 'request') {
+    throw invalid('status applies to a held response or to action "respond"');
+  }
+}
+
+export async function writeDecision(mitmDir: string, pendingId: string, decision: ResumeDecision): Promise<void> {
+  const decisionsDir = path.join(mitmDir, 'decisions');
+  await fs.promises.mkdir(decisionsDir, { recursive: true });
+  await writeFileAtomic(path.join(decisionsDir, `${pendingId}.json`), JSON.stringify(decision));
+}
+
+/**
+ * Wait for the addon to pick up a decision, which it signals by removing the pending file.
+ */
+export async function waitForRelease(mitmDir: string, pendingId: string, timeoutMs: number): Promise<boolean> {
+  const deadline = Date.now() + timeoutMs;
+  for (;;) {
+    const exists = await fs.promises.access(pendingPath(mitmDir, pendingId)).then(() => true, () => false);
+    if (!exists) return true;
+    if (Date.now() >= deadline) return false;
+    await new Promise(resolve => setTimeout(resolve, 100));
+  }
+}
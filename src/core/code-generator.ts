@@ -0,0 +1,688 @@
+import { JsonlEntry } from '../types/traffic.js';
+import { HarCookie } from '../types/har.js';
+import { decodeBase64Body } from '../utils/body.js';
+import { parseCookieHeader } from '../utils/cookies.js';
+import { MultipartPart, getMultipartBoundary, parseMultipart } from '../utils/multipart.js';
+
+export const CODE_TARGETS = [
+  'curl',
+  'python-requests',
+  'python-httpx',
+  'fetch',
+  'undici',
+  'okhttp',
+  'http',
+] as const;
+
+export type CodeTarget = typeof CODE_TARGETS[number];
+
+export interface GeneratedCode {
+  target: CodeTarget;
+  language: string;
+  code: string;
+  notes: string[];
+}
+
+type Header = { name: string; value: string };
+
+type RequestBody =
+  | { kind: 'none' }
+  | { kind: 'text'; text: string; data: Buffer }
+  | { kind: 'binary'; data: Buffer }
+  | { kind: 'multipart'; data: Buffer; parts: MultipartPart[] };
+
+interface RequestModel {
+  method: string;
+  url: string;
+  baseUrl: string;
+  requestTarget: string;
+  authority: string;
+  http2: boolean;
+  query: Array<[string, string]>;
+  // Headers to send, without cookies and without headers the client computes itself
+  headers: Header[];
+  cookies: HarCookie[];
+  contentType?: string;
+  body: RequestBody;
+  notes: string[];
+}
+
+// Connection-level headers and headers every client derives from the URL and body
+const DERIVED_HEADERS = new Set([
+  'host',
+  'content-length',
+  'connection',
+  'keep-alive',
+  'proxy-connection',
+  'transfer-encoding',
+  'te',
+  'upgrade',
+  'expect',
+]);
+
+// Methods that always carry a body, even an empty one (OkHttp refuses to send them without)
+const BODY_METHODS = new Set(['POST', 'PUT', 'PATCH', 'PROPPATCH', 'REPORT']);
+
+const utf8Decoder = new TextDecoder('utf-8', { fatal: true });
+
+function asText(data: Buffer): string | null {
+  try {
+    return utf8Decoder.decode(data);
+  } catch {
+    return null;
+  }
+}
+
+function findHeader(headers: Header[], name: string): string | undefined {
+  const lower = name.toLowerCase();
+  return headers.find(h => h.name.toLowerCase() === lower)?.value;
+}
+
+function buildModel(entry: JsonlEntry): RequestModel {
+  const { request } = entry;
+  const notes: string[] = [];
+
+  // HTTP/2 pseudo-headers are carried by the request line
+  const headers = request.headers.filter(h => !h.name.startsWith(':'));
+  const contentType = findHeader(headers, 'content-type');
+  const cookies = headers
+    .filter(h => h.name.toLowerCase() === 'cookie')
+    .flatMap(h => parseCookieHeader(h.value));
+
+  let body: RequestBody = { kind: 'none' };
+  if (request.body) {
+    const binary = decodeBase64Body(request.body, request.bodyEncoding);
+    const data = binary ?? Buffer.from(request.body, 'utf-8');
+    const boundary = contentType ? getMultipartBoundary(contentType) : null;
+    const parts = boundary ? parseMultipart(data, boundary) : null;
+
+    if (parts && parts.length > 0) {
+      body = { kind: 'multipart', data, parts };
+    } else if (binary || request.body.includes('\0')) {
+      body = { kind: 'binary', data };
+    } else {
+      body = { kind: 'text', text: request.body, data };
+    }
+  } else if (request.bodySize > 0) {
+    notes.push('The request body was not captured, so the snippet sends none.');
+  }
+
+  // Bodies are stored after content decoding, so the original encoding no longer applies
+  const contentEncoding = findHeader(headers, 'content-encoding');
+  const dropped = new Set(DERIVED_HEADERS);
+  if (contentEncoding && body.kind !== 'none') {
+    dropped.add('content-encoding');
+    notes.push(`The body was captured decoded; the Content-Encoding: ${contentEncoding} header is omitted.`);
+  }
+
+  let baseUrl = request.url.split(/[?#]/)[0];
+  let requestTarget = request.path || '/';
+  let authority = findHeader(headers, 'host') ?? request.host;
+  try {
+    const parsed = new URL(request.url);
+    baseUrl = `${parsed.origin}${parsed.pathname}`;
+    requestTarget = `${parsed.pathname}${parsed.search}`;
+    authority = findHeader(headers, 'host') ?? parsed.host;
+  } catch {
+    // Keep the raw values for URLs the WHATWG parser rejects
+  }
+
+  const http2 = /HTTP\/2/i.test(request.httpVersion);
+  if (http2) {
+    authority = findHeader(request.headers, ':authority') ?? authority;
+  }
+
+  return {
+    method: request.method.toUpperCase(),
+    url: request.url,
+    baseUrl,
+    requestTarget,
+    authority,
+    http2,
+    query: request.queryString.map(q => [q.name, q.value]),
+    headers: headers.filter(h => {
+      const lower = h.name.toLowerCase();
+      return !dropped.has(lower) && lower !== 'cookie';
+    }),
+    cookies,
+    contentType,
+    body,
+    notes,
+  };
+}
+
+function cookieHeader(cookies: HarCookie[]): string {
+  return cookies.map(c => `${c.name}=${c.value}`).join('; ');
+}
+
+// Headers with the cookies folded back into a single Cookie header
+function headersWithCookies(model: RequestModel, options: { includeContentType: boolean }): Header[] {
+  const headers = options.includeContentType
+    ? model.headers
+    : model.headers.filter(h => h.name.toLowerCase() !== 'content-type');
+  return model.cookies.length > 0
+    ? [...headers, { name: 'Cookie', value: cookieHeader(model.cookies) }]
+    : headers;
+}
+
+// Merge repeated headers the way fetch-style header maps would
+function headerMap(headers: Header[]): Array<[string, string]> {
+  const merged = new Map<string, [string, string]>();
+  for (const header of headers) {
+    const key = header.name.toLowerCase();
+    const existing = merged.get(key);
+    if (existing) {
+      existing[1] += key === 'cookie' ? `; ${header.value}` : `, ${header.value}`;
+    } else {
+      merged.set(key, [header.name, header.value]);
+    }
+  }
+  return Array.from(merged.values());
+}
+
+function isFilePart(part: MultipartPart): boolean {
+  return part.filename !== undefined || asText(part.data) === null;
+}
+
+function partFilename(part: MultipartPart): string {
+  return part.filename ?? part.name;
+}
+
+function shellQuote(value: string): string {
+  if (/^[\w@%+=:,./-]+$/.test(value)) return value;
+  // ANSI-C quoting keeps control characters such as CR visible and intact
+  if (/[\x00-\x09\x0b-\x1f\x7f]/.test(value)) {
+    const escaped = value.replace(/[\\'\x00-\x1f\x7f]/g, c => {
+      switch (c) {
+        case '\\': return '\\\\';
+        case '\'': return '\\\'';
+        case '\n': return '\\n';
+        case '\r': return '\\r';
+        case '\t': return '\\t';
+        default: return `\\x${c.charCodeAt(0).toString(16).padStart(2, '0')}`;
+      }
+    });
+    return `$'${escaped}'`;
+  }
+  return `'${value.replace(/'/g, '\'\\\'\'')}'`;
+}
+
+// JSON string syntax is also valid Python and JavaScript string syntax
+function quote(value: string): string {
+  return JSON.stringify(value);
+}
+
+function kotlinString(value: string): string {
+  const escaped = value.replace(/[\\"$\x00-\x1f\x7f]/g, c => {
+    switch (c) {
+      case '\\': return '\\\\';
+      case '"': return '\\"';
+      case '$': return '\\$';
+      case '\n': return '\\n';
+      case '\r': return '\\r';
+      case '\t': return '\\t';
+      case '\b': return '\\b';
+      default: return `\\u${c.charCodeAt(0).toString(16).padStart(4, '0')}`;
+    }
+  });
+  return `"${escaped}"`;
+}
+
+function generateCurl(model: RequestModel): GeneratedCode {
+  const notes = [...model.notes];
+  const lines: string[] = [];
+  const { body } = model;
+
+  let url = `curl ${shellQuote(model.url)}`;
+  if (/[[\]{}]/.test(model.url)) url += ' --globoff';
+  lines.push(url);
+
+  if (model.method === 'HEAD') {
+    lines.push('--head');
+  } else if (!(model.method === 'GET' && body.kind === 'none') && !(model.method === 'POST' && body.kind !== 'none')) {
+    lines.push(`-X ${model.method}`);
+  }
+  if (model.http2) lines.push('--http2');
+
+  for (const header of model.headers) {
+    lines.push(`-H ${shellQuote(`${header.name}: ${header.value}`)}`);
+  }
+  if (model.cookies.length > 0) {
+    lines.push(`-b ${shellQuote(cookieHeader(model.cookies))}`);
+  }
+  const acceptEncoding = findHeader(model.headers, 'accept-encoding');
+  if (acceptEncoding && /gzip|deflate|br/i.test(acceptEncoding)) {
+    lines.push('--compressed');
+  }
+
+  let prefix = '';
+  if (body.kind !== 'none') {
+    const text = body.kind === 'text' ? body.text : asText(body.data);
+    if (text !== null && !text.includes('\0')) {
+      lines.push(`--data-raw ${shellQuote(text)}`);
+    } else {
+      prefix = `echo ${shellQuote(body.data.toString('base64'))} | base64 --decode | `;
+      lines.push('--data-binary @-');
+    }
+    if (body.kind === 'multipart') {
+      notes.push('The multipart body is sent verbatim with its original boundary.');
+    }
+  }
+
+  return {
+    target: 'curl',
+    language: 'shell',
+    code: prefix + lines.join(' \\\n  '),
+    notes,
+  };
+}
+
+function pythonDict(name: string, items: Array<[string, string]>): string {
+  const lines = items.map(([key, value]) => `    ${quote(key)}: ${quote(value)},`);
+  return `${name} = {\n${lines.join('\n')}\n}`;
+}
+
+function pythonPairs(name: string, items: Array<[string, string]>): string {
+  const lines = items.map(([key, value]) => `    (${quote(key)}, ${quote(value)}),`);
+  return `${name} = [\n${lines.join('\n')}\n]`;
+}
+
+function hasDuplicateKeys(items: Array<[string, string]>): boolean {
+  return new Set(items.map(([key]) => key)).size !== items.length;
+}
+
+function pythonQuery(model: RequestModel): string {
+  return hasDuplicateKeys(model.query) ? pythonPairs('params', model.query) : pythonDict('params', model.query);
+}
+
+// Python's http.client encodes str bodies as Latin-1, so non-ASCII text is sent as UTF-8 bytes
+function pythonText(text: string): string {
+  return /[^\x00-\x7f]/.test(text) ? `${quote(text)}.encode("utf-8")` : quote(text);
+}
+
+function pythonBytes(data: Buffer): string {
+  return `base64.b64decode(${quote(data.toString('base64'))})`;
+}
+
+function pythonFile(part: MultipartPart): string {
+  const text = asText(part.data);
+  const content = text !== null ? pythonText(text) : pythonBytes(part.data);
+  const contentType = part.contentType ? `, ${quote(part.contentType)}` : '';
+  return `(${quote(partFilename(part))}, ${content}${contentType})`;
+}
+
+function generatePythonRequests(model: RequestModel): GeneratedCode {
+  const notes = [...model.notes];
+  const { body } = model;
+  const imports = ['import requests'];
+  const sections: string[] = [`url = ${quote(model.baseUrl)}`];
+  const args = ['url'];
+
+  if (model.query.length > 0) {
+    sections.push(pythonQuery(model));
+    args.push('params=params');
+  }
+
+  // A cookies dict would lose repeated cookie names, so those stay in the Cookie header
+  const cookies: Array<[string, string]> = model.cookies.map(c => [c.name, c.value]);
+  const cookiesAsHeader = hasDuplicateKeys(cookies);
+  const includeContentType = body.kind !== 'multipart';
+  const headers = headerMap(
+    cookiesAsHeader
+      ? headersWithCookies(model, { includeContentType })
+      : model.headers.filter(h => includeContentType || h.name.toLowerCase() !== 'content-type')
+  );
+  if (headers.length > 0) {
+    sections.push(pythonDict('headers', headers));
+    args.push('headers=headers');
+  }
+  if (cookies.length > 0 && !cookiesAsHeader) {
+    sections.push(pythonDict('cookies', cookies));
+    args.push('cookies=cookies');
+  }
+
+  if (body.kind === 'text') {
+    sections.push(`data = ${pythonText(body.text)}`);
+    args.push('data=data');
+  } else if (body.kind === 'binary') {
+    imports.unshift('import base64');
+    sections.push(`data = ${pythonBytes(body.data)}`);
+    args.push('data=data');
+  } else if (body.kind === 'multipart') {
+    // Fields go through files as well so that the original part order is kept
+    const parts = body.parts.map(part => {
+      if (isFilePart(part)) {
+        if (asText(part.data) === null && !imports.includes('import base64')) imports.unshift('import base64');
+        return `    (${quote(part.name)}, ${pythonFile(part)}),`;
+      }
+      return `    (${quote(part.name)}, (None, ${pythonText(asText(part.data) ?? '')})),`;
+    });
+    sections.push(`files = [\n${parts.join('\n')}\n]`);
+    args.push('files=files');
+    notes.push('requests builds the multipart body with a new boundary.');
+  }
+
+  const method = model.method.toLowerCase();
+  const call = ['get', 'post', 'put', 'patch', 'delete', 'head', 'options'].includes(method)
+    ? `requests.${method}(${args.join(', ')})`
+    : `requests.request(${quote(model.method)}, ${args.join(', ')})`;
+  if (model.http2) notes.push('requests only speaks HTTP/1.1; the entry was captured over HTTP/2.');
+
+  return {
+    target: 'python-requests',
+    language: 'python',
+    code: [
+      imports.join('\n'),
+      sections.join('\n'),
+      `response = ${call}\nprint(response.status_code)\nprint(response.text)`,
+    ].join('\n\n') + '\n',
+    notes,
+  };
+}
+
+function generatePythonHttpx(model: RequestModel): GeneratedCode {
+  const notes = [...model.notes];
+  const { body } = model;
+  const imports = ['import httpx'];
+  const sections: string[] = [`url = ${quote(model.baseUrl)}`];
+  const args = [quote(model.method), 'url'];
+
+  if (model.query.length > 0) {
+    sections.push(pythonQuery(model));
+    args.push('params=params');
+  }
+
+  // Per-request cookies are deprecated in httpx, so cookies travel as a header
+  const headers = headerMap(headersWithCookies(model, { includeContentType: body.kind !== 'multipart' }));
+  if (headers.length > 0) {
+    sections.push(pythonDict('headers', headers));
+    args.push('headers=headers');
+  }
+
+  if (body.kind === 'text') {
+    sections.push(`content = ${quote(body.text)}`);
+    args.push('content=content');
+  } else if (body.kind === 'binary') {
+    imports.unshift('import base64');
+    sections.push(`content = ${pythonBytes(body.data)}`);
+    args.push('content=content');
+  } else if (body.kind === 'multipart') {
+    const fields = new Map<string, string[]>();
+    const files: string[] = [];
+    for (const part of body.parts) {
+      if (isFilePart(part)) {
+        if (asText(part.data) === null && !imports.includes('import base64')) imports.unshift('import base64');
+        files.push(`    (${quote(part.name)}, ${pythonFile(part)}),`);
+      } else {
+        const values = fields.get(part.name) ?? [];
+        values.push(asText(part.data) ?? '');
+        fields.set(part.name, values);
+      }
+    }
+    if (fields.size > 0) {
+      const lines = Array.from(fields.entries()).map(([name, values]) =>
+        values.length === 1
+          ? `    ${quote(name)}: ${quote(values[0])},`
+          : `    ${quote(name)}: [${values.map(quote).join(', ')}],`
+      );
+      sections.push(`data = {\n${lines.join('\n')}\n}`);
+      args.push('data=data');
+    }
+    if (files.length > 0) {
+      sections.push(`files = [\n${files.join('\n')}\n]`);
+      args.push('files=files');
+    }
+    notes.push('httpx builds the multipart body with a new boundary and sends form fields before files.');
+  }
+
+  let call = `response = httpx.request(${args.join(', ')})`;
+  if (model.http2) {
+    call = `with httpx.Client(http2=True) as client:\n    response = client.request(${args.join(', ')})`;
+    notes.push('HTTP/2 support requires the h2 extra: pip install "httpx[http2]".');
+  }
+
+  return {
+    target: 'python-httpx',
+    language: 'python',
+    code: [
+      imports.join('\n'),
+      sections.join('\n'),
+      `${call}\nprint(response.status_code)\nprint(response.text)`,
+    ].join('\n\n') + '\n',
+    notes,
+  };
+}
+
+function jsHeaders(headers: Array<[string, string]>, indent: string): string {
+  const lines = headers.map(([name, value]) => `${indent}  ${quote(name)}: ${quote(value)},`);
+  return `{\n${lines.join('\n')}\n${indent}}`;
+}
+
+function jsFormData(parts: MultipartPart[], bytes: (data: Buffer) => string): string {
+  const lines = ['const form = new FormData();'];
+  for (const part of parts) {
+    if (isFilePart(part)) {
+      const text = asText(part.data);
+      const content = text !== null ? quote(text) : bytes(part.data);
+      const options = part.contentType ? `, { type: ${quote(part.contentType)} }` : '';
+      lines.push(`form.append(${quote(part.name)}, new Blob([${content}]${options}), ${quote(partFilename(part))});`);
+    } else {
+      lines.push(`form.append(${quote(part.name)}, ${quote(asText(part.data) ?? '')});`);
+    }
+  }
+  return lines.join('\n');
+}
+
+function generateFetch(model: RequestModel): GeneratedCode {
+  const notes = [...model.notes];
+  const { body } = model;
+  const sections: string[] = [];
+  const options = [`  method: ${quote(model.method)},`];
+
+  // Works in browsers and Node.js alike, unlike Buffer
+  const bytes = (data: Buffer) => `Uint8Array.from(atob(${quote(data.toString('base64'))}), c => c.charCodeAt(0))`;
+
+  const headers = headerMap(headersWithCookies(model, { includeContentType: body.kind !== 'multipart' }));
+  if (headers.length > 0) options.push(`  headers: ${jsHeaders(headers, '  ')},`);
+
+  if (body.kind === 'text') {
+    options.push(`  body: ${quote(body.text)},`);
+  } else if (body.kind === 'binary') {
+    options.push(`  body: ${bytes(body.data)},`);
+  } else if (body.kind === 'multipart') {
+    sections.push(jsFormData(body.parts, bytes));
+    options.push('  body: form,');
+    notes.push('fetch builds the multipart body with a new boundary.');
+  }
+
+  if (model.cookies.length > 0) {
+    notes.push('Browsers refuse to set the Cookie header from fetch; run the snippet in Node.js or rely on credentials: "include".');
+  }
+
+  sections.push(
+    `const response = await fetch(${quote(model.url)}, {\n${options.join('\n')}\n});\n\n` +
+      'console.log(response.status);\nconsole.log(await response.text());'
+  );
+
+  return {
+    target: 'fetch',
+    language: 'javascript',
+    code: sections.join('\n\n') + '\n',
+    notes,
+  };
+}
+
+function generateUndici(model: RequestModel): GeneratedCode {
+  const notes = [...model.notes];
+  const { body } = model;
+  const sections: string[] = [];
+  const options = [`  method: ${quote(model.method)},`];
+
+  const bytes = (data: Buffer) => `Buffer.from(${quote(data.toString('base64'))}, "base64")`;
+
+  const headers = headerMap(headersWithCookies(model, { includeContentType: body.kind !== 'multipart' }));
+  if (headers.length > 0) options.push(`  headers: ${jsHeaders(headers, '  ')},`);
+
+  if (body.kind === 'text') {
+    options.push(`  body: ${quote(body.text)},`);
+  } else if (body.kind === 'binary') {
+    options.push(`  body: ${bytes(body.data)},`);
+  } else if (body.kind === 'multipart') {
+    sections.push(jsFormData(body.parts, bytes));
+    options.push('  body: form,');
+    notes.push('undici builds the multipart body with a new boundary.');
+  }
+
+  sections.unshift(`import { ${body.kind === 'multipart' ? 'FormData, request' : 'request'} } from "undici";`);
+  sections.push(
+    `const { statusCode, body } = await request(${quote(model.url)}, {\n${options.join('\n')}\n});\n\n` +
+      'console.log(statusCode);\nconsole.log(await body.text());'
+  );
+  if (model.http2) notes.push('undici.request uses HTTP/1.1 unless an Agent is created with allowH2: true.');
+
+  return {
+    target: 'undici',
+    language: 'javascript',
+    code: sections.join('\n\n') + '\n',
+    notes,
+  };
+}
+
+function generateOkHttp(model: RequestModel): GeneratedCode {
+  const notes = [...model.notes];
+  const { body } = model;
+  const imports = new Set(['okhttp3.OkHttpClient', 'okhttp3.Request']);
+  const sections: string[] = ['val client = OkHttpClient()'];
+
+  const bytes = (data: Buffer) => {
+    imports.add('java.util.Base64');
+    return `Base64.getDecoder().decode(${kotlinString(data.toString('base64'))})`;
+  };
+  const mediaType = (contentType: string | undefined) => {
+    if (!contentType) return 'null';
+    imports.add('okhttp3.MediaType.Companion.toMediaTypeOrNull');
+    return `${kotlinString(contentType)}.toMediaTypeOrNull()`;
+  };
+
+  // OkHttp sets Content-Type from the body's media type
+  const headers = headersWithCookies(model, { includeContentType: false });
+
+  let bodyArg: string | null = null;
+  if (body.kind === 'text' || body.kind === 'binary') {
+    imports.add('okhttp3.RequestBody.Companion.toRequestBody');
+    // toByteArray() keeps OkHttp from appending "; charset=utf-8" to the media type
+    const content = body.kind === 'text' ? `${kotlinString(body.text)}.toByteArray()` : bytes(body.data);
+    sections.push(`val body = ${content}.toRequestBody(${mediaType(model.contentType)})`);
+    bodyArg = 'body';
+  } else if (body.kind === 'multipart') {
+    imports.add('okhttp3.MultipartBody');
+    const lines = ['val body = MultipartBody.Builder()', '    .setType(MultipartBody.FORM)'];
+    for (const part of body.parts) {
+      if (isFilePart(part)) {
+        imports.add('okhttp3.RequestBody.Companion.toRequestBody');
+        const text = asText(part.data);
+        const content = text !== null ? `${kotlinString(text)}.toByteArray()` : bytes(part.data);
+        lines.push(
+          `    .addFormDataPart(${kotlinString(part.name)}, ${kotlinString(partFilename(part))}, ` +
+            `${content}.toRequestBody(${mediaType(part.contentType)}))`
+        );
+      } else {
+        lines.push(`    .addFormDataPart(${kotlinString(part.name)}, ${kotlinString(asText(part.data) ?? '')})`);
+      }
+    }
+    lines.push('    .build()');
+    sections.push(lines.join('\n'));
+    bodyArg = 'body';
+    notes.push('OkHttp builds the multipart body with a new boundary.');
+  } else if (BODY_METHODS.has(model.method)) {
+    imports.add('okhttp3.RequestBody.Companion.toRequestBody');
+    bodyArg = 'ByteArray(0).toRequestBody(null)';
+  }
+
+  const builder = ['val request = Request.Builder()', `    .url(${kotlinString(model.url)})`];
+  if (model.method === 'HEAD' && !bodyArg) {
+    builder.push('    .head()');
+  } else if (model.method !== 'GET' || bodyArg) {
+    builder.push(`    .method(${kotlinString(model.method)}, ${bodyArg ?? 'null'})`);
+  }
+  for (const header of headers) {
+    builder.push(`    .addHeader(${kotlinString(header.name)}, ${kotlinString(header.value)})`);
+  }
+  builder.push('    .build()');
+  sections.push(builder.join('\n'));
+
+  sections.push(
+    'client.newCall(request).execute().use { response ->\n' +
+      '    println(response.code)\n' +
+      '    println(response.body?.string())\n' +
+      '}'
+  );
+
+  const importLines = Array.from(imports)
+    .sort()
+    .map(name => `import ${name}`)
+    .join('\n');
+
+  return {
+    target: 'okhttp',
+    language: 'kotlin',
+    code: [importLines, ...sections].join('\n\n') + '\n',
+    notes,
+  };
+}
+
+function generateHttp(model: RequestModel): GeneratedCode {
+  const notes = [...model.notes];
+  const { body } = model;
+  const lines = [`${model.method} ${model.requestTarget} HTTP/1.1`, `Host: ${model.authority}`];
+
+  for (const header of headersWithCookies(model, { includeContentType: true })) {
+    lines.push(`${header.name}: ${header.value}`);
+  }
+
+  let payload = '';
+  if (body.kind !== 'none') {
+    lines.push(`Content-Length: ${body.data.length}`);
+    const text = body.kind === 'text' ? body.text : asText(body.data);
+    if (text !== null) {
+      payload = text;
+    } else {
+      payload = body.data.toString('base64');
+      notes.push(`The ${body.data.length}-byte binary body is shown base64-encoded; decode it before sending.`);
+    }
+  } else if (BODY_METHODS.has(model.method)) {
+    lines.push('Content-Length: 0');
+  }
+  if (model.http2) notes.push('The entry was captured over HTTP/2 and is shown as the equivalent HTTP/1.1 request.');
+
+  return {
+    target: 'http',
+    language: 'http',
+    code: lines.join('\r\n') + '\r\n\r\n' + payload,
+    notes,
+  };
+}
+
+/**
+ * Render the request of a captured entry as a runnable snippet for the given target.
+ */
+export function generateCode(entry: JsonlEntry, target: CodeTarget): GeneratedCode {
+  const model = buildModel(entry);
+
+  switch (target) {
+    case 'curl':
+      return generateCurl(model);
+    case 'python-requests':
+      return generatePythonRequests(model);
+    case 'python-httpx':
+      return generatePythonHttpx(model);
+    case 'fetch':
+      return generateFetch(model);
+    case 'undici':
+      return generateUndici(model);
+    case 'okhttp':
+      return generateOkHttp(model);
+    case 'http':
+      return generateHttp(model);
+  }
+}
@@ -0,0 +1,172 @@
+import { JsonlEntry } from '../types/traffic.js';
+import { HarCookie } from '../types/har.js';
+import { requestCookies, responseCookies } from '../utils/cookies.js';
+
+export interface CookieSet {
+  entryId: string;
+  timestamp: string;
+  url: string;
+  value: string;
+  expires?: string;
+  // The response expired the cookie (Max-Age <= 0 or an Expires date in the past)
+  deleted: boolean;
+}
+
+export interface JarCookie {
+  name: string;
+  // Domain without a leading dot; hostOnly cookies are sent to this exact host only
+  domain: string;
+  hostOnly: boolean;
+  path: string;
+  value: string;
+  expires?: string;
+  httpOnly: boolean;
+  secure: boolean;
+  sameSite?: string;
+  deleted: boolean;
+  // Responses that set the cookie, oldest first; empty when the client already had it
+  setBy: CookieSet[];
+  sentIn: {
+    count: number;
+    firstSeen?: string;
+    lastSeen?: string;
+    // Most recent requests that sent the cookie, newest last
+    entryIds: string[];
+  };
+  // Requests that sent a value other than the one last set
+  valueMismatches: number;
+}
+
+export interface CookieJarOptions {
+  // Keep the last N request IDs per cookie
+  maxEntryIds: number;
+}
+
+function hostOf(url: string): { host: string; path: string } {
+  try {
+    const parsed = new URL(url);
+    return { host: parsed.hostname.toLowerCase(), path: parsed.pathname || '/' };
+  } catch {
+    return { host: '', path: '/' };
+  }
+}
+
+/**
+ * RFC 6265 default-path: the request path up to, not including, its last '/'.
+ */
+function defaultPath(requestPath: string): string {
+  const slash = requestPath.lastIndexOf('/');
+  return slash <= 0 ? '/' : requestPath.slice(0, slash);
+}
+
+function domainMatches(cookie: JarCookie, host: string): boolean {
+  return cookie.hostOnly ? host === cookie.domain : host === cookie.domain || host.endsWith(`.${cookie.domain}`);
+}
+
+function pathMatches(cookiePath: string, requestPath: string): boolean {
+  if (requestPath === cookiePath) return true;
+  return requestPath.startsWith(cookiePath) &&
+    (cookiePath.endsWith('/') || requestPath[cookiePath.length] === '/');
+}
+
+/**
+ * Rebuilds a session's cookie jar from captured traffic: which response set each cookie,
+ * how its value changed and which requests sent it. Entries must be added in capture order.
+ */
+export class CookieJarBuilder {
+  private cookies = new Map<string, JarCookie>();
+
+  constructor(private options: CookieJarOptions) {}
+
+  add(entry: JsonlEntry): void {
+    const { host, path } = hostOf(entry.request.url);
+    if (!host) return;
+
+    for (const sent of requestCookies(entry.request.headers)) {
+      this.recordSent(entry, sent, host, path);
+    }
+    for (const set of responseCookies(entry.response.headers, entry.timestampMs)) {
+      this.recordSet(entry, set, host, path);
+    }
+  }
+
+  /**
+   * The jar, grouped by domain and then by name.
+   */
+  build(): JarCookie[] {
+    return [...this.cookies.values()].sort((a, b) =>
+      a.domain.localeCompare(b.domain) || a.name.localeCompare(b.name) || a.path.localeCompare(b.path)
+    );
+  }
+
+  private recordSet(entry: JsonlEntry, set: HarCookie, host: string, requestPath: string): void {
+    const domain = set.domain?.replace(/^\./, '').toLowerCase();
+    const hostOnly = !domain;
+    const path = set.path?.startsWith('/') ? set.path : defaultPath(requestPath);
+    const key = `${set.name}|${domain ?? host}|${path}`;
+
+    const deleted = set.expires !== undefined && Date.parse(set.expires) <= entry.timestampMs;
+    const cookie = this.cookies.get(key) ?? this.newCookie(set.name, domain ?? host, hostOnly, path);
+    Object.assign(cookie, {
+      value: set.value,
+      expires: set.expires,
+      httpOnly: set.httpOnly ?? false,
+      secure: set.secure ?? false,
+      sameSite: set.sameSite,
+      deleted,
+    });
+    cookie.setBy.push({
+      entryId: entry.id,
+      timestamp: entry.timestamp,
+      url: entry.request.url,
+      value: set.value,
+      expires: set.expires,
+      deleted,
+    });
+    this.cookies.set(key, cookie);
+  }
+
+  private recordSent(entry: JsonlEntry, sent: HarCookie, host: string, requestPath: string): void {
+    // Of the cookies the client could have sent under this name, the most specific path wins
+    let cookie: JarCookie | undefined;
+    for (const candidate of this.cookies.values()) {
+      if (candidate.name !== sent.name || !domainMatches(candidate, host) || !pathMatches(candidate.path, requestPath)) {
+        continue;
+      }
+      if (!cookie || candidate.path.length > cookie.path.length) cookie = candidate;
+    }
+
+    if (!cookie) {
+      // The client had this cookie before the capture started (or got it from elsewhere)
+      cookie = this.newCookie(sent.name, host, true, '/');
+      cookie.value = sent.value;
+      this.cookies.set(`${sent.name}|${host}|/`, cookie);
+    }
+
+    if (cookie.setBy.length > 0 && sent.value !== cookie.value) {
+      cookie.valueMismatches++;
+    }
+    const sentIn = cookie.sentIn;
+    sentIn.count++;
+    sentIn.firstSeen ??= entry.timestamp;
+    sentIn.lastSeen = entry.timestamp;
+    sentIn.entryIds.push(entry.id);
+    if (sentIn.entryIds.length > this.options.maxEntryIds) sentIn.entryIds.shift();
+  }
+
+  private newCookie(name: string, domain: string, hostOnly: boolean, path: string): JarCookie {
+    return {
+      name,
+      domain,
+      hostOnly,
+      path,
+      value: '',
+      httpOnly: false,
+      secure: false,
+      deleted: false,
+      setBy: [],
+      sentIn: { count: 0, entryIds: [] },
+      valueMismatches: 0,
+    };
+  }
+}
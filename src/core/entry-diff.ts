@@ -0,0 +1,512 @@
+import * as crypto from 'crypto';
+import { isDeepStrictEqual } from 'util';
+import { BodyEncoding, JsonlEntry } from '../types/traffic.js';
+import { decodeBase64Body } from '../utils/body.js';
+import { formatJsonPointer } from '../utils/json-pointer.js';
+
+export interface DiffOptions {
+  // Header names, query parameter names, JSON keys or JSON pointers ("/a/*/b") to skip
+  ignore?: string[];
+  // Skip headers, parameters and JSON keys that change on every request (dates, nonces, trace IDs)
+  ignoreVolatile?: boolean;
+  contextLines?: number;
+  maxChanges?: number;
+}
+
+export interface DiffItem {
+  path: string;
+  change: 'added' | 'removed' | 'changed';
+  left?: unknown;
+  right?: unknown;
+}
+
+export interface BodyDiff {
+  identical: boolean;
+  mode: 'empty' | 'json' | 'text' | 'binary';
+  leftSize: number;
+  rightSize: number;
+  // JSON bodies: changes by JSON pointer
+  changes?: DiffItem[];
+  // Text bodies: unified diff lines
+  unified?: string[];
+  // Binary bodies
+  leftSha256?: string;
+  rightSha256?: string;
+  truncated?: boolean;
+}
+
+export interface EntryDiff {
+  identical: boolean;
+  left: EntrySide;
+  right: EntrySide;
+  method?: { left: string; right: string };
+  url?: { left: string; right: string };
+  status?: { left: string; right: string };
+  query: DiffItem[];
+  requestHeaders: DiffItem[];
+  responseHeaders: DiffItem[];
+  requestBody: BodyDiff;
+  responseBody: BodyDiff;
+  // Differences suppressed by ignore rules
+  ignored: number;
+}
+
+interface EntrySide {
+  id: string;
+  timestamp: string;
+  method: string;
+  url: string;
+  status: number;
+}
+
+const VOLATILE_HEADERS = new Set([
+  'date',
+  'expires',
+  'last-modified',
+  'age',
+  'etag',
+  'if-none-match',
+  'if-modified-since',
+  'content-length',
+  'x-request-id',
+  'x-correlation-id',
+  'x-trace-id',
+  'request-id',
+  'traceparent',
+  'tracestate',
+  'x-b3-traceid',
+  'x-b3-spanid',
+  'x-b3-parentspanid',
+  'x-cloud-trace-context',
+  'x-amzn-trace-id',
+  'x-amzn-requestid',
+  'x-amz-request-id',
+  'x-amz-cf-id',
+  'cf-ray',
+  'x-runtime',
+  'x-response-time',
+  'server-timing',
+  'x-served-by',
+  'x-timer',
+  'x-cache',
+  'x-cache-hits',
+  'report-to',
+  'nel',
+]);
+
+// Compared after lowercasing and dropping "_" and "-"
+const VOLATILE_KEYS = new Set([
+  '',
+  'ts',
+  'time',
+  'date',
+  'now',
+  'cb',
+  'cachebuster',
+  'createdat',
+  'updatedat',
+  'modifiedat',
+  'lastmodified',
+  'expires',
+  'expiresat',
+  'expiresin',
+  'requestid',
+  'traceid',
+  'spanid',
+  'correlationid',
+  'csrf',
+  'csrftoken',
+  'xsrftoken',
+  'signature',
+  'sig',
+]);
+
+function isVolatileKey(key: string): boolean {
+  const normalized = key.toLowerCase().replace(/[-_]/g, '');
+  return VOLATILE_KEYS.has(normalized) || normalized.endsWith('timestamp') || normalized.endsWith('nonce');
+}
+
+function globToRegExp(glob: string, segment: string): string {
+  return glob
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join(segment);
+}
+
+class IgnoreRules {
+  private readonly names: RegExp[] = [];
+  private readonly pointers: RegExp[] = [];
+  count = 0;
+
+  constructor(patterns: string[], private readonly volatile: boolean) {
+    for (const pattern of patterns) {
+      if (pattern.startsWith('/')) {
+        // A pointer also covers everything below it
+        this.pointers.push(new RegExp(`^${globToRegExp(pattern, '[^/]*')}(?:/.*)?$`));
+      } else {
+        this.names.push(new RegExp(`^${globToRegExp(pattern, '.*')}$`, 'i'));
+      }
+    }
+  }
+
+  header(name: string): boolean {
+    return (this.volatile && VOLATILE_HEADERS.has(name)) || this.names.some(re => re.test(name));
+  }
+
+  key(name: string): boolean {
+    return (this.volatile && isVolatileKey(name)) || this.names.some(re => re.test(name));
+  }
+
+  pointer(pointer: string): boolean {
+    return this.pointers.some(re => re.test(pointer));
+  }
+}
+
+class ChangeList {
+  readonly items: DiffItem[] = [];
+  truncated = false;
+
+  constructor(private readonly max: number) {}
+
+  push(item: DiffItem): void {
+    if (this.items.length < this.max) {
+      this.items.push(item);
+    } else {
+      this.truncated = true;
+    }
+  }
+}
+
+function groupValues(pairs: Array<{ name: string; value: string }>, caseInsensitive: boolean): Map<string, string[]> {
+  const groups = new Map<string, string[]>();
+  for (const { name, value } of pairs) {
+    const key = caseInsensitive ? name.toLowerCase() : name;
+    const values = groups.get(key) ?? [];
+    values.push(value);
+    groups.set(key, values);
+  }
+  return groups;
+}
+
+function single(values: string[]): string | string[] {
+  return values.length === 1 ? values[0] : values;
+}
+
+// Order-insensitive comparison of repeated name/value pairs; header names are case-insensitive
+function diffPairs(
+  left: Array<{ name: string; value: string }>,
+  right: Array<{ name: string; value: string }>,
+  kind: 'header' | 'query',
+  rules: IgnoreRules,
+  max: number
+): DiffItem[] {
+  const caseInsensitive = kind === 'header';
+  const leftGroups = groupValues(left, caseInsensitive);
+  const rightGroups = groupValues(right, caseInsensitive);
+  const names = Array.from(new Set([...leftGroups.keys(), ...rightGroups.keys()])).sort();
+  const changes = new ChangeList(max);
+
+  for (const name of names) {
+    const leftValues = leftGroups.get(name);
+    const rightValues = rightGroups.get(name);
+    const same =
+      leftValues !== undefined &&
+      rightValues !== undefined &&
+      isDeepStrictEqual([...leftValues].sort(), [...rightValues].sort());
+    if (same) continue;
+    if (kind === 'header' ? rules.header(name) : rules.key(name)) {
+      rules.count++;
+      continue;
+    }
+
+    if (!leftValues) {
+      changes.push({ path: name, change: 'added', right: single(rightValues!) });
+    } else if (!rightValues) {
+      changes.push({ path: name, change: 'removed', left: single(leftValues) });
+    } else {
+      changes.push({ path: name, change: 'changed', left: single(leftValues), right: single(rightValues) });
+    }
+  }
+
+  return changes.items;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function diffJson(
+  left: unknown,
+  right: unknown,
+  path: Array<string | number>,
+  rules: IgnoreRules,
+  changes: ChangeList
+): void {
+  if (isDeepStrictEqual(left, right)) return;
+
+  const pointer = formatJsonPointer(path);
+  const last = path[path.length - 1];
+  if (rules.pointer(pointer) || (typeof last === 'string' && rules.key(last))) {
+    rules.count++;
+    return;
+  }
+
+  if (Array.isArray(left) && Array.isArray(right)) {
+    for (let i = 0; i < Math.max(left.length, right.length); i++) {
+      if (i >= left.length) {
+        diffAddedOrRemoved([...path, i], 'added', right[i], rules, changes);
+      } else if (i >= right.length) {
+        diffAddedOrRemoved([...path, i], 'removed', left[i], rules, changes);
+      } else {
+        diffJson(left[i], right[i], [...path, i], rules, changes);
+      }
+    }
+    return;
+  }
+
+  if (isPlainObject(left) && isPlainObject(right)) {
+    const keys = new Set([...Object.keys(left), ...Object.keys(right)]);
+    for (const key of keys) {
+      if (!Object.prototype.hasOwnProperty.call(right, key)) {
+        diffAddedOrRemoved([...path, key], 'removed', left[key], rules, changes);
+      } else if (!Object.prototype.hasOwnProperty.call(left, key)) {
+        diffAddedOrRemoved([...path, key], 'added', right[key], rules, changes);
+      } else {
+        diffJson(left[key], right[key], [...path, key], rules, changes);
+      }
+    }
+    return;
+  }
+
+  changes.push({ path: pointer, change: 'changed', left, right });
+}
+
+function diffAddedOrRemoved(
+  path: Array<string | number>,
+  change: 'added' | 'removed',
+  value: unknown,
+  rules: IgnoreRules,
+  changes: ChangeList
+): void {
+  const pointer = formatJsonPointer(path);
+  const last = path[path.length - 1];
+  if (rules.pointer(pointer) || (typeof last === 'string' && rules.key(last))) {
+    rules.count++;
+    return;
+  }
+  changes.push(change === 'added' ? { path: pointer, change, right: value } : { path: pointer, change, left: value });
+}
+
+// Longest-common-subsequence tables beyond this many cells fall back to replacing the region
+const MAX_LCS_CELLS = 4_000_000;
+
+type LineOp = { op: ' ' | '-' | '+'; line: string; leftNo: number; rightNo: number };
+
+function diffLines(left: string[], right: string[]): LineOp[] {
+  let start = 0;
+  while (start < left.length && start < right.length && left[start] === right[start]) start++;
+  let leftEnd = left.length;
+  let rightEnd = right.length;
+  while (leftEnd > start && rightEnd > start && left[leftEnd - 1] === right[rightEnd - 1]) {
+    leftEnd--;
+    rightEnd--;
+  }
+
+  const ops: LineOp[] = [];
+  for (let i = 0; i < start; i++) ops.push({ op: ' ', line: left[i], leftNo: i, rightNo: i });
+
+  const n = leftEnd - start;
+  const m = rightEnd - start;
+  if ((n + 1) * (m + 1) <= MAX_LCS_CELLS) {
+    // lcs[i][j] = LCS length of left[start+i..leftEnd) and right[start+j..rightEnd)
+    const width = m + 1;
+    const lcs = new Uint32Array((n + 1) * width);
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lcs[i * width + j] =
+          left[start + i] === right[start + j]
+            ? lcs[(i + 1) * width + j + 1] + 1
+            : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < n || j < m) {
+      if (i < n && j < m && left[start + i] === right[start + j]) {
+        ops.push({ op: ' ', line: left[start + i], leftNo: start + i, rightNo: start + j });
+        i++;
+        j++;
+      } else if (i < n && (j === m || lcs[(i + 1) * width + j] >= lcs[i * width + j + 1])) {
+        ops.push({ op: '-', line: left[start + i], leftNo: start + i, rightNo: start + j });
+        i++;
+      } else {
+        ops.push({ op: '+', line: right[start + j], leftNo: start + i, rightNo: start + j });
+        j++;
+      }
+    }
+  } else {
+    for (let i = start; i < leftEnd; i++) ops.push({ op: '-', line: left[i], leftNo: i, rightNo: start });
+    for (let j = start; j < rightEnd; j++) ops.push({ op: '+', line: right[j], leftNo: leftEnd, rightNo: j });
+  }
+
+  for (let i = leftEnd, j = rightEnd; i < left.length; i++, j++) {
+    ops.push({ op: ' ', line: left[i], leftNo: i, rightNo: j });
+  }
+  return ops;
+}
+
+function unifiedHunks(ops: LineOp[], context: number, maxChangedLines: number): { lines: string[]; truncated: boolean } {
+  const lines: string[] = [];
+  let changed = 0;
+  let index = 0;
+
+  while (index < ops.length) {
+    while (index < ops.length && ops[index].op === ' ') index++;
+    if (index >= ops.length) break;
+
+    // Extend the hunk while changes are separated by at most 2 * context unchanged lines
+    const hunkStart = Math.max(0, index - context);
+    let hunkEnd = index;
+    let gap = 0;
+    for (let k = index; k < ops.length; k++) {
+      if (ops[k].op === ' ') {
+        gap++;
+        if (gap > context * 2) break;
+      } else {
+        gap = 0;
+        hunkEnd = k;
+      }
+    }
+    const end = Math.min(ops.length, hunkEnd + context + 1);
+    const hunk = ops.slice(hunkStart, end);
+    const leftCount = hunk.filter(op => op.op !== '+').length;
+    const rightCount = hunk.filter(op => op.op !== '-').length;
+    lines.push(`@@ -${hunk[0].leftNo + 1},${leftCount} +${hunk[0].rightNo + 1},${rightCount} @@`);
+    for (const op of hunk) {
+      if (op.op !== ' ' && ++changed > maxChangedLines) {
+        return { lines, truncated: true };
+      }
+      lines.push(`${op.op}${op.line}`);
+    }
+    index = end;
+  }
+
+  return { lines, truncated: false };
+}
+
+function parseJson(text: string): { ok: true; value: unknown } | { ok: false } {
+  const trimmed = text.trim();
+  if (!trimmed.startsWith('{') && !trimmed.startsWith('[')) return { ok: false };
+  try {
+    return { ok: true, value: JSON.parse(trimmed) };
+  } catch {
+    return { ok: false };
+  }
+}
+
+type StoredBody = { body?: string; bodyEncoding?: BodyEncoding };
+
+function diffBody(
+  leftMessage: StoredBody,
+  rightMessage: StoredBody,
+  rules: IgnoreRules,
+  options: Required<Pick<DiffOptions, 'contextLines' | 'maxChanges'>>
+): BodyDiff {
+  const left = leftMessage.body;
+  const right = rightMessage.body;
+  const leftBinary = left ? decodeBase64Body(left, leftMessage.bodyEncoding) : null;
+  const rightBinary = right ? decodeBase64Body(right, rightMessage.bodyEncoding) : null;
+  const leftData = leftBinary ?? Buffer.from(left ?? '', 'utf-8');
+  const rightData = rightBinary ?? Buffer.from(right ?? '', 'utf-8');
+  const sizes = { leftSize: leftData.length, rightSize: rightData.length };
+
+  if (leftData.length === 0 && rightData.length === 0) {
+    return { identical: true, mode: 'empty', ...sizes };
+  }
+
+  if (leftBinary || rightBinary) {
+    const leftSha256 = crypto.createHash('sha256').update(leftData).digest('hex');
+    const rightSha256 = crypto.createHash('sha256').update(rightData).digest('hex');
+    return { identical: leftSha256 === rightSha256, mode: 'binary', ...sizes, leftSha256, rightSha256 };
+  }
+
+  const leftJson = parseJson(left ?? '');
+  const rightJson = parseJson(right ?? '');
+  if (leftJson.ok && rightJson.ok) {
+    const changes = new ChangeList(options.maxChanges);
+    diffJson(leftJson.value, rightJson.value, [], rules, changes);
+    return {
+      identical: changes.items.length === 0,
+      mode: 'json',
+      ...sizes,
+      changes: changes.items,
+      ...(changes.truncated ? { truncated: true } : {}),
+    };
+  }
+
+  if (left === right) {
+    return { identical: true, mode: 'text', ...sizes, unified: [] };
+  }
+  const ops = diffLines((left ?? '').split(/\r?\n/), (right ?? '').split(/\r?\n/));
+  const { lines, truncated } = unifiedHunks(ops, options.contextLines, options.maxChanges);
+  return { identical: false, mode: 'text', ...sizes, unified: lines, ...(truncated ? { truncated: true } : {}) };
+}
+
+function baseUrl(url: string): string {
+  return url.split(/[?#]/)[0];
+}
+
+function side(entry: JsonlEntry): EntrySide {
+  return {
+    id: entry.id,
+    timestamp: entry.timestamp,
+    method: entry.request.method,
+    url: entry.request.url,
+    status: entry.response.status,
+  };
+}
+
+/**
+ * Compare two captured entries: method, URL, query parameters, headers (order-insensitive),
+ * status and bodies (JSON by path, text line by line, binary by hash).
+ */
+export function diffEntries(left: JsonlEntry, right: JsonlEntry, options: DiffOptions = {}): EntryDiff {
+  const rules = new IgnoreRules(options.ignore ?? [], options.ignoreVolatile ?? false);
+  const limits = { contextLines: options.contextLines ?? 3, maxChanges: options.maxChanges ?? 200 };
+
+  const leftUrl = baseUrl(left.request.url);
+  const rightUrl = baseUrl(right.request.url);
+  const leftStatus = `${left.response.status} ${left.response.statusText}`.trim();
+  const rightStatus = `${right.response.status} ${right.response.statusText}`.trim();
+
+  const diff: EntryDiff = {
+    identical: false,
+    left: side(left),
+    right: side(right),
+    method:
+      left.request.method !== right.request.method
+        ? { left: left.request.method, right: right.request.method }
+        : undefined,
+    url: leftUrl !== rightUrl ? { left: leftUrl, right: rightUrl } : undefined,
+    status: leftStatus !== rightStatus ? { left: leftStatus, right: rightStatus } : undefined,
+    query: diffPairs(left.request.queryString, right.request.queryString, 'query', rules, limits.maxChanges),
+    requestHeaders: diffPairs(left.request.headers, right.request.headers, 'header', rules, limits.maxChanges),
+    responseHeaders: diffPairs(left.response.headers, right.response.headers, 'header', rules, limits.maxChanges),
+    requestBody: diffBody(left.request, right.request, rules, limits),
+    responseBody: diffBody(left.response, right.response, rules, limits),
+    ignored: 0,
+  };
+
+  diff.ignored = rules.count;
+  diff.identical =
+    !diff.method &&
+    !diff.url &&
+    !diff.status &&
+    diff.query.length === 0 &&
+    diff.requestHeaders.length === 0 &&
+    diff.responseHeaders.length === 0 &&
+    diff.requestBody.identical &&
+    diff.responseBody.identical;
+
+  return diff;
+}
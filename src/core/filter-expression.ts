@@ -0,0 +1,443 @@
+import { JsonlEntry } from '../types/traffic.js';
+import { MitmError, ErrorCode } from '../types/errors.js';
+import { decodeBase64Body } from '../utils/body.js';
+
+/**
+ * Parser and evaluator for mitmproxy-style filter expressions, e.g.
+ *   ~d api.example.com & ~m POST & !(~c 200 | ~c 204)
+ *
+ * Supported filters follow mitmproxy's semantics: regexes are case-insensitive,
+ * a bare value is a URL regex, and adjacent expressions are implicitly ANDed.
+ */
+
+export type FilterPredicate = (entry: JsonlEntry) => boolean;
+
+export type AsyncFilterPredicate = (entry: JsonlEntry) => Promise<boolean>;
+
+export type BodySide = 'request' | 'response';
+
+// Tests a body filter's regex against a body the entry keeps in a blob (bodySha256)
+export type BlobBodyTest = (entry: JsonlEntry, side: BodySide, re: RegExp) => Promise<boolean>;
+
+export type FilterNode =
+  | { type: 'and'; children: FilterNode[] }
+  | { type: 'or'; children: FilterNode[] }
+  | { type: 'not'; child: FilterNode }
+  | { type: 'filter'; code: string; value?: string };
+
+type Token =
+  | { kind: 'op'; value: '(' | ')' | '!' | '&' | '|'; pos: number }
+  | { kind: 'code'; value: string; pos: number }
+  | { kind: 'value'; value: string; pos: number };
+
+type FilterKind = 'none' | 'regex' | 'int';
+
+const FILTERS: Record<string, { kind: FilterKind; help: string }> = {
+  all: { kind: 'none', help: 'All flows' },
+  a: { kind: 'none', help: 'Asset content types (JavaScript, CSS, images, fonts)' },
+  http: { kind: 'none', help: 'HTTP flows' },
+  q: { kind: 'none', help: 'Requests without a response' },
+  s: { kind: 'none', help: 'Flows with a response' },
+  d: { kind: 'regex', help: 'Request host' },
+  u: { kind: 'regex', help: 'Request URL' },
+  m: { kind: 'regex', help: 'Request method' },
+  c: { kind: 'int', help: 'Response status code' },
+  h: { kind: 'regex', help: 'Request or response header ("name: value")' },
+  hq: { kind: 'regex', help: 'Request header' },
+  hs: { kind: 'regex', help: 'Response header' },
+  b: { kind: 'regex', help: 'Request or response body' },
+  bq: { kind: 'regex', help: 'Request body' },
+  bs: { kind: 'regex', help: 'Response body' },
+  t: { kind: 'regex', help: 'Request or response content type' },
+  tq: { kind: 'regex', help: 'Request content type' },
+  ts: { kind: 'regex', help: 'Response content type' },
+};
+
+const ASSET_TYPES = [
+  /text\/javascript/i,
+  /application\/x-javascript/i,
+  /application\/javascript/i,
+  /text\/css/i,
+  /image\/.*/i,
+  /font\/.*/i,
+  /application\/font.*/i,
+];
+
+function invalid(expression: string, message: string, pos?: number): MitmError {
+  return new MitmError(
+    ErrorCode.INVALID_ARGUMENT,
+    `Invalid filter expression: ${message}`,
+    { filter: expression, position: pos }
+  );
+}
+
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < expression.length) {
+    const ch = expression[i];
+
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    if (ch === '(' || ch === ')' || ch === '!' || ch === '&' || ch === '|') {
+      tokens.push({ kind: 'op', value: ch, pos: i });
+      i++;
+      continue;
+    }
+
+    if (ch === '~') {
+      const match = /^~([a-z]+)/.exec(expression.slice(i));
+      if (!match) {
+        throw invalid(expression, `expected filter name after '~'`, i);
+      }
+      tokens.push({ kind: 'code', value: match[1], pos: i });
+      i += match[0].length;
+      continue;
+    }
+
+    if (ch === '"' || ch === "'") {
+      const start = i;
+      let value = '';
+      i++;
+      while (i < expression.length && expression[i] !== ch) {
+        // Backslash escapes the quote character; other escapes are kept for the regex
+        if (expression[i] === '\\' && expression[i + 1] === ch) {
+          value += ch;
+          i += 2;
+          continue;
+        }
+        value += expression[i];
+        i++;
+      }
+      if (i >= expression.length) {
+        throw invalid(expression, 'unterminated quoted string', start);
+      }
+      i++;
+      tokens.push({ kind: 'value', value, pos: start });
+      continue;
+    }
+
+    // Unquoted value: runs until whitespace, a parenthesis, a quote or '~'
+    const start = i;
+    while (i < expression.length && !/[\s()~'"]/.test(expression[i])) {
+      i++;
+    }
+    tokens.push({ kind: 'value', value: expression.slice(start, i), pos: start });
+  }
+
+  return tokens;
+}
+
+class Parser {
+  private index = 0;
+
+  constructor(
+    private expression: string,
+    private tokens: Token[]
+  ) {}
+
+  parse(): FilterNode {
+    if (this.tokens.length === 0) {
+      throw invalid(this.expression, 'expression is empty');
+    }
+    const node = this.parseSequence();
+    const extra = this.peek();
+    if (extra) {
+      throw invalid(this.expression, `unexpected '${extra.value}'`, extra.pos);
+    }
+    return node;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.index];
+  }
+
+  private isOp(value: string): boolean {
+    const token = this.peek();
+    return token?.kind === 'op' && token.value === value;
+  }
+
+  // Adjacent expressions without an operator are ANDed, as in mitmproxy
+  private parseSequence(): FilterNode {
+    const children = [this.parseOr()];
+    while (this.peek() && !this.isOp(')')) {
+      children.push(this.parseOr());
+    }
+    return children.length === 1 ? children[0] : { type: 'and', children };
+  }
+
+  private parseOr(): FilterNode {
+    const children = [this.parseAnd()];
+    while (this.isOp('|')) {
+      this.index++;
+      children.push(this.parseAnd());
+    }
+    return children.length === 1 ? children[0] : { type: 'or', children };
+  }
+
+  private parseAnd(): FilterNode {
+    const children = [this.parseNot()];
+    while (this.isOp('&')) {
+      this.index++;
+      children.push(this.parseNot());
+    }
+    return children.length === 1 ? children[0] : { type: 'and', children };
+  }
+
+  private parseNot(): FilterNode {
+    if (this.isOp('!')) {
+      this.index++;
+      return { type: 'not', child: this.parseNot() };
+    }
+    return this.parseAtom();
+  }
+
+  private parseAtom(): FilterNode {
+    const token = this.peek();
+    if (!token) {
+      throw invalid(this.expression, 'unexpected end of expression', this.expression.length);
+    }
+    this.index++;
+
+    if (token.kind === 'op') {
+      if (token.value !== '(') {
+        throw invalid(this.expression, `unexpected '${token.value}'`, token.pos);
+      }
+      const node = this.parseSequence();
+      if (!this.isOp(')')) {
+        throw invalid(this.expression, `missing ')' for '(' at ${token.pos}`, token.pos);
+      }
+      this.index++;
+      return node;
+    }
+
+    // A naked value is a URL regex
+    if (token.kind === 'value') {
+      return { type: 'filter', code: 'u', value: token.value };
+    }
+
+    const spec = FILTERS[token.value];
+    if (!spec) {
+      throw invalid(
+        this.expression,
+        `unknown filter '~${token.value}' (supported: ${Object.keys(FILTERS).map(c => '~' + c).join(', ')})`,
+        token.pos
+      );
+    }
+
+    if (spec.kind === 'none') {
+      return { type: 'filter', code: token.value };
+    }
+
+    const value = this.peek();
+    if (!value || value.kind !== 'value') {
+      throw invalid(this.expression, `'~${token.value}' requires an argument`, token.pos);
+    }
+    this.index++;
+
+    if (spec.kind === 'int' && !/^\d+$/.test(value.value)) {
+      throw invalid(this.expression, `'~${token.value}' requires an integer, got '${value.value}'`, value.pos);
+    }
+
+    return { type: 'filter', code: token.value, value: value.value };
+  }
+}
+
+export function parseFilter(expression: string): FilterNode {
+  return new Parser(expression, tokenize(expression)).parse();
+}
+
+// The bodies each body filter looks at
+const BODY_FILTERS: Record<string, BodySide[]> = {
+  b: ['request', 'response'],
+  bq: ['request'],
+  bs: ['response'],
+};
+
+/**
+ * Whether an expression looks at request or response bodies (~b, ~bq, ~bs).
+ */
+export function filterReadsBodies(node: FilterNode): boolean {
+  switch (node.type) {
+    case 'and':
+    case 'or':
+      return node.children.some(filterReadsBodies);
+    case 'not':
+      return filterReadsBodies(node.child);
+    case 'filter':
+      return node.code in BODY_FILTERS;
+  }
+}
+
+function findHeader(headers: Array<{ name: string; value: string }>, name: string): string {
+  const lower = name.toLowerCase();
+  return headers.find(h => h.name.toLowerCase() === lower)?.value ?? '';
+}
+
+function renderHeaders(headers: Array<{ name: string; value: string }>): string {
+  return headers.map(h => `${h.name}: ${h.value}\r\n`).join('');
+}
+
+function requestHost(entry: JsonlEntry): string {
+  if (entry.request.host) return entry.request.host;
+  try {
+    return new URL(entry.request.url).hostname;
+  } catch {
+    return '';
+  }
+}
+
+function hasResponse(entry: JsonlEntry): boolean {
+  return entry.response.status > 0;
+}
+
+/**
+ * A stored body as matched by body filters. mitmproxy matches the raw bytes, so a base64
+ * body is decoded and matched as latin1 text, one character per byte.
+ */
+function bodyText({ body, bodyEncoding }: JsonlEntry['request'] | JsonlEntry['response']): string | undefined {
+  if (body === undefined) return undefined;
+  return decodeBase64Body(body, bodyEncoding)?.toString('latin1') ?? body;
+}
+
+function filterRegex(expression: string, code: string, value: string): RegExp {
+  try {
+    return new RegExp(value, 'is');
+  } catch (error) {
+    throw invalid(expression, `bad regex for '~${code}': ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+function compileNode(expression: string, node: FilterNode): FilterPredicate {
+  switch (node.type) {
+    case 'and': {
+      const children = node.children.map(c => compileNode(expression, c));
+      return (entry) => children.every(c => c(entry));
+    }
+    case 'or': {
+      const children = node.children.map(c => compileNode(expression, c));
+      return (entry) => children.some(c => c(entry));
+    }
+    case 'not': {
+      const child = compileNode(expression, node.child);
+      return (entry) => !child(entry);
+    }
+    case 'filter':
+      return compileFilter(expression, node.code, node.value);
+  }
+}
+
+function compileFilter(expression: string, code: string, value?: string): FilterPredicate {
+  if (code === 'c') {
+    const status = parseInt(value!, 10);
+    return (entry) => hasResponse(entry) && entry.response.status === status;
+  }
+
+  const re = value !== undefined ? filterRegex(expression, code, value) : undefined;
+  const test = (text: string | undefined): boolean => text !== undefined && re!.test(text);
+
+  switch (code) {
+    case 'all':
+    case 'http':
+      return () => true;
+    case 'a':
+      return (entry) => hasResponse(entry) && ASSET_TYPES.some(t => t.test(entry.response.contentType));
+    case 'q':
+      return (entry) => !hasResponse(entry);
+    case 's':
+      return hasResponse;
+    case 'd':
+      return (entry) => test(requestHost(entry));
+    case 'u':
+      return (entry) => test(entry.request.url);
+    case 'm':
+      return (entry) => test(entry.request.method);
+    case 'h':
+      return (entry) => test(renderHeaders(entry.request.headers)) || test(renderHeaders(entry.response.headers));
+    case 'hq':
+      return (entry) => test(renderHeaders(entry.request.headers));
+    case 'hs':
+      return (entry) => test(renderHeaders(entry.response.headers));
+    case 'b':
+    case 'bq':
+    case 'bs':
+      return (entry) => BODY_FILTERS[code].some(side => test(bodyText(entry[side])));
+    case 't':
+      return (entry) =>
+        test(findHeader(entry.request.headers, 'content-type')) || test(entry.response.contentType);
+    case 'tq':
+      return (entry) => test(findHeader(entry.request.headers, 'content-type'));
+    case 'ts':
+      return (entry) => test(entry.response.contentType);
+    default:
+      throw invalid(expression, `unknown filter '~${code}'`);
+  }
+}
+
+/**
+ * Parse a filter expression and compile it into a predicate over captured entries.
+ * Throws MitmError(INVALID_ARGUMENT) describing the first syntax error.
+ */
+export function compileFilterExpression(expression: string): FilterPredicate {
+  return compileNode(expression, parseFilter(expression));
+}
+
+function compileBodyNode(expression: string, node: FilterNode, testBlob: BlobBodyTest): AsyncFilterPredicate {
+  if (!filterReadsBodies(node)) {
+    const matches = compileNode(expression, node);
+    return async (entry) => matches(entry);
+  }
+
+  switch (node.type) {
+    case 'and': {
+      const children = node.children.map(c => compileBodyNode(expression, c, testBlob));
+      return async (entry) => {
+        for (const child of children) {
+          if (!(await child(entry))) return false;
+        }
+        return true;
+      };
+    }
+    case 'or': {
+      const children = node.children.map(c => compileBodyNode(expression, c, testBlob));
+      return async (entry) => {
+        for (const child of children) {
+          if (await child(entry)) return true;
+        }
+        return false;
+      };
+    }
+    case 'not': {
+      const child = compileBodyNode(expression, node.child, testBlob);
+      return async (entry) => !(await child(entry));
+    }
+    case 'filter': {
+      const re = filterRegex(expression, node.code, node.value!);
+      return async (entry) => {
+        for (const side of BODY_FILTERS[node.code]) {
+          const message = entry[side];
+          if (message.bodySha256) {
+            if (await testBlob(entry, side, re)) return true;
+          } else {
+            const text = bodyText(message);
+            if (text !== undefined && re.test(text)) return true;
+          }
+        }
+        return false;
+      };
+    }
+  }
+}
+
+/**
+ * Like compileFilterExpression, for entries that may keep bodies in blobs: body filters hand
+ * those bodies to testBlob. Evaluation stops as soon as the result is known, so a blob is
+ * only read when the rest of the expression leaves its entry undecided.
+ */
+export function compileBodyFilterExpression(expression: string, testBlob: BlobBodyTest): AsyncFilterPredicate {
+  return compileBodyNode(expression, parseFilter(expression), testBlob);
+}
@@ -0,0 +1,145 @@
+import * as fs from 'fs';
+import { JsonlEntry } from '../types/traffic.js';
+import { HarCreator, HarLogEntry, HarPage } from '../types/har.js';
+import { decodeBase64Body } from '../utils/body.js';
+import { requestCookies, responseCookies } from '../utils/cookies.js';
+import { buildPostData } from './post-data.js';
+
+export interface HarExportOptions {
+  creator: HarCreator;
+  pageTitle: string;
+  includeBodies: boolean;
+}
+
+const PAGE_ID = 'page_1';
+
+function findHeaders(headers: Array<{ name: string; value: string }>, name: string): string[] {
+  const lower = name.toLowerCase();
+  return headers.filter(h => h.name.toLowerCase() === lower).map(h => h.value);
+}
+
+/**
+ * Convert a captured entry into a HAR 1.2 log entry.
+ */
+export function toHarLogEntry(entry: JsonlEntry, options: { pageref?: string; includeBodies: boolean }): HarLogEntry {
+  const { request, response } = entry;
+
+  const postData = buildPostData(request, { text: options.includeBodies, params: options.includeBodies });
+
+  const content: HarLogEntry['response']['content'] = {
+    size: response.bodySize,
+    mimeType: response.contentType || 'x-unknown',
+  };
+  if (options.includeBodies && response.body) {
+    content.text = response.body;
+    if (decodeBase64Body(response.body, response.bodyEncoding)) content.encoding = 'base64';
+  }
+
+  // HAR counts the TLS handshake as part of connect, the addon reports it separately
+  const { timings } = entry;
+  const connect = (timings.connect || 0) + (timings.ssl || 0);
+  const harTimings = {
+    blocked: timings.blocked || 0,
+    dns: timings.dns || 0,
+    connect,
+    ssl: timings.ssl || 0,
+    send: Math.max(0, timings.send || 0),
+    wait: Math.max(0, timings.wait || 0),
+    receive: Math.max(0, timings.receive || 0),
+  };
+
+  const time = harTimings.blocked + harTimings.dns + connect + harTimings.send + harTimings.wait + harTimings.receive;
+
+  // The addon stamps entries when the response completes; HAR wants the request start
+  const harEntry: HarLogEntry = {
+    startedDateTime: new Date(entry.timestampMs - time).toISOString(),
+    time,
+    request: {
+      method: request.method,
+      url: request.url,
+      httpVersion: request.httpVersion,
+      cookies: requestCookies(request.headers),
+      headers: request.headers,
+      queryString: request.queryString,
+      headersSize: -1,
+      bodySize: request.bodySize,
+      postData,
+    },
+    response: {
+      status: response.status,
+      statusText: response.statusText,
+      httpVersion: response.httpVersion,
+      cookies: responseCookies(response.headers, entry.timestampMs),
+      headers: response.headers,
+      content,
+      redirectURL: findHeaders(response.headers, 'location')[0] ?? '',
+      headersSize: -1,
+      bodySize: response.bodySize,
+    },
+    cache: {},
+    timings: harTimings,
+    _id: entry.id,
+  };
+
+  if (options.pageref) harEntry.pageref = options.pageref;
+  if (entry.serverIPAddress) harEntry.serverIPAddress = entry.serverIPAddress;
+  if (entry.connection?.serverConnectionId) harEntry.connection = entry.connection.serverConnectionId;
+
+  return harEntry;
+}
+
+/**
+ * Streams a HAR 1.2 log to disk one entry at a time, so large sessions are never held
+ * in memory. All exported entries belong to a single page.
+ */
+export class HarWriter {
+  private fd: number | null = null;
+  private count = 0;
+  private firstStartedDateTime: string | null = null;
+
+  constructor(
+    private outputPath: string,
+    private options: HarExportOptions
+  ) {}
+
+  open(): void {
+    this.fd = fs.openSync(this.outputPath, 'w');
+    const header = JSON.stringify({ version: '1.2', creator: this.options.creator });
+    // Emit the log object up to the entries array; pages follow once the first entry is known
+    fs.writeSync(this.fd, `{"log":${header.slice(0, -1)},"entries":[\n`);
+  }
+
+  write(entry: JsonlEntry): void {
+    if (this.fd === null) throw new Error('HAR writer is not open');
+    const harEntry = toHarLogEntry(entry, { pageref: PAGE_ID, includeBodies: this.options.includeBodies });
+    if (this.firstStartedDateTime === null) this.firstStartedDateTime = harEntry.startedDateTime;
+    fs.writeSync(this.fd, (this.count > 0 ? ',\n' : '') + JSON.stringify(harEntry));
+    this.count++;
+  }
+
+  close(): number {
+    if (this.fd === null) return this.count;
+    const pages: HarPage[] = this.firstStartedDateTime
+      ? [{
+          startedDateTime: this.firstStartedDateTime,
+          id: PAGE_ID,
+          title: this.options.pageTitle,
+          pageTimings: {},
+        }]
+      : [];
+    fs.writeSync(this.fd, `\n],"pages":${JSON.stringify(pages)}}}\n`);
+    fs.closeSync(this.fd);
+    this.fd = null;
+    return this.count;
+  }
+
+  /**
+   * Close the file after a failed export without completing the log.
+   */
+  abort(): void {
+    if (this.fd !== null) {
+      fs.closeSync(this.fd);
+      this.fd = null;
+    }
+  }
+}
@@ -1,4 +1,25 @@
 export * from './state-client.js';
+export * from './session-watcher.js';
 export * from './process-supervisor.js';
+export * from './mitmdump-startup.js';
 export * from './traffic-store.js';
+export * from './blob-store.js';
+export * from './filter-expression.js';
+export * from './traffic-search.js';
+export * from './traffic-summary.js';
+export * from './path-template.js';
+export * from './json-schema.js';
+export * from './openapi-builder.js';
+export * from './post-data.js';
+export * from './har-export.js';
+export * from './traffic-import.js';
+export * from './code-generator.js';
+export * from './request-replay.js';
+export * from './entry-diff.js';
+export * from './rule-set.js';
+export * from './breakpoints.js';
+export * from './network-conditions.js';
+export * from './proxy-mode.js';
+export * from './tls-failures.js';
+export * from './cookie-jar.js';
 export * from './proxy-manager.js';
@@ -0,0 +1,167 @@
+/**
+ * Minimal JSON Schema inference from example values, as used in OpenAPI 3.1 documents.
+ * Schemas inferred from several examples are merged: properties missing from some
+ * examples become optional, and differing types become a type union or anyOf.
+ */
+
+export interface JsonSchema {
+  type?: string | string[];
+  format?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  anyOf?: JsonSchema[];
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const DATE_TIME_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const EMAIL_PATTERN = /^[^@\s]+@[^@\s]+\.[^@\s]+$/;
+const URI_PATTERN = /^[a-z][a-z0-9+.-]*:\/\/\S+$/i;
+
+function stringFormat(value: string): string | undefined {
+  if (UUID_PATTERN.test(value)) return 'uuid';
+  if (DATE_TIME_PATTERN.test(value)) return 'date-time';
+  if (DATE_PATTERN.test(value)) return 'date';
+  if (EMAIL_PATTERN.test(value)) return 'email';
+  if (URI_PATTERN.test(value)) return 'uri';
+  return undefined;
+}
+
+export function inferSchema(value: unknown): JsonSchema {
+  if (value === null || value === undefined) {
+    return { type: 'null' };
+  }
+  if (Array.isArray(value)) {
+    const items = value.reduce<JsonSchema | undefined>(
+      (merged, item) => (merged ? mergeSchemas(merged, inferSchema(item)) : inferSchema(item)),
+      undefined
+    );
+    return items ? { type: 'array', items } : { type: 'array' };
+  }
+  switch (typeof value) {
+    case 'object': {
+      const properties: Record<string, JsonSchema> = {};
+      for (const [key, child] of Object.entries(value as Record<string, unknown>)) {
+        properties[key] = inferSchema(child);
+      }
+      return { type: 'object', properties, required: Object.keys(properties) };
+    }
+    case 'boolean':
+      return { type: 'boolean' };
+    case 'number':
+      return { type: Number.isInteger(value) ? 'integer' : 'number' };
+    case 'string': {
+      const format = stringFormat(value as string);
+      return format ? { type: 'string', format } : { type: 'string' };
+    }
+    default:
+      return {};
+  }
+}
+
+/**
+ * Infer a schema for a scalar that arrived as a string (query, path or header value).
+ */
+export function inferScalarSchema(value: string): JsonSchema {
+  if (/^-?\d+$/.test(value) && value.length < 16) return { type: 'integer' };
+  if (/^-?\d+\.\d+$/.test(value)) return { type: 'number' };
+  if (value === 'true' || value === 'false') return { type: 'boolean' };
+  const format = stringFormat(value);
+  return format ? { type: 'string', format } : { type: 'string' };
+}
+
+function typesOf(schema: JsonSchema): string[] {
+  if (schema.type === undefined) return [];
+  return Array.isArray(schema.type) ? schema.type : [schema.type];
+}
+
+function isNullable(schema: JsonSchema): boolean {
+  return typesOf(schema).includes('null');
+}
+
+function withoutNull(schema: JsonSchema): JsonSchema {
+  const types = typesOf(schema).filter(t => t !== 'null');
+  return { ...schema, type: types.length === 1 ? types[0] : types.length === 0 ? undefined : types };
+}
+
+function withNull(schema: JsonSchema): JsonSchema {
+  if (schema.anyOf) {
+    return schema.anyOf.some(isNullable) ? schema : { anyOf: [...schema.anyOf, { type: 'null' }] };
+  }
+  const types = typesOf(schema);
+  if (types.length === 0 || types.includes('null')) return schema;
+  return { ...schema, type: [...types, 'null'] };
+}
+
+function primaryType(schema: JsonSchema): string | undefined {
+  return typesOf(schema).find(t => t !== 'null');
+}
+
+function mergeSameKind(a: JsonSchema, b: JsonSchema): JsonSchema {
+  const type = primaryType(a)!;
+  switch (type) {
+    case 'object': {
+      const properties: Record<string, JsonSchema> = { ...a.properties };
+      for (const [key, schema] of Object.entries(b.properties ?? {})) {
+        properties[key] = properties[key] ? mergeSchemas(properties[key], schema) : schema;
+      }
+      const requiredB = new Set(b.required ?? []);
+      const required = (a.required ?? []).filter(key => requiredB.has(key));
+      return { type: 'object', properties, required };
+    }
+    case 'array': {
+      if (a.items && b.items) return { type: 'array', items: mergeSchemas(a.items, b.items) };
+      const items = a.items ?? b.items;
+      return items ? { type: 'array', items } : { type: 'array' };
+    }
+    case 'string':
+      return a.format && a.format === b.format ? { type: 'string', format: a.format } : { type: 'string' };
+    default:
+      return { type };
+  }
+}
+
+function kindsMatch(a: JsonSchema, b: JsonSchema): boolean {
+  return primaryType(a) === primaryType(b);
+}
+
+export function mergeSchemas(a: JsonSchema, b: JsonSchema): JsonSchema {
+  const nullable = isNullable(a) || isNullable(b);
+  const ta = primaryType(a);
+  const tb = primaryType(b);
+
+  // A bare null only contributes nullability
+  if (!a.anyOf && ta === undefined) return nullable ? withNull(b) : b;
+  if (!b.anyOf && tb === undefined) return nullable ? withNull(a) : a;
+
+  let merged: JsonSchema;
+  const options = [...(a.anyOf ?? [withoutNull(a)]), ...(b.anyOf ?? [withoutNull(b)])].filter(
+    o => primaryType(o) !== undefined
+  );
+  const combined: JsonSchema[] = [];
+  for (const option of options) {
+    // integer widens to number instead of producing a union
+    const numeric = (t?: string) => t === 'integer' || t === 'number';
+    const existing = combined.findIndex(
+      o => kindsMatch(o, option) || (numeric(primaryType(o)) && numeric(primaryType(option)))
+    );
+    if (existing === -1) {
+      combined.push(option);
+    } else if (kindsMatch(combined[existing], option)) {
+      combined[existing] = mergeSameKind(combined[existing], option);
+    } else {
+      combined[existing] = { type: 'number' };
+    }
+  }
+
+  if (combined.length === 1) {
+    merged = combined[0];
+  } else if (combined.every(o => !['object', 'array'].includes(primaryType(o)!))) {
+    merged = { type: combined.map(o => primaryType(o)!) };
+  } else {
+    merged = { anyOf: combined };
+  }
+
+  return nullable ? withNull(merged) : merged;
+}
@@ -0,0 +1,138 @@
+import * as net from 'net';
+import { execFile } from 'child_process';
+import { MitmError, ErrorCode } from '../types/errors.js';
+
+// Logged by har_capture.py once the proxy is listening; must match READY_MARKER there
+export const MITMDUMP_READY_MARKER = 'HAR capture ready';
+
+const VERSION_TIMEOUT_MS = 15000;
+const PORT_PROBE_INTERVAL_MS = 200;
+const PORT_PROBE_TIMEOUT_MS = 500;
+
+/**
+ * Run `mitmdump --version` and return the mitmproxy version it reports.
+ */
+export function getMitmdumpVersion(mitmdumpPath: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    execFile(mitmdumpPath, ['--version'], { timeout: VERSION_TIMEOUT_MS }, (error, stdout, stderr) => {
+      if (error) {
+        const code = (error as NodeJS.ErrnoException).code;
+        if (code === 'ENOENT' || code === 'EACCES') {
+          reject(new MitmError(
+            ErrorCode.MITMDUMP_NOT_FOUND,
+            `mitmdump not found or not executable: ${mitmdumpPath}. Install mitmproxy or set MITM_MITMDUMP_PATH`,
+            { mitmdumpPath, code }
+          ));
+        } else {
+          reject(new MitmError(
+            ErrorCode.MITMDUMP_START_FAILED,
+            `mitmdump --version failed: ${error.message}`,
+            { mitmdumpPath, output: tailLines(`${stdout}${stderr}`, 20) }
+          ));
+        }
+        return;
+      }
+      const version = /Mitmproxy:\s*(\S+)/i.exec(stdout)?.[1];
+      resolve(version ?? stdout.trim().split('\n')[0]);
+    });
+  });
+}
+
+function tailLines(text: string, count: number): string[] {
+  return text.split(/\r?\n/).filter(line => line.trim() !== '').slice(-count);
+}
+
+/**
+ * The most recent output of a process, kept in memory so a failed start can report it
+ * without waiting for the log file stream to flush.
+ */
+export class OutputTail {
+  private text = '';
+
+  constructor(private readonly maxChars = 16384) {}
+
+  push(data: string): void {
+    this.text = (this.text + data).slice(-this.maxChars);
+  }
+
+  includes(marker: string): boolean {
+    return this.text.includes(marker);
+  }
+
+  lines(count: number): string[] {
+    return tailLines(this.text, count);
+  }
+}
+
+function probePort(host: string, port: number): Promise<boolean> {
+  return new Promise((resolve) => {
+    const socket = net.connect({ host, port });
+    const done = (open: boolean) => {
+      socket.destroy();
+      resolve(open);
+    };
+    socket.setTimeout(PORT_PROBE_TIMEOUT_MS, () => done(false));
+    socket.once('connect', () => done(true));
+    socket.once('error', () => done(false));
+  });
+}
+
+/**
+ * Address to probe for a listen host: wildcard addresses are reached through loopback.
+ */
+function probeHost(listenHost: string): string {
+  if (listenHost === '0.0.0.0' || listenHost === '') return '127.0.0.1';
+  if (listenHost === '::') return '::1';
+  return listenHost;
+}
+
+export interface ReadinessOptions {
+  listenHost: string;
+  port: number;
+  timeoutMs: number;
+  output: OutputTail;
+  // Set once the process has exited
+  exitStatus: () => { code: number | null; signal: string | null } | null;
+}
+
+function exitedDuringStartup(exit: { code: number | null; signal: string | null }): MitmError {
+  return new MitmError(
+    ErrorCode.MITMDUMP_START_FAILED,
+    `mitmdump exited during startup with code ${exit.code}, signal ${exit.signal}`,
+    { exitCode: exit.code, signal: exit.signal }
+  );
+}
+
+/**
+ * Wait until mitmdump is ready: the addon logged MITMDUMP_READY_MARKER or the listen port
+ * accepts connections. Returns which of the two was seen first; throws if the process
+ * exits or timeoutMs passes first. The port must be free before mitmdump is spawned, or
+ * the process already listening there is taken for mitmdump.
+ */
+export async function waitForMitmdump(options: ReadinessOptions): Promise<'addon' | 'port'> {
+  const deadline = Date.now() + options.timeoutMs;
+  const host = probeHost(options.listenHost);
+
+  for (;;) {
+    if (options.output.includes(MITMDUMP_READY_MARKER)) return 'addon';
+
+    const exit = options.exitStatus();
+    if (exit) throw exitedDuringStartup(exit);
+
+    if (await probePort(host, options.port)) {
+      // Only mitmdump's own listener counts, so it must have outlived the probe
+      const exitAfterProbe = options.exitStatus();
+      if (exitAfterProbe) throw exitedDuringStartup(exitAfterProbe);
+      return 'port';
+    }
+
+    if (Date.now() >= deadline) {
+      throw new MitmError(
+        ErrorCode.TIMEOUT,
+        `mitmdump did not start listening on ${host}:${options.port} within ${options.timeoutMs}ms`,
+        { timeoutMs: options.timeoutMs }
+      );
+    }
+    await new Promise(resolve => setTimeout(resolve, PORT_PROBE_INTERVAL_MS));
+  }
+}
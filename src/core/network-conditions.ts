@@ -0,0 +1,64 @@
+import * as fs from 'fs';
+import { NetworkCondition } from '../types/schemas.js';
+import { MitmError, ErrorCode } from '../types/errors.js';
+import { writeFileAtomic } from '../utils/atomic-file.js';
+import { validateMatch } from './rule-set.js';
+
+// conditions.json, read by har_capture.py through its conditions_file option
+export interface ConditionsFile {
+  version: 1;
+  updatedAt: string;
+  conditions: NetworkCondition[];
+}
+
+/**
+ * Validate network conditions before they are handed to the addon.
+ * Throws MitmError(INVALID_ARGUMENT) naming the offending condition.
+ */
+export function validateConditions(conditions: NetworkCondition[]): void {
+  const ids = new Set<string>();
+
+  for (const condition of conditions) {
+    const invalid = (message: string) =>
+      new MitmError(ErrorCode.INVALID_ARGUMENT, `Condition ${condition.id}: ${message}`, {
+        conditionId: condition.id,
+      });
+
+    if (ids.has(condition.id)) {
+      throw invalid('duplicate condition ID');
+    }
+    ids.add(condition.id);
+
+    const { latencyMs, jitterMs, uploadKbps, downloadKbps, failure } = condition;
+    if ([latencyMs, jitterMs, uploadKbps, downloadKbps, failure].every(value => value === undefined)) {
+      throw invalid('no effect; set latencyMs, jitterMs, uploadKbps, downloadKbps or failure');
+    }
+
+    try {
+      validateMatch(condition.match);
+    } catch (error) {
+      throw invalid(error instanceof Error ? error.message : String(error));
+    }
+  }
+}
+
+export async function readConditionsFile(filePath: string): Promise<NetworkCondition[]> {
+  try {
+    const content = await fs.promises.readFile(filePath, 'utf-8');
+    return (JSON.parse(content) as ConditionsFile).conditions ?? [];
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw new MitmError(
+      ErrorCode.INTERNAL_ERROR,
+      `Failed to read conditions: ${error instanceof Error ? error.message : String(error)}`,
+      { path: filePath }
+    );
+  }
+}
+
+export async function writeConditionsFile(filePath: string, conditions: NetworkCondition[]): Promise<void> {
+  const content: ConditionsFile = { version: 1, updatedAt: new Date().toISOString(), conditions };
+  await writeFileAtomic(filePath, JSON.stringify(content, null, 2));
+}
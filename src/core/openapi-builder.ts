@@ -0,0 +1,420 @@
+import { BodyEncoding, JsonlEntry } from '../types/traffic.js';
+import { decodeBase64Body } from '../utils/body.js';
+import { PATH_PARAM_PLACEHOLDER, toPathTemplate } from './path-template.js';
+import { JsonSchema, inferSchema, inferScalarSchema, mergeSchemas } from './json-schema.js';
+
+export interface OpenApiInfo {
+  title: string;
+  version: string;
+  description?: string;
+}
+
+export interface OpenApiSummary {
+  entriesUsed: number;
+  hosts: string[];
+  paths: number;
+  operations: number;
+  securitySchemes: string[];
+}
+
+type SecurityScheme =
+  | { type: 'http'; scheme: 'bearer' | 'basic' }
+  | { type: 'apiKey'; in: 'header' | 'query'; name: string };
+
+interface ParameterAccumulator {
+  name: string;
+  in: 'path' | 'query' | 'header';
+  schema: JsonSchema;
+  seen: number;
+  example: string;
+}
+
+interface BodyAccumulator {
+  mediaType: string;
+  schema?: JsonSchema;
+  example?: unknown;
+}
+
+interface OperationAccumulator {
+  method: string;
+  calls: number;
+  parameters: Map<string, ParameterAccumulator>;
+  requestBodies: Map<string, BodyAccumulator>;
+  responses: Map<string, { description: string; bodies: Map<string, BodyAccumulator> }>;
+  // Each distinct combination of schemes sent together on one call
+  security: Map<string, string[]>;
+}
+
+interface PathAccumulator {
+  template: string;
+  servers: Set<string>;
+  operations: Map<string, OperationAccumulator>;
+}
+
+const MAX_EXAMPLE_SIZE = 4096;
+
+// Request headers that describe the transport or client rather than the API
+const IGNORED_HEADERS = new Set([
+  'host', 'connection', 'content-length', 'content-type', 'content-encoding', 'transfer-encoding',
+  'accept', 'accept-encoding', 'accept-language', 'accept-charset', 'user-agent', 'cookie',
+  'authorization', 'cache-control', 'pragma', 'if-none-match', 'if-modified-since', 'origin',
+  'referer', 'te', 'upgrade', 'keep-alive', 'proxy-connection', 'priority', 'dnt',
+]);
+
+const API_KEY_HEADER_PATTERN = /^(x-)?(api[-_]?key|.*-api-key|.*-auth-token|auth-token|access-token)$/i;
+const API_KEY_QUERY_PATTERN = /^(api[-_]?key|apikey|key|access[-_]?token|auth[-_]?token)$/i;
+
+function mediaTypeOf(contentType: string | undefined): string {
+  return (contentType ?? '').split(';', 1)[0].trim().toLowerCase();
+}
+
+function findHeader(headers: Array<{ name: string; value: string }>, name: string): string | undefined {
+  const lower = name.toLowerCase();
+  return headers.find(h => h.name.toLowerCase() === lower)?.value;
+}
+
+function isJsonMediaType(mediaType: string): boolean {
+  return mediaType === 'application/json' || mediaType.endsWith('+json');
+}
+
+function singular(word: string): string {
+  if (/ies$/i.test(word)) return word.slice(0, -3) + 'y';
+  if (/(ss|us)$/i.test(word)) return word;
+  if (/s$/i.test(word)) return word.slice(0, -1);
+  return word;
+}
+
+function camelCase(value: string): string {
+  const parts = value.split(/[^A-Za-z0-9]+/).filter(Boolean);
+  return parts
+    .map((p, i) => (i === 0 ? p.charAt(0).toLowerCase() + p.slice(1) : p.charAt(0).toUpperCase() + p.slice(1)))
+    .join('');
+}
+
+/**
+ * Give each {id} placeholder a unique, readable name derived from the previous segment,
+ * e.g. /users/{id}/orders/{id} -> /users/{userId}/orders/{orderId}.
+ */
+function namePathParams(template: string): { path: string; names: string[] } {
+  const segments = template.split('/');
+  const names: string[] = [];
+  const named = segments.map((segment, i) => {
+    if (segment !== PATH_PARAM_PLACEHOLDER) return segment;
+    const previous = segments[i - 1];
+    let base = previous && previous !== PATH_PARAM_PLACEHOLDER && !previous.startsWith('{')
+      ? camelCase(singular(previous)) + 'Id'
+      : 'id';
+    if (!/^[A-Za-z]/.test(base)) base = 'id';
+    let name = base;
+    for (let n = 2; names.includes(name); n++) name = `${base}${n}`;
+    names.push(name);
+    return `{${name}}`;
+  });
+  return { path: named.join('/'), names };
+}
+
+function operationId(method: string, path: string): string {
+  const words = path
+    .split('/')
+    .filter(Boolean)
+    .map(s => (s.startsWith('{') ? 'by ' + s.slice(1, -1) : s));
+  return camelCase([method.toLowerCase(), ...words].join(' ')) || method.toLowerCase();
+}
+
+function parseBody(
+  body: string | undefined,
+  encoding: BodyEncoding | undefined,
+  mediaType: string
+): { value?: unknown; schema?: JsonSchema } {
+  if (!body) return {};
+
+  if (isJsonMediaType(mediaType)) {
+    try {
+      const value = JSON.parse(body);
+      return { value, schema: inferSchema(value) };
+    } catch {
+      return { schema: { type: 'string' } };
+    }
+  }
+
+  if (mediaType === 'application/x-www-form-urlencoded') {
+    const properties: Record<string, JsonSchema> = {};
+    const value: Record<string, string> = {};
+    for (const [name, fieldValue] of new URLSearchParams(body)) {
+      properties[name] = inferScalarSchema(fieldValue);
+      value[name] = fieldValue;
+    }
+    return { value, schema: { type: 'object', properties, required: Object.keys(properties) } };
+  }
+
+  if (decodeBase64Body(body, encoding)) {
+    return { schema: { type: 'string', format: 'binary' } };
+  }
+
+  return { schema: { type: 'string' } };
+}
+
+function addBody(
+  bodies: Map<string, BodyAccumulator>,
+  mediaType: string,
+  { body, bodyEncoding }: { body?: string; bodyEncoding?: BodyEncoding }
+): void {
+  const key = mediaType || 'application/octet-stream';
+  const parsed = parseBody(body, bodyEncoding, key);
+  const existing = bodies.get(key);
+
+  if (!existing) {
+    const accumulator: BodyAccumulator = { mediaType: key, schema: parsed.schema };
+    if (parsed.value !== undefined && JSON.stringify(parsed.value).length <= MAX_EXAMPLE_SIZE) {
+      accumulator.example = parsed.value;
+    }
+    bodies.set(key, accumulator);
+    return;
+  }
+
+  if (parsed.schema) {
+    existing.schema = existing.schema ? mergeSchemas(existing.schema, parsed.schema) : parsed.schema;
+  }
+}
+
+function buildContent(bodies: Map<string, BodyAccumulator>): Record<string, unknown> {
+  const content: Record<string, unknown> = {};
+  for (const body of bodies.values()) {
+    const media: Record<string, unknown> = { schema: body.schema ?? {} };
+    if (body.example !== undefined) media.example = body.example;
+    content[body.mediaType] = media;
+  }
+  return content;
+}
+
+/**
+ * Accumulates captured entries into an OpenAPI 3.1 document.
+ */
+export class OpenApiBuilder {
+  private paths: Map<string, PathAccumulator> = new Map();
+  private securitySchemes: Map<string, SecurityScheme> = new Map();
+  private hosts: Set<string> = new Set();
+  private entriesUsed = 0;
+
+  add(entry: JsonlEntry): void {
+    let url: URL;
+    try {
+      url = new URL(entry.request.url);
+    } catch {
+      return;
+    }
+
+    const server = `${url.protocol}//${url.host}`;
+    const { path, names } = namePathParams(toPathTemplate(url.pathname));
+    const method = entry.request.method.toLowerCase();
+
+    let pathItem = this.paths.get(path);
+    if (!pathItem) {
+      pathItem = { template: path, servers: new Set(), operations: new Map() };
+      this.paths.set(path, pathItem);
+    }
+    pathItem.servers.add(server);
+    this.hosts.add(server);
+    this.entriesUsed++;
+
+    let operation = pathItem.operations.get(method);
+    if (!operation) {
+      operation = {
+        method,
+        calls: 0,
+        parameters: new Map(),
+        requestBodies: new Map(),
+        responses: new Map(),
+        security: new Map(),
+      };
+      pathItem.operations.set(method, operation);
+    }
+    operation.calls++;
+
+    // Path parameters, matched positionally against the named placeholders
+    const segments = url.pathname.split('/');
+    const templateSegments = path.split('/');
+    let paramIndex = 0;
+    templateSegments.forEach((segment, i) => {
+      if (!segment.startsWith('{')) return;
+      const name = names[paramIndex++];
+      let value = segments[i] ?? '';
+      try {
+        value = decodeURIComponent(value);
+      } catch {
+        // Keep the raw segment
+      }
+      this.addParameter(operation!, 'path', name, value);
+    });
+
+    const security = new Set<string>();
+
+    for (const [name, value] of url.searchParams) {
+      if (API_KEY_QUERY_PATTERN.test(name)) {
+        this.addSecurity(security, `${camelCase(name)}Query`, { type: 'apiKey', in: 'query', name });
+        continue;
+      }
+      this.addParameter(operation, 'query', name, value);
+    }
+
+    for (const header of entry.request.headers) {
+      const lower = header.name.toLowerCase();
+      if (lower === 'authorization') {
+        this.addAuthorization(security, header.value);
+      } else if (API_KEY_HEADER_PATTERN.test(lower)) {
+        this.addSecurity(security, `${camelCase(lower)}Header`, { type: 'apiKey', in: 'header', name: header.name });
+      } else if (!IGNORED_HEADERS.has(lower) && !lower.startsWith(':') && !lower.startsWith('sec-')) {
+        this.addParameter(operation, 'header', header.name, header.value);
+      }
+    }
+
+    if (security.size > 0) {
+      const names = Array.from(security).sort();
+      operation.security.set(names.join('+'), names);
+    }
+
+    if (entry.request.body) {
+      addBody(
+        operation.requestBodies,
+        mediaTypeOf(findHeader(entry.request.headers, 'content-type')),
+        entry.request
+      );
+    }
+
+    if (entry.response.status > 0) {
+      const status = String(entry.response.status);
+      let response = operation.responses.get(status);
+      if (!response) {
+        response = { description: entry.response.statusText || `HTTP ${status}`, bodies: new Map() };
+        operation.responses.set(status, response);
+      }
+      if (entry.response.body) {
+        addBody(response.bodies, mediaTypeOf(entry.response.contentType), entry.response);
+      }
+    }
+  }
+
+  private addParameter(
+    operation: OperationAccumulator,
+    location: 'path' | 'query' | 'header',
+    name: string,
+    value: string
+  ): void {
+    const key = `${location}:${location === 'header' ? name.toLowerCase() : name}`;
+    const schema = inferScalarSchema(value);
+    const existing = operation.parameters.get(key);
+    if (existing) {
+      existing.schema = mergeSchemas(existing.schema, schema);
+      existing.seen++;
+    } else {
+      operation.parameters.set(key, { name, in: location, schema, seen: 1, example: value });
+    }
+  }
+
+  private addAuthorization(security: Set<string>, value: string): void {
+    const scheme = value.split(' ', 1)[0].toLowerCase();
+    if (scheme === 'bearer') {
+      this.addSecurity(security, 'bearerAuth', { type: 'http', scheme: 'bearer' });
+    } else if (scheme === 'basic') {
+      this.addSecurity(security, 'basicAuth', { type: 'http', scheme: 'basic' });
+    } else {
+      this.addSecurity(security, 'authorizationHeader', { type: 'apiKey', in: 'header', name: 'Authorization' });
+    }
+  }
+
+  private addSecurity(security: Set<string>, name: string, scheme: SecurityScheme): void {
+    this.securitySchemes.set(name, scheme);
+    security.add(name);
+  }
+
+  summary(): OpenApiSummary {
+    let operations = 0;
+    for (const pathItem of this.paths.values()) operations += pathItem.operations.size;
+    return {
+      entriesUsed: this.entriesUsed,
+      hosts: Array.from(this.hosts).sort(),
+      paths: this.paths.size,
+      operations,
+      securitySchemes: Array.from(this.securitySchemes.keys()).sort(),
+    };
+  }
+
+  build(info: OpenApiInfo): Record<string, unknown> {
+    const servers = Array.from(this.hosts).sort();
+    const paths: Record<string, unknown> = {};
+    const usedOperationIds = new Set<string>();
+
+    const sortedPaths = Array.from(this.paths.values()).sort((a, b) => a.template.localeCompare(b.template));
+    for (const pathItem of sortedPaths) {
+      const item: Record<string, unknown> = {};
+
+      // Only spell out servers per path when the document spans several hosts
+      if (servers.length > 1) {
+        item.servers = Array.from(pathItem.servers).sort().map(url => ({ url }));
+      }
+
+      for (const operation of pathItem.operations.values()) {
+        let id = operationId(operation.method, pathItem.template);
+        for (let n = 2; usedOperationIds.has(id); n++) id = `${operationId(operation.method, pathItem.template)}${n}`;
+        usedOperationIds.add(id);
+
+        const parameters = Array.from(operation.parameters.values()).map(p => ({
+          name: p.name,
+          in: p.in,
+          required: p.in === 'path' || p.seen === operation.calls,
+          schema: p.schema,
+          example: p.example,
+        }));
+
+        const responses: Record<string, unknown> = {};
+        const statuses = Array.from(operation.responses.keys()).sort();
+        for (const status of statuses) {
+          const response = operation.responses.get(status)!;
+          const out: Record<string, unknown> = { description: response.description };
+          if (response.bodies.size > 0) out.content = buildContent(response.bodies);
+          responses[status] = out;
+        }
+        if (statuses.length === 0) {
+          responses.default = { description: 'No response captured' };
+        }
+
+        const op: Record<string, unknown> = {
+          operationId: id,
+          summary: `${operation.method.toUpperCase()} ${pathItem.template}`,
+          description: `Inferred from ${operation.calls} captured call${operation.calls === 1 ? '' : 's'}.`,
+        };
+        if (parameters.length > 0) op.parameters = parameters;
+        if (operation.requestBodies.size > 0) {
+          op.requestBody = { content: buildContent(operation.requestBodies) };
+        }
+        op.responses = responses;
+        if (operation.security.size > 0) {
+          op.security = Array.from(operation.security.values()).map(names =>
+            Object.fromEntries(names.map(name => [name, []]))
+          );
+        }
+
+        item[operation.method] = op;
+      }
+
+      paths[pathItem.template] = item;
+    }
+
+    const document: Record<string, unknown> = {
+      openapi: '3.1.0',
+      info,
+      servers: servers.map(url => ({ url })),
+      paths,
+    };
+
+    if (this.securitySchemes.size > 0) {
+      document.components = {
+        securitySchemes: Object.fromEntries(
+          Array.from(this.securitySchemes.entries()).sort(([a], [b]) => a.localeCompare(b))
+        ),
+      };
+    }
+
+    return document;
+  }
+}
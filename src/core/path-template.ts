@@ -0,0 +1,37 @@
+export const PATH_PARAM_PLACEHOLDER = '{id}';
+
+const ID_SEGMENT_PATTERNS: RegExp[] = [
+  // Numeric IDs
+  /^\d+$/,
+  // UUIDs
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i,
+  // Hex hashes and object IDs (MD5, SHA-*, Mongo ObjectId, ...)
+  /^[0-9a-f]{16,}$/i,
+  // Long opaque tokens mixing letters and digits
+  /^(?=.*\d)(?=.*[a-z])[A-Za-z0-9_-]{24,}$/i,
+];
+
+/**
+ * Whether a single path segment looks like an identifier rather than a route name.
+ */
+export function isIdSegment(segment: string): boolean {
+  let decoded = segment;
+  try {
+    decoded = decodeURIComponent(segment);
+  } catch {
+    // Keep the raw segment
+  }
+  return ID_SEGMENT_PATTERNS.some(p => p.test(decoded));
+}
+
+/**
+ * Strip the query string from a request path and collapse ID-like segments to {id},
+ * e.g. /v1/users/42/orders/9f86d081884c7d65 -> /v1/users/{id}/orders/{id}.
+ */
+export function toPathTemplate(requestPath: string): string {
+  const pathOnly = requestPath.split(/[?#]/, 1)[0] || '/';
+  return pathOnly
+    .split('/')
+    .map(segment => (segment && isIdSegment(segment) ? PATH_PARAM_PLACEHOLDER : segment))
+    .join('/');
+}
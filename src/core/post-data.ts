@@ -0,0 +1,71 @@
+import { JsonlEntry } from '../types/traffic.js';
+import { HarParam, HarPostData } from '../types/har.js';
+import { decodeBase64Body, encodeBody } from '../utils/body.js';
+import { getMultipartBoundary, parseMultipart } from '../utils/multipart.js';
+
+function multipartParams(data: Buffer, boundary: string): HarParam[] | undefined {
+  const parts = parseMultipart(data, boundary);
+  if (!parts) return undefined;
+
+  return parts.map(part => {
+    const param: HarParam = { name: part.name };
+    if (part.filename !== undefined) {
+      param.fileName = part.filename;
+    } else {
+      const { body, encoding } = encodeBody(part.data);
+      if (encoding === 'text') param.value = body;
+    }
+    if (part.contentType) param.contentType = part.contentType;
+    param._size = part.data.length;
+    return param;
+  });
+}
+
+function requestMimeType(request: JsonlEntry['request']): string {
+  return request.headers.find(h => h.name.toLowerCase() === 'content-type')?.value ?? '';
+}
+
+/**
+ * Whether the request body is a URL-encoded form or multipart, which buildPostData parses into params.
+ */
+export function hasFormBody(request: JsonlEntry['request']): boolean {
+  const mimeType = requestMimeType(request);
+  return /^\s*application\/x-www-form-urlencoded/i.test(mimeType) || getMultipartBoundary(mimeType) !== null;
+}
+
+/**
+ * Build HAR postData for a captured request, or undefined when it has no body.
+ *
+ * With text, postData.text holds the body as stored (base64 for binary bodies, flagged by
+ * _encoding). With params, URL-encoded forms and multipart bodies are parsed into params; file
+ * parts are listed with their file name, content type and size but without their content.
+ * A body kept in a blob must be inlined first (BlobStore.inline) to be included.
+ */
+export function buildPostData(
+  request: JsonlEntry['request'],
+  options: { text: boolean; params: boolean }
+): HarPostData | undefined {
+  if (request.bodySize <= 0 || (!request.body && !request.bodySha256)) return undefined;
+
+  const mimeType = requestMimeType(request);
+  const postData: HarPostData = { mimeType };
+  if (!request.body) return postData;
+
+  const binary = decodeBase64Body(request.body, request.bodyEncoding);
+  const data = binary ?? Buffer.from(request.body, 'utf-8');
+  if (options.text) {
+    postData.text = request.body;
+    if (binary) postData._encoding = 'base64';
+  }
+  if (!options.params) return postData;
+
+  if (/^\s*application\/x-www-form-urlencoded/i.test(mimeType)) {
+    postData.params = Array.from(new URLSearchParams(data.toString('utf-8')), ([name, value]) => ({ name, value }));
+  } else {
+    const boundary = getMultipartBoundary(mimeType);
+    const params = boundary ? multipartParams(data, boundary) : undefined;
+    if (params) postData.params = params;
+  }
+
+  return postData;
+}
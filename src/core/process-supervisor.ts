@@ -1,4 +1,5 @@
-import { spawn, ChildProcess } from 'child_process';
+import { spawn, execFile, ChildProcess } from 'child_process';
+import * as fs from 'fs';
 import { EventEmitter } from 'events';
 import { Logger } from '../utils/logger.js';
 
@@ -20,6 +21,8 @@ export interface ProcessOptions {
 
 export class ProcessSupervisor extends EventEmitter {
   private processes: Map<number, ProcessInfo> = new Map();
+  // Poll timers of processes adopted from an earlier server run, by pid
+  private adopted: Map<number, NodeJS.Timeout> = new Map();
   private logger: Logger;
 
   constructor(logger: Logger) {
@@ -42,7 +45,7 @@ export class ProcessSupervisor extends EventEmitter {
       });
 
       if (!child.pid) {
-        reject(new Error(`Failed to spawn process: ${command}`));
+        child.once('error', reject);
         return;
       }
 
@@ -80,18 +83,15 @@ export class ProcessSupervisor extends EventEmitter {
         reject(error);
       });
 
-      // Give process a moment to fail fast
-      setTimeout(() => {
-        if (child.exitCode === null) {
-          resolve(info);
-        }
-      }, 100);
+      // Whether the program actually came up is for the caller to check
+      child.once('spawn', () => resolve(info));
     });
   }
 
   async kill(pid: number, signal: NodeJS.Signals = 'SIGTERM'): Promise<void> {
     const info = this.processes.get(pid);
     if (!info) {
+      if (this.adopted.has(pid)) return this.killAdopted(pid, signal);
       this.logger.warn('Process not found for kill', { pid });
       return;
     }
@@ -120,6 +120,81 @@ export class ProcessSupervisor extends EventEmitter {
     });
   }
 
+  /**
+   * Take charge of a process started by an earlier run of the server. There is no exit event
+   * for a process we did not spawn, so onExit fires when polling finds it gone.
+   */
+  adopt(pid: number, onExit: () => void, pollIntervalMs = 1000): void {
+    const timer = setInterval(() => {
+      if (this.isRunning(pid)) return;
+      clearInterval(timer);
+      this.adopted.delete(pid);
+      onExit();
+    }, pollIntervalMs);
+    timer.unref();
+    this.adopted.set(pid, timer);
+  }
+
+  private async killAdopted(pid: number, signal: NodeJS.Signals): Promise<void> {
+    clearInterval(this.adopted.get(pid));
+    this.adopted.delete(pid);
+    try {
+      process.kill(pid, signal);
+    } catch {
+      return;
+    }
+
+    const deadline = Date.now() + 5000;
+    while (this.isRunning(pid)) {
+      if (Date.now() >= deadline) {
+        try {
+          process.kill(pid, 'SIGKILL');
+        } catch {
+          // Process may have already exited
+        }
+        return;
+      }
+      await new Promise(resolve => setTimeout(resolve, 100));
+    }
+  }
+
+  /**
+   * The command line of a running process, or null if it cannot be read.
+   */
+  async commandLine(pid: number): Promise<string | null> {
+    try {
+      const cmdline = await fs.promises.readFile(`/proc/${pid}/cmdline`, 'utf-8');
+      return cmdline.split('\0').join(' ').trim();
+    } catch {
+      // No procfs (macOS): ask ps
+    }
+    return new Promise((resolve) => {
+      execFile('ps', ['-p', String(pid), '-o', 'command='], { timeout: 5000 }, (error, stdout) => {
+        resolve(error ? null : stdout.trim() || null);
+      });
+    });
+  }
+
+  /**
+   * The parent pid of a running process, or null if it cannot be read.
+   */
+  async parentPid(pid: number): Promise<number | null> {
+    try {
+      // The command name in parentheses may contain spaces; the fields after it do not
+      const stat = await fs.promises.readFile(`/proc/${pid}/stat`, 'utf-8');
+      const ppid = Number(stat.slice(stat.lastIndexOf(')') + 2).split(' ')[1]);
+      return Number.isInteger(ppid) ? ppid : null;
+    } catch {
+      // No procfs (macOS): ask ps
+    }
+    return new Promise((resolve) => {
+      execFile('ps', ['-p', String(pid), '-o', 'ppid='], { timeout: 5000 }, (error, stdout) => {
+        const ppid = Number(stdout.trim());
+        resolve(error || stdout.trim() === '' || !Number.isInteger(ppid) ? null : ppid);
+      });
+    });
+  }
+
   isRunning(pid: number): boolean {
     try {
       process.kill(pid, 0);
@@ -135,6 +210,9 @@ export class ProcessSupervisor extends EventEmitter {
       for (const [pid] of this.processes) {
         await this.kill(pid);
       }
+      for (const [pid] of this.adopted) {
+        await this.kill(pid);
+      }
     };
 
     process.on('SIGTERM', cleanup);
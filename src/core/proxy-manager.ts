@@ -1,14 +1,37 @@
 import * as path from 'path';
 import * as fs from 'fs';
 import { EventEmitter } from 'events';
+import { AsyncLocalStorage } from 'async_hooks';
 import { ProcessSupervisor } from './process-supervisor.js';
 import { StateClient } from './state-client.js';
 import { TrafficStore } from './traffic-store.js';
+import { BLOBS_DIR } from './blob-store.js';
+import { OutputTail, getMitmdumpVersion, waitForMitmdump } from './mitmdump-startup.js';
+import { SessionStateWatcher } from './session-watcher.js';
+import { readRulesFile, writeRulesFile } from './rule-set.js';
+import { Breakpoint, readBreakpointsFile, writeBreakpointsFile } from './breakpoints.js';
+import { readConditionsFile, writeConditionsFile } from './network-conditions.js';
+import {
+  buildModeArgs,
+  isForwardProxyMode,
+  parseProxyMode,
+  parseSize,
+  resolveProxyOptions,
+  validateProxyOptions,
+} from './proxy-mode.js';
 import { PortFinder } from '../utils/port-finder.js';
 import { Logger } from '../utils/logger.js';
 import { Config } from '../config.js';
-import { ProxySession, ProxyStatus } from '../types/session.js';
+import {
+  CoreSessionStatus,
+  ProxyOptions,
+  ProxySession,
+  ProxyStatus,
+  RestartPolicy,
+  RestartRecord,
+} from '../types/session.js';
 import { MitmError, ErrorCode } from '../types/errors.js';
+import { NetworkCondition, Rule } from '../types/schemas.js';
 
 export interface ProxyManagerDeps {
   config: Config;
@@ -19,16 +42,80 @@ export interface StartProxyInput {
   sessionId: string;
   port?: number;
   listenHost?: string;
+  // regular (default), upstream:<url>, reverse:<url>, socks5 or transparent
+  mode?: string;
+  options?: Partial<ProxyOptions>;
+  // Restarting after a crash is off unless enabled here
+  restartPolicy?: Partial<RestartPolicy>;
+}
+
+interface CrashInfo {
+  exitCode: number | null;
+  signal: string | null;
+  error: string;
+  logTail: string[];
+}
+
+// Consecutive crashes of a session's mitmdump, and the pending restart if any
+interface RestartRun {
+  consecutive: number;
+  launchedAtMs: number;
+  timer?: NodeJS.Timeout;
+}
+
+// A process that stayed up this long before crashing starts a new run of restarts
+const STABLE_RUN_MS = 60 * 1000;
+const MAX_RESTART_HISTORY = 20;
+
+const MAX_READ_ONLY_STORES = 8;
+
+// A session's traffic store and the number of tool calls using it
+interface StoreRef {
+  sessionId: string;
+  opening: Promise<TrafficStore>;
+  users: number;
+  // No longer handed out (its proxy stopped, or it was evicted); closed once the last user is done
+  retired: boolean;
+}
+
+// The store of a running proxy or of imported traffic, attached once open
+type LiveStoreRef = StoreRef & { store: TrafficStore };
+
+/**
+ * Session IDs name directories under sessionsDir; refuse anything that would leave it.
+ */
+function checkSessionId(sessionId: string): string {
+  if (!sessionId || sessionId !== path.basename(sessionId) || sessionId === '.' || sessionId === '..') {
+    throw new MitmError(ErrorCode.INVALID_ARGUMENT, `Invalid session ID: ${sessionId}`, { sessionId });
+  }
+  return sessionId;
+}
+
+function resolveRestartPolicy(policy: Partial<RestartPolicy> = {}): RestartPolicy {
+  return {
+    enabled: policy.enabled ?? false,
+    maxRetries: policy.maxRetries ?? 5,
+    initialDelayMs: policy.initialDelayMs ?? 1000,
+    maxDelayMs: policy.maxDelayMs ?? 30000,
+  };
 }
 
 export class ProxyManager extends EventEmitter {
   private sessions: Map<string, ProxySession> = new Map();
-  private trafficStores: Map<string, TrafficStore> = new Map();
+  // Stores of running proxies and imported traffic
+  private trafficStores: Map<string, LiveStoreRef> = new Map();
   private config: Config;
   private logger: Logger;
   private supervisor: ProcessSupervisor;
   private stateClient: StateClient;
   private portFinder: PortFinder;
+  private mitmdumpVersion: string | null = null;
+  private restartRuns: Map<string, RestartRun> = new Map();
+  private stateWatchers: Map<string, SessionStateWatcher> = new Map();
+  // Stores opened to read sessions without a running proxy, least recently used first
+  private readOnlyStores: Map<string, StoreRef> = new Map();
+  // The store references held by the tool call in progress
+  private heldStores = new AsyncLocalStorage<StoreRef[]>();
 
   constructor(deps: ProxyManagerDeps) {
     super();
@@ -41,6 +128,12 @@ export class ProxyManager extends EventEmitter {
 
   async startProxy(input: StartProxyInput): Promise<ProxySession> {
     const { sessionId } = input;
+    const mode = input.mode || 'regular';
+    const options = resolveProxyOptions(input.options);
+    const restartPolicy = resolveRestartPolicy(input.restartPolicy);
+    // Validates the mode
+    parseProxyMode(mode);
+    validateProxyOptions(options);
 
     // Check if already running for this session
     if (this.sessions.has(sessionId)) {
@@ -64,6 +157,8 @@ export class ProxyManager extends EventEmitter {
       );
     }
 
+    const mitmdumpVersion = await this.getMitmdumpVersion();
+
     // Find available port
     const port = input.port || await this.portFinder.findAvailablePort(
       this.config.portRangeStart,
@@ -89,6 +184,8 @@ export class ProxyManager extends EventEmitter {
     const session: ProxySession = {
       sessionId,
       status: 'starting',
+      mode,
+      options,
       proxyPort: port,
       proxyHost: listenHost,
       pid: null,
@@ -96,9 +193,14 @@ export class ProxyManager extends EventEmitter {
       logPath,
       startedAt: null,
       stoppedAt: null,
+      mitmdumpVersion,
+      restartPolicy,
+      restarts: [],
+      coreSessionStatus: sessionState.status,
     };
 
     this.sessions.set(sessionId, session);
+    this.restartRuns.delete(sessionId);
 
     // Register session-specific log file (mitm logs go in sessionId/mitm/)
     await this.logger.registerSessionLog(sessionId, mitmDir);
@@ -106,15 +208,64 @@ export class ProxyManager extends EventEmitter {
     // Update shared state
     await this.stateClient.updateMitm(sessionId, {
       status: 'starting',
+      mode,
+      options,
       proxyPort: port,
       proxyHost: listenHost,
+      mitmdumpVersion,
+      // Left by an earlier failed start or crash
+      error: undefined,
     });
 
     try {
-      // Initialize traffic store
-      const trafficStore = new TrafficStore(jsonlPath, this.logger);
-      await trafficStore.initialize();
-      this.trafficStores.set(sessionId, trafficStore);
+      // Initialize traffic store (reusing one opened by an earlier import)
+      await this.attachTrafficStore(sessionId, jsonlPath);
+
+      const pid = await this.launchMitmdump(session);
+      session.startedAt = new Date().toISOString();
+      await this.markReady(session, pid);
+      this.watchSessionState(session);
+
+      this.logger.info('Mitmdump started', { sessionId, pid, port, mode });
+
+      return session;
+    } catch (error) {
+      // Cleanup on failure
+      session.status = 'error';
+      await this.stateClient.updateMitm(sessionId, {
+        status: 'error',
+        error: error instanceof Error ? error.message : String(error),
+      });
+
+      throw error instanceof MitmError ? error : new MitmError(
+        ErrorCode.MITMDUMP_START_FAILED,
+        `Failed to start mitmdump: ${error instanceof Error ? error.message : String(error)}`,
+        { sessionId }
+      );
+    }
+  }
+
+  /**
+   * Spawn mitmdump for a session and wait until it is ready. On failure the process is
+   * killed and the error carries the last lines of its output.
+   */
+  private async launchMitmdump(session: ProxySession): Promise<number> {
+    const { sessionId, jsonlPath, logPath, proxyPort: port, proxyHost: listenHost } = session;
+    const mitmDir = path.dirname(jsonlPath);
+    // Recent mitmdump output, for the error when startup fails or the process crashes
+    const output = new OutputTail();
+    let exitStatus: { code: number | null; signal: string | null } | null = null;
+    let pid: number | null = null;
+
+    try {
+      // Whatever already listens there would answer the readiness probe in mitmdump's place
+      if (!(await this.portFinder.isPortAvailable(port, listenHost))) {
+        throw new MitmError(
+          ErrorCode.PORT_UNAVAILABLE,
+          `Port ${port} is already in use on ${listenHost || '*'}`,
+          { port, listenHost }
+        );
+      }
 
       // Start mitmdump process
       const logStream = fs.createWriteStream(logPath, { flags: 'a' });
@@ -122,58 +273,199 @@ export class ProxyManager extends EventEmitter {
       const args = [
         '-s', this.config.addonScriptPath,
         '--set', `har_file=${jsonlPath}`,
+        '--set', `rules_file=${path.join(mitmDir, 'rules.json')}`,
+        '--set', `breakpoints_file=${path.join(mitmDir, 'breakpoints.json')}`,
+        '--set', `conditions_file=${path.join(mitmDir, 'conditions.json')}`,
+        '--set', `websocket_file=${path.join(mitmDir, 'websocket.jsonl')}`,
+        '--set', `failures_file=${path.join(mitmDir, 'failures.jsonl')}`,
+        '--set', `blob_dir=${path.join(mitmDir, BLOBS_DIR)}`,
         '--listen-host', listenHost,
         '--listen-port', String(port),
-        '--ssl-insecure',
-        '--set', 'stream_large_bodies=10m',
+        ...buildModeArgs(session.mode, session.options),
       ];
 
       this.logger.info('Starting mitmdump', { sessionId, port, args });
+      this.restartRun(sessionId).launchedAtMs = Date.now();
 
       const processInfo = await this.supervisor.spawn(this.config.mitmdumpPath, args, {
-        onStdout: (data) => logStream.write(data),
-        onStderr: (data) => logStream.write(data),
+        onStdout: (data) => {
+          logStream.write(data);
+          output.push(data);
+        },
+        onStderr: (data) => {
+          logStream.write(data);
+          output.push(data);
+        },
         onExit: (code, signal) => {
-          this.handleProcessExit(sessionId, code, signal);
+          exitStatus = { code, signal };
+          this.handleProcessExit(sessionId, pid, code, signal, output);
           logStream.end();
         },
       });
-
-      session.pid = processInfo.pid;
-      session.status = 'ready';
-      session.startedAt = new Date().toISOString();
-
-      // Update shared state with full info
-      await this.stateClient.updateMitm(sessionId, {
-        status: 'ready',
-        proxyPort: port,
-        proxyHost: listenHost,
-        pid: processInfo.pid,
-        androidProxyConfig: {
-          host: '10.0.2.2',
-          port: port,
-        },
+      pid = processInfo.pid;
+
+      const readyBy = await waitForMitmdump({
+        listenHost,
+        port,
+        timeoutMs: this.config.startTimeout,
+        output,
+        exitStatus: () => exitStatus,
       });
+      this.logger.debug('Mitmdump ready', { sessionId, pid, readyBy });
 
-      this.logger.info('Mitmdump started', { sessionId, pid: processInfo.pid, port });
-
-      return session;
+      return pid;
     } catch (error) {
-      // Cleanup on failure
-      session.status = 'error';
-      await this.stateClient.updateMitm(sessionId, {
-        status: 'error',
-        error: error instanceof Error ? error.message : String(error),
-      });
+      if (pid !== null && exitStatus === null) {
+        await this.supervisor.kill(pid);
+      }
 
+      // Tracebacks, "address already in use" or a missing addon show up in mitmdump's output
       throw new MitmError(
-        ErrorCode.MITMDUMP_START_FAILED,
+        error instanceof MitmError ? error.code : ErrorCode.MITMDUMP_START_FAILED,
         `Failed to start mitmdump: ${error instanceof Error ? error.message : String(error)}`,
-        { sessionId }
+        {
+          ...(error instanceof MitmError ? error.details : undefined),
+          sessionId,
+          logPath,
+          logTail: output.lines(30),
+        }
       );
     }
   }
 
+  private async markReady(session: ProxySession, pid: number): Promise<void> {
+    session.pid = pid;
+    session.status = 'ready';
+
+    // Update shared state with full info; only a forward proxy can be set as the device proxy
+    await this.stateClient.updateMitm(session.sessionId, {
+      status: 'ready',
+      mode: session.mode,
+      options: session.options,
+      proxyPort: session.proxyPort,
+      proxyHost: session.proxyHost,
+      pid,
+      ownerPid: process.pid,
+      mitmdumpVersion: session.mitmdumpVersion,
+      startedAt: session.startedAt ?? undefined,
+      restartPolicy: session.restartPolicy,
+      androidProxyConfig: isForwardProxyMode(parseProxyMode(session.mode))
+        ? { host: '10.0.2.2', port: session.proxyPort }
+        : undefined,
+      // Set by handleCrash while a restart was pending
+      error: undefined,
+    });
+  }
+
+  /**
+   * Re-adopt mitmdump processes left running by an earlier run of the server, found by the
+   * pid in each session's mitm state. Sessions whose process is gone (or whose pid now
+   * belongs to another program) are marked stopped. Returns the IDs of adopted sessions.
+   */
+  async adoptRunningProxies(): Promise<string[]> {
+    let sessionIds: string[];
+    try {
+      const dirents = await fs.promises.readdir(this.config.sessionsDir, { withFileTypes: true });
+      sessionIds = dirents.filter(dirent => dirent.isDirectory()).map(dirent => dirent.name);
+    } catch {
+      return [];
+    }
+
+    const adopted: string[] = [];
+    for (const sessionId of sessionIds) {
+      if (this.sessions.has(sessionId)) continue;
+      try {
+        if (await this.adoptProxy(sessionId)) adopted.push(sessionId);
+      } catch (error) {
+        this.logger.warn('Failed to re-adopt proxy', { sessionId, error: String(error) });
+      }
+    }
+    return adopted;
+  }
+
+  private async adoptProxy(sessionId: string): Promise<boolean> {
+    const state = await this.stateClient.read(sessionId).catch(() => null);
+    const mitm = state?.mitm;
+    if (!state || !mitm || (mitm.status !== 'ready' && mitm.status !== 'starting')) return false;
+
+    const mitmDir = this.getMitmDir(sessionId);
+    const jsonlPath = path.join(mitmDir, 'traffic.jsonl');
+    const pid = mitm.pid;
+    // The pid may have been reused since; only a mitmdump writing this session's traffic is ours
+    const commandLine = pid !== undefined && this.supervisor.isRunning(pid)
+      ? await this.supervisor.commandLine(pid)
+      : null;
+    if (pid === undefined || mitm.proxyPort === undefined || !commandLine?.includes(`har_file=${jsonlPath}`)) {
+      await this.stateClient.updateMitm(sessionId, { status: 'stopped', pid: undefined });
+      this.logger.info('Marked proxy of an earlier server run stopped', { sessionId, pid });
+      return false;
+    }
+    if (!(await this.isOrphaned(pid, mitm.ownerPid))) {
+      this.logger.info('Not re-adopting a proxy another running server supervises', {
+        sessionId,
+        pid,
+        ownerPid: mitm.ownerPid,
+      });
+      return false;
+    }
+
+    const session: ProxySession = {
+      sessionId,
+      status: 'ready',
+      mode: mitm.mode ?? 'regular',
+      options: resolveProxyOptions(mitm.options),
+      proxyPort: mitm.proxyPort,
+      proxyHost: mitm.proxyHost ?? '0.0.0.0',
+      pid,
+      jsonlPath,
+      logPath: path.join(mitmDir, 'mitmdump.log'),
+      startedAt: mitm.startedAt ?? null,
+      stoppedAt: null,
+      mitmdumpVersion: mitm.mitmdumpVersion ?? 'unknown',
+      restartPolicy: resolveRestartPolicy(mitm.restartPolicy),
+      restarts: [],
+      coreSessionStatus: state.status,
+    };
+    this.sessions.set(sessionId, session);
+    await this.logger.registerSessionLog(sessionId, mitmDir);
+    await this.attachTrafficStore(sessionId, jsonlPath);
+    this.supervisor.adopt(pid, () => this.handleProcessExit(sessionId, pid, null, null, new OutputTail()));
+    this.logger.info('Re-adopted running mitmdump', { sessionId, pid, port: session.proxyPort });
+
+    // The core session ended while the server was down
+    if (state.status !== 'active') {
+      await this.stopProxy(sessionId);
+      return false;
+    }
+    // Record this server as the owner, so no other server adopts the proxy too
+    await this.markReady(session, pid);
+    this.watchSessionState(session);
+    return true;
+  }
+
+  /**
+   * Whether a mitmdump found running has lost the server that supervised it: its recorded
+   * owner is no longer running. A process recorded without an owner must have been
+   * reparented to init. An owner pid since reused by another process keeps the proxy from
+   * being adopted, which leaves it running rather than risking a sibling server's proxy.
+   */
+  private async isOrphaned(pid: number, ownerPid: number | undefined): Promise<boolean> {
+    if (ownerPid === undefined) return (await this.supervisor.parentPid(pid)) === 1;
+    // This server can only have the owner's pid if the pid was reused after the owner exited
+    return ownerPid === process.pid || !this.supervisor.isRunning(ownerPid);
+  }
+
+  /**
+   * Check that the mitmdump binary runs and get its version; checked once per server process.
+   */
+  private async getMitmdumpVersion(): Promise<string> {
+    if (this.mitmdumpVersion === null) {
+      this.mitmdumpVersion = await getMitmdumpVersion(this.config.mitmdumpPath);
+      this.logger.info('Found mitmdump', { path: this.config.mitmdumpPath, version: this.mitmdumpVersion });
+    }
+    return this.mitmdumpVersion;
+  }
+
   async stopProxy(sessionId: string): Promise<void> {
     const session = this.sessions.get(sessionId);
     if (!session) {
@@ -186,25 +478,37 @@ export class ProxyManager extends EventEmitter {
 
     this.logger.info('Stopping proxy', { sessionId, pid: session.pid });
 
+    this.stateWatchers.get(sessionId)?.stop();
+    this.stateWatchers.delete(sessionId);
+
+    // Cancel a pending restart; clearing pid tells the exit handler the process was stopped on purpose
+    clearTimeout(this.restartRuns.get(sessionId)?.timer);
+    this.restartRuns.delete(sessionId);
+    const pid = session.pid;
+    session.pid = null;
+
     // Kill the process
-    if (session.pid && this.supervisor.isRunning(session.pid)) {
-      await this.supervisor.kill(session.pid);
+    if (pid && this.supervisor.isRunning(pid)) {
+      await this.supervisor.kill(pid);
     }
 
-    // Close traffic store
+    // Close traffic store, once tool calls still reading it are done
     const trafficStore = this.trafficStores.get(sessionId);
     if (trafficStore) {
-      await trafficStore.close();
       this.trafficStores.delete(sessionId);
+      await this.retireStore(trafficStore);
     }
 
     // Update state
     session.status = 'stopped';
     session.stoppedAt = new Date().toISOString();
 
+    // The core may already have removed the session
     await this.stateClient.updateMitm(sessionId, {
       status: 'stopped',
       pid: undefined,
+    }).catch((err) => {
+      this.logger.warn('Failed to update state on stop', { sessionId, error: String(err) });
     });
 
     // Unregister session log
@@ -214,19 +518,190 @@ export class ProxyManager extends EventEmitter {
     this.logger.info('Proxy stopped', { sessionId });
   }
 
-  private handleProcessExit(sessionId: string, code: number | null, signal: string | null): void {
-    this.logger.info('Mitmdump process exited', { sessionId, code, signal });
+  /**
+   * Follow the core session in state.json: stop the proxy when the session ends.
+   */
+  private watchSessionState(session: ProxySession): void {
+    const { sessionId } = session;
+    const watcher = new SessionStateWatcher(this.stateClient, sessionId, session.coreSessionStatus, {
+      pollIntervalMs: this.config.statePollInterval,
+      onTransition: (from, to) => this.handleSessionTransition(session, from, to),
+    });
+    this.stateWatchers.set(sessionId, watcher);
+    watcher.start();
+  }
+
+  private handleSessionTransition(session: ProxySession, from: CoreSessionStatus, to: CoreSessionStatus): void {
+    const { sessionId } = session;
+    session.coreSessionStatus = to;
+
+    if (to === 'missing') {
+      this.logger.warn('Session state.json disappeared; mitm state is missing', { sessionId, from });
+      return;
+    }
+    this.logger.info('Core session status changed', { sessionId, from, to });
+
+    if (to === 'stopping' || to === 'stopped') {
+      this.logger.info('Core session ended, stopping proxy', { sessionId, status: to });
+      this.stopProxy(sessionId).catch((err) => {
+        this.logger.error('Failed to stop proxy after the core session ended', { sessionId, error: String(err) });
+      });
+    } else if (from === 'missing' && session.status === 'ready' && session.pid !== null) {
+      // The file came back, probably without our part of it
+      this.markReady(session, session.pid).catch((err) => {
+        this.logger.error('Failed to restore mitm state', { sessionId, error: String(err) });
+      });
+    }
+  }
+
+  private restartRun(sessionId: string): RestartRun {
+    let run = this.restartRuns.get(sessionId);
+    if (!run) {
+      run = { consecutive: 0, launchedAtMs: Date.now() };
+      this.restartRuns.set(sessionId, run);
+    }
+    return run;
+  }
+
+  private handleProcessExit(
+    sessionId: string,
+    pid: number | null,
+    code: number | null,
+    signal: string | null,
+    output: OutputTail
+  ): void {
+    this.logger.info('Mitmdump process exited', { sessionId, pid, code, signal });
 
+    // Processes stopped on purpose, or that never got ready (launchMitmdump reports those), are not crashes
     const session = this.sessions.get(sessionId);
-    if (session && session.status === 'ready') {
-      session.status = 'error';
-      this.stateClient.updateMitm(sessionId, {
-        status: 'error',
-        error: `Process exited with code ${code}, signal ${signal}`,
-      }).catch((err) => {
-        this.logger.error('Failed to update state after crash', { sessionId, error: String(err) });
+    if (!session || pid === null || session.pid !== pid || session.status !== 'ready') return;
+
+    session.pid = null;
+    this.handleCrash(session, {
+      exitCode: code,
+      signal,
+      error: `Process exited with code ${code}, signal ${signal}`,
+      logTail: output.lines(30),
+    });
+  }
+
+  /**
+   * Restart mitmdump on the same port after a backoff if the session's restart policy allows
+   * it, or give up and put the session in error with MITMDUMP_CRASHED.
+   */
+  private handleCrash(session: ProxySession, crash: CrashInfo): void {
+    const { sessionId, restartPolicy: policy } = session;
+    const run = this.restartRun(sessionId);
+    if (Date.now() - run.launchedAtMs >= STABLE_RUN_MS) {
+      run.consecutive = 0;
+    }
+
+    const record: RestartRecord = {
+      crashedAt: new Date().toISOString(),
+      exitCode: crash.exitCode,
+      signal: crash.signal,
+      error: crash.error,
+      attempt: 0,
+      delayMs: 0,
+      outcome: 'gave-up',
+    };
+
+    if (!policy.enabled || run.consecutive >= policy.maxRetries) {
+      if (policy.enabled) this.recordRestart(session, record);
+      this.markCrashed(session, crash, run.consecutive);
+      return;
+    }
+
+    run.consecutive++;
+    record.attempt = run.consecutive;
+    record.delayMs = Math.min(policy.initialDelayMs * 2 ** (run.consecutive - 1), policy.maxDelayMs);
+    record.outcome = 'pending';
+    this.recordRestart(session, record);
+
+    session.status = 'starting';
+    this.logger.warn('Mitmdump crashed, restarting', {
+      sessionId,
+      error: crash.error,
+      attempt: record.attempt,
+      delayMs: record.delayMs,
+    });
+    this.stateClient.updateMitm(sessionId, { status: 'starting', pid: undefined, error: crash.error }).catch((err) => {
+      this.logger.error('Failed to update state after crash', { sessionId, error: String(err) });
+    });
+
+    run.timer = setTimeout(() => {
+      run.timer = undefined;
+      void this.restart(session, record);
+    }, record.delayMs);
+  }
+
+  private async restart(session: ProxySession, record: RestartRecord): Promise<void> {
+    const { sessionId } = session;
+    const stopped = () => this.sessions.get(sessionId) !== session;
+    if (stopped()) return;
+
+    if (await this.stateClient.isSessionStopping(sessionId)) {
+      record.outcome = 'failed';
+      record.restartError = 'The core session has ended or its state.json is gone';
+      this.logger.info('Not restarting mitmdump for an ended session', { sessionId });
+      await this.stopProxy(sessionId).catch((err) => {
+        this.logger.error('Failed to stop proxy after the core session ended', { sessionId, error: String(err) });
       });
+      return;
     }
+
+    try {
+      const pid = await this.launchMitmdump(session);
+      if (stopped()) {
+        await this.supervisor.kill(pid);
+        return;
+      }
+      record.outcome = 'restarted';
+      record.pid = pid;
+      await this.markReady(session, pid);
+      this.logger.info('Mitmdump restarted', { sessionId, pid, attempt: record.attempt });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      record.outcome = 'failed';
+      record.restartError = message;
+      if (stopped()) return;
+
+      const details = error instanceof MitmError ? error.details ?? {} : {};
+      this.handleCrash(session, {
+        exitCode: (details.exitCode as number | undefined) ?? null,
+        signal: (details.signal as string | undefined) ?? null,
+        error: message,
+        logTail: (details.logTail as string[] | undefined) ?? [],
+      });
+    }
+  }
+
+  private recordRestart(session: ProxySession, record: RestartRecord): void {
+    session.restarts.push(record);
+    if (session.restarts.length > MAX_RESTART_HISTORY) session.restarts.shift();
+  }
+
+  private markCrashed(session: ProxySession, crash: CrashInfo, restartsTried: number): void {
+    const { sessionId } = session;
+    const message = restartsTried > 0
+      ? `mitmdump crashed and ${restartsTried} restart(s) did not bring it back: ${crash.error}`
+      : `mitmdump crashed: ${crash.error}`;
+    const error = new MitmError(ErrorCode.MITMDUMP_CRASHED, message, {
+      sessionId,
+      exitCode: crash.exitCode,
+      signal: crash.signal,
+      restartsTried,
+      logPath: session.logPath,
+      logTail: crash.logTail,
+    });
+
+    session.status = 'error';
+    session.lastError = error.toJSON();
+    this.logger.error('Mitmdump crashed', { sessionId, error: message });
+    this.stateClient.updateMitm(sessionId, { status: 'error', pid: undefined, error: message }).catch((err) => {
+      this.logger.error('Failed to update state after crash', { sessionId, error: String(err) });
+    });
+    this.emit('crashed', sessionId, error);
   }
 
   getSession(sessionId: string): ProxySession | undefined {
@@ -237,8 +712,239 @@ export class ProxyManager extends EventEmitter {
     return Array.from(this.sessions.values());
   }
 
+  /**
+   * The store of a running proxy or of imported traffic. During a tool call it stays open
+   * until the call returns (see holdTrafficStores).
+   */
   getTrafficStore(sessionId: string): TrafficStore | undefined {
-    return this.trafficStores.get(sessionId);
+    const live = this.trafficStores.get(sessionId);
+    if (!live) return undefined;
+    this.holdStore(live);
+    return live.store;
+  }
+
+  /**
+   * Bytes above which bodies added to a session's traffic are kept in blob files: the
+   * bodyBlobThreshold of its proxy, or the default when none ran in this server.
+   */
+  bodyBlobThreshold(sessionId: string): number {
+    const options = this.sessions.get(sessionId)?.options ?? resolveProxyOptions();
+    return parseSize(options.bodyBlobThreshold);
+  }
+
+  /**
+   * Get the traffic store for a session, opening it without starting mitmdump if needed.
+   * Used to analyse imported traffic in sessions that never ran a proxy.
+   */
+  async openTrafficStore(sessionId: string): Promise<TrafficStore> {
+    const existing = this.getTrafficStore(sessionId);
+    if (existing) return existing;
+
+    // Verify session exists in shared state
+    await this.stateClient.read(sessionId);
+
+    const mitmDir = await this.stateClient.ensureMitmDir(sessionId);
+    await this.logger.registerSessionLog(sessionId, mitmDir);
+    const live = await this.attachTrafficStore(sessionId, path.join(mitmDir, 'traffic.jsonl'));
+    this.holdStore(live);
+    return live.store;
+  }
+
+  /**
+   * Get a store to read a session's captured traffic from: the live one while a proxy runs
+   * (or traffic was imported), otherwise one opened on the session's mitm/ directory, so
+   * stopped sessions and sessions from earlier server runs can still be queried. Stores
+   * opened this way are only read by the analysis tools; mitm.clear needs a live one.
+   * Either kind stays open until the tool call returns (see holdTrafficStores).
+   */
+  async readTrafficStore(sessionId: string): Promise<TrafficStore> {
+    const live = this.getTrafficStore(sessionId);
+    if (live) return live;
+
+    let readOnly = this.readOnlyStores.get(sessionId);
+    if (readOnly) {
+      // Move to the most recently used end
+      this.readOnlyStores.delete(sessionId);
+    } else {
+      const jsonlPath = path.join(this.getMitmDir(checkSessionId(sessionId)), 'traffic.jsonl');
+      if (!fs.existsSync(jsonlPath)) {
+        throw new MitmError(
+          ErrorCode.PROXY_NOT_RUNNING,
+          `No captured traffic for session: ${sessionId}. Start the proxy first with mitm.start()`,
+          { sessionId, jsonlPath }
+        );
+      }
+      const opened: StoreRef = {
+        sessionId,
+        opening: this.openReadOnlyStore(sessionId, jsonlPath),
+        users: 0,
+        retired: false,
+      };
+      // Let the next call try again rather than get the same failure
+      opened.opening.catch(() => {
+        if (this.readOnlyStores.get(sessionId) === opened) this.readOnlyStores.delete(sessionId);
+      });
+      readOnly = opened;
+    }
+    this.readOnlyStores.set(sessionId, readOnly);
+    this.holdStore(readOnly);
+
+    if (this.readOnlyStores.size > MAX_READ_ONLY_STORES) {
+      const [oldestId, oldest] = this.readOnlyStores.entries().next().value!;
+      this.readOnlyStores.delete(oldestId);
+      void this.retireStore(oldest);
+    }
+    return readOnly.opening;
+  }
+
+  /**
+   * Run a tool call so that the traffic stores it gets from this manager stay open until it
+   * returns, even if their proxy is stopped or they are evicted meanwhile.
+   */
+  async holdTrafficStores<T>(call: () => Promise<T>): Promise<T> {
+    const held: StoreRef[] = [];
+    try {
+      return await this.heldStores.run(held, call);
+    } finally {
+      for (const ref of held) {
+        ref.users--;
+        if (ref.retired && ref.users === 0) void this.closeStore(ref);
+      }
+    }
+  }
+
+  private holdStore(ref: StoreRef): void {
+    // Outside a tool call nothing would release it
+    const held = this.heldStores.getStore();
+    if (!held) return;
+    ref.users++;
+    held.push(ref);
+  }
+
+  /**
+   * Stop handing out a store and close it once no tool call uses it.
+   */
+  private async retireStore(ref: StoreRef): Promise<void> {
+    ref.retired = true;
+    if (ref.users === 0) await this.closeStore(ref);
+  }
+
+  private async closeStore(ref: StoreRef): Promise<void> {
+    try {
+      // One that failed to open has nothing to close
+      const store = await ref.opening.catch(() => undefined);
+      await store?.close();
+    } catch (error) {
+      this.logger.error('Error closing traffic store', { sessionId: ref.sessionId, error: String(error) });
+    }
+  }
+
+  private async openReadOnlyStore(sessionId: string, jsonlPath: string): Promise<TrafficStore> {
+    const trafficStore = new TrafficStore(jsonlPath, this.logger);
+    await trafficStore.initialize();
+    this.logger.info('Opened traffic store read-only', { sessionId, jsonlPath });
+    return trafficStore;
+  }
+
+  private async attachTrafficStore(sessionId: string, jsonlPath: string): Promise<LiveStoreRef> {
+    const existing = this.trafficStores.get(sessionId);
+    if (existing) return existing;
+
+    // Take over a store opened for reading rather than indexing the same files twice; tool
+    // calls reading it keep their hold on it
+    const readOnly = this.readOnlyStores.get(sessionId);
+    if (readOnly) {
+      this.readOnlyStores.delete(sessionId);
+      const live = Object.assign(readOnly, { store: await readOnly.opening });
+      this.trafficStores.set(sessionId, live);
+      return live;
+    }
+
+    const trafficStore = new TrafficStore(jsonlPath, this.logger);
+    await trafficStore.initialize();
+    const live: LiveStoreRef = {
+      sessionId,
+      opening: Promise.resolve(trafficStore),
+      store: trafficStore,
+      users: 0,
+      retired: false,
+    };
+    this.trafficStores.set(sessionId, live);
+    return live;
+  }
+
+
+  getMitmDir(sessionId: string): string {
+    return this.stateClient.getMitmDir(sessionId);
+  }
+
+  getRulesPath(sessionId: string): string {
+    return path.join(this.getMitmDir(sessionId), 'rules.json');
+  }
+
+  async getRules(sessionId: string): Promise<Rule[]> {
+    return readRulesFile(this.getRulesPath(sessionId));
+  }
+
+  /**
+   * Store the rule set of a session. A running mitmdump reloads it on the next flow;
+   * otherwise it applies from the next mitm.start.
+   */
+  async setRules(sessionId: string, rules: Rule[]): Promise<string> {
+    // Verify session exists in shared state
+    await this.stateClient.read(sessionId);
+
+    await this.stateClient.ensureMitmDir(sessionId);
+    const rulesPath = this.getRulesPath(sessionId);
+    await writeRulesFile(rulesPath, rules);
+
+    this.logger.info('Rules updated', { sessionId, rules: rules.map(rule => rule.id) });
+    return rulesPath;
+  }
+
+  getBreakpointsPath(sessionId: string): string {
+    return path.join(this.getMitmDir(sessionId), 'breakpoints.json');
+  }
+
+  async getBreakpoints(sessionId: string): Promise<Breakpoint[]> {
+    return readBreakpointsFile(this.getBreakpointsPath(sessionId));
+  }
+
+  /**
+   * Store the breakpoints of a session. Like rules, a running mitmdump reloads them on
+   * the next flow.
+   */
+  async setBreakpoints(sessionId: string, breakpoints: Breakpoint[]): Promise<void> {
+    // Verify session exists in shared state
+    await this.stateClient.read(sessionId);
+
+    await this.stateClient.ensureMitmDir(sessionId);
+    await writeBreakpointsFile(this.getBreakpointsPath(sessionId), breakpoints);
+
+    this.logger.info('Breakpoints updated', { sessionId, breakpoints: breakpoints.map(bp => bp.id) });
+  }
+
+  getConditionsPath(sessionId: string): string {
+    return path.join(this.getMitmDir(sessionId), 'conditions.json');
+  }
+
+  async getConditions(sessionId: string): Promise<NetworkCondition[]> {
+    return readConditionsFile(this.getConditionsPath(sessionId));
+  }
+
+  /**
+   * Store the network conditions of a session, reloaded by a running mitmdump on the next flow.
+   */
+  async setConditions(sessionId: string, conditions: NetworkCondition[]): Promise<string> {
+    // Verify session exists in shared state
+    await this.stateClient.read(sessionId);
+
+    await this.stateClient.ensureMitmDir(sessionId);
+    const conditionsPath = this.getConditionsPath(sessionId);
+    await writeConditionsFile(conditionsPath, conditions);
+
+    this.logger.info('Network conditions updated', { sessionId, conditions: conditions.map(c => c.id) });
+    return conditionsPath;
   }
 
   async cleanup(): Promise<void> {
@@ -251,5 +957,17 @@ export class ProxyManager extends EventEmitter {
         this.logger.unregisterSessionLog(sessionId);
       }
     }
+
+    // Stores opened for imported traffic have no proxy to stop
+    for (const [sessionId, trafficStore] of this.trafficStores) {
+      this.trafficStores.delete(sessionId);
+      await this.retireStore(trafficStore);
+      this.logger.unregisterSessionLog(sessionId);
+    }
+
+    for (const readOnly of this.readOnlyStores.values()) {
+      await this.retireStore(readOnly);
+    }
+    this.readOnlyStores.clear();
   }
 }
@@ -0,0 +1,131 @@
+import * as path from 'path';
+import { ProxyOptions } from '../types/session.js';
+import { MitmError, ErrorCode } from '../types/errors.js';
+
+export type ProxyModeKind = 'regular' | 'upstream' | 'reverse' | 'socks5' | 'transparent';
+
+export interface ProxyMode {
+  kind: ProxyModeKind;
+  // Upstream proxy or reverse proxy target
+  target?: string;
+}
+
+/**
+ * Fill in the defaults for options that were not given.
+ */
+export function resolveProxyOptions(options: Partial<ProxyOptions> = {}): ProxyOptions {
+  return {
+    ignoreHosts: options.ignoreHosts ?? [],
+    allowHosts: options.allowHosts ?? [],
+    sslInsecure: options.sslInsecure ?? true,
+    confdir: options.confdir,
+    streamLargeBodies: options.streamLargeBodies ?? '10m',
+    bodyBlobThreshold: options.bodyBlobThreshold ?? '256k',
+  };
+}
+
+const SIZE_PATTERN = /^(\d+)([kmg]?)$/i;
+const SIZE_UNITS: Record<string, number> = { '': 1, k: 1024, m: 1024 ** 2, g: 1024 ** 3 };
+
+/**
+ * Bytes in a mitmproxy size such as 512k, 10m or 1g (binary multiples, as mitmproxy reads them).
+ */
+export function parseSize(size: string): number {
+  const [, digits, unit] = SIZE_PATTERN.exec(size)!;
+  return Number(digits) * SIZE_UNITS[unit.toLowerCase()];
+}
+
+function invalid(message: string, details?: Record<string, unknown>): MitmError {
+  return new MitmError(ErrorCode.INVALID_ARGUMENT, message, details);
+}
+
+/**
+ * Parse a mitmproxy mode specification. Throws MitmError(INVALID_ARGUMENT).
+ */
+export function parseProxyMode(mode: string): ProxyMode {
+  if (mode === 'regular' || mode === 'socks5' || mode === 'transparent') {
+    return { kind: mode };
+  }
+
+  const separator = mode.indexOf(':');
+  const kind = mode.slice(0, separator);
+  if (separator === -1 || (kind !== 'upstream' && kind !== 'reverse')) {
+    throw invalid(`Unknown proxy mode: ${mode}. Use regular, upstream:<url>, reverse:<url>, socks5 or transparent`, {
+      mode,
+    });
+  }
+
+  const target = mode.slice(separator + 1);
+  let url: URL;
+  try {
+    url = new URL(target);
+  } catch {
+    throw invalid(`Invalid ${kind} URL: ${target}`, { mode });
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw invalid(`The ${kind} URL must be http or https: ${target}`, { mode });
+  }
+  if (url.pathname !== '/' || url.search || url.hash) {
+    throw invalid(`The ${kind} URL takes no path or query: ${target}`, { mode });
+  }
+  return { kind, target };
+}
+
+/**
+ * Whether clients talk to the proxy as an HTTP proxy, so it can be set as the device proxy
+ * and requests can be replayed through it.
+ */
+export function isForwardProxyMode(mode: ProxyMode): boolean {
+  return mode.kind === 'regular' || mode.kind === 'upstream';
+}
+
+/**
+ * Validate proxy options. Throws MitmError(INVALID_ARGUMENT).
+ */
+export function validateProxyOptions(options: ProxyOptions): void {
+  if (options.ignoreHosts.length > 0 && options.allowHosts.length > 0) {
+    throw invalid('ignoreHosts and allowHosts cannot be combined', {
+      ignoreHosts: options.ignoreHosts,
+      allowHosts: options.allowHosts,
+    });
+  }
+  for (const pattern of [...options.ignoreHosts, ...options.allowHosts]) {
+    try {
+      new RegExp(pattern);
+    } catch (error) {
+      throw invalid(`Invalid host pattern "${pattern}": ${error instanceof Error ? error.message : String(error)}`, {
+        pattern,
+      });
+    }
+  }
+  if (options.confdir !== undefined && !path.isAbsolute(options.confdir)) {
+    throw invalid(`confdir must be an absolute path: ${options.confdir}`, { confdir: options.confdir });
+  }
+  for (const key of ['streamLargeBodies', 'bodyBlobThreshold'] as const) {
+    if (!SIZE_PATTERN.test(options[key])) {
+      throw invalid(`Invalid ${key} size: ${options[key]}. Use e.g. 512k, 10m or 1g`, { [key]: options[key] });
+    }
+  }
+}
+
+/**
+ * mitmdump command-line arguments for a mode and options.
+ */
+export function buildModeArgs(mode: string, options: ProxyOptions): string[] {
+  const args = ['--mode', mode];
+  for (const pattern of options.ignoreHosts) {
+    args.push('--ignore-hosts', pattern);
+  }
+  for (const pattern of options.allowHosts) {
+    args.push('--allow-hosts', pattern);
+  }
+  if (options.sslInsecure) {
+    args.push('--ssl-insecure');
+  }
+  if (options.confdir) {
+    args.push('--set', `confdir=${options.confdir}`);
+  }
+  args.push('--set', `stream_large_bodies=${options.streamLargeBodies}`);
+  args.push('--set', `blob_threshold=${parseSize(options.bodyBlobThreshold)}`);
+  return args;
+}
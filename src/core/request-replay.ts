@@ -0,0 +1,336 @@
+import * as http from 'http';
+import * as https from 'https';
+import * as net from 'net';
+import * as tls from 'tls';
+import { JsonlEntry } from '../types/traffic.js';
+import { MitmError, ErrorCode } from '../types/errors.js';
+import { BodyEncoding } from '../types/traffic.js';
+import { decodeContentEncoding, encodeBody, storedBodyBytes } from '../utils/body.js';
+import { JsonPatchOperation, applyJsonPatch } from '../utils/json-pointer.js';
+
+// Control headers understood by har_capture.py: stripped before the request goes
+// upstream and recorded as the entry ID and replayOf link of the captured flow
+export const REPLAY_ENTRY_ID_HEADER = 'X-Mitm-Entry-Id';
+export const REPLAY_OF_HEADER = 'X-Mitm-Replay-Of';
+
+type Header = { name: string; value: string };
+
+export interface ReplayPatch {
+  method?: string;
+  url?: string;
+  setHeaders?: Record<string, string>;
+  removeHeaders?: string[];
+  // null removes the parameter
+  setQuery?: Record<string, string | null>;
+  body?: string;
+  bodyBase64?: string;
+  jsonPatch?: JsonPatchOperation[];
+}
+
+export interface ReplayRequest {
+  method: string;
+  url: string;
+  headers: Header[];
+  body?: Buffer;
+}
+
+export interface ReplayResponse {
+  status: number;
+  statusText: string;
+  httpVersion: string;
+  headers: Header[];
+  body: Buffer;
+  serverIPAddress?: string;
+  timings: JsonlEntry['timings'];
+}
+
+export interface ReplayOptions {
+  // Send through a running mitmdump instead of straight to the server
+  proxy?: { host: string; port: number };
+  timeoutMs: number;
+}
+
+// Recomputed for the replayed request rather than copied from the capture
+const RECOMPUTED_HEADERS = new Set([
+  'host',
+  'content-length',
+  'transfer-encoding',
+  'connection',
+  'keep-alive',
+  'proxy-connection',
+  'te',
+  'upgrade',
+  'expect',
+]);
+
+const BODY_METHODS = new Set(['POST', 'PUT', 'PATCH']);
+
+function invalid(message: string, details?: Record<string, unknown>): MitmError {
+  return new MitmError(ErrorCode.INVALID_ARGUMENT, message, details);
+}
+
+function replayBody(entry: JsonlEntry, patch: ReplayPatch): Buffer | undefined {
+  if (patch.body !== undefined && patch.bodyBase64 !== undefined) {
+    throw invalid('Specify either body or bodyBase64, not both');
+  }
+
+  let body: Buffer | undefined;
+  if (patch.body !== undefined) {
+    body = Buffer.from(patch.body, 'utf-8');
+  } else if (patch.bodyBase64 !== undefined) {
+    body = Buffer.from(patch.bodyBase64, 'base64');
+  } else if (entry.request.body) {
+    body = storedBodyBytes(entry.request.body, entry.request.bodyEncoding);
+  }
+
+  if (patch.jsonPatch && patch.jsonPatch.length > 0) {
+    let document: unknown;
+    try {
+      document = JSON.parse(body ? body.toString('utf-8') : '');
+    } catch {
+      throw invalid('jsonPatch requires a JSON request body', { entryId: entry.id });
+    }
+    try {
+      document = applyJsonPatch(document, patch.jsonPatch);
+    } catch (error) {
+      throw invalid(`Cannot apply jsonPatch: ${error instanceof Error ? error.message : String(error)}`, {
+        entryId: entry.id,
+      });
+    }
+    body = document === undefined ? undefined : Buffer.from(JSON.stringify(document), 'utf-8');
+  }
+
+  return body;
+}
+
+/**
+ * Build the request to replay from a captured entry and a patch.
+ */
+export function prepareReplay(entry: JsonlEntry, patch: ReplayPatch): ReplayRequest {
+  let url: URL;
+  try {
+    url = new URL(patch.url ?? entry.request.url);
+  } catch {
+    throw invalid(`Invalid URL: ${patch.url ?? entry.request.url}`);
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw invalid(`Only http and https URLs can be replayed: ${url.href}`);
+  }
+  for (const [name, value] of Object.entries(patch.setQuery ?? {})) {
+    if (value === null) {
+      url.searchParams.delete(name);
+    } else {
+      url.searchParams.set(name, value);
+    }
+  }
+
+  const method = (patch.method ?? entry.request.method).toUpperCase();
+  const body = replayBody(entry, patch);
+  const setHeaders = Object.entries(patch.setHeaders ?? {});
+  const replaced = new Set(
+    [...(patch.removeHeaders ?? []), ...setHeaders.map(([name]) => name)].map(name => name.toLowerCase())
+  );
+
+  const headers: Header[] = [];
+  if (!replaced.has('host')) headers.push({ name: 'Host', value: url.host });
+  for (const header of entry.request.headers) {
+    const lower = header.name.toLowerCase();
+    // Stored bodies are already decoded, so the captured Content-Encoding never applies
+    if (header.name.startsWith(':') || RECOMPUTED_HEADERS.has(lower) || replaced.has(lower)) continue;
+    if (lower === 'content-encoding') continue;
+    headers.push(header);
+  }
+  for (const [name, value] of setHeaders) {
+    headers.push({ name, value });
+  }
+  if ((body && body.length > 0) || BODY_METHODS.has(method)) {
+    headers.push({ name: 'Content-Length', value: String(body?.length ?? 0) });
+  }
+
+  return { method, url: url.href, headers, body: body && body.length > 0 ? body : undefined };
+}
+
+function outgoingHeaders(headers: Header[]): http.OutgoingHttpHeaders {
+  const result: Record<string, string | string[]> = {};
+  for (const { name, value } of headers) {
+    const existing = Object.keys(result).find(key => key.toLowerCase() === name.toLowerCase());
+    if (existing === undefined) {
+      result[name] = value;
+    } else if (name.toLowerCase() === 'cookie') {
+      result[existing] = `${result[existing]}; ${value}`;
+    } else {
+      result[existing] = ([] as string[]).concat(result[existing], value);
+    }
+  }
+  return result;
+}
+
+function openTunnel(proxy: { host: string; port: number }, authority: string, signal: AbortSignal): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const request = http.request({
+      host: proxy.host,
+      port: proxy.port,
+      method: 'CONNECT',
+      path: authority,
+      headers: { Host: authority },
+      signal,
+    });
+    request.once('connect', (response, socket) => {
+      if (response.statusCode === 200) {
+        resolve(socket);
+      } else {
+        socket.destroy();
+        reject(new Error(`Proxy refused CONNECT to ${authority}: ${response.statusCode} ${response.statusMessage ?? ''}`.trim()));
+      }
+    });
+    request.once('error', reject);
+    request.end();
+  });
+}
+
+/**
+ * Send a prepared request and collect the response, decoding its Content-Encoding
+ * the way the addon does.
+ */
+export async function sendReplay(request: ReplayRequest, options: ReplayOptions): Promise<ReplayResponse> {
+  const url = new URL(request.url);
+  const secure = url.protocol === 'https:';
+  const port = Number(url.port) || (secure ? 443 : 80);
+  // WHATWG keeps the brackets around IPv6 literals
+  const hostname = url.hostname.replace(/^\[(.*)\]$/, '$1');
+  const signal = AbortSignal.timeout(options.timeoutMs);
+  const startedMs = Date.now();
+
+  const requestOptions: https.RequestOptions = {
+    method: request.method,
+    headers: outgoingHeaders(request.headers),
+    // The Host header is part of the prepared request
+    setHost: false,
+    signal,
+  };
+
+  try {
+    let send: typeof http.request = secure ? https.request : http.request;
+    if (options.proxy && secure) {
+      const socket = await openTunnel(options.proxy, `${url.hostname}:${port}`, signal);
+      // mitmproxy presents its own certificate, which Node does not trust
+      Object.assign(requestOptions, {
+        host: hostname,
+        port,
+        path: url.pathname + url.search,
+        createConnection: () =>
+          tls.connect({
+            socket,
+            servername: net.isIP(hostname) ? undefined : hostname,
+            rejectUnauthorized: false,
+          }),
+      });
+      send = http.request;
+    } else if (options.proxy) {
+      // Absolute-form request target for plain HTTP through a proxy
+      Object.assign(requestOptions, { host: options.proxy.host, port: options.proxy.port, path: url.href });
+    } else {
+      Object.assign(requestOptions, { host: hostname, port, path: url.pathname + url.search });
+    }
+
+    return await new Promise<ReplayResponse>((resolve, reject) => {
+      let sentMs = startedMs;
+      const outgoing = send(requestOptions, response => {
+        const firstByteMs = Date.now();
+        const chunks: Buffer[] = [];
+        response.on('data', (chunk: Buffer) => chunks.push(chunk));
+        response.once('error', reject);
+        response.once('end', () => {
+          const headers: Header[] = [];
+          for (let i = 0; i + 1 < response.rawHeaders.length; i += 2) {
+            headers.push({ name: response.rawHeaders[i], value: response.rawHeaders[i + 1] });
+          }
+          const encoding = headers.find(h => h.name.toLowerCase() === 'content-encoding')?.value ?? '';
+          resolve({
+            status: response.statusCode ?? 0,
+            statusText: response.statusMessage ?? '',
+            httpVersion: `HTTP/${response.httpVersion}`,
+            headers,
+            body: decodeContentEncoding(Buffer.concat(chunks), encoding),
+            serverIPAddress: options.proxy ? undefined : response.socket?.remoteAddress,
+            timings: {
+              blocked: 0,
+              dns: 0,
+              connect: 0,
+              ssl: 0,
+              send: sentMs - startedMs,
+              wait: firstByteMs - sentMs,
+              receive: Date.now() - firstByteMs,
+            },
+          });
+        });
+      });
+      outgoing.once('finish', () => {
+        sentMs = Date.now();
+      });
+      outgoing.once('error', reject);
+      outgoing.end(request.body);
+    });
+  } catch (error) {
+    if (signal.aborted) {
+      throw new MitmError(ErrorCode.TIMEOUT, `Replay timed out after ${options.timeoutMs}ms`, {
+        url: request.url,
+        timeoutMs: options.timeoutMs,
+      });
+    }
+    throw new MitmError(
+      ErrorCode.INTERNAL_ERROR,
+      `Replay request failed: ${error instanceof Error ? error.message : String(error)}`,
+      { url: request.url, viaProxy: options.proxy !== undefined }
+    );
+  }
+}
+
+function storedBody(buffer: Buffer | undefined): { body?: string; bodyEncoding?: BodyEncoding } {
+  if (!buffer || buffer.length === 0) return {};
+  const { body, encoding } = encodeBody(buffer);
+  return { body, bodyEncoding: encoding };
+}
+
+/**
+ * Record a replay sent directly to the server as a traffic entry linked to the original.
+ */
+export function toReplayEntry(
+  id: string,
+  replayOf: string,
+  request: ReplayRequest,
+  response: ReplayResponse,
+  timestampMs: number
+): JsonlEntry {
+  const url = new URL(request.url);
+  const contentType = response.headers.find(h => h.name.toLowerCase() === 'content-type')?.value ?? '';
+
+  return {
+    id,
+    timestamp: new Date(timestampMs).toISOString(),
+    timestampMs,
+    request: {
+      method: request.method,
+      url: request.url,
+      host: url.hostname.replace(/^\[(.*)\]$/, '$1'),
+      path: url.pathname + url.search,
+      httpVersion: 'HTTP/1.1',
+      headers: request.headers,
+      queryString: Array.from(url.searchParams, ([name, value]) => ({ name, value })),
+      bodySize: request.body?.length ?? 0,
+      ...storedBody(request.body),
+    },
+    response: {
+      status: response.status,
+      statusText: response.statusText,
+      httpVersion: response.httpVersion,
+      headers: response.headers,
+      contentType,
+      bodySize: response.body.length,
+      ...storedBody(response.body),
+    },
+    timings: response.timings,
+    serverIPAddress: response.serverIPAddress ?? '',
+    replayOf,
+  };
+}
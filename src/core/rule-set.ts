@@ -0,0 +1,158 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Rule, RuleMatch } from '../types/schemas.js';
+import { MitmError, ErrorCode } from '../types/errors.js';
+import { writeFileAtomic } from '../utils/atomic-file.js';
+import { parseJsonPointer } from '../utils/json-pointer.js';
+import { parseFilter } from './filter-expression.js';
+
+// rules.json, read by har_capture.py through its rules_file option
+export interface RulesFile {
+  version: 1;
+  updatedAt: string;
+  rules: Rule[];
+}
+
+function invalid(rule: Rule, message: string): MitmError {
+  return new MitmError(ErrorCode.INVALID_ARGUMENT, `Rule ${rule.id}: ${message}`, { ruleId: rule.id });
+}
+
+function regexError(pattern: string, error: unknown): string {
+  return `invalid regex "${pattern}": ${error instanceof Error ? error.message : String(error)}`;
+}
+
+/**
+ * Check that a Python regex also compiles in JavaScript, after translating the Python-only
+ * syntax used most often (named groups and a leading inline flag group).
+ */
+function checkPythonRegex(pattern: string): void {
+  let source = pattern.replace(/\(\?P<(\w+)>/g, '(?<$1>').replace(/\(\?P=(\w+)\)/g, '\\k<$1>');
+  let flags = '';
+  const inline = /^\(\?([aiLmsux]+)\)/.exec(source);
+  if (inline) {
+    source = source.slice(inline[0].length);
+    flags = inline[1].replace(/[aLux]/g, '');
+  }
+  new RegExp(source, flags);
+}
+
+/**
+ * Validate the match conditions shared by rules and breakpoints. Throws an Error
+ * describing the first problem.
+ */
+export function validateMatch(match: RuleMatch): void {
+  if (match.filter) {
+    parseFilter(match.filter);
+  }
+  if (match.path) {
+    try {
+      checkPythonRegex(match.path);
+    } catch (error) {
+      throw new Error(regexError(match.path, error));
+    }
+  }
+}
+
+/**
+ * Validate rules before they are handed to the addon, which can only log errors.
+ * Throws MitmError(INVALID_ARGUMENT) naming the offending rule.
+ */
+export async function validateRules(rules: Rule[]): Promise<void> {
+  const ids = new Set<string>();
+
+  for (const rule of rules) {
+    if (ids.has(rule.id)) {
+      throw invalid(rule, 'duplicate rule ID');
+    }
+    ids.add(rule.id);
+
+    if (!rule.mapLocal && !rule.mapRemote && !rule.headers?.length && !rule.bodyRewrites?.length) {
+      throw invalid(rule, 'no action; set mapLocal, mapRemote, headers or bodyRewrites');
+    }
+    if (rule.mapLocal && rule.mapRemote) {
+      throw invalid(rule, 'mapLocal and mapRemote cannot be combined');
+    }
+
+    try {
+      validateMatch(rule.match);
+    } catch (error) {
+      throw invalid(rule, error instanceof Error ? error.message : String(error));
+    }
+
+    if (rule.mapLocal) {
+      const { body, bodyBase64, file } = rule.mapLocal;
+      if ([body, bodyBase64, file].filter(value => value !== undefined).length > 1) {
+        throw invalid(rule, 'mapLocal takes only one of body, bodyBase64 and file');
+      }
+      if (file !== undefined) {
+        if (!path.isAbsolute(file)) {
+          throw invalid(rule, `mapLocal file must be an absolute path: ${file}`);
+        }
+        const stat = await fs.promises.stat(file).catch(() => null);
+        if (!stat?.isFile()) {
+          throw invalid(rule, `mapLocal file not found: ${file}`);
+        }
+      }
+    }
+
+    for (const header of rule.headers ?? []) {
+      if (header.action !== 'remove' && header.value === undefined) {
+        throw invalid(rule, `header action "${header.action}" on ${header.name} needs a value`);
+      }
+    }
+
+    for (const rewrite of rule.bodyRewrites ?? []) {
+      if (rewrite.type === 'regex') {
+        try {
+          checkPythonRegex(rewrite.pattern);
+        } catch (error) {
+          throw invalid(rule, regexError(rewrite.pattern, error));
+        }
+        continue;
+      }
+      try {
+        parseJsonPointer(rewrite.pointer);
+      } catch (error) {
+        throw invalid(rule, error instanceof Error ? error.message : String(error));
+      }
+      if (!rewrite.remove && rewrite.value === undefined) {
+        throw invalid(rule, `jsonPointer rewrite of ${rewrite.pointer} needs a value or remove: true`);
+      }
+    }
+  }
+}
+
+/**
+ * Add or update rules by ID, keeping the position of rules that already exist.
+ * Also used for network conditions, which are identified the same way.
+ */
+export function mergeRules<T extends { id: string }>(existing: T[], incoming: T[]): T[] {
+  const byId = new Map(incoming.map(rule => [rule.id, rule]));
+  const merged = existing.map(rule => byId.get(rule.id) ?? rule);
+  const existingIds = new Set(existing.map(rule => rule.id));
+  return [...merged, ...incoming.filter(rule => !existingIds.has(rule.id))];
+}
+
+export async function readRulesFile(filePath: string): Promise<Rule[]> {
+  try {
+    const content = await fs.promises.readFile(filePath, 'utf-8');
+    return (JSON.parse(content) as RulesFile).rules ?? [];
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw new MitmError(
+      ErrorCode.INTERNAL_ERROR,
+      `Failed to read rules: ${error instanceof Error ? error.message : String(error)}`,
+      { path: filePath }
+    );
+  }
+}
+
+/**
+ * Write the rules file atomically so the addon never reads a partial file.
+ */
+export async function writeRulesFile(filePath: string, rules: Rule[]): Promise<void> {
+  const content: RulesFile = { version: 1, updatedAt: new Date().toISOString(), rules };
+  await writeFileAtomic(filePath, JSON.stringify(content, null, 2));
+}
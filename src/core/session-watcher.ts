@@ -0,0 +1,93 @@
+import * as fs from 'fs';
+import { CoreSessionStatus, SessionState } from '../types/session.js';
+import { ErrorCode, MitmError } from '../types/errors.js';
+import { StateClient, STATE_FILE } from './state-client.js';
+
+export interface SessionWatcherOptions {
+  pollIntervalMs: number;
+  onTransition: (from: CoreSessionStatus, to: CoreSessionStatus, state: SessionState | null) => void;
+}
+
+/**
+ * Follows the status sniaff-core-mcp keeps in a session's state.json. fs.watch on the
+ * session directory reports changes promptly (watching the directory rather than the file
+ * survives the file being replaced); polling covers filesystems where fs.watch misses
+ * events or is not available.
+ */
+export class SessionStateWatcher {
+  private watcher: fs.FSWatcher | null = null;
+  private timer: NodeJS.Timeout | null = null;
+  private checking = false;
+  private recheck = false;
+
+  constructor(
+    private readonly stateClient: StateClient,
+    private readonly sessionId: string,
+    private status: CoreSessionStatus,
+    private readonly options: SessionWatcherOptions
+  ) {}
+
+  start(): void {
+    try {
+      this.watcher = fs.watch(this.stateClient.getSessionDir(this.sessionId), (_event, filename) => {
+        if (!filename || filename.toString() === STATE_FILE) this.check();
+      });
+      // The directory itself went away; polling carries on
+      this.watcher.on('error', () => this.closeWatcher());
+    } catch {
+      // Polling only
+    }
+    this.timer = setInterval(() => this.check(), this.options.pollIntervalMs);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    this.closeWatcher();
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private closeWatcher(): void {
+    this.watcher?.close();
+    this.watcher = null;
+  }
+
+  private check(): void {
+    if (this.checking) {
+      this.recheck = true;
+      return;
+    }
+    this.checking = true;
+    void this.readStatus().then(({ status, state }) => {
+      if (status !== null && status !== this.status && this.timer) {
+        const from = this.status;
+        this.status = status;
+        this.options.onTransition(from, status, state);
+      }
+    }).finally(() => {
+      this.checking = false;
+      if (this.recheck) {
+        this.recheck = false;
+        this.check();
+      }
+    });
+  }
+
+  /**
+   * The session's status, or null when state.json could not be read this time (for
+   * example caught half-written).
+   */
+  private async readStatus(): Promise<{ status: CoreSessionStatus | null; state: SessionState | null }> {
+    try {
+      const state = await this.stateClient.read(this.sessionId);
+      return { status: state.status, state };
+    } catch (error) {
+      if (error instanceof MitmError && error.code === ErrorCode.SESSION_NOT_FOUND) {
+        return { status: 'missing', state: null };
+      }
+      return { status: null, state: null };
+    }
+  }
+}
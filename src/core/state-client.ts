@@ -3,8 +3,16 @@ import * as path from 'path';
 import { SessionState, MitmState } from '../types/session.js';
 import { MitmError, ErrorCode } from '../types/errors.js';
 import { Logger } from '../utils/logger.js';
+import { replaceFileIfUnchanged } from '../utils/atomic-file.js';
+import { withFileLock } from '../utils/file-lock.js';
 
-const STATE_FILE = 'state.json';
+export const STATE_FILE = 'state.json';
+
+// The lock is held for one read-modify-write, so a lock this old was left by a crashed writer
+const STATE_LOCK = { timeoutMs: 5000, staleMs: 10000 };
+// Rounds of re-reading and merging when a writer that skips the lock changes the file under us
+const MAX_WRITE_ATTEMPTS = 5;
+const WRITE_RETRY_DELAY_MS = 50;
 
 /**
  * Client for reading/writing to the shared session state file.
@@ -29,10 +37,22 @@ export class StateClient {
   }
 
   async read(sessionId: string): Promise<SessionState> {
-    const statePath = this.getStatePath(sessionId);
+    const content = await this.readRaw(sessionId);
     try {
-      const content = await fs.promises.readFile(statePath, 'utf-8');
       return JSON.parse(content) as SessionState;
+    } catch (error) {
+      throw new MitmError(
+        ErrorCode.STATE_READ_FAILED,
+        `Failed to read session state: ${error instanceof Error ? error.message : String(error)}`,
+        { sessionId, statePath: this.getStatePath(sessionId) }
+      );
+    }
+  }
+
+  private async readRaw(sessionId: string): Promise<string> {
+    const statePath = this.getStatePath(sessionId);
+    try {
+      return await fs.promises.readFile(statePath, 'utf-8');
     } catch (error) {
       if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
         throw new MitmError(
@@ -49,24 +69,56 @@ export class StateClient {
     }
   }
 
+  /**
+   * Merge into the mitm key of state.json, leaving the keys other servers own as they are.
+   * The read-modify-write runs under the state.json.lock advisory lock, and the file is
+   * replaced atomically; if a writer that does not take the lock changed the file meanwhile,
+   * the update is merged again into its version.
+   */
   async updateMitm(sessionId: string, mitm: Partial<MitmState>): Promise<SessionState> {
     const statePath = this.getStatePath(sessionId);
 
-    // Read current state
-    const current = await this.read(sessionId);
+    try {
+      return await withFileLock(statePath, STATE_LOCK, async () => {
+        for (let attempt = 1; ; attempt++) {
+          // Read current state
+          const content = await this.readRaw(sessionId);
+          let current: SessionState | null = null;
+          try {
+            current = JSON.parse(content) as SessionState;
+          } catch {
+            // Caught mid-write by a writer that does not replace the file atomically
+          }
 
-    // Merge mitm state
-    const updated: SessionState = {
-      ...current,
-      mitm: { ...current.mitm, ...mitm } as MitmState,
-    };
+          if (current) {
+            // Merge mitm state
+            const updated: SessionState = {
+              ...current,
+              mitm: { ...current.mitm, ...mitm } as MitmState,
+            };
+            if (await replaceFileIfUnchanged(statePath, content, JSON.stringify(updated, null, 2))) {
+              this.logger.debug('Updated mitm state', { sessionId, mitm, attempt });
+              return updated;
+            }
+          }
 
-    // Write back
-    try {
-      await fs.promises.writeFile(statePath, JSON.stringify(updated, null, 2), 'utf-8');
-      this.logger.debug('Updated mitm state', { sessionId, mitm });
-      return updated;
+          if (attempt >= MAX_WRITE_ATTEMPTS) {
+            throw new Error(`state.json kept changing during ${MAX_WRITE_ATTEMPTS} attempts to update it`);
+          }
+          this.logger.debug('Session state changed during update, retrying', { sessionId, attempt });
+          await new Promise(resolve => setTimeout(resolve, WRITE_RETRY_DELAY_MS));
+        }
+      });
     } catch (error) {
+      if (error instanceof MitmError) throw error;
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        // No session directory to put the lock in
+        throw new MitmError(
+          ErrorCode.SESSION_NOT_FOUND,
+          `Session not found: ${sessionId}. Create a session first with core.start_session()`,
+          { sessionId }
+        );
+      }
       throw new MitmError(
         ErrorCode.STATE_WRITE_FAILED,
         `Failed to write session state: ${error instanceof Error ? error.message : String(error)}`,
@@ -0,0 +1,133 @@
+import { FailureEvent } from '../types/traffic.js';
+
+export type FailureDiagnosis =
+  | 'pinning-likely'
+  | 'intermittent-pinning'
+  | 'client-tls-error'
+  | 'upstream-tls-error'
+  | 'connection-error';
+
+export interface HostFailureSummary {
+  host: string;
+  clientFailures: number;
+  // Client failures whose message says the client rejected the proxy's certificate
+  certificateRejections: number;
+  serverFailures: number;
+  flowErrors: number;
+  successfulEntries: number;
+  clients: string[];
+  firstSeen: string;
+  lastSeen: string;
+  sampleError: string;
+  diagnosis: FailureDiagnosis;
+  suggestion: string;
+}
+
+export interface FailureSummary {
+  totalEvents: number;
+  hosts: HostFailureSummary[];
+  // Session-wide reading of the per-host results
+  verdict: string;
+}
+
+// How mitmproxy and OpenSSL word a client that refuses the proxy's certificate. A client that
+// drops the connection mid-handshake is what most pinning implementations do.
+const CERTIFICATE_REJECTION = new RegExp(
+  [
+    "does not trust the proxy's certificate",
+    'certificate unknown',
+    'bad certificate',
+    'unknown ca',
+    'certificate verify failed',
+    'disconnected during the handshake',
+  ].join('|'),
+  'i'
+);
+
+const SUGGESTIONS: Record<FailureDiagnosis, string> = {
+  'pinning-likely':
+    'The client rejects the proxy certificate for this host and none of its flows got through. Bypass pinning ' +
+    'on the device, or add the host ' +
+    'to ignoreHosts in mitm.start to let its traffic through without interception.',
+  'intermittent-pinning':
+    'Some connections to this host succeed and others reject the proxy certificate; the app probably pins ' +
+    'only part of its traffic (a specific client library or SDK).',
+  'client-tls-error':
+    'The client failed the handshake for a reason other than the certificate, such as a protocol or cipher mismatch.',
+  'upstream-tls-error':
+    'The handshake with the server failed. Check the upstream certificate (sslInsecure) or whether the server ' +
+    'requires a client certificate.',
+  'connection-error':
+    'Requests to this host failed after the handshake, for example a refused connection or a reset.',
+};
+
+function diagnose(summary: Omit<HostFailureSummary, 'diagnosis' | 'suggestion'>): FailureDiagnosis {
+  if (summary.certificateRejections > 0) {
+    return summary.successfulEntries > 0 ? 'intermittent-pinning' : 'pinning-likely';
+  }
+  if (summary.clientFailures > 0) return 'client-tls-error';
+  if (summary.serverFailures > 0) return 'upstream-tls-error';
+  return 'connection-error';
+}
+
+/**
+ * Group failure events by host and judge whether each host's pattern looks like certificate pinning.
+ * successByHost holds the number of captured HTTPS entries for each (lowercased) host, and
+ * httpsEntries the number across all hosts.
+ */
+export function summarizeFailures(
+  events: FailureEvent[],
+  successByHost: Map<string, number>,
+  httpsEntries: number
+): FailureSummary {
+  const byHost = new Map<string, FailureEvent[]>();
+  for (const event of events) {
+    const host = event.host.toLowerCase();
+    const hostEvents = byHost.get(host) ?? [];
+    hostEvents.push(event);
+    byHost.set(host, hostEvents);
+  }
+
+  const hosts: HostFailureSummary[] = [];
+  for (const [host, hostEvents] of byHost) {
+    const client = hostEvents.filter(event => event.type === 'tls_client');
+    const base = {
+      host,
+      clientFailures: client.length,
+      certificateRejections: client.filter(event => CERTIFICATE_REJECTION.test(event.error)).length,
+      serverFailures: hostEvents.filter(event => event.type === 'tls_server').length,
+      flowErrors: hostEvents.filter(event => event.type === 'http_error').length,
+      successfulEntries: successByHost.get(host) ?? 0,
+      clients: [...new Set(hostEvents.map(event => event.clientAddress?.replace(/:\d+$/, '')).filter(
+        (address): address is string => !!address
+      ))],
+      firstSeen: hostEvents[0].timestamp,
+      lastSeen: hostEvents[hostEvents.length - 1].timestamp,
+      sampleError: (client[0] ?? hostEvents[0]).error,
+    };
+    const diagnosis = diagnose(base);
+    hosts.push({ ...base, diagnosis, suggestion: SUGGESTIONS[diagnosis] });
+  }
+  hosts.sort((a, b) =>
+    b.certificateRejections - a.certificateRejections ||
+    b.clientFailures + b.serverFailures + b.flowErrors - (a.clientFailures + a.serverFailures + a.flowErrors)
+  );
+
+  return { totalEvents: events.length, hosts, verdict: verdict(hosts, httpsEntries) };
+}
+
+function verdict(hosts: HostFailureSummary[], httpsEntries: number): string {
+  const rejected = hosts.filter(host => host.certificateRejections > 0);
+  if (hosts.length === 0) {
+    return 'No TLS or connection failures recorded.';
+  }
+  if (rejected.length === 0) {
+    return 'No certificate rejections; failures look like network or upstream problems rather than pinning.';
+  }
+  if (httpsEntries === 0) {
+    return `Certificate rejected for ${rejected.length} host(s) and no HTTPS flow succeeded: the device or app ` +
+      'probably does not trust the mitmproxy CA at all (on Android 7+, apps ignore user CAs by default).';
+  }
+  return `Certificate rejected for ${rejected.length} host(s) while other HTTPS traffic is captured: ` +
+    'this pattern looks like certificate pinning.';
+}
@@ -0,0 +1,331 @@
+import { BodyEncoding, JsonlEntry } from '../types/traffic.js';
+import { MitmError, ErrorCode } from '../types/errors.js';
+import { decodeContentEncoding, encodeBody } from '../utils/body.js';
+import { newEntryId } from '../utils/entry-id.js';
+import { parseTNetStrings, TNetValue } from '../utils/tnetstring.js';
+
+export type ImportFormat = 'har' | 'flows';
+
+export interface ImportResult {
+  format: ImportFormat;
+  entries: JsonlEntry[];
+  skipped: number;
+}
+
+type Dict = { [key: string]: TNetValue };
+
+function emptyTimings(): JsonlEntry['timings'] {
+  return { blocked: 0, dns: 0, connect: 0, ssl: 0, send: 0, wait: 0, receive: 0 };
+}
+
+function findHeader(headers: Array<{ name: string; value: string }>, name: string): string {
+  const lower = name.toLowerCase();
+  return headers.find(h => h.name.toLowerCase() === lower)?.value ?? '';
+}
+
+function queryStringOf(url: string): Array<{ name: string; value: string }> {
+  try {
+    return Array.from(new URL(url).searchParams, ([name, value]) => ({ name, value }));
+  } catch {
+    return [];
+  }
+}
+
+function hostAndPath(url: string): { host: string; path: string } {
+  try {
+    const parsed = new URL(url);
+    return { host: parsed.hostname, path: parsed.pathname + parsed.search };
+  } catch {
+    return { host: '', path: url };
+  }
+}
+
+/**
+ * Guess the file format from its first non-whitespace byte: HAR is JSON,
+ * mitmproxy flow files start with a tnetstring length prefix.
+ */
+export function detectImportFormat(data: Buffer): ImportFormat {
+  for (const byte of data.subarray(0, 64)) {
+    if (byte === 0x20 || byte === 0x0a || byte === 0x0d || byte === 0x09 || byte === 0xef || byte === 0xbb || byte === 0xbf) {
+      continue;
+    }
+    if (byte === 0x7b) return 'har';
+    if (byte >= 0x30 && byte <= 0x39) return 'flows';
+    break;
+  }
+  throw new MitmError(
+    ErrorCode.INVALID_ARGUMENT,
+    'Unrecognized import file: expected a HAR (JSON) or mitmproxy .flows file'
+  );
+}
+
+interface HarFileEntry {
+  startedDateTime?: string;
+  time?: number;
+  request?: {
+    method?: string;
+    url?: string;
+    httpVersion?: string;
+    headers?: Array<{ name: string; value: string }>;
+    queryString?: Array<{ name: string; value: string }>;
+    bodySize?: number;
+    postData?: { mimeType?: string; text?: string; encoding?: string; _encoding?: string };
+  };
+  response?: {
+    status?: number;
+    statusText?: string;
+    httpVersion?: string;
+    headers?: Array<{ name: string; value: string }>;
+    bodySize?: number;
+    content?: { size?: number; mimeType?: string; text?: string; encoding?: string };
+  };
+  timings?: Partial<Record<'blocked' | 'dns' | 'connect' | 'ssl' | 'send' | 'wait' | 'receive', number>>;
+  serverIPAddress?: string;
+}
+
+type ImportedBody = { body?: string; bodyEncoding?: BodyEncoding; size: number };
+
+function importedBody(buffer: Buffer): ImportedBody {
+  if (buffer.length === 0) return { size: 0 };
+  const { body, encoding } = encodeBody(buffer);
+  return { body, bodyEncoding: encoding, size: buffer.length };
+}
+
+function harBody(text: string | undefined, encoding: string | undefined): ImportedBody {
+  if (text === undefined || text === null) return { size: 0 };
+  return importedBody(encoding === 'base64' ? Buffer.from(text, 'base64') : Buffer.from(text, 'utf-8'));
+}
+
+// HAR uses -1 for "not applicable"
+function harTiming(value: number | undefined): number {
+  return value !== undefined && value > 0 ? Math.round(value) : 0;
+}
+
+export function parseHarFile(data: Buffer, file: string): ImportResult {
+  let har: { log?: { entries?: HarFileEntry[] } };
+  try {
+    har = JSON.parse(data.toString('utf-8').replace(/^\uFEFF/, ''));
+  } catch (error) {
+    throw new MitmError(
+      ErrorCode.INVALID_ARGUMENT,
+      `Invalid HAR file: ${error instanceof Error ? error.message : String(error)}`,
+      { file }
+    );
+  }
+
+  if (!har.log || !Array.isArray(har.log.entries)) {
+    throw new MitmError(ErrorCode.INVALID_ARGUMENT, 'Invalid HAR file: missing log.entries', { file });
+  }
+
+  const entries: JsonlEntry[] = [];
+  let skipped = 0;
+
+  for (const item of har.log.entries) {
+    const request = item.request;
+    if (!request?.url || !request.method) {
+      skipped++;
+      continue;
+    }
+    const response = item.response ?? {};
+    const requestHeaders = request.headers ?? [];
+    const responseHeaders = response.headers ?? [];
+
+    const postData = request.postData;
+    const requestBody = harBody(postData?.text, postData?.encoding ?? postData?._encoding);
+    const responseBody = harBody(response.content?.text, response.content?.encoding);
+
+    const timings = item.timings ?? {};
+    const ssl = harTiming(timings.ssl);
+    const startedMs = item.startedDateTime ? Date.parse(item.startedDateTime) : NaN;
+    // Captured entries are stamped when the response completes
+    const timestampMs = isNaN(startedMs) ? Date.now() : Math.round(startedMs + harTiming(item.time));
+    const { host, path } = hostAndPath(request.url);
+
+    entries.push({
+      id: newEntryId(),
+      timestamp: new Date(timestampMs).toISOString(),
+      timestampMs,
+      request: {
+        method: request.method,
+        url: request.url,
+        host,
+        path,
+        httpVersion: request.httpVersion ?? '',
+        headers: requestHeaders,
+        queryString: request.queryString ?? queryStringOf(request.url),
+        bodySize: requestBody.size || Math.max(0, request.bodySize ?? 0),
+        body: requestBody.body,
+        bodyEncoding: requestBody.bodyEncoding,
+      },
+      response: {
+        status: response.status ?? 0,
+        statusText: response.statusText ?? '',
+        httpVersion: response.httpVersion ?? '',
+        headers: responseHeaders,
+        contentType: response.content?.mimeType || findHeader(responseHeaders, 'content-type'),
+        bodySize: responseBody.size || Math.max(0, response.content?.size ?? 0),
+        body: responseBody.body,
+        bodyEncoding: responseBody.bodyEncoding,
+      },
+      timings: {
+        blocked: harTiming(timings.blocked),
+        dns: harTiming(timings.dns),
+        // HAR includes the TLS handshake in connect; the addon reports them separately
+        connect: Math.max(0, harTiming(timings.connect) - ssl),
+        ssl,
+        send: harTiming(timings.send),
+        wait: harTiming(timings.wait),
+        receive: harTiming(timings.receive),
+      },
+      serverIPAddress: item.serverIPAddress || undefined,
+      source: { format: 'har', file },
+    });
+  }
+
+  return { format: 'har', entries, skipped };
+}
+
+function text(value: TNetValue | undefined): string {
+  if (value === undefined || value === null) return '';
+  if (Buffer.isBuffer(value)) return value.toString('utf-8');
+  return String(value);
+}
+
+function num(value: TNetValue | undefined): number | undefined {
+  return typeof value === 'number' ? value : undefined;
+}
+
+function dict(value: TNetValue | undefined): Dict | undefined {
+  return value && typeof value === 'object' && !Buffer.isBuffer(value) && !Array.isArray(value)
+    ? (value as Dict)
+    : undefined;
+}
+
+function flowHeaders(value: TNetValue | undefined): Array<{ name: string; value: string }> {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter((pair): pair is TNetValue[] => Array.isArray(pair) && pair.length >= 2)
+    .map(pair => ({ name: text(pair[0]), value: text(pair[1]) }));
+}
+
+function flowBody(message: Dict, headers: Array<{ name: string; value: string }>): ImportedBody {
+  const content = message.content;
+  if (!Buffer.isBuffer(content) || content.length === 0) return { size: 0 };
+  return importedBody(decodeContentEncoding(content, findHeader(headers, 'content-encoding')));
+}
+
+function ms(from: number | undefined, to: number | undefined): number {
+  return from !== undefined && to !== undefined && to >= from ? Math.round((to - from) * 1000) : 0;
+}
+
+function flowToEntry(flow: Dict, file: string): JsonlEntry | null {
+  const request = dict(flow.request);
+  if (!request || (flow.type !== undefined && text(flow.type) !== 'http')) return null;
+
+  const response = dict(flow.response);
+  const serverConn = dict(flow.server_conn);
+
+  const requestHeaders = flowHeaders(request.headers);
+  const responseHeaders = response ? flowHeaders(response.headers) : [];
+
+  const scheme = text(request.scheme) || 'http';
+  const port = num(request.port);
+  // Like mitmproxy's pretty_url: prefer the Host header / authority over the connection host
+  const authority = text(request.authority) || findHeader(requestHeaders, 'host');
+  const defaultPort = (scheme === 'https' && port === 443) || (scheme === 'http' && port === 80);
+  const hostPart = authority || `${text(request.host)}${port && !defaultPort ? `:${port}` : ''}`;
+  const requestPath = text(request.path) || '/';
+  const url = `${scheme}://${hostPart}${requestPath}`;
+
+  const requestBody = flowBody(request, requestHeaders);
+  const responseBody = response ? flowBody(response, responseHeaders) : { size: 0 };
+
+  const requestStart = num(request.timestamp_start);
+  const requestEnd = num(request.timestamp_end);
+  const responseStart = response ? num(response.timestamp_start) : undefined;
+  const responseEnd = response ? num(response.timestamp_end) : undefined;
+  const stampSeconds = responseEnd ?? responseStart ?? requestEnd ?? requestStart;
+  const timestampMs = stampSeconds !== undefined ? Math.round(stampSeconds * 1000) : Date.now();
+
+  const tcpSetup = serverConn ? num(serverConn.timestamp_tcp_setup) : undefined;
+  const peer = serverConn ? serverConn.peername ?? serverConn.ip_address : undefined;
+
+  let host = text(request.host);
+  try {
+    host = new URL(url).hostname;
+  } catch {
+    // Keep the connection host
+  }
+
+  return {
+    id: newEntryId(),
+    timestamp: new Date(timestampMs).toISOString(),
+    timestampMs,
+    request: {
+      method: text(request.method),
+      url,
+      host,
+      path: requestPath,
+      httpVersion: text(request.http_version),
+      headers: requestHeaders,
+      queryString: queryStringOf(url),
+      bodySize: requestBody.size,
+      body: requestBody.body,
+      bodyEncoding: requestBody.bodyEncoding,
+    },
+    response: {
+      status: response ? num(response.status_code) ?? 0 : 0,
+      statusText: response ? text(response.reason) : '',
+      httpVersion: response ? text(response.http_version) : '',
+      headers: responseHeaders,
+      contentType: findHeader(responseHeaders, 'content-type'),
+      bodySize: responseBody.size,
+      body: responseBody.body,
+      bodyEncoding: responseBody.bodyEncoding,
+    },
+    timings: {
+      ...emptyTimings(),
+      connect: serverConn ? ms(num(serverConn.timestamp_start), tcpSetup) : 0,
+      ssl: serverConn ? ms(tcpSetup, num(serverConn.timestamp_tls_setup)) : 0,
+      send: ms(requestStart, requestEnd),
+      wait: ms(requestEnd, responseStart),
+      receive: ms(responseStart, responseEnd),
+    },
+    serverIPAddress: Array.isArray(peer) && peer.length > 0 ? text(peer[0]) : undefined,
+    source: { format: 'flows', file },
+  };
+}
+
+export function parseFlowsFile(data: Buffer, file: string): ImportResult {
+  let flows: TNetValue[];
+  try {
+    flows = parseTNetStrings(data);
+  } catch (error) {
+    throw new MitmError(
+      ErrorCode.INVALID_ARGUMENT,
+      `Invalid mitmproxy flow file: ${error instanceof Error ? error.message : String(error)}`,
+      { file }
+    );
+  }
+
+  const entries: JsonlEntry[] = [];
+  let skipped = 0;
+
+  for (const value of flows) {
+    const flow = dict(value);
+    const entry = flow ? flowToEntry(flow, file) : null;
+    if (entry) {
+      entries.push(entry);
+    } else {
+      // Non-HTTP flows (TCP, UDP, DNS) have no JsonlEntry equivalent
+      skipped++;
+    }
+  }
+
+  return { format: 'flows', entries, skipped };
+}
+
+export function parseImportFile(data: Buffer, file: string, format?: ImportFormat): ImportResult {
+  const resolved = format ?? detectImportFormat(data);
+  return resolved === 'har' ? parseHarFile(data, file) : parseFlowsFile(data, file);
+}
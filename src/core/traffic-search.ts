@@ -0,0 +1,210 @@
+import { BodyEncoding, JsonlEntry } from '../types/traffic.js';
+import { MitmError, ErrorCode } from '../types/errors.js';
+import { decodeBase64Body, toPrintable } from '../utils/body.js';
+
+export type SearchScope =
+  | 'requestBody'
+  | 'responseBody'
+  | 'requestHeaders'
+  | 'responseHeaders'
+  | 'queryString';
+
+export const SEARCH_SCOPES: SearchScope[] = [
+  'queryString',
+  'requestHeaders',
+  'requestBody',
+  'responseHeaders',
+  'responseBody',
+];
+
+export interface SearchMatcherOptions {
+  regex: boolean;
+  caseSensitive: boolean;
+}
+
+export interface SearchMatch {
+  scope: SearchScope;
+  location: string;
+  name?: string;
+  base64Decoded?: boolean;
+  offset: number;
+  snippet: string;
+}
+
+const SNIPPET_CONTEXT = 40;
+const HIGHLIGHT_START = '**';
+const HIGHLIGHT_END = '**';
+
+/**
+ * Build the regex used to find matches, escaping the pattern unless it is a regex.
+ */
+export function createSearchMatcher(pattern: string, options: SearchMatcherOptions): RegExp {
+  const source = options.regex ? pattern : pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const flags = options.caseSensitive ? 'g' : 'gi';
+  try {
+    return new RegExp(source, flags);
+  } catch (error) {
+    throw new MitmError(
+      ErrorCode.INVALID_ARGUMENT,
+      `Invalid search regex: ${error instanceof Error ? error.message : String(error)}`,
+      { pattern }
+    );
+  }
+}
+
+function makeSnippet(text: string, start: number, end: number): string {
+  const from = Math.max(0, start - SNIPPET_CONTEXT);
+  const to = Math.min(text.length, end + SNIPPET_CONTEXT);
+  const clean = (s: string) => s.replace(/[\r\n\t]+/g, ' ');
+  return (
+    (from > 0 ? '…' : '') +
+    clean(text.slice(from, start)) +
+    HIGHLIGHT_START + clean(text.slice(start, end)) + HIGHLIGHT_END +
+    clean(text.slice(end, to)) +
+    (to < text.length ? '…' : '')
+  );
+}
+
+function findInText(
+  text: string,
+  matcher: RegExp,
+  base: Omit<SearchMatch, 'offset' | 'snippet'>,
+  limit: number
+): SearchMatch[] {
+  const found: SearchMatch[] = [];
+  for (const match of text.matchAll(matcher)) {
+    if (match[0].length === 0) continue;
+    const start = match.index!;
+    found.push({ ...base, offset: start, snippet: makeSnippet(text, start, start + match[0].length) });
+    if (found.length >= limit) break;
+  }
+  return found;
+}
+
+function findInBody(
+  { body, bodyEncoding }: { body?: string; bodyEncoding?: BodyEncoding },
+  matcher: RegExp,
+  scope: SearchScope,
+  label: string,
+  limit: number
+): SearchMatch[] {
+  if (!body) return [];
+
+  const found = findInText(body, matcher, { scope, location: label }, limit);
+
+  // Binary bodies are stored as base64: search the decoded bytes as well
+  const decoded = decodeBase64Body(body, bodyEncoding);
+  if (decoded && found.length < limit) {
+    found.push(
+      ...findInText(
+        toPrintable(decoded),
+        matcher,
+        { scope, location: `${label} (base64-decoded)`, base64Decoded: true },
+        limit - found.length
+      )
+    );
+  }
+
+  return found;
+}
+
+function findInPairs(
+  pairs: Array<{ name: string; value: string }>,
+  separator: string,
+  matcher: RegExp,
+  scope: SearchScope,
+  label: string,
+  limit: number
+): SearchMatch[] {
+  const found: SearchMatch[] = [];
+  for (const pair of pairs) {
+    if (found.length >= limit) break;
+    found.push(
+      ...findInText(
+        `${pair.name}${separator}${pair.value}`,
+        matcher,
+        { scope, location: `${label} "${pair.name}"`, name: pair.name },
+        limit - found.length
+      )
+    );
+  }
+  return found;
+}
+
+/**
+ * Search a body kept in a blob, read as overlapping text windows (BlobStore.textWindows).
+ * A binary body is searched as its decoded bytes, like a base64 body stored inline.
+ */
+export async function searchBodyWindows(
+  windows: AsyncIterable<{ text: string; offset: number }>,
+  matcher: RegExp,
+  scope: 'requestBody' | 'responseBody',
+  binary: boolean,
+  limit: number
+): Promise<SearchMatch[]> {
+  const label = scope === 'requestBody' ? 'request body' : 'response body';
+  const base = binary
+    ? { scope, location: `${label} (base64-decoded)`, base64Decoded: true }
+    : { scope, location: label };
+  const found: SearchMatch[] = [];
+  // Matches starting before this were reported from the previous window
+  let searchedTo = 0;
+
+  for await (const window of windows) {
+    const text = binary ? toPrintable(window.text) : window.text;
+    for (const match of text.matchAll(matcher)) {
+      const start = match.index!;
+      const offset = window.offset + start;
+      if (match[0].length === 0 || offset < searchedTo) continue;
+      found.push({ ...base, offset, snippet: makeSnippet(text, start, start + match[0].length) });
+      if (found.length >= limit) return found;
+      searchedTo = offset + match[0].length;
+    }
+  }
+  return found;
+}
+
+/**
+ * Search one captured entry, returning at most `limit` matches in scope order. Matches in
+ * bodies kept in blobs are found with searchBodyWindows and passed in as blobMatches.
+ */
+export function searchEntry(
+  entry: JsonlEntry,
+  matcher: RegExp,
+  scopes: SearchScope[],
+  limit: number,
+  blobMatches: Partial<Record<SearchScope, SearchMatch[]>> = {}
+): SearchMatch[] {
+  const found: SearchMatch[] = [];
+
+  for (const scope of scopes) {
+    const remaining = limit - found.length;
+    if (remaining <= 0) break;
+
+    switch (scope) {
+      case 'queryString':
+        found.push(...findInPairs(entry.request.queryString, '=', matcher, scope, 'query param', remaining));
+        break;
+      case 'requestHeaders':
+        found.push(...findInPairs(entry.request.headers, ': ', matcher, scope, 'request header', remaining));
+        break;
+      case 'responseHeaders':
+        found.push(...findInPairs(entry.response.headers, ': ', matcher, scope, 'response header', remaining));
+        break;
+      case 'requestBody':
+        found.push(
+          ...(blobMatches[scope]?.slice(0, remaining) ??
+            findInBody(entry.request, matcher, scope, 'request body', remaining))
+        );
+        break;
+      case 'responseBody':
+        found.push(
+          ...(blobMatches[scope]?.slice(0, remaining) ??
+            findInBody(entry.response, matcher, scope, 'response body', remaining))
+        );
+        break;
+    }
+  }
+
+  return found;
+}
@@ -1,6 +1,46 @@
 import * as fs from 'fs';
+import * as path from 'path';
+import Database from 'better-sqlite3';
 import { HarEntry, HarEntrySummary } from '../types/har.js';
+import { BodyEncoding, FailureEvent, JsonlEntry, WebSocketMessageRecord } from '../types/traffic.js';
+import { MitmError, ErrorCode } from '../types/errors.js';
 import { Logger } from '../utils/logger.js';
+import { requestCookies, responseCookies } from '../utils/cookies.js';
+import { decodeBase64Body, encodeBodySlice, storedBodyBytes } from '../utils/body.js';
+import { BLOBS_DIR, BlobStore } from './blob-store.js';
+import { AsyncFilterPredicate, BodySide, compileBodyFilterExpression } from './filter-expression.js';
+import { buildPostData, hasFormBody } from './post-data.js';
+import { SearchMatch, SearchScope, searchBodyWindows, searchEntry } from './traffic-search.js';
+import { EndpointCatalog, SummaryRow } from './traffic-summary.js';
+
+export interface AppendOptions {
+  // Bodies larger than this many bytes are written to blob files; 0 keeps them inline
+  bodyBlobThreshold?: number;
+}
+
+export interface BlobLimits {
+  // Blobs larger than this are not matched against body filters or searched
+  maxMatchBytes: number;
+  // Blobs larger than this are not read back inline into exported or replayed entries
+  maxInlineBytes: number;
+}
+
+// A body kept in a blob that was too large to match or inline, reported with the result
+export interface SkippedBody {
+  entryId: string;
+  side: BodySide;
+  size: number;
+}
+
+export interface ScanResult {
+  visited: number;
+  skippedBodies: SkippedBody[];
+}
+
+export interface ClearResult {
+  cleared: number;
+  skippedBodies: SkippedBody[];
+}
 
 export interface QueryOptions {
   startTimeMs?: number;
@@ -10,66 +50,379 @@ export interface QueryOptions {
   statusCode?: number;
   statusRange?: string;
   contentType?: string;
+  tlsVersion?: string;
+  alpn?: string;
+  sni?: string;
+  clientIp?: string;
+  connectionReused?: boolean;
+  filter?: string;
   limit: number;
   offset: number;
   includeBody: boolean;
 }
 
+export interface ClearOptions {
+  beforeTimeMs?: number;
+  filter?: string;
+}
+
+export interface ScanOptions {
+  startTimeMs?: number;
+  endTimeMs?: number;
+  host?: string;
+  filter?: string;
+  newestFirst?: boolean;
+  // Read bodies kept in blobs back into the entries passed to the visitor
+  inlineBodies?: boolean;
+}
+
+export interface BodyRange {
+  // Byte offset into the body to start reading from
+  offset?: number;
+  // Read at most this many bytes of each body
+  maxBytes?: number;
+}
+
+export interface BodySlice {
+  // UTF-8 text, or base64 when the bytes are not text
+  text: string;
+  encoding: BodyEncoding;
+  offset: number;
+  // Bytes of the body covered by text
+  length: number;
+  // Size of the whole body in bytes
+  size: number;
+  // More of the body follows offset + length
+  truncated: boolean;
+  // Set when the body is kept in a blob
+  sha256?: string;
+}
+
+export interface SearchOptions {
+  matcher: RegExp;
+  scopes: SearchScope[];
+  startTimeMs?: number;
+  endTimeMs?: number;
+  filter?: string;
+  limit: number;
+  maxMatchesPerEntry: number;
+}
+
+export interface SearchResult {
+  id: string;
+  timestamp: string;
+  method: string;
+  url: string;
+  status: number;
+  matches: SearchMatch[];
+}
+
+export interface SummarizeOptions {
+  startTimeMs?: number;
+  endTimeMs?: number;
+  host?: string;
+}
+
+export interface WebSocketQueryOptions {
+  entryId?: string;
+  host?: string;
+  direction?: 'send' | 'receive';
+  opcode?: 'text' | 'binary' | 'close';
+  pattern?: string;
+  startTimeMs?: number;
+  endTimeMs?: number;
+  limit: number;
+  offset: number;
+}
+
+export interface WebSocketConnection {
+  entryId: string;
+  url: string;
+  messages: number;
+  sent: number;
+  received: number;
+  bytes: number;
+  firstMessage: string;
+  lastMessage: string;
+  closed: boolean;
+}
+
+export interface FailureQueryOptions {
+  host?: string;
+  startTimeMs?: number;
+  endTimeMs?: number;
+}
+
 export interface TrafficStats {
   totalEntries: number;
   totalRequestBytes: number;
   totalResponseBytes: number;
   entriesLast60s: number;
+  webSocketMessages: number;
+  failures: number;
 }
 
-interface JsonlEntry {
+// Conditions evaluated in SQL against the indexed columns
+interface EntryConditions {
+  startTimeMs?: number;
+  endTimeMs?: number;
+  urlPattern?: string;
+  method?: string;
+  statusCode?: number;
+  statusRange?: string;
+  contentType?: string;
+  host?: string;
+  // Client side of the connection: what the app negotiated with the proxy
+  tlsVersion?: string;
+  alpn?: string;
+  sni?: string;
+  clientIp?: string;
+  connectionReused?: boolean;
+}
+
+interface EntryRow {
   id: string;
   timestamp: string;
-  timestampMs: number;
-  request: {
-    method: string;
-    url: string;
-    host: string;
-    path: string;
-    httpVersion: string;
-    headers: Array<{ name: string; value: string }>;
-    queryString: Array<{ name: string; value: string }>;
-    bodySize: number;
-    body?: string;
-  };
-  response: {
-    status: number;
-    statusText: string;
-    httpVersion: string;
-    headers: Array<{ name: string; value: string }>;
-    contentType: string;
-    bodySize: number;
-    body?: string;
-  };
-  timings: {
-    blocked: number;
-    dns: number;
-    connect: number;
-    ssl: number;
-    send: number;
-    wait: number;
-    receive: number;
-  };
-  serverIPAddress?: string;
+  timestamp_ms: number;
+  method: string;
+  url: string;
+  status: number;
+  status_text: string;
+  content_type: string;
+  request_body_size: number;
+  response_body_size: number;
+}
+
+// A JSONL file written by the addon and imported incrementally into one table
+interface JsonlSource {
+  filePath: string;
+  table: string;
+  positionKey: string;
+  position: number;
+  // Prepare the insert statement for a batch; the returned function yields the rows added
+  prepareInsert: (db: Database.Database) => (line: string) => number;
+}
+
+const DB_FILE = 'traffic.db';
+const WEBSOCKET_FILE = 'websocket.jsonl';
+const FAILURES_FILE = 'failures.jsonl';
+const SCHEMA_VERSION = 4;
+const IMPORT_CHUNK_SIZE = 4 * 1024 * 1024;
+// Blobs written this recently may belong to an entry the addon has not appended yet
+const BLOB_PRUNE_GRACE_MS = 60 * 1000;
+// Compiled REGEXP patterns kept for reuse, least recently used dropped first
+const MAX_CACHED_REGEXES = 32;
+// Rows read per statement when entries are visited one by one
+const SCAN_PAGE_SIZE = 500;
+
+const DEFAULT_BLOB_LIMITS: BlobLimits = {
+  maxMatchBytes: 256 * 1024 * 1024,
+  maxInlineBytes: 32 * 1024 * 1024,
+};
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS entries (
+    seq INTEGER PRIMARY KEY,
+    id TEXT NOT NULL UNIQUE,
+    timestamp TEXT NOT NULL,
+    timestamp_ms INTEGER NOT NULL,
+    host TEXT NOT NULL,
+    method TEXT NOT NULL,
+    url TEXT NOT NULL,
+    status INTEGER NOT NULL,
+    status_text TEXT NOT NULL,
+    content_type TEXT NOT NULL,
+    request_body_size INTEGER NOT NULL,
+    response_body_size INTEGER NOT NULL,
+    tls_version TEXT,
+    alpn TEXT,
+    sni TEXT,
+    client_ip TEXT,
+    connection_reused INTEGER,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_entries_timestamp ON entries (timestamp_ms);
+  CREATE INDEX IF NOT EXISTS idx_entries_host ON entries (host);
+  CREATE INDEX IF NOT EXISTS idx_entries_method ON entries (method);
+  CREATE INDEX IF NOT EXISTS idx_entries_status ON entries (status);
+  CREATE INDEX IF NOT EXISTS idx_entries_content_type ON entries (content_type);
+  CREATE INDEX IF NOT EXISTS idx_entries_sni ON entries (sni);
+  CREATE TABLE IF NOT EXISTS ws_messages (
+    seq INTEGER PRIMARY KEY,
+    id TEXT NOT NULL UNIQUE,
+    entry_id TEXT NOT NULL,
+    timestamp_ms INTEGER NOT NULL,
+    direction TEXT NOT NULL,
+    opcode TEXT NOT NULL,
+    size INTEGER NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_ws_messages_entry ON ws_messages (entry_id, timestamp_ms);
+  CREATE INDEX IF NOT EXISTS idx_ws_messages_timestamp ON ws_messages (timestamp_ms);
+  CREATE TABLE IF NOT EXISTS failures (
+    seq INTEGER PRIMARY KEY,
+    id TEXT NOT NULL UNIQUE,
+    timestamp_ms INTEGER NOT NULL,
+    type TEXT NOT NULL,
+    host TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_failures_timestamp ON failures (timestamp_ms);
+  CREATE INDEX IF NOT EXISTS idx_failures_host ON failures (host);
+  CREATE TABLE IF NOT EXISTS meta (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL
+  );
+`;
+
+/**
+ * Escape a string for use inside a LIKE pattern with ESCAPE '\'.
+ */
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, (c) => '\\' + c);
+}
+
+/**
+ * Compile a case-insensitive regex, surfacing syntax errors as INVALID_ARGUMENT.
+ */
+function compileRegex(pattern: string, field: string): RegExp {
+  try {
+    return new RegExp(pattern, 'i');
+  } catch (error) {
+    throw new MitmError(
+      ErrorCode.INVALID_ARGUMENT,
+      `Invalid ${field} regex: ${error instanceof Error ? error.message : String(error)}`,
+      { [field]: pattern }
+    );
+  }
+}
+
+/**
+ * Bodies left out of one operation's result, each listed once.
+ */
+class SkippedBodies {
+  private readonly bodies = new Map<string, SkippedBody>();
+
+  add(entry: JsonlEntry, side: BodySide): void {
+    this.bodies.set(`${entry.id}:${side}`, { entryId: entry.id, side, size: entry[side].bodySize });
+  }
+
+  list(): SkippedBody[] {
+    return [...this.bodies.values()];
+  }
 }
 
 /**
- * TrafficStore that reads from JSONL file written by mitmdump addon.
- * Each line in the file is a complete JSON entry.
+ * TrafficStore backed by a SQLite index of the JSONL file written by the mitmdump addon.
+ * New JSONL lines are imported incrementally on each read; the database lives next to
+ * the JSONL file in the session's mitm/ directory, as do the WebSocket messages and
+ * failure events.
  */
 export class TrafficStore {
-  private entries: JsonlEntry[] = [];
-  private lastReadPosition: number = 0;
+  private db: Database.Database | null = null;
+  private syncChain: Promise<void> = Promise.resolve();
+  private regexCache: Map<string, RegExp> = new Map();
+  private readonly dbPath: string;
+  private readonly entriesSource: JsonlSource;
+  private readonly webSocketSource: JsonlSource;
+  private readonly failuresSource: JsonlSource;
+  readonly blobs: BlobStore;
+  private readonly limits: BlobLimits;
 
   constructor(
     private jsonlPath: string,
-    private logger: Logger
-  ) {}
+    private logger: Logger,
+    limits: Partial<BlobLimits> = {}
+  ) {
+    this.dbPath = path.join(path.dirname(jsonlPath), DB_FILE);
+    this.blobs = new BlobStore(path.join(path.dirname(jsonlPath), BLOBS_DIR));
+    this.limits = { ...DEFAULT_BLOB_LIMITS, ...limits };
+
+    this.entriesSource = {
+      filePath: jsonlPath,
+      table: 'entries',
+      positionKey: 'jsonl_position',
+      position: 0,
+      prepareInsert: (db) => {
+        const insert = db.prepare(`
+          INSERT OR IGNORE INTO entries (
+            id, timestamp, timestamp_ms, host, method, url, status, status_text,
+            content_type, request_body_size, response_body_size,
+            tls_version, alpn, sni, client_ip, connection_reused, data
+          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        `);
+        return (line) => {
+          const entry = JSON.parse(line) as JsonlEntry;
+          const connection = entry.connection;
+          const reused = connection?.reused;
+          return insert.run(
+            entry.id,
+            entry.timestamp,
+            entry.timestampMs,
+            (entry.request.host ?? '').toLowerCase(),
+            entry.request.method,
+            entry.request.url,
+            entry.response.status,
+            entry.response.statusText ?? '',
+            entry.response.contentType ?? '',
+            entry.request.bodySize ?? 0,
+            entry.response.bodySize ?? 0,
+            connection?.clientTls?.version ?? null,
+            connection?.clientTls?.alpn ?? null,
+            connection?.clientTls?.sni?.toLowerCase() ?? null,
+            connection?.clientAddress?.replace(/:\d+$/, '') ?? null,
+            reused === undefined ? null : Number(reused),
+            line
+          ).changes;
+        };
+      },
+    };
+
+    this.webSocketSource = {
+      filePath: path.join(path.dirname(jsonlPath), WEBSOCKET_FILE),
+      table: 'ws_messages',
+      positionKey: 'websocket_position',
+      position: 0,
+      prepareInsert: (db) => {
+        const insert = db.prepare(`
+          INSERT OR IGNORE INTO ws_messages (id, entry_id, timestamp_ms, direction, opcode, size, data)
+          VALUES (?, ?, ?, ?, ?, ?, ?)
+        `);
+        return (line) => {
+          const message = JSON.parse(line) as WebSocketMessageRecord;
+          return insert.run(
+            message.id,
+            message.entryId,
+            message.timestampMs,
+            message.direction,
+            message.opcode,
+            message.size,
+            line
+          ).changes;
+        };
+      },
+    };
+
+    this.failuresSource = {
+      filePath: path.join(path.dirname(jsonlPath), FAILURES_FILE),
+      table: 'failures',
+      positionKey: 'failures_position',
+      position: 0,
+      prepareInsert: (db) => {
+        const insert = db.prepare(`
+          INSERT OR IGNORE INTO failures (id, timestamp_ms, type, host, data) VALUES (?, ?, ?, ?, ?)
+        `);
+        return (line) => {
+          const event = JSON.parse(line) as FailureEvent;
+          return insert.run(event.id, event.timestampMs, event.type, (event.host ?? '').toLowerCase(), line).changes;
+        };
+      },
+    };
+  }
+
+  private get sources(): JsonlSource[] {
+    return [this.entriesSource, this.webSocketSource, this.failuresSource];
+  }
 
   async initialize(): Promise<void> {
     // Create empty file if it doesn't exist
@@ -78,116 +431,589 @@ export class TrafficStore {
     } catch {
       await fs.promises.writeFile(this.jsonlPath, '', 'utf-8');
     }
-    this.logger.info('Traffic store initialized', { jsonlPath: this.jsonlPath });
+
+    try {
+      this.db = new Database(this.dbPath);
+      this.db.pragma('journal_mode = WAL');
+      this.db.pragma('synchronous = NORMAL');
+      this.migrate(this.db);
+      this.db.function('regexp', { deterministic: true }, (pattern, value) => {
+        const re = this.cachedRegex(String(pattern));
+        return value !== null && re.test(String(value)) ? 1 : 0;
+      });
+    } catch (error) {
+      this.db?.close();
+      this.db = null;
+      throw new MitmError(
+        ErrorCode.DATABASE_ERROR,
+        `Failed to open traffic database: ${error instanceof Error ? error.message : String(error)}`,
+        { dbPath: this.dbPath }
+      );
+    }
+
+    for (const source of this.sources) {
+      source.position = Number(this.getMeta(source.positionKey) ?? 0);
+    }
+    this.logger.info('Traffic store initialized', { jsonlPath: this.jsonlPath, dbPath: this.dbPath });
+  }
+
+  /**
+   * Compile a REGEXP pattern, reusing it across rows and queries. Map order doubles as
+   * recency, so a hit moves the pattern to the end and the first one is evicted.
+   */
+  private cachedRegex(pattern: string): RegExp {
+    let re = this.regexCache.get(pattern);
+    if (re) {
+      this.regexCache.delete(pattern);
+    } else {
+      re = new RegExp(pattern, 'i');
+      if (this.regexCache.size >= MAX_CACHED_REGEXES) {
+        this.regexCache.delete(this.regexCache.keys().next().value!);
+      }
+    }
+    this.regexCache.set(pattern, re);
+    return re;
+  }
+
+  private migrate(db: Database.Database): void {
+    const version = db.pragma('user_version', { simple: true }) as number;
+    if (version !== SCHEMA_VERSION) {
+      // Index is derived from the JSONL file, so an outdated one is simply rebuilt
+      db.exec(`
+        DROP TABLE IF EXISTS entries; DROP TABLE IF EXISTS ws_messages;
+        DROP TABLE IF EXISTS failures; DROP TABLE IF EXISTS meta;
+      `);
+    }
+    db.exec(SCHEMA);
+    db.pragma(`user_version = ${SCHEMA_VERSION}`);
+  }
+
+  private getDb(): Database.Database {
+    if (!this.db) {
+      throw new MitmError(
+        ErrorCode.DATABASE_ERROR,
+        'Traffic store is not initialized',
+        { jsonlPath: this.jsonlPath }
+      );
+    }
+    return this.db;
+  }
+
+  private getMeta(key: string): string | undefined {
+    const row = this.getDb().prepare('SELECT value FROM meta WHERE key = ?').get(key) as
+      | { value: string }
+      | undefined;
+    return row?.value;
+  }
+
+  private setMeta(key: string, value: string): void {
+    this.getDb()
+      .prepare('INSERT INTO meta (key, value) VALUES (?, ?) ON CONFLICT(key) DO UPDATE SET value = excluded.value')
+      .run(key, value);
   }
 
   /**
-   * Reload entries from the JSONL file.
+   * Run an operation that touches the JSONL read position. Calls are serialized so
+   * concurrent readers never import the same range twice.
    */
-  private async reloadEntries(): Promise<void> {
+  private exclusive<T>(operation: () => Promise<T>): Promise<T> {
+    const next = this.syncChain.then(operation);
+    this.syncChain = next.then(() => undefined, () => undefined);
+    return next;
+  }
+
+  /**
+   * Import JSONL lines appended since the last sync.
+   */
+  private sync(): Promise<void> {
+    return this.exclusive(() => this.importNewLines());
+  }
+
+  private async importNewLines(): Promise<void> {
+    for (const source of this.sources) {
+      await this.importSource(source);
+    }
+  }
+
+  private async importSource(source: JsonlSource): Promise<void> {
+    let size: number;
     try {
-      const stats = await fs.promises.stat(this.jsonlPath);
+      size = (await fs.promises.stat(source.filePath)).size;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+      return;
+    }
+
+    // File was truncated or replaced behind our back: rebuild the index from scratch
+    if (size < source.position) {
+      this.logger.warn('JSONL file shrank, rebuilding traffic index', { jsonlPath: source.filePath });
+      this.getDb().exec(`DELETE FROM ${source.table}`);
+      source.position = 0;
+      this.setMeta(source.positionKey, '0');
+    }
+
+    if (size === source.position) {
+      return;
+    }
+
+    const handle = await fs.promises.open(source.filePath, 'r');
+    const chunk = Buffer.alloc(IMPORT_CHUNK_SIZE);
+    let position = source.position;
+    let pending = Buffer.alloc(0);
+    let imported = 0;
 
-      // If file hasn't grown, no new entries
-      if (stats.size <= this.lastReadPosition) {
-        return;
+    try {
+      while (position < size) {
+        const { bytesRead } = await handle.read(chunk, 0, Math.min(chunk.length, size - position), position);
+        if (bytesRead === 0) break;
+        position += bytesRead;
+
+        const data = Buffer.concat([pending, chunk.subarray(0, bytesRead)]);
+        const lastNewline = data.lastIndexOf(0x0a);
+        if (lastNewline === -1) {
+          pending = data;
+          continue;
+        }
+
+        // Only complete lines are imported; a trailing partial line waits for the next sync
+        pending = Buffer.from(data.subarray(lastNewline + 1));
+        const lines = data.subarray(0, lastNewline).toString('utf-8').split('\n');
+        imported += this.insertLines(source, lines, position - pending.length);
       }
+    } finally {
+      await handle.close();
+    }
 
-      // Read entire file and parse
-      const content = await fs.promises.readFile(this.jsonlPath, 'utf-8');
-      const lines = content.trim().split('\n').filter(line => line.length > 0);
+    if (imported > 0) {
+      this.logger.debug('Imported entries', { table: source.table, count: imported });
+    }
+  }
 
-      this.entries = [];
+  private insertLines(source: JsonlSource, lines: string[], newPosition: number): number {
+    const db = this.getDb();
+    const insert = source.prepareInsert(db);
+
+    let inserted = 0;
+    db.transaction(() => {
       for (const line of lines) {
+        if (line.trim().length === 0) continue;
         try {
-          const entry = JSON.parse(line) as JsonlEntry;
-          this.entries.push(entry);
+          inserted += insert(line);
         } catch (e) {
-          this.logger.warn('Failed to parse JSONL line', { error: String(e) });
+          this.logger.warn('Failed to parse JSONL line', { file: source.filePath, error: String(e) });
         }
       }
+      this.setMeta(source.positionKey, String(newPosition));
+    })();
 
-      this.lastReadPosition = stats.size;
-      this.logger.debug('Reloaded entries', { count: this.entries.length });
-    } catch (error) {
-      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
-        throw error;
-      }
-    }
+    source.position = newPosition;
+    return inserted;
   }
 
-  async query(options: QueryOptions): Promise<{ entries: HarEntrySummary[]; total: number }> {
-    await this.reloadEntries();
+  private buildWhere(options: EntryConditions): { where: string; params: unknown[] } {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
 
-    let filtered = [...this.entries];
-
-    // Apply filters
     if (options.startTimeMs !== undefined) {
-      filtered = filtered.filter(e => e.timestampMs >= options.startTimeMs!);
+      conditions.push('timestamp_ms >= ?');
+      params.push(options.startTimeMs);
     }
 
     if (options.endTimeMs !== undefined) {
-      filtered = filtered.filter(e => e.timestampMs <= options.endTimeMs!);
+      conditions.push('timestamp_ms <= ?');
+      params.push(options.endTimeMs);
     }
 
     if (options.urlPattern) {
-      const pattern = options.urlPattern.toLowerCase();
-      filtered = filtered.filter(e => e.request.url.toLowerCase().includes(pattern));
+      compileRegex(options.urlPattern, 'urlPattern');
+      conditions.push('url REGEXP ?');
+      params.push(options.urlPattern);
     }
 
     if (options.method) {
-      filtered = filtered.filter(e => e.request.method === options.method);
+      conditions.push('method = ?');
+      params.push(options.method);
     }
 
     if (options.statusCode !== undefined) {
-      filtered = filtered.filter(e => e.response.status === options.statusCode);
+      conditions.push('status = ?');
+      params.push(options.statusCode);
     }
 
     if (options.statusRange) {
       const rangeStart = parseInt(options.statusRange[0]) * 100;
-      const rangeEnd = rangeStart + 99;
-      filtered = filtered.filter(e => e.response.status >= rangeStart && e.response.status <= rangeEnd);
+      conditions.push('status BETWEEN ? AND ?');
+      params.push(rangeStart, rangeStart + 99);
     }
 
     if (options.contentType) {
-      const ct = options.contentType.toLowerCase();
-      filtered = filtered.filter(e => e.response.contentType.toLowerCase().includes(ct));
+      conditions.push("content_type LIKE ? ESCAPE '\\'");
+      params.push(`%${escapeLike(options.contentType)}%`);
     }
 
-    // Sort by timestamp descending (newest first)
-    filtered.sort((a, b) => b.timestampMs - a.timestampMs);
+    // A host matches itself and its subdomains
+    if (options.host) {
+      const host = options.host.toLowerCase();
+      conditions.push("(host = ? OR host LIKE ? ESCAPE '\\')");
+      params.push(host, `%.${escapeLike(host)}`);
+    }
 
-    const total = filtered.length;
+    if (options.tlsVersion) {
+      conditions.push('tls_version = ? COLLATE NOCASE');
+      params.push(options.tlsVersion);
+    }
 
-    // Apply pagination
-    const paginated = filtered.slice(options.offset, options.offset + options.limit);
+    if (options.alpn) {
+      conditions.push('alpn = ?');
+      params.push(options.alpn);
+    }
+
+    if (options.sni) {
+      const sni = options.sni.toLowerCase();
+      conditions.push("(sni = ? OR sni LIKE ? ESCAPE '\\')");
+      params.push(sni, `%.${escapeLike(sni)}`);
+    }
+
+    if (options.clientIp) {
+      conditions.push('client_ip = ?');
+      params.push(options.clientIp);
+    }
+
+    if (options.connectionReused !== undefined) {
+      conditions.push('connection_reused = ?');
+      params.push(Number(options.connectionReused));
+    }
+
+    return {
+      where: conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '',
+      params,
+    };
+  }
+
+  /**
+   * Compile a filter expression. Bodies kept in blobs are only a hash in the stored entry,
+   * so body filters stream them from disk; blobs above maxMatchBytes count as not matching
+   * and are recorded in skipped.
+   */
+  private compileFilter(expression: string, skipped: SkippedBodies): AsyncFilterPredicate {
+    return compileBodyFilterExpression(expression, async (entry, side, re) => {
+      const message = entry[side];
+      if (message.bodySize > this.limits.maxMatchBytes) {
+        skipped.add(entry, side);
+        return false;
+      }
+      return this.blobs.test(message.bodySha256!, message.bodyEncoding === 'base64', re, this.limits.maxMatchBytes);
+    });
+  }
+
+  /**
+   * Read blob bodies back into an entry, leaving out (and recording) those above maxInlineBytes.
+   */
+  private async inlineBodies(entry: JsonlEntry, skipped: SkippedBodies): Promise<JsonlEntry> {
+    const { entry: inlined, oversized } = await this.blobs.inline(entry, this.limits.maxInlineBytes);
+    for (const side of oversized) skipped.add(entry, side);
+    return inlined;
+  }
+
+  /**
+   * Read entries page by page in timestamp order, capture order within a timestamp. No
+   * statement stays open between pages, so callers can await per row (to read blobs) while
+   * other operations use the database.
+   */
+  private *pagedEntries<T>(columns: string, where: string, params: unknown[], newestFirst = false): Generator<T> {
+    const db = this.getDb();
+    const order = `ORDER BY timestamp_ms ${newestFirst ? 'DESC' : 'ASC'}, seq ASC LIMIT ${SCAN_PAGE_SIZE}`;
+    const select = `SELECT seq AS page_seq, timestamp_ms AS page_ms, ${columns} FROM entries`;
+    const first = db.prepare(`${select} ${where} ${order}`);
+    const next = db.prepare(`
+      ${select} ${where ? `${where} AND` : 'WHERE'}
+      (timestamp_ms ${newestFirst ? '<' : '>'} ? OR (timestamp_ms = ? AND seq > ?)) ${order}
+    `);
+
+    type PageRow = T & { page_seq: number; page_ms: number };
+    let page = first.all(...params) as PageRow[];
+    while (page.length > 0) {
+      yield* page;
+      if (page.length < SCAN_PAGE_SIZE) return;
+      const last = page[page.length - 1];
+      page = next.all(...params, last.page_ms, last.page_ms, last.page_seq) as PageRow[];
+    }
+  }
+
+  /**
+   * Append entries to the JSONL file (alongside anything the addon writes) and index them.
+   * Large bodies go to blobs just as the addon would store them.
+   */
+  async append(entries: JsonlEntry[], options: AppendOptions = {}): Promise<number> {
+    if (entries.length === 0) return 0;
+    const threshold = options.bodyBlobThreshold ?? 0;
+
+    await this.exclusive(async () => {
+      for (let i = 0; i < entries.length; i += 1000) {
+        const lines: string[] = [];
+        for (const entry of entries.slice(i, i + 1000)) {
+          lines.push(JSON.stringify(await this.blobs.externalize(entry, threshold)) + '\n');
+        }
+        await fs.promises.appendFile(this.jsonlPath, lines.join(''), 'utf-8');
+      }
+    });
+    await this.sync();
+
+    return entries.length;
+  }
+
+  async query(
+    options: QueryOptions
+  ): Promise<{ entries: HarEntrySummary[]; total: number; skippedBodies: SkippedBody[] }> {
+    await this.sync();
+
+    const { where, params } = this.buildWhere(options);
+    const db = this.getDb();
+    const columns = `id, timestamp, timestamp_ms, method, url, status, status_text,
+               content_type, request_body_size, response_body_size`;
+
+    let rows: EntryRow[];
+    let total: number;
+    const skipped = new SkippedBodies();
+
+    if (options.filter) {
+      // Filter expressions can look at headers and bodies, so they run over the full entries
+      const matches = this.compileFilter(options.filter, skipped);
+      const candidates = this.pagedEntries<EntryRow & { data: string }>(`${columns}, data`, where, params, true);
+
+      rows = [];
+      total = 0;
+      for (const candidate of candidates) {
+        if (!(await matches(JSON.parse(candidate.data) as JsonlEntry))) continue;
+        if (total >= options.offset && rows.length < options.limit) {
+          rows.push(candidate);
+        }
+        total++;
+      }
+    } else {
+      total = (db.prepare(`SELECT COUNT(*) AS total FROM entries ${where}`).get(...params) as {
+        total: number;
+      }).total;
+
+      // Newest first; entries sharing a timestamp keep capture order
+      rows = db
+        .prepare(`
+          SELECT ${columns}
+          FROM entries ${where}
+          ORDER BY timestamp_ms DESC, seq ASC
+          LIMIT ? OFFSET ?
+        `)
+        .all(...params, options.limit, options.offset) as EntryRow[];
+    }
 
     // Convert to summary format
-    const entries: HarEntrySummary[] = paginated.map(e => ({
-      id: e.id,
-      timestamp: e.timestamp,
+    const entries: HarEntrySummary[] = rows.map(row => ({
+      id: row.id,
+      timestamp: row.timestamp,
       request: {
-        method: e.request.method,
-        url: e.request.url,
-        bodySize: e.request.bodySize,
+        method: row.method,
+        url: row.url,
+        bodySize: row.request_body_size,
       },
       response: {
-        status: e.response.status,
-        statusText: e.response.statusText,
-        mimeType: e.response.contentType,
-        bodySize: e.response.bodySize,
+        status: row.status,
+        statusText: row.status_text,
+        mimeType: row.content_type,
+        bodySize: row.response_body_size,
       },
     }));
 
-    return { entries, total };
+    return { entries, total, skippedBodies: skipped.list() };
   }
 
-  async getEntry(entryId: string): Promise<{ entry: HarEntry; requestBody?: string; responseBody?: string } | null> {
-    await this.reloadEntries();
+  /**
+   * Visit full entries in capture order (or newest first), optionally narrowed by time window and filter expression.
+   * The visitor may be async; the next entry is read once it is done.
+   */
+  async scan(options: ScanOptions, visit: (entry: JsonlEntry) => void | Promise<void>): Promise<ScanResult> {
+    const skipped = new SkippedBodies();
+    const visited = await this.scanEntries(options, skipped, visit);
+    return { visited, skippedBodies: skipped.list() };
+  }
+
+  private async scanEntries(
+    options: ScanOptions,
+    skipped: SkippedBodies,
+    visit: (entry: JsonlEntry) => void | Promise<void>
+  ): Promise<number> {
+    await this.sync();
+
+    const matches = options.filter ? this.compileFilter(options.filter, skipped) : undefined;
+    const { where, params } = this.buildWhere(options);
 
-    const jsonlEntry = this.entries.find(e => e.id === entryId);
+    let visited = 0;
+    for (const candidate of this.pagedEntries<{ data: string }>('data', where, params, options.newestFirst)) {
+      const stored = JSON.parse(candidate.data) as JsonlEntry;
+      if (matches && !(await matches(stored))) continue;
+      await visit(options.inlineBodies ? await this.inlineBodies(stored, skipped) : stored);
+      visited++;
+    }
+    return visited;
+  }
+
+  async search(
+    options: SearchOptions
+  ): Promise<{ results: SearchResult[]; total: number; scanned: number; skippedBodies: SkippedBody[] }> {
+    const results: SearchResult[] = [];
+    const skipped = new SkippedBodies();
+    let total = 0;
+
+    const scanned = await this.scanEntries({ ...options, newestFirst: true }, skipped, async (entry) => {
+      const blobMatches = await this.searchBlobs(entry, options, skipped);
+      const found = searchEntry(entry, options.matcher, options.scopes, options.maxMatchesPerEntry, blobMatches);
+      if (found.length === 0) return;
+
+      total++;
+      if (results.length >= options.limit) return;
+      results.push({
+        id: entry.id,
+        timestamp: entry.timestamp,
+        method: entry.request.method,
+        url: entry.request.url,
+        status: entry.response.status,
+        matches: found,
+      });
+    });
+
+    return { results, total, scanned, skippedBodies: skipped.list() };
+  }
+
+  /**
+   * Search the bodies of an entry that are kept in blobs, streaming them from disk.
+   */
+  private async searchBlobs(
+    entry: JsonlEntry,
+    options: SearchOptions,
+    skipped: SkippedBodies
+  ): Promise<Partial<Record<SearchScope, SearchMatch[]>>> {
+    const found: Partial<Record<SearchScope, SearchMatch[]>> = {};
+    for (const [scope, side] of [['requestBody', 'request'], ['responseBody', 'response']] as const) {
+      const message = entry[side];
+      if (!message.bodySha256 || !options.scopes.includes(scope)) continue;
+      if (message.bodySize > this.limits.maxMatchBytes) {
+        skipped.add(entry, side);
+        continue;
+      }
+      const binary = message.bodyEncoding === 'base64';
+      const windows = this.blobs.textWindows(message.bodySha256, binary, this.limits.maxMatchBytes);
+      found[scope] = await searchBodyWindows(windows, options.matcher, scope, binary, options.maxMatchesPerEntry);
+    }
+    return found;
+  }
+
+  async summarize(options: SummarizeOptions): Promise<EndpointCatalog> {
+    await this.sync();
+
+    const { where, params } = this.buildWhere(options);
+    const rows = this.getDb()
+      .prepare(`
+        SELECT host, method, url, status, content_type, request_body_size, response_body_size, timestamp_ms,
+               (SELECT value ->> '$.value' FROM json_each(data, '$.request.headers')
+                WHERE lower(value ->> '$.name') = 'content-type' LIMIT 1) AS request_content_type
+        FROM entries ${where}
+      `)
+      .iterate(...params) as IterableIterator<SummaryRow>;
+
+    const catalog = new EndpointCatalog();
+    for (const row of rows) {
+      catalog.add(row);
+    }
+    return catalog;
+  }
+
+  /**
+   * Get an entry exactly as the addon wrote it, or with its blob bodies read back inline.
+   * Throws MitmError(INVALID_ARGUMENT) when a body to inline is larger than maxInlineBytes.
+   */
+  async getRawEntry(entryId: string, options: { inlineBodies?: boolean } = {}): Promise<JsonlEntry | null> {
+    await this.sync();
+
+    const row = this.getDb().prepare('SELECT data FROM entries WHERE id = ?').get(entryId) as
+      | { data: string }
+      | undefined;
+    if (!row) return null;
+    const entry = JSON.parse(row.data) as JsonlEntry;
+    if (!options.inlineBodies) return entry;
+
+    const { entry: inlined, oversized: [side] } = await this.blobs.inline(entry, this.limits.maxInlineBytes);
+    if (side) {
+      throw new MitmError(
+        ErrorCode.INVALID_ARGUMENT,
+        `The ${side} body of entry ${entryId} is ${entry[side].bodySize} bytes, ` +
+          `more than the ${this.limits.maxInlineBytes} bytes that can be loaded at once`,
+        { entryId, side, bodySize: entry[side].bodySize, maxInlineBytes: this.limits.maxInlineBytes }
+      );
+    }
+    return inlined;
+  }
+
+  /**
+   * Read part of a stored body. Blobs are read from disk only for the requested range.
+   */
+  private async readBody(
+    message: JsonlEntry['request'] | JsonlEntry['response'],
+    range: BodyRange
+  ): Promise<BodySlice | undefined> {
+    const offset = range.offset ?? 0;
+    const maxBytes = range.maxBytes ?? Infinity;
+
+    let bytes: Buffer;
+    let size: number;
+    let binary: boolean | undefined;
+    if (message.bodySha256) {
+      size = message.bodySize;
+      const length = Math.max(0, Math.min(maxBytes, size - offset));
+      bytes = length > 0 ? await this.blobs.read(message.bodySha256, offset, length) : Buffer.alloc(0);
+      binary = message.bodyEncoding === 'base64';
+    } else {
+      if (!message.body) return undefined;
+      binary = !!decodeBase64Body(message.body, message.bodyEncoding);
+      const whole = storedBodyBytes(message.body, message.bodyEncoding);
+      size = whole.length;
+      if (offset === 0 && size <= maxBytes) {
+        return { text: message.body, encoding: binary ? 'base64' : 'text', offset, length: size, size, truncated: false };
+      }
+      bytes = whole.subarray(Math.min(offset, size), Math.min(offset + maxBytes, size));
+    }
+
+    // A binary body stays base64 even where a slice of it happens to be valid UTF-8
+    const { body, encoding } = binary
+      ? { body: bytes.toString('base64'), encoding: 'base64' as const }
+      : encodeBodySlice(bytes);
+    // A character cut off at the end of the slice is left for the next read
+    const length = encoding === 'text' ? Buffer.byteLength(body) : bytes.length;
+    return {
+      text: body,
+      encoding,
+      offset,
+      length,
+      size,
+      truncated: offset + length < size,
+      sha256: message.bodySha256,
+    };
+  }
+
+  async getEntry(
+    entryId: string,
+    range: BodyRange = {}
+  ): Promise<{ entry: HarEntry; requestBody?: BodySlice; responseBody?: BodySlice } | null> {
+    const jsonlEntry = await this.getRawEntry(entryId);
     if (!jsonlEntry) return null;
 
+    const requestBody = await this.readBody(jsonlEntry.request, range);
+    const responseBody = await this.readBody(jsonlEntry.response, range);
+    // Form fields are parsed from the whole body, whatever range of it is returned
+    const formRequest = jsonlEntry.request.bodySha256 && hasFormBody(jsonlEntry.request)
+      ? await this.blobs.inlineMessage(jsonlEntry.request, this.limits.maxInlineBytes)
+      : jsonlEntry.request;
+
     // Convert to HarEntry format
     const entry: HarEntry = {
       id: jsonlEntry.id,
@@ -199,19 +1025,21 @@ export class TrafficStore {
         httpVersion: jsonlEntry.request.httpVersion,
         headers: jsonlEntry.request.headers,
         queryString: jsonlEntry.request.queryString,
-        cookies: [],
+        cookies: requestCookies(jsonlEntry.request.headers),
         headersSize: 0,
         bodySize: jsonlEntry.request.bodySize,
+        postData: buildPostData(formRequest, { text: false, params: true }),
       },
       response: {
         status: jsonlEntry.response.status,
         statusText: jsonlEntry.response.statusText,
         httpVersion: jsonlEntry.response.httpVersion,
         headers: jsonlEntry.response.headers,
-        cookies: [],
+        cookies: responseCookies(jsonlEntry.response.headers, jsonlEntry.timestampMs),
         content: {
           size: jsonlEntry.response.bodySize,
           mimeType: jsonlEntry.response.contentType,
+          encoding: responseBody?.encoding === 'base64' ? 'base64' : undefined,
         },
         redirectURL: '',
         headersSize: 0,
@@ -219,67 +1047,292 @@ export class TrafficStore {
       },
       timings: jsonlEntry.timings,
       serverIPAddress: jsonlEntry.serverIPAddress,
+      connection: jsonlEntry.connection?.serverConnectionId,
+      connectionInfo: jsonlEntry.connection,
+      replayOf: jsonlEntry.replayOf,
+      rules: jsonlEntry.rules,
+      breakpoints: jsonlEntry.breakpoints,
+      condition: jsonlEntry.condition,
     };
 
+    return { entry, requestBody, responseBody };
+  }
+
+  private buildWebSocketWhere(options: Omit<WebSocketQueryOptions, 'limit' | 'offset'>): {
+    where: string;
+    params: unknown[];
+  } {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+
+    if (options.entryId) {
+      conditions.push('entry_id = ?');
+      params.push(options.entryId);
+    }
+    if (options.direction) {
+      conditions.push('direction = ?');
+      params.push(options.direction);
+    }
+    if (options.opcode) {
+      conditions.push('opcode = ?');
+      params.push(options.opcode);
+    }
+    if (options.startTimeMs !== undefined) {
+      conditions.push('timestamp_ms >= ?');
+      params.push(options.startTimeMs);
+    }
+    if (options.endTimeMs !== undefined) {
+      conditions.push('timestamp_ms <= ?');
+      params.push(options.endTimeMs);
+    }
+    // Binary payloads are base64, which a pattern cannot meaningfully match
+    if (options.pattern) {
+      compileRegex(options.pattern, 'pattern');
+      conditions.push("opcode != 'binary' AND data ->> '$.payload' REGEXP ?");
+      params.push(options.pattern);
+    }
+    if (options.host) {
+      const { where, params: hostParams } = this.buildWhere({ host: options.host });
+      conditions.push(`entry_id IN (SELECT id FROM entries ${where})`);
+      params.push(...hostParams);
+    }
+
     return {
-      entry,
-      requestBody: jsonlEntry.request.body,
-      responseBody: jsonlEntry.response.body,
+      where: conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '',
+      params,
     };
   }
 
-  async clear(beforeTimeMs?: number): Promise<number> {
-    await this.reloadEntries();
+  /**
+   * List WebSocket messages in the order they were sent.
+   */
+  async queryWebSocketMessages(
+    options: WebSocketQueryOptions
+  ): Promise<{ messages: WebSocketMessageRecord[]; total: number }> {
+    await this.sync();
 
-    const originalCount = this.entries.length;
+    const { where, params } = this.buildWebSocketWhere(options);
+    const db = this.getDb();
+    const total = (db.prepare(`SELECT COUNT(*) AS total FROM ws_messages ${where}`).get(...params) as {
+      total: number;
+    }).total;
+    const rows = db
+      .prepare(`SELECT data FROM ws_messages ${where} ORDER BY timestamp_ms ASC, seq ASC LIMIT ? OFFSET ?`)
+      .all(...params, options.limit, options.offset) as Array<{ data: string }>;
 
-    if (beforeTimeMs !== undefined) {
-      this.entries = this.entries.filter(e => e.timestampMs >= beforeTimeMs);
-    } else {
-      this.entries = [];
-    }
+    return { messages: rows.map(row => JSON.parse(row.data) as WebSocketMessageRecord), total };
+  }
+
+  /**
+   * Summarize the WebSocket connections that carried messages, busiest first.
+   */
+  async listWebSocketConnections(
+    options: Omit<WebSocketQueryOptions, 'limit' | 'offset' | 'entryId'>
+  ): Promise<WebSocketConnection[]> {
+    await this.sync();
+
+    const { where, params } = this.buildWebSocketWhere(options);
+    const rows = this.getDb()
+      .prepare(`
+        SELECT m.entry_id AS entryId,
+               COALESCE(e.url, '') AS url,
+               COUNT(*) AS messages,
+               COUNT(CASE WHEN m.direction = 'send' THEN 1 END) AS sent,
+               COUNT(CASE WHEN m.direction = 'receive' THEN 1 END) AS received,
+               COALESCE(SUM(m.size), 0) AS bytes,
+               MIN(m.timestamp_ms) AS firstMs,
+               MAX(m.timestamp_ms) AS lastMs,
+               MAX(m.opcode = 'close') AS closed
+        FROM (SELECT * FROM ws_messages ${where}) AS m
+        LEFT JOIN entries AS e ON e.id = m.entry_id
+        GROUP BY m.entry_id
+        ORDER BY messages DESC, firstMs ASC
+      `)
+      .all(...params) as Array<Omit<WebSocketConnection, 'firstMessage' | 'lastMessage' | 'closed'> & {
+        firstMs: number;
+        lastMs: number;
+        closed: number;
+      }>;
+
+    return rows.map(({ firstMs, lastMs, closed, ...row }) => ({
+      ...row,
+      firstMessage: new Date(firstMs).toISOString(),
+      lastMessage: new Date(lastMs).toISOString(),
+      closed: closed === 1,
+    }));
+  }
+
+  /**
+   * Get failure events in the order they happened.
+   */
+  async getFailures(options: FailureQueryOptions): Promise<FailureEvent[]> {
+    await this.sync();
 
-    const cleared = originalCount - this.entries.length;
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+    if (options.startTimeMs !== undefined) {
+      conditions.push('timestamp_ms >= ?');
+      params.push(options.startTimeMs);
+    }
+    if (options.endTimeMs !== undefined) {
+      conditions.push('timestamp_ms <= ?');
+      params.push(options.endTimeMs);
+    }
+    if (options.host) {
+      const host = options.host.toLowerCase();
+      conditions.push("(host = ? OR host LIKE ? ESCAPE '\\')");
+      params.push(host, `%.${escapeLike(host)}`);
+    }
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
 
-    // Rewrite the file with remaining entries
-    const content = this.entries.map(e => JSON.stringify(e)).join('\n');
-    await fs.promises.writeFile(this.jsonlPath, content ? content + '\n' : '', 'utf-8');
+    const rows = this.getDb()
+      .prepare(`SELECT data FROM failures ${where} ORDER BY timestamp_ms ASC, seq ASC`)
+      .all(...params) as Array<{ data: string }>;
+    return rows.map(row => JSON.parse(row.data) as FailureEvent);
+  }
 
-    const stats = await fs.promises.stat(this.jsonlPath);
-    this.lastReadPosition = stats.size;
+  /**
+   * Count captured HTTPS entries, in total and for each of the given hosts.
+   */
+  async countHttpsEntries(hosts: string[]): Promise<{ total: number; byHost: Map<string, number> }> {
+    await this.sync();
 
-    return cleared;
+    const db = this.getDb();
+    const total = (db.prepare(
+      "SELECT COUNT(*) AS total FROM entries WHERE url LIKE 'https:%'"
+    ).get() as { total: number }).total;
+    const count = db.prepare("SELECT COUNT(*) AS total FROM entries WHERE host = ? AND url LIKE 'https:%'");
+    const byHost = new Map<string, number>();
+    for (const host of new Set(hosts.map(h => h.toLowerCase()))) {
+      byHost.set(host, (count.get(host) as { total: number }).total);
+    }
+    return { total, byHost };
   }
 
-  async getStats(): Promise<TrafficStats> {
-    await this.reloadEntries();
+  async clear(options: ClearOptions = {}): Promise<ClearResult> {
+    const skipped = new SkippedBodies();
+    const matches = options.filter ? this.compileFilter(options.filter, skipped) : undefined;
+
+    return this.exclusive(async () => {
+      await this.importNewLines();
 
-    const nowMs = Date.now();
-    const sixtySecondsAgo = nowMs - 60000;
+      const db = this.getDb();
+      const timeCondition = options.beforeTimeMs !== undefined ? 'WHERE timestamp_ms < ?' : '';
+      const timeParams = options.beforeTimeMs !== undefined ? [options.beforeTimeMs] : [];
+      let cleared: number;
 
-    let totalRequestBytes = 0;
-    let totalResponseBytes = 0;
-    let entriesLast60s = 0;
+      if (matches) {
+        const doomed: number[] = [];
+        const candidates = this.pagedEntries<{ seq: number; data: string }>('seq, data', timeCondition, timeParams);
+        for (const candidate of candidates) {
+          if (await matches(JSON.parse(candidate.data) as JsonlEntry)) {
+            doomed.push(candidate.seq);
+          }
+        }
+        const remove = db.prepare('DELETE FROM entries WHERE seq = ?');
+        db.transaction(() => {
+          for (const seq of doomed) remove.run(seq);
+        })();
+        cleared = doomed.length;
+      } else {
+        cleared = db.prepare(`DELETE FROM entries ${timeCondition}`).run(...timeParams).changes;
+      }
 
-    for (const entry of this.entries) {
-      totalRequestBytes += entry.request.bodySize;
-      totalResponseBytes += entry.response.bodySize;
-      if (entry.timestampMs >= sixtySecondsAgo) {
-        entriesLast60s++;
+      // Messages go with the handshake entry of their connection
+      db.prepare('DELETE FROM ws_messages WHERE entry_id NOT IN (SELECT id FROM entries)').run();
+      // Failure events have no entry for a filter to look at, so only the time window applies
+      if (!matches) {
+        db.prepare(`DELETE FROM failures ${timeCondition}`).run(...timeParams);
       }
+
+      for (const source of this.sources) {
+        await this.rewriteSource(source);
+      }
+      await this.pruneBlobs();
+
+      return { cleared, skippedBodies: skipped.list() };
+    });
+  }
+
+  /**
+   * Delete body blobs that no remaining entry refers to. Identical bodies share a blob, so
+   * a blob is only unreferenced once every entry carrying that body has been cleared.
+   */
+  private async pruneBlobs(): Promise<void> {
+    const referenced = new Set<string>();
+    const rows = this.getDb()
+      .prepare(`SELECT data FROM entries WHERE data LIKE '%"bodySha256"%'`)
+      .iterate() as IterableIterator<{ data: string }>;
+    for (const row of rows) {
+      const entry = JSON.parse(row.data) as JsonlEntry;
+      if (entry.request.bodySha256) referenced.add(entry.request.bodySha256);
+      if (entry.response.bodySha256) referenced.add(entry.response.bodySha256);
+    }
+    const deleted = await this.blobs.prune(referenced, Date.now() - BLOB_PRUNE_GRACE_MS);
+    if (deleted > 0) {
+      this.logger.debug('Pruned body blobs', { deleted });
+    }
+  }
+
+  /**
+   * Rewrite a JSONL file in place with the rows left in its table (the addon keeps it
+   * open for appending).
+   */
+  private async rewriteSource(source: JsonlSource): Promise<void> {
+    const db = this.getDb();
+    const page = db.prepare(`SELECT seq, data FROM ${source.table} WHERE seq > ? ORDER BY seq LIMIT 1000`);
+    const handle = await fs.promises.open(source.filePath, 'w');
+    try {
+      let lastSeq = 0;
+      for (;;) {
+        const rows = page.all(lastSeq) as Array<{ seq: number; data: string }>;
+        if (rows.length === 0) break;
+        await handle.write(rows.map(row => row.data + '\n').join(''));
+        lastSeq = rows[rows.length - 1].seq;
+      }
+    } finally {
+      await handle.close();
     }
 
+    const stats = await fs.promises.stat(source.filePath);
+    source.position = stats.size;
+    this.setMeta(source.positionKey, String(stats.size));
+  }
+
+  async getStats(): Promise<TrafficStats> {
+    await this.sync();
+
+    const sixtySecondsAgo = Date.now() - 60000;
+
+    const row = this.getDb()
+      .prepare(`
+        SELECT COUNT(*) AS totalEntries,
+               COALESCE(SUM(request_body_size), 0) AS totalRequestBytes,
+               COALESCE(SUM(response_body_size), 0) AS totalResponseBytes,
+               COUNT(CASE WHEN timestamp_ms >= ? THEN 1 END) AS entriesLast60s,
+               (SELECT COUNT(*) FROM ws_messages) AS webSocketMessages,
+               (SELECT COUNT(*) FROM failures) AS failures
+        FROM entries
+      `)
+      .get(sixtySecondsAgo) as TrafficStats;
+
     return {
-      totalEntries: this.entries.length,
-      totalRequestBytes,
-      totalResponseBytes,
-      entriesLast60s,
+      totalEntries: row.totalEntries,
+      totalRequestBytes: row.totalRequestBytes,
+      totalResponseBytes: row.totalResponseBytes,
+      entriesLast60s: row.entriesLast60s,
+      webSocketMessages: row.webSocketMessages,
+      failures: row.failures,
     };
   }
 
   async close(): Promise<void> {
-    this.entries = [];
-    this.lastReadPosition = 0;
+    await this.syncChain;
+    this.db?.close();
+    this.db = null;
+    for (const source of this.sources) {
+      source.position = 0;
+    }
     this.logger.info('Traffic store closed');
   }
 }
@@ -0,0 +1,190 @@
+import { toPathTemplate } from './path-template.js';
+
+export interface SummaryRow {
+  host: string;
+  method: string;
+  url: string;
+  status: number;
+  content_type: string;
+  request_content_type: string | null;
+  request_body_size: number;
+  response_body_size: number;
+  timestamp_ms: number;
+}
+
+export interface SizeRange {
+  min: number;
+  max: number;
+  avg: number;
+}
+
+export interface ValueCount {
+  value: string;
+  count: number;
+}
+
+export interface EndpointSummary {
+  host: string;
+  pathTemplate: string;
+  calls: number;
+  methods: Record<string, number>;
+  statusCodes: Record<string, number>;
+  requestContentTypes: ValueCount[];
+  responseContentTypes: ValueCount[];
+  requestBodySize: SizeRange;
+  responseBodySize: SizeRange;
+  firstSeen: string;
+  lastSeen: string;
+  examplePaths: string[];
+}
+
+const TOP_CONTENT_TYPES = 3;
+const MAX_EXAMPLE_PATHS = 3;
+
+interface SizeAccumulator {
+  min: number;
+  max: number;
+  total: number;
+}
+
+interface EndpointAccumulator {
+  host: string;
+  pathTemplate: string;
+  calls: number;
+  methods: Map<string, number>;
+  statusCodes: Map<string, number>;
+  requestContentTypes: Map<string, number>;
+  responseContentTypes: Map<string, number>;
+  requestBodySize: SizeAccumulator;
+  responseBodySize: SizeAccumulator;
+  firstSeenMs: number;
+  lastSeenMs: number;
+  examplePaths: Set<string>;
+}
+
+function increment(map: Map<string, number>, key: string): void {
+  map.set(key, (map.get(key) ?? 0) + 1);
+}
+
+function addSize(acc: SizeAccumulator, size: number): void {
+  acc.min = Math.min(acc.min, size);
+  acc.max = Math.max(acc.max, size);
+  acc.total += size;
+}
+
+function mediaType(contentType: string | null): string {
+  return (contentType ?? '').split(';', 1)[0].trim().toLowerCase();
+}
+
+function requestPath(url: string): string {
+  try {
+    return new URL(url).pathname;
+  } catch {
+    return url;
+  }
+}
+
+function topValues(map: Map<string, number>): ValueCount[] {
+  return Array.from(map.entries())
+    .map(([value, count]) => ({ value, count }))
+    .sort((a, b) => b.count - a.count)
+    .slice(0, TOP_CONTENT_TYPES);
+}
+
+/**
+ * Groups flows into endpoint templates (host + normalized path) and aggregates
+ * per-endpoint statistics as rows are added.
+ */
+export class EndpointCatalog {
+  private endpoints: Map<string, EndpointAccumulator> = new Map();
+  private totalCalls = 0;
+
+  add(row: SummaryRow): void {
+    const path = requestPath(row.url);
+    const pathTemplate = toPathTemplate(path);
+    const key = `${row.host}\u0000${pathTemplate}`;
+
+    let endpoint = this.endpoints.get(key);
+    if (!endpoint) {
+      endpoint = {
+        host: row.host,
+        pathTemplate,
+        calls: 0,
+        methods: new Map(),
+        statusCodes: new Map(),
+        requestContentTypes: new Map(),
+        responseContentTypes: new Map(),
+        requestBodySize: { min: Infinity, max: 0, total: 0 },
+        responseBodySize: { min: Infinity, max: 0, total: 0 },
+        firstSeenMs: row.timestamp_ms,
+        lastSeenMs: row.timestamp_ms,
+        examplePaths: new Set(),
+      };
+      this.endpoints.set(key, endpoint);
+    }
+
+    this.totalCalls++;
+    endpoint.calls++;
+    increment(endpoint.methods, row.method);
+    increment(endpoint.statusCodes, String(row.status));
+
+    const requestType = mediaType(row.request_content_type);
+    if (requestType) increment(endpoint.requestContentTypes, requestType);
+    const responseType = mediaType(row.content_type);
+    if (responseType) increment(endpoint.responseContentTypes, responseType);
+
+    addSize(endpoint.requestBodySize, row.request_body_size);
+    addSize(endpoint.responseBodySize, row.response_body_size);
+
+    endpoint.firstSeenMs = Math.min(endpoint.firstSeenMs, row.timestamp_ms);
+    endpoint.lastSeenMs = Math.max(endpoint.lastSeenMs, row.timestamp_ms);
+
+    if (endpoint.examplePaths.size < MAX_EXAMPLE_PATHS && path !== pathTemplate) {
+      endpoint.examplePaths.add(path);
+    }
+  }
+
+  get size(): number {
+    return this.endpoints.size;
+  }
+
+  get calls(): number {
+    return this.totalCalls;
+  }
+
+  hosts(): Record<string, number> {
+    const hosts: Record<string, number> = {};
+    for (const endpoint of this.endpoints.values()) {
+      hosts[endpoint.host] = (hosts[endpoint.host] ?? 0) + endpoint.calls;
+    }
+    return hosts;
+  }
+
+  /**
+   * Endpoints ordered by call count, most frequently called first.
+   */
+  toSummaries(): EndpointSummary[] {
+    const toRange = (acc: SizeAccumulator, calls: number): SizeRange => ({
+      min: acc.min === Infinity ? 0 : acc.min,
+      max: acc.max,
+      avg: calls > 0 ? Math.round(acc.total / calls) : 0,
+    });
+
+    return Array.from(this.endpoints.values())
+      .sort((a, b) => b.calls - a.calls || a.host.localeCompare(b.host) || a.pathTemplate.localeCompare(b.pathTemplate))
+      .map(endpoint => ({
+        host: endpoint.host,
+        pathTemplate: endpoint.pathTemplate,
+        calls: endpoint.calls,
+        methods: Object.fromEntries(endpoint.methods),
+        statusCodes: Object.fromEntries(endpoint.statusCodes),
+        requestContentTypes: topValues(endpoint.requestContentTypes),
+        responseContentTypes: topValues(endpoint.responseContentTypes),
+        requestBodySize: toRange(endpoint.requestBodySize, endpoint.calls),
+        responseBodySize: toRange(endpoint.responseBodySize, endpoint.calls),
+        firstSeen: new Date(endpoint.firstSeenMs).toISOString(),
+        lastSeen: new Date(endpoint.lastSeenMs).toISOString(),
+        examplePaths: Array.from(endpoint.examplePaths),
+      }));
+  }
+}
@@ -10,6 +10,23 @@ import {
   registerQueryTool,
   registerGetEntryTool,
   registerClearTool,
+  registerSearchTool,
+  registerSummarizeTool,
+  registerExportOpenApiTool,
+  registerExportHarTool,
+  registerImportTool,
+  registerToCodeTool,
+  registerReplayTool,
+  registerDiffTool,
+  registerSetRulesTool,
+  registerBreakpointAddTool,
+  registerBreakpointRemoveTool,
+  registerPendingTool,
+  registerResumeTool,
+  registerSetConditionsTool,
+  registerWsMessagesTool,
+  registerTlsFailuresTool,
+  registerCookiesTool,
 } from './tools/index.js';
 
 async function main(): Promise<void> {
@@ -30,6 +47,21 @@ async function main(): Promise<void> {
     logger,
   });
 
+  // Proxies that outlived a previous run of the server
+  const adopted = await proxyManager.adoptRunningProxies();
+  if (adopted.length > 0) {
+    logger.info('Re-adopted running proxies', { sessions: adopted });
+  }
+
+  // Traffic stores a tool call reads stay open until it returns, even if its proxy stops meanwhile
+  const registerTool = server.tool.bind(server) as (...args: unknown[]) => ReturnType<typeof server.tool>;
+  server.tool = ((...args: unknown[]) => {
+    const handler = args.pop() as (...handlerArgs: unknown[]) => Promise<unknown>;
+    return registerTool(...args, (...handlerArgs: unknown[]) =>
+      proxyManager.holdTrafficStores(() => handler(...handlerArgs))
+    );
+  }) as typeof server.tool;
+
   // Register tools
   registerStartTool(server, proxyManager);
   registerStopTool(server, proxyManager);
@@ -37,9 +69,50 @@ async function main(): Promise<void> {
   registerQueryTool(server, proxyManager);
   registerGetEntryTool(server, proxyManager);
   registerClearTool(server, proxyManager);
+  registerSearchTool(server, proxyManager);
+  registerSummarizeTool(server, proxyManager);
+  registerExportOpenApiTool(server, proxyManager);
+  registerExportHarTool(server, proxyManager);
+  registerImportTool(server, proxyManager);
+  registerToCodeTool(server, proxyManager);
+  registerReplayTool(server, proxyManager);
+  registerDiffTool(server, proxyManager);
+  registerSetRulesTool(server, proxyManager);
+  registerBreakpointAddTool(server, proxyManager);
+  registerBreakpointRemoveTool(server, proxyManager);
+  registerPendingTool(server, proxyManager);
+  registerResumeTool(server, proxyManager);
+  registerSetConditionsTool(server, proxyManager);
+  registerWsMessagesTool(server, proxyManager);
+  registerTlsFailuresTool(server, proxyManager);
+  registerCookiesTool(server, proxyManager);
 
   logger.info('Tools registered', {
-    tools: ['mitm.start', 'mitm.stop', 'mitm.status', 'mitm.query', 'mitm.get_entry', 'mitm.clear'],
+    tools: [
+      'mitm.start',
+      'mitm.stop',
+      'mitm.status',
+      'mitm.query',
+      'mitm.get_entry',
+      'mitm.clear',
+      'mitm.search',
+      'mitm.summarize',
+      'mitm.export_openapi',
+      'mitm.export_har',
+      'mitm.import',
+      'mitm.to_code',
+      'mitm.replay',
+      'mitm.diff',
+      'mitm.set_rules',
+      'mitm.breakpoint_add',
+      'mitm.breakpoint_remove',
+      'mitm.pending',
+      'mitm.resume',
+      'mitm.set_conditions',
+      'mitm.ws_messages',
+      'mitm.tls_failures',
+      'mitm.cookies',
+    ],
   });
 
   // Setup graceful shutdown handlers
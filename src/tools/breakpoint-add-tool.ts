@@ -0,0 +1,102 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { randomBytes } from 'crypto';
+import { ProxyManager } from '../core/proxy-manager.js';
+import { Breakpoint } from '../core/breakpoints.js';
+import { validateMatch } from '../core/rule-set.js';
+import { BreakpointAddInputSchema } from '../types/schemas.js';
+import { MitmError, ErrorCode } from '../types/errors.js';
+
+export function registerBreakpointAddTool(
+  server: McpServer,
+  proxyManager: ProxyManager
+): void {
+  server.tool(
+    'mitm.breakpoint_add',
+    'Add a breakpoint that holds matching flows (by host, path regex, method or filter) before the request goes upstream and/or before the response reaches the app. Held flows show up in mitm.pending and are released with mitm.resume, or automatically after timeoutMs.',
+    {
+      sessionId: BreakpointAddInputSchema.shape.sessionId,
+      id: BreakpointAddInputSchema.shape.id,
+      match: BreakpointAddInputSchema.shape.match,
+      phase: BreakpointAddInputSchema.shape.phase,
+      timeoutMs: BreakpointAddInputSchema.shape.timeoutMs,
+      timeoutAction: BreakpointAddInputSchema.shape.timeoutAction,
+    },
+    async (args) => {
+      try {
+        try {
+          validateMatch(args.match);
+        } catch (error) {
+          throw new MitmError(
+            ErrorCode.INVALID_ARGUMENT,
+            `Invalid breakpoint match: ${error instanceof Error ? error.message : String(error)}`,
+            { match: args.match }
+          );
+        }
+
+        const breakpoint: Breakpoint = {
+          id: args.id ?? `bp-${randomBytes(4).toString('hex')}`,
+          match: args.match,
+          phase: args.phase,
+          timeoutMs: args.timeoutMs,
+          timeoutAction: args.timeoutAction,
+          createdAt: new Date().toISOString(),
+        };
+
+        const existing = await proxyManager.getBreakpoints(args.sessionId);
+        const index = existing.findIndex(bp => bp.id === breakpoint.id);
+        const breakpoints = index === -1
+          ? [...existing, breakpoint]
+          : existing.map(bp => (bp.id === breakpoint.id ? breakpoint : bp));
+        await proxyManager.setBreakpoints(args.sessionId, breakpoints);
+
+        const live = proxyManager.getSession(args.sessionId)?.status === 'ready';
+
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: JSON.stringify(
+                {
+                  ok: true,
+                  sessionId: args.sessionId,
+                  breakpoint,
+                  breakpoints,
+                  live,
+                  message: `${index === -1 ? 'Added' : 'Replaced'} breakpoint ${breakpoint.id}` +
+                    (live ? '' : '; it applies once mitm.start runs'),
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      } catch (error) {
+        const mitmError =
+          error instanceof MitmError
+            ? error
+            : new MitmError(
+                ErrorCode.INTERNAL_ERROR,
+                error instanceof Error ? error.message : String(error)
+              );
+
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: JSON.stringify(
+                {
+                  ok: false,
+                  error: mitmError.toJSON(),
+                },
+                null,
+                2
+              ),
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+}
@@ -0,0 +1,78 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { ProxyManager } from '../core/proxy-manager.js';
+import { BreakpointRemoveInputSchema } from '../types/schemas.js';
+import { MitmError, ErrorCode } from '../types/errors.js';
+
+export function registerBreakpointRemoveTool(
+  server: McpServer,
+  proxyManager: ProxyManager
+): void {
+  server.tool(
+    'mitm.breakpoint_remove',
+    'Remove breakpoints by ID, or all breakpoints when no IDs are given. Flows already held stay pending until resumed or timed out.',
+    {
+      sessionId: BreakpointRemoveInputSchema.shape.sessionId,
+      ids: BreakpointRemoveInputSchema.shape.ids,
+    },
+    async (args) => {
+      try {
+        const existing = await proxyManager.getBreakpoints(args.sessionId);
+
+        const unknown = (args.ids ?? []).filter(id => !existing.some(bp => bp.id === id));
+        if (unknown.length > 0) {
+          throw new MitmError(
+            ErrorCode.INVALID_ARGUMENT,
+            `Unknown breakpoint IDs: ${unknown.join(', ')}`,
+            { sessionId: args.sessionId, ids: unknown }
+          );
+        }
+
+        const breakpoints = args.ids ? existing.filter(bp => !args.ids!.includes(bp.id)) : [];
+        await proxyManager.setBreakpoints(args.sessionId, breakpoints);
+
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: JSON.stringify(
+                {
+                  ok: true,
+                  sessionId: args.sessionId,
+                  removed: existing.length - breakpoints.length,
+                  breakpoints,
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      } catch (error) {
+        const mitmError =
+          error instanceof MitmError
+            ? error
+            : new MitmError(
+                ErrorCode.INTERNAL_ERROR,
+                error instanceof Error ? error.message : String(error)
+              );
+
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: JSON.stringify(
+                {
+                  ok: false,
+                  error: mitmError.toJSON(),
+                },
+                null,
+                2
+              ),
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+}
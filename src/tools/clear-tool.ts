@@ -3,17 +3,31 @@ import { ProxyManager } from '../core/proxy-manager.js';
 import { ClearInputSchema } from '../types/schemas.js';
 import { MitmError, ErrorCode } from '../types/errors.js';
 
+function describeClear(cleared: number, beforeTimeMs?: number, filter?: string): string {
+  if (filter && beforeTimeMs) {
+    return `Cleared ${cleared} entries matching "${filter}" older than ${new Date(beforeTimeMs).toISOString()}`;
+  }
+  if (filter) {
+    return `Cleared ${cleared} entries matching "${filter}"`;
+  }
+  if (beforeTimeMs) {
+    return `Cleared ${cleared} entries older than ${new Date(beforeTimeMs).toISOString()}`;
+  }
+  return `Cleared all ${cleared} entries`;
+}
+
 export function registerClearTool(
   server: McpServer,
   proxyManager: ProxyManager
 ): void {
   server.tool(
     'mitm.clear',
-    'Clear captured traffic data for a session. Optionally clear only entries before a certain time.',
+    'Clear captured traffic data for a session. Optionally clear only entries before a certain time and/or matching a mitmproxy filter expression.',
     {
       sessionId: ClearInputSchema.shape.sessionId,
       beforeTime: ClearInputSchema.shape.beforeTime,
       olderThanSeconds: ClearInputSchema.shape.olderThanSeconds,
+      filter: ClearInputSchema.shape.filter,
     },
     async (args) => {
       try {
@@ -35,8 +49,7 @@ export function registerClearTool(
           beforeTimeMs = new Date(args.beforeTime).getTime();
         }
 
-        const statsBefore = await trafficStore.getStats();
-        const cleared = await trafficStore.clear(beforeTimeMs);
+        const { cleared, skippedBodies } = await trafficStore.clear({ beforeTimeMs, filter: args.filter });
         const statsAfter = await trafficStore.getStats();
 
         return {
@@ -48,9 +61,8 @@ export function registerClearTool(
                   ok: true,
                   entriesCleared: cleared,
                   entriesRemaining: statsAfter.totalEntries,
-                  message: beforeTimeMs
-                    ? `Cleared ${cleared} entries older than ${new Date(beforeTimeMs).toISOString()}`
-                    : `Cleared all ${cleared} entries`,
+                  message: describeClear(cleared, beforeTimeMs, args.filter),
+                  skippedBodies: skippedBodies.length > 0 ? skippedBodies : undefined,
                 },
                 null,
                 2
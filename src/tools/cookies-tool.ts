@@ -0,0 +1,88 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { ProxyManager } from '../core/proxy-manager.js';
+import { CookieJarBuilder } from '../core/cookie-jar.js';
+import { CookiesInputSchema } from '../types/schemas.js';
+import { MitmError, ErrorCode } from '../types/errors.js';
+
+export function registerCookiesTool(
+  server: McpServer,
+  proxyManager: ProxyManager
+): void {
+  server.tool(
+    'mitm.cookies',
+    'Rebuild the session cookie jar from captured traffic: each cookie with its domain, path and attributes, the responses that set or deleted it (with every value over time) and the requests that sent it. Cookies the client sent without a captured Set-Cookie have an empty setBy.',
+    {
+      sessionId: CookiesInputSchema.shape.sessionId,
+      name: CookiesInputSchema.shape.name,
+      domain: CookiesInputSchema.shape.domain,
+      lastNSeconds: CookiesInputSchema.shape.lastNSeconds,
+      filter: CookiesInputSchema.shape.filter,
+      maxEntryIds: CookiesInputSchema.shape.maxEntryIds,
+    },
+    async (args) => {
+      try {
+        const trafficStore = await proxyManager.readTrafficStore(args.sessionId);
+
+        const builder = new CookieJarBuilder({ maxEntryIds: args.maxEntryIds });
+        const { visited: entriesScanned, skippedBodies } = await trafficStore.scan(
+          {
+            startTimeMs: args.lastNSeconds ? Date.now() - args.lastNSeconds * 1000 : undefined,
+            filter: args.filter,
+          },
+          (entry) => builder.add(entry)
+        );
+
+        const domain = args.domain?.toLowerCase().replace(/^\./, '');
+        const cookies = builder.build().filter(cookie =>
+          (!args.name || cookie.name === args.name) &&
+          (!domain || cookie.domain === domain || cookie.domain.endsWith(`.${domain}`))
+        );
+
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: JSON.stringify(
+                {
+                  ok: true,
+                  sessionId: args.sessionId,
+                  entriesScanned,
+                  count: cookies.length,
+                  cookies,
+                  skippedBodies: skippedBodies.length > 0 ? skippedBodies : undefined,
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      } catch (error) {
+        const mitmError =
+          error instanceof MitmError
+            ? error
+            : new MitmError(
+                ErrorCode.INTERNAL_ERROR,
+                error instanceof Error ? error.message : String(error)
+              );
+
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: JSON.stringify(
+                {
+                  ok: false,
+                  error: mitmError.toJSON(),
+                },
+                null,
+                2
+              ),
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+}
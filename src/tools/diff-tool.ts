@@ -0,0 +1,89 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { ProxyManager } from '../core/proxy-manager.js';
+import { diffEntries } from '../core/entry-diff.js';
+import { DiffInputSchema } from '../types/schemas.js';
+import { MitmError, ErrorCode } from '../types/errors.js';
+
+export function registerDiffTool(
+  server: McpServer,
+  proxyManager: ProxyManager
+): void {
+  server.tool(
+    'mitm.diff',
+    'Compare two captured entries: method, URL, query parameters, request and response headers (order-insensitive), status, and bodies (JSON by path, text line by line). Can ignore volatile fields such as dates, timestamps and nonces.',
+    {
+      sessionId: DiffInputSchema.shape.sessionId,
+      leftEntryId: DiffInputSchema.shape.leftEntryId,
+      rightEntryId: DiffInputSchema.shape.rightEntryId,
+      ignoreVolatile: DiffInputSchema.shape.ignoreVolatile,
+      ignore: DiffInputSchema.shape.ignore,
+      contextLines: DiffInputSchema.shape.contextLines,
+      maxChanges: DiffInputSchema.shape.maxChanges,
+    },
+    async (args) => {
+      try {
+        const trafficStore = await proxyManager.readTrafficStore(args.sessionId);
+
+        const left = await trafficStore.getRawEntry(args.leftEntryId, { inlineBodies: true });
+        const right = await trafficStore.getRawEntry(args.rightEntryId, { inlineBodies: true });
+
+        if (!left || !right) {
+          const entryId = left ? args.rightEntryId : args.leftEntryId;
+          throw new MitmError(
+            ErrorCode.ENTRY_NOT_FOUND,
+            `Entry not found: ${entryId}`,
+            { sessionId: args.sessionId, entryId }
+          );
+        }
+
+        const diff = diffEntries(left, right, {
+          ignore: args.ignore,
+          ignoreVolatile: args.ignoreVolatile,
+          contextLines: args.contextLines,
+          maxChanges: args.maxChanges,
+        });
+
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: JSON.stringify(
+                {
+                  ok: true,
+                  diff,
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      } catch (error) {
+        const mitmError =
+          error instanceof MitmError
+            ? error
+            : new MitmError(
+                ErrorCode.INTERNAL_ERROR,
+                error instanceof Error ? error.message : String(error)
+              );
+
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: JSON.stringify(
+                {
+                  ok: false,
+                  error: mitmError.toJSON(),
+                },
+                null,
+                2
+              ),
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+}
@@ -0,0 +1,100 @@
+import * as path from 'path';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { ProxyManager } from '../core/proxy-manager.js';
+import { HarWriter } from '../core/har-export.js';
+import { ScanResult } from '../core/traffic-store.js';
+import { ExportHarInputSchema } from '../types/schemas.js';
+import { MitmError, ErrorCode } from '../types/errors.js';
+
+export function registerExportHarTool(
+  server: McpServer,
+  proxyManager: ProxyManager
+): void {
+  server.tool(
+    'mitm.export_har',
+    'Export captured traffic (or a filtered subset) as a HAR 1.2 file that can be loaded into Chrome DevTools, Charles or HAR analyzers. The file is written into the session mitm/ directory.',
+    {
+      sessionId: ExportHarInputSchema.shape.sessionId,
+      host: ExportHarInputSchema.shape.host,
+      filter: ExportHarInputSchema.shape.filter,
+      lastNSeconds: ExportHarInputSchema.shape.lastNSeconds,
+      includeBodies: ExportHarInputSchema.shape.includeBodies,
+      fileName: ExportHarInputSchema.shape.fileName,
+    },
+    async (args) => {
+      try {
+        const trafficStore = await proxyManager.readTrafficStore(args.sessionId);
+
+        const outputPath = path.join(proxyManager.getMitmDir(args.sessionId), args.fileName || 'traffic.har');
+        const writer = new HarWriter(outputPath, {
+          creator: { name: 'sniaff-mitmdump-mcp', version: '0.1.0' },
+          pageTitle: args.sessionId,
+          includeBodies: args.includeBodies ?? true,
+        });
+
+        writer.open();
+        let result: ScanResult;
+        let exported: number;
+        try {
+          result = await trafficStore.scan(
+            {
+              startTimeMs: args.lastNSeconds ? Date.now() - (args.lastNSeconds * 1000) : undefined,
+              host: args.host,
+              filter: args.filter,
+              inlineBodies: args.includeBodies ?? true,
+            },
+            (entry) => writer.write(entry)
+          );
+          exported = writer.close();
+        } catch (error) {
+          writer.abort();
+          throw error;
+        }
+
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: JSON.stringify(
+                {
+                  ok: true,
+                  path: outputPath,
+                  entriesExported: exported,
+                  message: `Exported ${exported} entries to ${outputPath}`,
+                  skippedBodies: result.skippedBodies.length > 0 ? result.skippedBodies : undefined,
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      } catch (error) {
+        const mitmError =
+          error instanceof MitmError
+            ? error
+            : new MitmError(
+                ErrorCode.INTERNAL_ERROR,
+                error instanceof Error ? error.message : String(error)
+              );
+
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: JSON.stringify(
+                {
+                  ok: false,
+                  error: mitmError.toJSON(),
+                },
+                null,
+                2
+              ),
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+}
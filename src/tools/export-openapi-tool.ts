@@ -0,0 +1,102 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { ProxyManager } from '../core/proxy-manager.js';
+import { OpenApiBuilder } from '../core/openapi-builder.js';
+import { ExportOpenApiInputSchema } from '../types/schemas.js';
+import { MitmError, ErrorCode } from '../types/errors.js';
+
+export function registerExportOpenApiTool(
+  server: McpServer,
+  proxyManager: ProxyManager
+): void {
+  server.tool(
+    'mitm.export_openapi',
+    'Generate an OpenAPI 3.1 document from captured traffic: path templates, path/query/header parameters, JSON request/response schemas merged across calls, response codes and security schemes. The document is written into the session mitm/ directory.',
+    {
+      sessionId: ExportOpenApiInputSchema.shape.sessionId,
+      host: ExportOpenApiInputSchema.shape.host,
+      filter: ExportOpenApiInputSchema.shape.filter,
+      lastNSeconds: ExportOpenApiInputSchema.shape.lastNSeconds,
+      title: ExportOpenApiInputSchema.shape.title,
+      fileName: ExportOpenApiInputSchema.shape.fileName,
+    },
+    async (args) => {
+      try {
+        const trafficStore = await proxyManager.readTrafficStore(args.sessionId);
+
+        const builder = new OpenApiBuilder();
+        const { skippedBodies } = await trafficStore.scan(
+          {
+            startTimeMs: args.lastNSeconds ? Date.now() - (args.lastNSeconds * 1000) : undefined,
+            host: args.host,
+            filter: args.filter,
+            inlineBodies: true,
+          },
+          (entry) => builder.add(entry)
+        );
+
+        const summary = builder.summary();
+        if (summary.entriesUsed === 0) {
+          throw new MitmError(
+            ErrorCode.ENTRY_NOT_FOUND,
+            'No captured entries match the export criteria',
+            { sessionId: args.sessionId, host: args.host, filter: args.filter }
+          );
+        }
+
+        const document = builder.build({
+          title: args.title || `${args.host || summary.hosts.map(h => new URL(h).host).join(', ')} API`,
+          version: '1.0.0',
+          description: `Inferred by sniaff-mitmdump-mcp from ${summary.entriesUsed} captured entries of session ${args.sessionId}.`,
+        });
+
+        const outputPath = path.join(proxyManager.getMitmDir(args.sessionId), args.fileName || 'openapi.json');
+        await fs.promises.writeFile(outputPath, JSON.stringify(document, null, 2), 'utf-8');
+
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: JSON.stringify(
+                {
+                  ok: true,
+                  path: outputPath,
+                  summary,
+                  skippedBodies: skippedBodies.length > 0 ? skippedBodies : undefined,
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      } catch (error) {
+        const mitmError =
+          error instanceof MitmError
+            ? error
+            : new MitmError(
+                ErrorCode.INTERNAL_ERROR,
+                error instanceof Error ? error.message : String(error)
+              );
+
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: JSON.stringify(
+                {
+                  ok: false,
+                  error: mitmError.toJSON(),
+                },
+                null,
+                2
+              ),
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+}
@@ -2,6 +2,17 @@ import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { ProxyManager } from '../core/proxy-manager.js';
 import { GetEntryInputSchema } from '../types/schemas.js';
 import { MitmError, ErrorCode } from '../types/errors.js';
+import { BodySlice } from '../core/traffic-store.js';
+
+function bodyRange(body: BodySlice) {
+  return {
+    offset: body.offset,
+    length: body.length,
+    size: body.size,
+    truncated: body.truncated,
+    sha256: body.sha256,
+  };
+}
 
 export function registerGetEntryTool(
   server: McpServer,
@@ -9,24 +20,21 @@ export function registerGetEntryTool(
 ): void {
   server.tool(
     'mitm.get_entry',
-    'Get the full details of a captured HTTP entry, including request and response bodies.',
+    'Get the full details of a captured HTTP entry, including request and response bodies and their encoding (text or base64). Bodies are cut to maxBodyBytes; the body range (offset, length, size, truncated) tells whether to page on with bodyOffset. URL-encoded and multipart request bodies are also parsed into postData.params, file parts with their file name, content type and size.',
     {
       sessionId: GetEntryInputSchema.shape.sessionId,
       entryId: GetEntryInputSchema.shape.entryId,
+      bodyOffset: GetEntryInputSchema.shape.bodyOffset,
+      maxBodyBytes: GetEntryInputSchema.shape.maxBodyBytes,
     },
     async (args) => {
       try {
-        const trafficStore = proxyManager.getTrafficStore(args.sessionId);
-
-        if (!trafficStore) {
-          throw new MitmError(
-            ErrorCode.PROXY_NOT_RUNNING,
-            `No traffic store for session: ${args.sessionId}`,
-            { sessionId: args.sessionId }
-          );
-        }
+        const trafficStore = await proxyManager.readTrafficStore(args.sessionId);
 
-        const result = await trafficStore.getEntry(args.entryId);
+        const result = await trafficStore.getEntry(args.entryId, {
+          offset: args.bodyOffset,
+          maxBytes: args.maxBodyBytes,
+        });
 
         if (!result) {
           throw new MitmError(
@@ -36,9 +44,9 @@ export function registerGetEntryTool(
           );
         }
 
-        // Bodies are already strings from JSONL format
-        const requestBodyText = result.requestBody;
-        const responseBodyText = result.responseBody;
+        // Bodies are returned as UTF-8 text, or as base64 when they are not text; postData.params
+        // holds the decoded fields of form and multipart request bodies
+        const { requestBody, responseBody } = result;
 
         return {
           content: [
@@ -49,8 +57,12 @@ export function registerGetEntryTool(
                   ok: true,
                   entry: {
                     ...result.entry,
-                    requestBodyText,
-                    responseBodyText,
+                    requestBodyText: requestBody?.text,
+                    requestBodyEncoding: requestBody?.encoding,
+                    requestBodyRange: requestBody && bodyRange(requestBody),
+                    responseBodyText: responseBody?.text,
+                    responseBodyEncoding: responseBody?.encoding,
+                    responseBodyRange: responseBody && bodyRange(responseBody),
                   },
                 },
                 null,
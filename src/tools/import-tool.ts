@@ -0,0 +1,105 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { ProxyManager } from '../core/proxy-manager.js';
+import { parseImportFile } from '../core/traffic-import.js';
+import { ImportInputSchema } from '../types/schemas.js';
+import { MitmError, ErrorCode } from '../types/errors.js';
+
+export function registerImportTool(
+  server: McpServer,
+  proxyManager: ProxyManager
+): void {
+  server.tool(
+    'mitm.import',
+    'Import a HAR 1.2 file or a mitmproxy .flows file into a session so it can be analysed with mitm.query, mitm.get_entry and the other tools. Does not require mitm.start.',
+    {
+      sessionId: ImportInputSchema.shape.sessionId,
+      path: ImportInputSchema.shape.path,
+      format: ImportInputSchema.shape.format,
+    },
+    async (args) => {
+      try {
+        const filePath = path.resolve(args.path);
+
+        let data: Buffer;
+        try {
+          data = await fs.promises.readFile(filePath);
+        } catch (error) {
+          throw new MitmError(
+            ErrorCode.INVALID_ARGUMENT,
+            `Cannot read import file: ${error instanceof Error ? error.message : String(error)}`,
+            { path: filePath }
+          );
+        }
+
+        const result = parseImportFile(
+          data,
+          filePath,
+          args.format === 'har' || args.format === 'flows' ? args.format : undefined
+        );
+
+        const trafficStore = await proxyManager.openTrafficStore(args.sessionId);
+        const imported = await trafficStore.append(result.entries, {
+          bodyBlobThreshold: proxyManager.bodyBlobThreshold(args.sessionId),
+        });
+
+        let firstMs = Infinity;
+        let lastMs = -Infinity;
+        for (const entry of result.entries) {
+          firstMs = Math.min(firstMs, entry.timestampMs);
+          lastMs = Math.max(lastMs, entry.timestampMs);
+        }
+        const hosts = Array.from(new Set(result.entries.map(e => e.request.host))).sort();
+
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: JSON.stringify(
+                {
+                  ok: true,
+                  sessionId: args.sessionId,
+                  format: result.format,
+                  entriesImported: imported,
+                  skipped: result.skipped,
+                  firstEntry: imported > 0 ? new Date(firstMs).toISOString() : null,
+                  lastEntry: imported > 0 ? new Date(lastMs).toISOString() : null,
+                  hosts,
+                  message: `Imported ${imported} entries from ${path.basename(filePath)}`,
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      } catch (error) {
+        const mitmError =
+          error instanceof MitmError
+            ? error
+            : new MitmError(
+                ErrorCode.INTERNAL_ERROR,
+                error instanceof Error ? error.message : String(error)
+              );
+
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: JSON.stringify(
+                {
+                  ok: false,
+                  error: mitmError.toJSON(),
+                },
+                null,
+                2
+              ),
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+}
@@ -4,3 +4,20 @@ export * from './status-tool.js';
 export * from './query-tool.js';
 export * from './get-entry-tool.js';
 export * from './clear-tool.js';
+export * from './search-tool.js';
+export * from './summarize-tool.js';
+export * from './export-openapi-tool.js';
+export * from './export-har-tool.js';
+export * from './import-tool.js';
+export * from './to-code-tool.js';
+export * from './replay-tool.js';
+export * from './diff-tool.js';
+export * from './set-rules-tool.js';
+export * from './breakpoint-add-tool.js';
+export * from './breakpoint-remove-tool.js';
+export * from './pending-tool.js';
+export * from './resume-tool.js';
+export * from './set-conditions-tool.js';
+export * from './ws-messages-tool.js';
+export * from './tls-failures-tool.js';
+export * from './cookies-tool.js';
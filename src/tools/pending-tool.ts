@@ -0,0 +1,118 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { ProxyManager } from '../core/proxy-manager.js';
+import { PendingFlow, listPendingFlows, readPendingFlow } from '../core/breakpoints.js';
+import { PendingInputSchema } from '../types/schemas.js';
+import { MitmError, ErrorCode } from '../types/errors.js';
+
+const BODY_PREVIEW_CHARS = 4000;
+
+function preview<T extends { body?: string; bodyBase64?: string }>(message: T): T & { bodyTruncated?: boolean } {
+  const body = message.body ?? message.bodyBase64;
+  if (body === undefined || body.length <= BODY_PREVIEW_CHARS) return message;
+  return {
+    ...message,
+    ...(message.body !== undefined
+      ? { body: body.slice(0, BODY_PREVIEW_CHARS) }
+      : { bodyBase64: body.slice(0, BODY_PREVIEW_CHARS) }),
+    bodyTruncated: true,
+  };
+}
+
+export function registerPendingTool(
+  server: McpServer,
+  proxyManager: ProxyManager
+): void {
+  server.tool(
+    'mitm.pending',
+    'List the flows currently held by breakpoints, oldest first, with the held request (and response, in the response phase) and when each is auto-released. Bodies are previewed; pass pendingId for the full bodies of one flow. waitMs waits for the next flow to be held.',
+    {
+      sessionId: PendingInputSchema.shape.sessionId,
+      pendingId: PendingInputSchema.shape.pendingId,
+      waitMs: PendingInputSchema.shape.waitMs,
+    },
+    async (args) => {
+      try {
+        if (proxyManager.getSession(args.sessionId)?.status !== 'ready') {
+          throw new MitmError(
+            ErrorCode.PROXY_NOT_RUNNING,
+            `Proxy is not running for session: ${args.sessionId}`,
+            { sessionId: args.sessionId }
+          );
+        }
+
+        const mitmDir = proxyManager.getMitmDir(args.sessionId);
+        const load = async (): Promise<PendingFlow[]> => {
+          if (args.pendingId === undefined) return listPendingFlows(mitmDir);
+          const flow = await readPendingFlow(mitmDir, args.pendingId);
+          return flow ? [flow] : [];
+        };
+
+        const deadline = Date.now() + args.waitMs;
+        let pending = await load();
+        while (pending.length === 0 && Date.now() < deadline) {
+          await new Promise(resolve => setTimeout(resolve, 200));
+          pending = await load();
+        }
+
+        if (args.pendingId !== undefined && pending.length === 0) {
+          throw new MitmError(
+            ErrorCode.ENTRY_NOT_FOUND,
+            `No held flow ${args.pendingId}; it was resumed or timed out`,
+            { sessionId: args.sessionId, pendingId: args.pendingId }
+          );
+        }
+
+        const flows = args.pendingId !== undefined
+          ? pending
+          : pending.map(flow => ({
+              ...flow,
+              request: preview(flow.request),
+              response: flow.response && preview(flow.response),
+            }));
+
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: JSON.stringify(
+                {
+                  ok: true,
+                  sessionId: args.sessionId,
+                  count: flows.length,
+                  pending: flows,
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      } catch (error) {
+        const mitmError =
+          error instanceof MitmError
+            ? error
+            : new MitmError(
+                ErrorCode.INTERNAL_ERROR,
+                error instanceof Error ? error.message : String(error)
+              );
+
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: JSON.stringify(
+                {
+                  ok: false,
+                  error: mitmError.toJSON(),
+                },
+                null,
+                2
+              ),
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+}
@@ -9,7 +9,7 @@ export function registerQueryTool(
 ): void {
   server.tool(
     'mitm.query',
-    'Query captured HTTP traffic by time range and filters. Use lastNSeconds to get recent traffic (e.g., lastNSeconds=10 to get traffic from the last 10 seconds after a UI action).',
+    'Query captured HTTP traffic by time range and filters. Use lastNSeconds to get recent traffic (e.g., lastNSeconds=10 to get traffic from the last 10 seconds after a UI action). Use filter for mitmproxy filter expressions over hosts, headers and bodies, and tlsVersion, alpn, sni, clientIp or connectionReused to select by connection.',
     {
       sessionId: QueryInputSchema.shape.sessionId,
       lastNSeconds: QueryInputSchema.shape.lastNSeconds,
@@ -20,21 +20,19 @@ export function registerQueryTool(
       statusCode: QueryInputSchema.shape.statusCode,
       statusRange: QueryInputSchema.shape.statusRange,
       contentType: QueryInputSchema.shape.contentType,
+      tlsVersion: QueryInputSchema.shape.tlsVersion,
+      alpn: QueryInputSchema.shape.alpn,
+      sni: QueryInputSchema.shape.sni,
+      clientIp: QueryInputSchema.shape.clientIp,
+      connectionReused: QueryInputSchema.shape.connectionReused,
+      filter: QueryInputSchema.shape.filter,
       limit: QueryInputSchema.shape.limit,
       offset: QueryInputSchema.shape.offset,
       includeBody: QueryInputSchema.shape.includeBody,
     },
     async (args) => {
       try {
-        const trafficStore = proxyManager.getTrafficStore(args.sessionId);
-
-        if (!trafficStore) {
-          throw new MitmError(
-            ErrorCode.PROXY_NOT_RUNNING,
-            `No traffic store for session: ${args.sessionId}. Start the proxy first with mitm.start()`,
-            { sessionId: args.sessionId }
-          );
-        }
+        const trafficStore = await proxyManager.readTrafficStore(args.sessionId);
 
         // Calculate time range
         let startTimeMs: number | undefined;
@@ -61,6 +59,12 @@ export function registerQueryTool(
           statusCode: args.statusCode,
           statusRange: args.statusRange,
           contentType: args.contentType,
+          tlsVersion: args.tlsVersion,
+          alpn: args.alpn,
+          sni: args.sni,
+          clientIp: args.clientIp,
+          connectionReused: args.connectionReused,
+          filter: args.filter,
           limit: args.limit || 50,
           offset: args.offset || 0,
           includeBody: args.includeBody || false,
@@ -78,10 +82,12 @@ export function registerQueryTool(
                     endTimeMs,
                     urlPattern: args.urlPattern,
                     method: args.method,
+                    filter: args.filter,
                   },
                   totalMatches: result.total,
                   returned: result.entries.length,
                   entries: result.entries,
+                  skippedBodies: result.skippedBodies.length > 0 ? result.skippedBodies : undefined,
                 },
                 null,
                 2
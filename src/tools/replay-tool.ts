@@ -0,0 +1,198 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { ProxyManager } from '../core/proxy-manager.js';
+import { isForwardProxyMode, parseProxyMode } from '../core/proxy-mode.js';
+import { TrafficStore } from '../core/traffic-store.js';
+import {
+  REPLAY_ENTRY_ID_HEADER,
+  REPLAY_OF_HEADER,
+  ReplayResponse,
+  prepareReplay,
+  sendReplay,
+  toReplayEntry,
+} from '../core/request-replay.js';
+import { ReplayInputSchema } from '../types/schemas.js';
+import { MitmError, ErrorCode } from '../types/errors.js';
+import { encodeBody } from '../utils/body.js';
+import { newEntryId } from '../utils/entry-id.js';
+
+const RESPONSE_PREVIEW_CHARS = 4000;
+
+// The addon writes the entry before forwarding the response, but the JSONL may not be
+// flushed to disk by the time the client has read it
+async function waitForEntry(trafficStore: TrafficStore, entryId: string, timeoutMs: number): Promise<boolean> {
+  const deadline = Date.now() + timeoutMs;
+  for (;;) {
+    if (await trafficStore.getRawEntry(entryId)) return true;
+    if (Date.now() >= deadline) return false;
+    await new Promise(resolve => setTimeout(resolve, 100));
+  }
+}
+
+export function registerReplayTool(
+  server: McpServer,
+  proxyManager: ProxyManager
+): void {
+  server.tool(
+    'mitm.replay',
+    'Re-send a captured request, optionally patching its method, URL, headers, query parameters or body (text, base64 or JSON Patch). Sent through the session proxy when it is running, so the replay is captured too. Returns the new entry ID, linked to the original via replayOf.',
+    {
+      sessionId: ReplayInputSchema.shape.sessionId,
+      entryId: ReplayInputSchema.shape.entryId,
+      method: ReplayInputSchema.shape.method,
+      url: ReplayInputSchema.shape.url,
+      setHeaders: ReplayInputSchema.shape.setHeaders,
+      removeHeaders: ReplayInputSchema.shape.removeHeaders,
+      setQuery: ReplayInputSchema.shape.setQuery,
+      body: ReplayInputSchema.shape.body,
+      bodyBase64: ReplayInputSchema.shape.bodyBase64,
+      jsonPatch: ReplayInputSchema.shape.jsonPatch,
+      viaProxy: ReplayInputSchema.shape.viaProxy,
+      timeoutMs: ReplayInputSchema.shape.timeoutMs,
+    },
+    async (args) => {
+      try {
+        const trafficStore = proxyManager.getTrafficStore(args.sessionId);
+
+        if (!trafficStore) {
+          throw new MitmError(
+            ErrorCode.PROXY_NOT_RUNNING,
+            `No traffic store for session: ${args.sessionId}`,
+            { sessionId: args.sessionId }
+          );
+        }
+
+        const original = await trafficStore.getRawEntry(args.entryId, { inlineBodies: true });
+
+        if (!original) {
+          throw new MitmError(
+            ErrorCode.ENTRY_NOT_FOUND,
+            `Entry not found: ${args.entryId}`,
+            { sessionId: args.sessionId, entryId: args.entryId }
+          );
+        }
+
+        const session = proxyManager.getSession(args.sessionId);
+        const proxyRunning = session?.status === 'ready';
+        if (args.viaProxy && !proxyRunning) {
+          throw new MitmError(
+            ErrorCode.PROXY_NOT_RUNNING,
+            `Proxy is not running for session: ${args.sessionId}`,
+            { sessionId: args.sessionId }
+          );
+        }
+        // Reverse, SOCKS5 and transparent proxies do not accept proxied HTTP requests
+        const forwardProxy = session !== undefined && isForwardProxyMode(parseProxyMode(session.mode));
+        if (args.viaProxy && !forwardProxy) {
+          throw new MitmError(
+            ErrorCode.INVALID_ARGUMENT,
+            `Cannot replay through a proxy in ${session?.mode} mode; use viaProxy: false`,
+            { sessionId: args.sessionId, mode: session?.mode }
+          );
+        }
+        const viaProxy = args.viaProxy ?? (proxyRunning && forwardProxy);
+
+        const request = prepareReplay(original, {
+          method: args.method,
+          url: args.url,
+          setHeaders: args.setHeaders,
+          removeHeaders: args.removeHeaders,
+          setQuery: args.setQuery,
+          body: args.body,
+          bodyBase64: args.bodyBase64,
+          jsonPatch: args.jsonPatch,
+        });
+
+        const entryId = newEntryId();
+        const startedMs = Date.now();
+        let response: ReplayResponse;
+        let recorded: boolean;
+
+        if (viaProxy && session) {
+          // A proxy listening on all interfaces is reached over loopback
+          const host = ['0.0.0.0', '::', ''].includes(session.proxyHost) ? '127.0.0.1' : session.proxyHost;
+          response = await sendReplay(
+            {
+              ...request,
+              headers: [
+                ...request.headers,
+                { name: REPLAY_ENTRY_ID_HEADER, value: entryId },
+                { name: REPLAY_OF_HEADER, value: original.id },
+              ],
+            },
+            { proxy: { host, port: session.proxyPort }, timeoutMs: args.timeoutMs }
+          );
+          recorded = await waitForEntry(trafficStore, entryId, 2000);
+        } else {
+          response = await sendReplay(request, { timeoutMs: args.timeoutMs });
+          await trafficStore.append([toReplayEntry(entryId, original.id, request, response, startedMs)], {
+            bodyBlobThreshold: proxyManager.bodyBlobThreshold(args.sessionId),
+          });
+          recorded = true;
+        }
+
+        const responseBodyText = response.body.length > 0 ? encodeBody(response.body).body : undefined;
+
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: JSON.stringify(
+                {
+                  ok: true,
+                  entryId: recorded ? entryId : null,
+                  replayOf: original.id,
+                  viaProxy,
+                  request: {
+                    method: request.method,
+                    url: request.url,
+                    headers: request.headers,
+                    bodySize: request.body?.length ?? 0,
+                  },
+                  response: {
+                    status: response.status,
+                    statusText: response.statusText,
+                    headers: response.headers,
+                    bodySize: response.body.length,
+                    bodyText: responseBodyText?.slice(0, RESPONSE_PREVIEW_CHARS),
+                    bodyTruncated: (responseBodyText?.length ?? 0) > RESPONSE_PREVIEW_CHARS,
+                  },
+                  durationMs: Date.now() - startedMs,
+                  message: recorded
+                    ? `Replayed ${original.id} as ${entryId}`
+                    : `Replayed ${original.id}, but the proxy did not record it (is the addon up to date?)`,
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      } catch (error) {
+        const mitmError =
+          error instanceof MitmError
+            ? error
+            : new MitmError(
+                ErrorCode.INTERNAL_ERROR,
+                error instanceof Error ? error.message : String(error)
+              );
+
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: JSON.stringify(
+                {
+                  ok: false,
+                  error: mitmError.toJSON(),
+                },
+                null,
+                2
+              ),
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+}
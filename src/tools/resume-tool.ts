@@ -0,0 +1,119 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { ProxyManager } from '../core/proxy-manager.js';
+import {
+  ResumeDecision,
+  readPendingFlow,
+  validateDecision,
+  waitForRelease,
+  writeDecision,
+} from '../core/breakpoints.js';
+import { ResumeInputSchema } from '../types/schemas.js';
+import { MitmError, ErrorCode } from '../types/errors.js';
+
+export function registerResumeTool(
+  server: McpServer,
+  proxyManager: ProxyManager
+): void {
+  server.tool(
+    'mitm.resume',
+    'Release a flow held by a breakpoint: continue it (optionally editing method, URL, status, headers or body), drop it, or answer it with a fake response. The resulting entry is marked with the breakpoint and the decision.',
+    {
+      sessionId: ResumeInputSchema.shape.sessionId,
+      pendingId: ResumeInputSchema.shape.pendingId,
+      action: ResumeInputSchema.shape.action,
+      method: ResumeInputSchema.shape.method,
+      url: ResumeInputSchema.shape.url,
+      status: ResumeInputSchema.shape.status,
+      setHeaders: ResumeInputSchema.shape.setHeaders,
+      removeHeaders: ResumeInputSchema.shape.removeHeaders,
+      body: ResumeInputSchema.shape.body,
+      bodyBase64: ResumeInputSchema.shape.bodyBase64,
+    },
+    async (args) => {
+      try {
+        if (proxyManager.getSession(args.sessionId)?.status !== 'ready') {
+          throw new MitmError(
+            ErrorCode.PROXY_NOT_RUNNING,
+            `Proxy is not running for session: ${args.sessionId}`,
+            { sessionId: args.sessionId }
+          );
+        }
+
+        const mitmDir = proxyManager.getMitmDir(args.sessionId);
+        const pending = await readPendingFlow(mitmDir, args.pendingId);
+
+        if (!pending) {
+          throw new MitmError(
+            ErrorCode.ENTRY_NOT_FOUND,
+            `No held flow ${args.pendingId}; it was resumed or timed out`,
+            { sessionId: args.sessionId, pendingId: args.pendingId }
+          );
+        }
+
+        const decision: ResumeDecision = {
+          action: args.action,
+          method: args.method?.toUpperCase(),
+          url: args.url,
+          status: args.status,
+          setHeaders: args.setHeaders,
+          removeHeaders: args.removeHeaders,
+          body: args.body,
+          bodyBase64: args.bodyBase64,
+        };
+        validateDecision(pending, decision);
+
+        await writeDecision(mitmDir, pending.id, decision);
+        const released = await waitForRelease(mitmDir, pending.id, 2000);
+
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: JSON.stringify(
+                {
+                  ok: true,
+                  sessionId: args.sessionId,
+                  pendingId: pending.id,
+                  entryId: pending.entryId,
+                  phase: pending.phase,
+                  action: args.action,
+                  released,
+                  message: released
+                    ? `Flow ${pending.id} released (${args.action})`
+                    : `Decision for ${pending.id} stored, but the addon has not picked it up yet`,
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      } catch (error) {
+        const mitmError =
+          error instanceof MitmError
+            ? error
+            : new MitmError(
+                ErrorCode.INTERNAL_ERROR,
+                error instanceof Error ? error.message : String(error)
+              );
+
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: JSON.stringify(
+                {
+                  ok: false,
+                  error: mitmError.toJSON(),
+                },
+                null,
+                2
+              ),
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+}
@@ -0,0 +1,91 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { ProxyManager } from '../core/proxy-manager.js';
+import { createSearchMatcher, SEARCH_SCOPES } from '../core/traffic-search.js';
+import { SearchInputSchema } from '../types/schemas.js';
+import { MitmError, ErrorCode } from '../types/errors.js';
+
+export function registerSearchTool(
+  server: McpServer,
+  proxyManager: ProxyManager
+): void {
+  server.tool(
+    'mitm.search',
+    'Search captured request/response bodies, headers and query strings for a literal string or regex (e.g., a token, email or ID). Returns matching entry IDs with highlighted snippets and where each match was found. Base64-encoded binary bodies are searched after decoding.',
+    {
+      sessionId: SearchInputSchema.shape.sessionId,
+      pattern: SearchInputSchema.shape.pattern,
+      regex: SearchInputSchema.shape.regex,
+      caseSensitive: SearchInputSchema.shape.caseSensitive,
+      in: SearchInputSchema.shape.in,
+      lastNSeconds: SearchInputSchema.shape.lastNSeconds,
+      filter: SearchInputSchema.shape.filter,
+      limit: SearchInputSchema.shape.limit,
+      maxMatchesPerEntry: SearchInputSchema.shape.maxMatchesPerEntry,
+    },
+    async (args) => {
+      try {
+        const trafficStore = await proxyManager.readTrafficStore(args.sessionId);
+
+        const matcher = createSearchMatcher(args.pattern, {
+          regex: args.regex || false,
+          caseSensitive: args.caseSensitive || false,
+        });
+
+        const result = await trafficStore.search({
+          matcher,
+          scopes: args.in || SEARCH_SCOPES,
+          startTimeMs: args.lastNSeconds ? Date.now() - (args.lastNSeconds * 1000) : undefined,
+          filter: args.filter,
+          limit: args.limit || 20,
+          maxMatchesPerEntry: args.maxMatchesPerEntry || 5,
+        });
+
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: JSON.stringify(
+                {
+                  ok: true,
+                  pattern: args.pattern,
+                  entriesScanned: result.scanned,
+                  totalMatches: result.total,
+                  returned: result.results.length,
+                  results: result.results,
+                  skippedBodies: result.skippedBodies.length > 0 ? result.skippedBodies : undefined,
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      } catch (error) {
+        const mitmError =
+          error instanceof MitmError
+            ? error
+            : new MitmError(
+                ErrorCode.INTERNAL_ERROR,
+                error instanceof Error ? error.message : String(error)
+              );
+
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: JSON.stringify(
+                {
+                  ok: false,
+                  error: mitmError.toJSON(),
+                },
+                null,
+                2
+              ),
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+}
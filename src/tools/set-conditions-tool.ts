@@ -0,0 +1,92 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { ProxyManager } from '../core/proxy-manager.js';
+import { validateConditions } from '../core/network-conditions.js';
+import { mergeRules } from '../core/rule-set.js';
+import { SetConditionsInputSchema } from '../types/schemas.js';
+import { MitmError, ErrorCode } from '../types/errors.js';
+
+export function registerSetConditionsTool(
+  server: McpServer,
+  proxyManager: ProxyManager
+): void {
+  server.tool(
+    'mitm.set_conditions',
+    'Simulate bad networks per host or filter: add latency and jitter, cap upload or download bandwidth, or fail a percentage of requests with a connection reset, a timeout or an HTTP status. Applies to the running proxy without restart; affected entries record what was injected in their condition field. Use clear to remove all conditions.',
+    {
+      sessionId: SetConditionsInputSchema.shape.sessionId,
+      conditions: SetConditionsInputSchema.shape.conditions,
+      mode: SetConditionsInputSchema.shape.mode,
+      clear: SetConditionsInputSchema.shape.clear,
+    },
+    async (args) => {
+      try {
+        if (args.clear && args.conditions.length > 0) {
+          throw new MitmError(
+            ErrorCode.INVALID_ARGUMENT,
+            'Specify either clear or conditions, not both',
+            { sessionId: args.sessionId }
+          );
+        }
+
+        const conditions = args.clear
+          ? []
+          : args.mode === 'merge'
+            ? mergeRules(await proxyManager.getConditions(args.sessionId), args.conditions)
+            : args.conditions;
+
+        validateConditions(conditions);
+        const conditionsFile = await proxyManager.setConditions(args.sessionId, conditions);
+        const live = proxyManager.getSession(args.sessionId)?.status === 'ready';
+
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: JSON.stringify(
+                {
+                  ok: true,
+                  sessionId: args.sessionId,
+                  conditionsFile,
+                  live,
+                  conditions,
+                  message: conditions.length === 0
+                    ? 'Network conditions cleared'
+                    : live
+                      ? `${conditions.length} conditions active on the running proxy`
+                      : `${conditions.length} conditions stored; they apply once mitm.start runs`,
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      } catch (error) {
+        const mitmError =
+          error instanceof MitmError
+            ? error
+            : new MitmError(
+                ErrorCode.INTERNAL_ERROR,
+                error instanceof Error ? error.message : String(error)
+              );
+
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: JSON.stringify(
+                {
+                  ok: false,
+                  error: mitmError.toJSON(),
+                },
+                null,
+                2
+              ),
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+}
@@ -0,0 +1,78 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { ProxyManager } from '../core/proxy-manager.js';
+import { mergeRules, validateRules } from '../core/rule-set.js';
+import { SetRulesInputSchema } from '../types/schemas.js';
+import { MitmError, ErrorCode } from '../types/errors.js';
+
+export function registerSetRulesTool(
+  server: McpServer,
+  proxyManager: ProxyManager
+): void {
+  server.tool(
+    'mitm.set_rules',
+    'Install rewrite and mock rules for a session: map-local (canned response), map-remote (redirect), header add/replace/remove and regex or JSON-pointer body rewrites, matched by host, path, method or filter. A running proxy picks them up without restart; changed entries list the rule IDs in their rules field. Call with mode "merge" and no rules to list the current rules.',
+    {
+      sessionId: SetRulesInputSchema.shape.sessionId,
+      rules: SetRulesInputSchema.shape.rules,
+      mode: SetRulesInputSchema.shape.mode,
+    },
+    async (args) => {
+      try {
+        const rules = args.mode === 'merge'
+          ? mergeRules(await proxyManager.getRules(args.sessionId), args.rules)
+          : args.rules;
+
+        await validateRules(rules);
+        const rulesFile = await proxyManager.setRules(args.sessionId, rules);
+        const live = proxyManager.getSession(args.sessionId)?.status === 'ready';
+
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: JSON.stringify(
+                {
+                  ok: true,
+                  sessionId: args.sessionId,
+                  rulesFile,
+                  live,
+                  rules,
+                  message: live
+                    ? `${rules.length} rules active on the running proxy`
+                    : `${rules.length} rules stored; they apply once mitm.start runs`,
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      } catch (error) {
+        const mitmError =
+          error instanceof MitmError
+            ? error
+            : new MitmError(
+                ErrorCode.INTERNAL_ERROR,
+                error instanceof Error ? error.message : String(error)
+              );
+
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: JSON.stringify(
+                {
+                  ok: false,
+                  error: mitmError.toJSON(),
+                },
+                null,
+                2
+              ),
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+}
@@ -1,19 +1,47 @@
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { ProxyManager } from '../core/proxy-manager.js';
+import { isForwardProxyMode, parseProxyMode } from '../core/proxy-mode.js';
+import { ProxySession } from '../types/session.js';
 import { StartInputSchema } from '../types/schemas.js';
 import { MitmError, ErrorCode } from '../types/errors.js';
 
+function startMessage(session: ProxySession): string {
+  const address = `${session.proxyHost}:${session.proxyPort}`;
+  const mode = parseProxyMode(session.mode);
+  switch (mode.kind) {
+    case 'regular':
+      return `Proxy started on ${address}. Configure Android with sniaff.set_proxy(host="10.0.2.2", port=${session.proxyPort})`;
+    case 'upstream':
+      return `Proxy started on ${address}, forwarding through ${mode.target}. Configure Android with sniaff.set_proxy(host="10.0.2.2", port=${session.proxyPort})`;
+    case 'reverse':
+      return `Reverse proxy for ${mode.target} listening on ${address}. Point the app at this address instead of the server`;
+    case 'socks5':
+      return `SOCKS5 proxy started on ${address}`;
+    case 'transparent':
+      return `Transparent proxy listening on ${address}. Redirect the device traffic to this port (e.g. with iptables)`;
+  }
+}
+
 export function registerStartTool(
   server: McpServer,
   proxyManager: ProxyManager
 ): void {
   server.tool(
     'mitm.start',
-    'Start a mitmdump proxy for a sniaff session. The proxy will capture all HTTP/HTTPS traffic. Use the returned androidProxyConfig to configure the Android emulator.',
+    'Start a mitmdump proxy for a sniaff session. The proxy will capture all HTTP/HTTPS traffic. Runs as a regular forward proxy by default; mode selects upstream:<url>, reverse:<url>, socks5 or transparent. In forward modes, use the returned androidProxyConfig to configure the Android emulator. With autoRestart, a crashed mitmdump is restarted on the same port.',
     {
       sessionId: StartInputSchema.shape.sessionId,
       port: StartInputSchema.shape.port,
       listenHost: StartInputSchema.shape.listenHost,
+      mode: StartInputSchema.shape.mode,
+      ignoreHosts: StartInputSchema.shape.ignoreHosts,
+      allowHosts: StartInputSchema.shape.allowHosts,
+      sslInsecure: StartInputSchema.shape.sslInsecure,
+      confdir: StartInputSchema.shape.confdir,
+      streamLargeBodies: StartInputSchema.shape.streamLargeBodies,
+      bodyBlobThreshold: StartInputSchema.shape.bodyBlobThreshold,
+      autoRestart: StartInputSchema.shape.autoRestart,
+      maxRestarts: StartInputSchema.shape.maxRestarts,
     },
     async (args) => {
       try {
@@ -21,6 +49,19 @@ export function registerStartTool(
           sessionId: args.sessionId,
           port: args.port,
           listenHost: args.listenHost,
+          mode: args.mode,
+          options: {
+            ignoreHosts: args.ignoreHosts,
+            allowHosts: args.allowHosts,
+            sslInsecure: args.sslInsecure,
+            confdir: args.confdir,
+            streamLargeBodies: args.streamLargeBodies,
+            bodyBlobThreshold: args.bodyBlobThreshold,
+          },
+          restartPolicy: {
+            enabled: args.autoRestart,
+            maxRetries: args.maxRestarts,
+          },
         });
 
         return {
@@ -31,13 +72,16 @@ export function registerStartTool(
                 {
                   ok: true,
                   sessionId: session.sessionId,
+                  mode: session.mode,
+                  options: session.options,
                   proxyPort: session.proxyPort,
                   proxyHost: session.proxyHost,
-                  androidProxyConfig: {
-                    host: '10.0.2.2',
-                    port: session.proxyPort,
-                  },
-                  message: `Proxy started on ${session.proxyHost}:${session.proxyPort}. Configure Android with sniaff.set_proxy(host="10.0.2.2", port=${session.proxyPort})`,
+                  mitmdumpVersion: session.mitmdumpVersion,
+                  restartPolicy: session.restartPolicy,
+                  androidProxyConfig: isForwardProxyMode(parseProxyMode(session.mode))
+                    ? { host: '10.0.2.2', port: session.proxyPort }
+                    : null,
+                  message: startMessage(session),
                 },
                 null,
                 2
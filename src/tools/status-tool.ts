@@ -37,15 +37,24 @@ export function registerStatusTool(
                   ok: true,
                   sessionId: session.sessionId,
                   status: session.status,
+                  mode: session.mode,
+                  options: session.options,
                   proxyPort: session.proxyPort,
                   proxyHost: session.proxyHost,
                   pid: session.pid,
+                  mitmdumpVersion: session.mitmdumpVersion,
                   startedAt: session.startedAt,
+                  restartPolicy: session.restartPolicy,
+                  restarts: session.restarts,
+                  lastError: session.lastError,
+                  coreSessionStatus: session.coreSessionStatus,
                   stats: stats || {
                     totalEntries: 0,
                     totalRequestBytes: 0,
                     totalResponseBytes: 0,
                     entriesLast60s: 0,
+                    webSocketMessages: 0,
+                    failures: 0,
                   },
                 },
                 null,
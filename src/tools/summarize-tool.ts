@@ -0,0 +1,97 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { ProxyManager } from '../core/proxy-manager.js';
+import { SummarizeInputSchema } from '../types/schemas.js';
+import { MitmError, ErrorCode } from '../types/errors.js';
+
+export function registerSummarizeTool(
+  server: McpServer,
+  proxyManager: ProxyManager
+): void {
+  server.tool(
+    'mitm.summarize',
+    'Summarize captured traffic as an endpoint catalogue: flows grouped by host and path template (numeric IDs, UUIDs and hashes collapsed to {id}) with call counts, methods, status codes, content types, body sizes and first/last seen times. Use this to learn which API an app talks to.',
+    {
+      sessionId: SummarizeInputSchema.shape.sessionId,
+      lastNSeconds: SummarizeInputSchema.shape.lastNSeconds,
+      startTime: SummarizeInputSchema.shape.startTime,
+      endTime: SummarizeInputSchema.shape.endTime,
+      host: SummarizeInputSchema.shape.host,
+      limit: SummarizeInputSchema.shape.limit,
+    },
+    async (args) => {
+      try {
+        const trafficStore = await proxyManager.readTrafficStore(args.sessionId);
+
+        // Calculate time range
+        let startTimeMs: number | undefined;
+        let endTimeMs: number | undefined;
+
+        if (args.lastNSeconds) {
+          const now = Date.now();
+          startTimeMs = now - (args.lastNSeconds * 1000);
+          endTimeMs = now;
+        } else {
+          if (args.startTime) {
+            startTimeMs = new Date(args.startTime).getTime();
+          }
+          if (args.endTime) {
+            endTimeMs = new Date(args.endTime).getTime();
+          }
+        }
+
+        const catalog = await trafficStore.summarize({
+          startTimeMs,
+          endTimeMs,
+          host: args.host,
+        });
+
+        const endpoints = catalog.toSummaries().slice(0, args.limit || 100);
+
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: JSON.stringify(
+                {
+                  ok: true,
+                  totalCalls: catalog.calls,
+                  totalEndpoints: catalog.size,
+                  hosts: catalog.hosts(),
+                  returned: endpoints.length,
+                  endpoints,
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      } catch (error) {
+        const mitmError =
+          error instanceof MitmError
+            ? error
+            : new MitmError(
+                ErrorCode.INTERNAL_ERROR,
+                error instanceof Error ? error.message : String(error)
+              );
+
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: JSON.stringify(
+                {
+                  ok: false,
+                  error: mitmError.toJSON(),
+                },
+                null,
+                2
+              ),
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+}
@@ -0,0 +1,77 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { ProxyManager } from '../core/proxy-manager.js';
+import { summarizeFailures } from '../core/tls-failures.js';
+import { TlsFailuresInputSchema } from '../types/schemas.js';
+import { MitmError, ErrorCode } from '../types/errors.js';
+
+export function registerTlsFailuresTool(
+  server: McpServer,
+  proxyManager: ProxyManager
+): void {
+  server.tool(
+    'mitm.tls_failures',
+    'Summarize failed TLS handshakes and failed flows by host, which never show up as traffic entries. Flags hosts whose clients reject the proxy certificate while no flow gets through (likely certificate pinning) and says whether the CA looks untrusted altogether.',
+    {
+      sessionId: TlsFailuresInputSchema.shape.sessionId,
+      host: TlsFailuresInputSchema.shape.host,
+      lastNSeconds: TlsFailuresInputSchema.shape.lastNSeconds,
+      includeEvents: TlsFailuresInputSchema.shape.includeEvents,
+      limit: TlsFailuresInputSchema.shape.limit,
+    },
+    async (args) => {
+      try {
+        const trafficStore = await proxyManager.readTrafficStore(args.sessionId);
+
+        const events = await trafficStore.getFailures({
+          host: args.host,
+          startTimeMs: args.lastNSeconds ? Date.now() - args.lastNSeconds * 1000 : undefined,
+        });
+        const https = await trafficStore.countHttpsEntries(events.map(event => event.host));
+        const summary = summarizeFailures(events, https.byHost, https.total);
+
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: JSON.stringify(
+                {
+                  ok: true,
+                  sessionId: args.sessionId,
+                  ...summary,
+                  events: args.includeEvents ? events.slice(-args.limit).reverse() : undefined,
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      } catch (error) {
+        const mitmError =
+          error instanceof MitmError
+            ? error
+            : new MitmError(
+                ErrorCode.INTERNAL_ERROR,
+                error instanceof Error ? error.message : String(error)
+              );
+
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: JSON.stringify(
+                {
+                  ok: false,
+                  error: mitmError.toJSON(),
+                },
+                null,
+                2
+              ),
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+}
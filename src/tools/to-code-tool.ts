@@ -0,0 +1,79 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { ProxyManager } from '../core/proxy-manager.js';
+import { generateCode } from '../core/code-generator.js';
+import { ToCodeInputSchema } from '../types/schemas.js';
+import { MitmError, ErrorCode } from '../types/errors.js';
+
+export function registerToCodeTool(
+  server: McpServer,
+  proxyManager: ProxyManager
+): void {
+  server.tool(
+    'mitm.to_code',
+    'Turn the request of a captured entry into a runnable snippet (curl, Python requests/httpx, fetch, undici, Kotlin OkHttp or raw HTTP/1.1) with its headers, cookies, query string and body.',
+    {
+      sessionId: ToCodeInputSchema.shape.sessionId,
+      entryId: ToCodeInputSchema.shape.entryId,
+      target: ToCodeInputSchema.shape.target,
+    },
+    async (args) => {
+      try {
+        const trafficStore = await proxyManager.readTrafficStore(args.sessionId);
+
+        const entry = await trafficStore.getRawEntry(args.entryId, { inlineBodies: true });
+
+        if (!entry) {
+          throw new MitmError(
+            ErrorCode.ENTRY_NOT_FOUND,
+            `Entry not found: ${args.entryId}`,
+            { sessionId: args.sessionId, entryId: args.entryId }
+          );
+        }
+
+        const generated = generateCode(entry, args.target);
+
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: JSON.stringify(
+                {
+                  ok: true,
+                  entryId: entry.id,
+                  ...generated,
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      } catch (error) {
+        const mitmError =
+          error instanceof MitmError
+            ? error
+            : new MitmError(
+                ErrorCode.INTERNAL_ERROR,
+                error instanceof Error ? error.message : String(error)
+              );
+
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: JSON.stringify(
+                {
+                  ok: false,
+                  error: mitmError.toJSON(),
+                },
+                null,
+                2
+              ),
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+}
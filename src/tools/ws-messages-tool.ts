@@ -0,0 +1,104 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { ProxyManager } from '../core/proxy-manager.js';
+import { WsMessagesInputSchema } from '../types/schemas.js';
+import { MitmError, ErrorCode } from '../types/errors.js';
+
+export function registerWsMessagesTool(
+  server: McpServer,
+  proxyManager: ProxyManager
+): void {
+  server.tool(
+    'mitm.ws_messages',
+    'List captured WebSocket messages in order, for one connection (entryId of its handshake) or across the session, filtered by host, direction, opcode, payload regex or time. Without entryId, also summarizes the connections with their message counts.',
+    {
+      sessionId: WsMessagesInputSchema.shape.sessionId,
+      entryId: WsMessagesInputSchema.shape.entryId,
+      host: WsMessagesInputSchema.shape.host,
+      direction: WsMessagesInputSchema.shape.direction,
+      opcode: WsMessagesInputSchema.shape.opcode,
+      pattern: WsMessagesInputSchema.shape.pattern,
+      lastNSeconds: WsMessagesInputSchema.shape.lastNSeconds,
+      limit: WsMessagesInputSchema.shape.limit,
+      offset: WsMessagesInputSchema.shape.offset,
+      maxPayloadChars: WsMessagesInputSchema.shape.maxPayloadChars,
+    },
+    async (args) => {
+      try {
+        const trafficStore = await proxyManager.readTrafficStore(args.sessionId);
+
+        if (args.entryId && !(await trafficStore.getRawEntry(args.entryId))) {
+          throw new MitmError(
+            ErrorCode.ENTRY_NOT_FOUND,
+            `Entry not found: ${args.entryId}`,
+            { sessionId: args.sessionId, entryId: args.entryId }
+          );
+        }
+
+        const filters = {
+          host: args.host,
+          direction: args.direction,
+          opcode: args.opcode,
+          pattern: args.pattern,
+          startTimeMs: args.lastNSeconds ? Date.now() - args.lastNSeconds * 1000 : undefined,
+        };
+
+        const { messages, total } = await trafficStore.queryWebSocketMessages({
+          ...filters,
+          entryId: args.entryId,
+          limit: args.limit,
+          offset: args.offset,
+        });
+        const connections = args.entryId ? undefined : await trafficStore.listWebSocketConnections(filters);
+
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: JSON.stringify(
+                {
+                  ok: true,
+                  sessionId: args.sessionId,
+                  total,
+                  count: messages.length,
+                  connections,
+                  messages: messages.map(({ payload, ...message }) => ({
+                    ...message,
+                    payload: args.maxPayloadChars > 0 ? payload.slice(0, args.maxPayloadChars) : undefined,
+                    payloadTruncated: payload.length > args.maxPayloadChars || undefined,
+                  })),
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      } catch (error) {
+        const mitmError =
+          error instanceof MitmError
+            ? error
+            : new MitmError(
+                ErrorCode.INTERNAL_ERROR,
+                error instanceof Error ? error.message : String(error)
+              );
+
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: JSON.stringify(
+                {
+                  ok: false,
+                  error: mitmError.toJSON(),
+                },
+                null,
+                2
+              ),
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+}
@@ -1,17 +1,42 @@
+import { BreakpointHit, ConditionHit, ConnectionInfo } from './traffic.js';
+
 export interface HarHeader {
   name: string;
   value: string;
 }
 
+export interface HarCookie {
+  name: string;
+  value: string;
+  path?: string;
+  domain?: string;
+  expires?: string;
+  httpOnly?: boolean;
+  secure?: boolean;
+  sameSite?: string;
+}
+
 export interface HarQueryString {
   name: string;
   value: string;
 }
 
+export interface HarParam {
+  name: string;
+  // Left out for file parts and for values that are not UTF-8 text
+  value?: string;
+  fileName?: string;
+  contentType?: string;
+  // Non-standard: size of the value in bytes
+  _size?: number;
+}
+
 export interface HarPostData {
   mimeType: string;
   text?: string;
-  params?: Array<{ name: string; value: string }>;
+  params?: HarParam[];
+  // Non-standard: set when text holds a base64-encoded binary body
+  _encoding?: string;
 }
 
 export interface HarRequest {
@@ -20,7 +45,7 @@ export interface HarRequest {
   httpVersion: string;
   headers: HarHeader[];
   queryString: HarQueryString[];
-  cookies: HarHeader[];
+  cookies: HarCookie[];
   headersSize: number;
   bodySize: number;
   postData?: HarPostData;
@@ -39,7 +64,7 @@ export interface HarResponse {
   statusText: string;
   httpVersion: string;
   headers: HarHeader[];
-  cookies: HarHeader[];
+  cookies: HarCookie[];
   content: HarContent;
   redirectURL: string;
   headersSize: number;
@@ -64,7 +89,13 @@ export interface HarEntry {
   response: HarResponse;
   timings: HarTimings;
   serverIPAddress?: string;
+  // ID of the server connection, as in HAR; connectionInfo holds the details
   connection?: string;
+  connectionInfo?: ConnectionInfo;
+  replayOf?: string;
+  rules?: string[];
+  breakpoints?: BreakpointHit[];
+  condition?: ConditionHit;
 }
 
 export interface HarEntrySummary {
@@ -82,3 +113,33 @@ export interface HarEntrySummary {
     bodySize: number;
   };
 }
+
+export interface HarCreator {
+  name: string;
+  version: string;
+}
+
+export interface HarPage {
+  startedDateTime: string;
+  id: string;
+  title: string;
+  pageTimings: {
+    onContentLoad?: number;
+    onLoad?: number;
+  };
+}
+
+// Entry as it appears in an exported HAR 1.2 log
+export interface HarLogEntry {
+  pageref?: string;
+  startedDateTime: string;
+  time: number;
+  request: HarRequest;
+  response: HarResponse;
+  cache: Record<string, never>;
+  timings: HarTimings;
+  serverIPAddress?: string;
+  connection?: string;
+  // Non-standard: ID of the captured entry this was exported from
+  _id?: string;
+}
@@ -2,3 +2,4 @@ export * from './errors.js';
 export * from './session.js';
 export * from './har.js';
 export * from './schemas.js';
+export * from './traffic.js';
@@ -7,6 +7,24 @@ export const StartInputSchema = z.object({
     .describe('Proxy port (auto-selected if not provided)'),
   listenHost: z.string().default('0.0.0.0')
     .describe('Host to listen on'),
+  mode: z.string().default('regular')
+    .describe('mitmproxy mode: regular, upstream:<url> (chain through another proxy such as Burp), reverse:<url>, socks5 or transparent'),
+  ignoreHosts: z.array(z.string()).optional()
+    .describe('Regexes matched against host:port; matching connections pass through without interception (e.g. for certificate-pinned hosts)'),
+  allowHosts: z.array(z.string()).optional()
+    .describe('Regexes matched against host:port; only matching connections are intercepted'),
+  sslInsecure: z.boolean().default(true)
+    .describe('Accept any upstream server certificate'),
+  confdir: z.string().optional()
+    .describe('Absolute path of the mitmproxy configuration directory holding the CA (default ~/.mitmproxy)'),
+  streamLargeBodies: z.string().default('10m')
+    .describe('Stream bodies larger than this without capturing them, e.g. 512k, 10m or 1g'),
+  bodyBlobThreshold: z.string().default('256k')
+    .describe('Store captured bodies larger than this as deduplicated blob files instead of inline, e.g. 64k or 1m; 0 keeps every body inline'),
+  autoRestart: z.boolean().default(false)
+    .describe('Restart mitmdump on the same port if it crashes, with exponential backoff'),
+  maxRestarts: z.number().int().min(1).max(100).default(5)
+    .describe('Restarts in a row before giving up with MITMDUMP_CRASHED (with autoRestart)'),
 });
 
 export const StopInputSchema = z.object({
@@ -31,7 +49,7 @@ export const QueryInputSchema = z.object({
   endTime: z.string().optional()
     .describe('ISO8601 timestamp for range end'),
   urlPattern: z.string().optional()
-    .describe('Regex pattern to filter by URL'),
+    .describe('Case-insensitive regex pattern to filter by URL'),
   method: z.enum(['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'HEAD', 'OPTIONS']).optional()
     .describe('Filter by HTTP method'),
   statusCode: z.number().int().min(100).max(599).optional()
@@ -40,6 +58,18 @@ export const QueryInputSchema = z.object({
     .describe('Filter by status code range'),
   contentType: z.string().optional()
     .describe('Filter by response content-type'),
+  tlsVersion: z.string().optional()
+    .describe('TLS version the client negotiated with the proxy, e.g. "TLSv1.2"'),
+  alpn: z.string().optional()
+    .describe('ALPN protocol the client negotiated, e.g. "h2" or "http/1.1"'),
+  sni: z.string().optional()
+    .describe('SNI sent by the client; matches the name and its subdomains'),
+  clientIp: z.string().optional()
+    .describe('IP address of the client'),
+  connectionReused: z.boolean().optional()
+    .describe('true: flows on a server connection that carried an earlier flow; false: the first flow on a new connection'),
+  filter: z.string().optional()
+    .describe('mitmproxy filter expression, e.g. "~d api.example.com & ~m POST & !~c 200". Supports ~d ~u ~m ~c ~h ~hq ~hs ~b ~bq ~bs ~t ~tq ~ts ~a ~q ~s ~all with !, &, | and parentheses'),
   limit: z.number().int().min(1).max(500).default(50)
     .describe('Maximum number of entries'),
   offset: z.number().int().min(0).default(0)
@@ -53,6 +83,10 @@ export const GetEntryInputSchema = z.object({
     .describe('The session ID'),
   entryId: z.string().min(1)
     .describe('The entry ID from query results'),
+  bodyOffset: z.number().int().min(0).default(0)
+    .describe('Byte offset to start reading each body from, to page through a large body'),
+  maxBodyBytes: z.number().int().min(1).default(262144)
+    .describe('Return at most this many bytes of each body (default 256 KiB); the body range says whether it was truncated'),
 });
 
 export const ClearInputSchema = z.object({
@@ -62,6 +96,352 @@ export const ClearInputSchema = z.object({
     .describe('Clear entries before this ISO8601 timestamp'),
   olderThanSeconds: z.number().int().min(1).optional()
     .describe('Clear entries older than N seconds'),
+  filter: z.string().optional()
+    .describe('mitmproxy filter expression; only matching entries are cleared'),
+});
+
+export const SearchInputSchema = z.object({
+  sessionId: z.string().min(1)
+    .describe('The session ID'),
+  pattern: z.string().min(1)
+    .describe('Text to search for (literal unless regex=true)'),
+  regex: z.boolean().default(false)
+    .describe('Treat pattern as a regular expression'),
+  caseSensitive: z.boolean().default(false)
+    .describe('Match case exactly'),
+  in: z.array(z.enum(['requestBody', 'responseBody', 'requestHeaders', 'responseHeaders', 'queryString'])).min(1).optional()
+    .describe('Where to search (default: everywhere)'),
+  lastNSeconds: z.number().int().min(1).optional()
+    .describe('Only search entries from the last N seconds'),
+  filter: z.string().optional()
+    .describe('mitmproxy filter expression to narrow the entries searched'),
+  limit: z.number().int().min(1).max(200).default(20)
+    .describe('Maximum number of matching entries to return'),
+  maxMatchesPerEntry: z.number().int().min(1).max(50).default(5)
+    .describe('Maximum number of matches reported per entry'),
+});
+
+export const SummarizeInputSchema = z.object({
+  sessionId: z.string().min(1)
+    .describe('The session ID'),
+  lastNSeconds: z.number().int().min(1).optional()
+    .describe('Only summarize entries from the last N seconds'),
+  startTime: z.string().optional()
+    .describe('ISO8601 timestamp for range start'),
+  endTime: z.string().optional()
+    .describe('ISO8601 timestamp for range end'),
+  host: z.string().optional()
+    .describe('Only summarize this host and its subdomains'),
+  limit: z.number().int().min(1).max(500).default(100)
+    .describe('Maximum number of endpoints to return'),
+});
+
+export const ExportOpenApiInputSchema = z.object({
+  sessionId: z.string().min(1)
+    .describe('The session ID'),
+  host: z.string().optional()
+    .describe('Only include this host and its subdomains'),
+  filter: z.string().optional()
+    .describe('mitmproxy filter expression selecting the entries to include'),
+  lastNSeconds: z.number().int().min(1).optional()
+    .describe('Only include entries from the last N seconds'),
+  title: z.string().optional()
+    .describe('API title for the info section'),
+  fileName: z.string().regex(/^[\w.-]+$/).default('openapi.json')
+    .describe('Output file name, written into the session mitm/ directory'),
+});
+
+export const ExportHarInputSchema = z.object({
+  sessionId: z.string().min(1)
+    .describe('The session ID'),
+  host: z.string().optional()
+    .describe('Only include this host and its subdomains'),
+  filter: z.string().optional()
+    .describe('mitmproxy filter expression selecting the entries to include'),
+  lastNSeconds: z.number().int().min(1).optional()
+    .describe('Only include entries from the last N seconds'),
+  includeBodies: z.boolean().default(true)
+    .describe('Include request and response bodies'),
+  fileName: z.string().regex(/^[\w.-]+$/).default('traffic.har')
+    .describe('Output file name, written into the session mitm/ directory'),
+});
+
+export const ImportInputSchema = z.object({
+  sessionId: z.string().min(1)
+    .describe('The session ID to attach the imported traffic to'),
+  path: z.string().min(1)
+    .describe('Path to a HAR 1.2 file or a mitmproxy .flows file (mitmdump -w)'),
+  format: z.enum(['auto', 'har', 'flows']).default('auto')
+    .describe('File format (auto-detected by default)'),
+});
+
+export const ToCodeInputSchema = z.object({
+  sessionId: z.string().min(1)
+    .describe('The session ID'),
+  entryId: z.string().min(1)
+    .describe('The entry ID from query results'),
+  target: z.enum(['curl', 'python-requests', 'python-httpx', 'fetch', 'undici', 'okhttp', 'http']).default('curl')
+    .describe('Snippet target: curl, Python requests or httpx, JavaScript fetch or undici, Kotlin OkHttp, or a raw HTTP/1.1 request'),
+});
+
+export const ReplayInputSchema = z.object({
+  sessionId: z.string().min(1)
+    .describe('The session ID'),
+  entryId: z.string().min(1)
+    .describe('The entry ID of the request to replay'),
+  method: z.string().regex(/^[A-Za-z]+$/).optional()
+    .describe('Replace the HTTP method'),
+  url: z.string().url().optional()
+    .describe('Replace the full URL, including its query string'),
+  setHeaders: z.record(z.string()).optional()
+    .describe('Headers to add or override (names matched case-insensitively)'),
+  removeHeaders: z.array(z.string()).optional()
+    .describe('Header names to remove'),
+  setQuery: z.record(z.string().nullable()).optional()
+    .describe('Query parameters to set; null removes the parameter'),
+  body: z.string().optional()
+    .describe('Replace the request body with this text'),
+  bodyBase64: z.string().optional()
+    .describe('Replace the request body with these base64-encoded bytes'),
+  jsonPatch: z.array(z.object({
+    op: z.enum(['add', 'replace', 'remove']),
+    path: z.string().describe('JSON pointer, e.g. /user/id'),
+    value: z.unknown().optional(),
+  })).optional()
+    .describe('JSON Patch operations applied to the JSON request body'),
+  viaProxy: z.boolean().optional()
+    .describe('Send through the session proxy so the replay is captured (default: when the proxy is running)'),
+  timeoutMs: z.number().int().min(100).max(300000).default(30000)
+    .describe('Request timeout in milliseconds'),
+});
+
+export const DiffInputSchema = z.object({
+  sessionId: z.string().min(1)
+    .describe('The session ID'),
+  leftEntryId: z.string().min(1)
+    .describe('The entry to compare from, e.g. the successful request'),
+  rightEntryId: z.string().min(1)
+    .describe('The entry to compare to'),
+  ignoreVolatile: z.boolean().default(false)
+    .describe('Ignore headers, query parameters and JSON fields that change on every request (Date, ETag, trace IDs, timestamps, nonces)'),
+  ignore: z.array(z.string()).optional()
+    .describe('Header names, query parameter names or JSON keys (glob with *), or JSON pointers such as /data/*/updatedAt, to leave out of the diff'),
+  contextLines: z.number().int().min(0).max(20).default(3)
+    .describe('Unchanged lines shown around each change in text bodies'),
+  maxChanges: z.number().int().min(1).max(2000).default(200)
+    .describe('Maximum number of changes reported per section'),
+});
+
+const RulePhaseSchema = z.enum(['request', 'response'])
+  .describe('Whether the action applies to the request or the response');
+
+const RuleMatchSchema = z.object({
+  host: z.string().optional()
+    .describe('Host name; also matches its subdomains'),
+  path: z.string().optional()
+    .describe('Python regex searched in the path including the query string'),
+  method: z.string().optional()
+    .describe('HTTP method'),
+  filter: z.string().optional()
+    .describe('mitmproxy filter expression, e.g. "~d api.example.com & ~m POST"'),
+}).default({})
+  .describe('All given conditions must hold; an empty match applies to every flow');
+
+export const RuleSchema = z.object({
+  id: z.string().regex(/^[\w.-]+$/)
+    .describe('Unique rule ID, recorded in the rules field of every entry the rule changes'),
+  description: z.string().optional(),
+  enabled: z.boolean().default(true),
+  match: RuleMatchSchema,
+  mapLocal: z.object({
+    status: z.number().int().min(100).max(599).default(200),
+    headers: z.record(z.string()).optional(),
+    body: z.string().optional()
+      .describe('Inline response body'),
+    bodyBase64: z.string().optional()
+      .describe('Inline binary response body'),
+    file: z.string().optional()
+      .describe('Absolute path of a file served as the response body'),
+  }).optional()
+    .describe('Answer with a canned response instead of contacting the server'),
+  mapRemote: z.object({
+    url: z.string().url()
+      .describe('Target URL; its path and query replace the original ones unless empty'),
+  }).optional()
+    .describe('Send the request to another server'),
+  headers: z.array(z.object({
+    phase: RulePhaseSchema,
+    action: z.enum(['add', 'replace', 'remove'])
+      .describe('add appends a value, replace overrides all existing values, remove deletes the header'),
+    name: z.string().min(1),
+    value: z.string().optional(),
+  })).optional(),
+  bodyRewrites: z.array(z.discriminatedUnion('type', [
+    z.object({
+      type: z.literal('regex'),
+      phase: RulePhaseSchema,
+      pattern: z.string().min(1)
+        .describe('Python regex'),
+      replacement: z.string()
+        .describe('Replacement, with \\1 or \\g<name> back-references'),
+    }),
+    z.object({
+      type: z.literal('jsonPointer'),
+      phase: RulePhaseSchema,
+      pointer: z.string()
+        .describe('JSON pointer of the value to set or remove, e.g. /user/isAdmin'),
+      value: z.unknown().optional(),
+      remove: z.boolean().optional(),
+    }),
+  ])).optional(),
+});
+
+export const SetRulesInputSchema = z.object({
+  sessionId: z.string().min(1)
+    .describe('The session ID'),
+  rules: z.array(RuleSchema)
+    .describe('Rules, applied in order'),
+  mode: z.enum(['replace', 'merge']).default('replace')
+    .describe('replace: the given rules become the whole rule set; merge: add or update rules by ID'),
+});
+
+export const BreakpointAddInputSchema = z.object({
+  sessionId: z.string().min(1)
+    .describe('The session ID'),
+  id: z.string().regex(/^[\w.-]+$/).optional()
+    .describe('Breakpoint ID; generated when omitted, replaces an existing breakpoint with the same ID'),
+  match: RuleMatchSchema,
+  phase: z.enum(['request', 'response', 'both']).default('request')
+    .describe('Hold flows before the request is sent upstream, before the response is returned to the client, or both'),
+  timeoutMs: z.number().int().min(1000).max(3600000).default(60000)
+    .describe('Release a held flow automatically after this many milliseconds'),
+  timeoutAction: z.enum(['continue', 'drop']).default('continue')
+    .describe('What happens to a flow nobody resumed before the timeout'),
+});
+
+export const BreakpointRemoveInputSchema = z.object({
+  sessionId: z.string().min(1)
+    .describe('The session ID'),
+  ids: z.array(z.string()).optional()
+    .describe('Breakpoint IDs to remove (default: all)'),
+});
+
+export const PendingInputSchema = z.object({
+  sessionId: z.string().min(1)
+    .describe('The session ID'),
+  pendingId: z.string().optional()
+    .describe('Return only this held flow, with its full bodies'),
+  waitMs: z.number().int().min(0).max(60000).default(0)
+    .describe('Wait up to this many milliseconds for a flow to be held when none is'),
+});
+
+export const ResumeInputSchema = z.object({
+  sessionId: z.string().min(1)
+    .describe('The session ID'),
+  pendingId: z.string().min(1)
+    .describe('The held flow, from mitm.pending'),
+  action: z.enum(['continue', 'drop', 'respond']).default('continue')
+    .describe('continue: release the flow with the edits below; drop: kill the connection; respond: answer with a fake response built from status, setHeaders and body'),
+  method: z.string().regex(/^[A-Za-z]+$/).optional()
+    .describe('Replace the request method (request phase)'),
+  url: z.string().url().optional()
+    .describe('Replace the request URL (request phase)'),
+  status: z.number().int().min(100).max(599).optional()
+    .describe('Response status code (response phase, or respond)'),
+  setHeaders: z.record(z.string()).optional()
+    .describe('Headers to add or override on the held request or response'),
+  removeHeaders: z.array(z.string()).optional()
+    .describe('Header names to remove'),
+  body: z.string().optional()
+    .describe('Replace the body with this text'),
+  bodyBase64: z.string().optional()
+    .describe('Replace the body with these base64-encoded bytes'),
+});
+
+export const NetworkConditionSchema = z.object({
+  id: z.string().regex(/^[\w.-]+$/)
+    .describe('Unique condition ID, recorded in the condition field of every affected entry'),
+  match: RuleMatchSchema,
+  latencyMs: z.number().int().min(0).max(120000).optional()
+    .describe('Delay added before the request is sent upstream'),
+  jitterMs: z.number().int().min(0).max(60000).optional()
+    .describe('Random extra delay of up to this many milliseconds'),
+  uploadKbps: z.number().positive().optional()
+    .describe('Request body bandwidth in kilobits per second'),
+  downloadKbps: z.number().positive().optional()
+    .describe('Response body bandwidth in kilobits per second'),
+  failure: z.object({
+    percent: z.number().min(0).max(100)
+      .describe('Share of matching requests that fail, in percent'),
+    mode: z.enum(['reset', 'timeout', 'status'])
+      .describe('reset: close the connection; timeout: hold the request for hangMs, then close it; status: answer with an error status'),
+    status: z.number().int().min(100).max(599).default(503)
+      .describe('Status code returned in status mode'),
+    hangMs: z.number().int().min(0).max(600000).default(60000)
+      .describe('How long a timeout failure holds the request'),
+  }).optional(),
+});
+
+export const SetConditionsInputSchema = z.object({
+  sessionId: z.string().min(1)
+    .describe('The session ID'),
+  conditions: z.array(NetworkConditionSchema).default([])
+    .describe('Conditions; the first one matching a request applies to it'),
+  mode: z.enum(['replace', 'merge']).default('replace')
+    .describe('replace: the given conditions become the whole set; merge: add or update conditions by ID'),
+  clear: z.boolean().default(false)
+    .describe('Remove all conditions'),
+});
+
+export const WsMessagesInputSchema = z.object({
+  sessionId: z.string().min(1)
+    .describe('The session ID'),
+  entryId: z.string().optional()
+    .describe('Entry ID of the WebSocket handshake (the 101 response); omit to list messages of all connections'),
+  host: z.string().optional()
+    .describe('Only connections to this host or its subdomains'),
+  direction: z.enum(['send', 'receive']).optional()
+    .describe('send: client to server; receive: server to client'),
+  opcode: z.enum(['text', 'binary', 'close']).optional()
+    .describe('Message type; close is the end of the connection'),
+  pattern: z.string().optional()
+    .describe('Case-insensitive regex matched against text payloads'),
+  lastNSeconds: z.number().int().min(1).max(86400).optional()
+    .describe('Only messages from the last N seconds'),
+  limit: z.number().int().min(1).max(1000).default(100)
+    .describe('Maximum number of messages'),
+  offset: z.number().int().min(0).default(0)
+    .describe('Offset for pagination'),
+  maxPayloadChars: z.number().int().min(0).max(1000000).default(2000)
+    .describe('Truncate payloads to this many characters; 0 leaves them out'),
+});
+
+export const TlsFailuresInputSchema = z.object({
+  sessionId: z.string().min(1)
+    .describe('The session ID'),
+  host: z.string().optional()
+    .describe('Only failures for this host or its subdomains'),
+  lastNSeconds: z.number().int().min(1).max(86400).optional()
+    .describe('Only failures from the last N seconds'),
+  includeEvents: z.boolean().default(false)
+    .describe('Also return the individual failure events, newest first'),
+  limit: z.number().int().min(1).max(1000).default(100)
+    .describe('Maximum number of events returned with includeEvents'),
+});
+
+export const CookiesInputSchema = z.object({
+  sessionId: z.string().min(1)
+    .describe('The session ID'),
+  name: z.string().optional()
+    .describe('Only cookies with this exact name'),
+  domain: z.string().optional()
+    .describe('Only cookies scoped to this domain or its subdomains'),
+  lastNSeconds: z.number().int().min(1).max(86400).optional()
+    .describe('Only rebuild from traffic of the last N seconds'),
+  filter: z.string().optional()
+    .describe('mitmproxy filter expression selecting the entries to rebuild from'),
+  maxEntryIds: z.number().int().min(0).max(500).default(20)
+    .describe('Number of most recent request entry IDs listed per cookie'),
 });
 
 export type StartInput = z.infer<typeof StartInputSchema>;
@@ -70,3 +450,23 @@ export type StatusInput = z.infer<typeof StatusInputSchema>;
 export type QueryInput = z.infer<typeof QueryInputSchema>;
 export type GetEntryInput = z.infer<typeof GetEntryInputSchema>;
 export type ClearInput = z.infer<typeof ClearInputSchema>;
+export type SearchInput = z.infer<typeof SearchInputSchema>;
+export type SummarizeInput = z.infer<typeof SummarizeInputSchema>;
+export type ExportOpenApiInput = z.infer<typeof ExportOpenApiInputSchema>;
+export type ExportHarInput = z.infer<typeof ExportHarInputSchema>;
+export type ImportInput = z.infer<typeof ImportInputSchema>;
+export type ToCodeInput = z.infer<typeof ToCodeInputSchema>;
+export type ReplayInput = z.infer<typeof ReplayInputSchema>;
+export type DiffInput = z.infer<typeof DiffInputSchema>;
+export type Rule = z.infer<typeof RuleSchema>;
+export type SetRulesInput = z.infer<typeof SetRulesInputSchema>;
+export type RuleMatch = z.infer<typeof RuleMatchSchema>;
+export type BreakpointAddInput = z.infer<typeof BreakpointAddInputSchema>;
+export type BreakpointRemoveInput = z.infer<typeof BreakpointRemoveInputSchema>;
+export type PendingInput = z.infer<typeof PendingInputSchema>;
+export type ResumeInput = z.infer<typeof ResumeInputSchema>;
+export type NetworkCondition = z.infer<typeof NetworkConditionSchema>;
+export type SetConditionsInput = z.infer<typeof SetConditionsInputSchema>;
+export type WsMessagesInput = z.infer<typeof WsMessagesInputSchema>;
+export type TlsFailuresInput = z.infer<typeof TlsFailuresInputSchema>;
+export type CookiesInput = z.infer<typeof CookiesInputSchema>;
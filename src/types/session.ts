@@ -1,8 +1,55 @@
+import { ErrorCode } from './errors.js';
+
 export type ProxyStatus = 'pending' | 'starting' | 'ready' | 'stopped' | 'error';
 
+// mitmdump options chosen at mitm.start
+export interface ProxyOptions {
+  // Regexes matched against host:port; matching connections pass through unintercepted
+  ignoreHosts: string[];
+  // Regexes matched against host:port; only matching connections are intercepted
+  allowHosts: string[];
+  // Accept any upstream certificate
+  sslInsecure: boolean;
+  // mitmproxy configuration directory holding the CA (default ~/.mitmproxy)
+  confdir?: string;
+  // Bodies larger than this are streamed instead of captured, e.g. "10m"
+  streamLargeBodies: string;
+  // Captured bodies larger than this are kept in blob files instead of traffic.jsonl; "0" never does
+  bodyBlobThreshold: string;
+}
+
+// Opt-in restart of a mitmdump process that exits on its own
+export interface RestartPolicy {
+  enabled: boolean;
+  // Restarts in a row before giving up; the count starts over once a process stays up for a minute
+  maxRetries: number;
+  // Delay before the first restart, doubled for each further one up to maxDelayMs
+  initialDelayMs: number;
+  maxDelayMs: number;
+}
+
+export interface RestartRecord {
+  // When the process exited (or the previous restart failed)
+  crashedAt: string;
+  exitCode: number | null;
+  signal: string | null;
+  error: string;
+  // Restart attempt within the current run of crashes, from 1; 0 when no restart was tried
+  attempt: number;
+  delayMs: number;
+  outcome: 'pending' | 'restarted' | 'failed' | 'gave-up';
+  // Process started by a successful restart
+  pid?: number;
+  // Why the restart failed
+  restartError?: string;
+}
+
 export interface ProxySession {
   sessionId: string;
   status: ProxyStatus;
+  // mitmproxy mode: regular, upstream:<url>, reverse:<url>, socks5 or transparent
+  mode: string;
+  options: ProxyOptions;
   proxyPort: number;
   proxyHost: string;
   pid: number | null;
@@ -10,16 +57,34 @@ export interface ProxySession {
   logPath: string;
   startedAt: string | null;
   stoppedAt: string | null;
+  // As reported by mitmdump --version
+  mitmdumpVersion: string;
+  restartPolicy: RestartPolicy;
+  // Most recent crashes and what was done about them, oldest first
+  restarts: RestartRecord[];
+  // Set when mitmdump crashed for good
+  lastError?: { code: ErrorCode; message: string; details?: Record<string, unknown> };
+  coreSessionStatus: CoreSessionStatus;
 }
 
 // Shared state types (from core MCP)
 export type SessionStatus = 'active' | 'stopping' | 'stopped';
 
+// Core session status as last seen in state.json; missing when the file is gone
+export type CoreSessionStatus = SessionStatus | 'missing';
+
 export interface MitmState {
   status: ProxyStatus;
+  mode?: string;
+  options?: ProxyOptions;
   proxyPort?: number;
   proxyHost?: string;
   pid?: number;
+  // PID of the server process supervising mitmdump
+  ownerPid?: number;
+  mitmdumpVersion?: string;
+  startedAt?: string;
+  restartPolicy?: RestartPolicy;
   androidProxyConfig?: {
     host: string;
     port: number;
@@ -0,0 +1,148 @@
+export interface BreakpointHit {
+  id: string;
+  phase: 'request' | 'response';
+  action: 'continue' | 'drop' | 'respond';
+  edited: boolean;
+  timedOut: boolean;
+}
+
+// Effects of the mitm.set_conditions condition that applied to a flow
+export interface ConditionHit {
+  id: string;
+  latencyMs?: number;
+  throttleMs?: number;
+  failure?: 'reset' | 'timeout' | 'status';
+  status?: number;
+}
+
+// Parameters negotiated on one side of a TLS connection
+export interface TlsInfo {
+  version?: string;
+  cipher?: string;
+  alpn?: string;
+  sni?: string;
+}
+
+export interface CertificateSummary {
+  subject: string;
+  issuer: string;
+  notBefore: string;
+  notAfter: string;
+  // Hex SHA-256 fingerprint of the DER certificate
+  sha256: string;
+  serial: string;
+  altNames: string[];
+}
+
+// The client (app to proxy) and server (proxy to upstream) connections that carried a flow
+export interface ConnectionInfo {
+  clientConnectionId: string;
+  clientAddress?: string;
+  clientTls?: TlsInfo;
+  // Set for requests on an HTTP/2 client connection
+  http2StreamId?: number;
+  serverConnectionId?: string;
+  serverAddress?: string;
+  // The server connection carried an earlier captured flow
+  reused?: boolean;
+  // certificates is the chain the upstream server presented, leaf first
+  serverTls?: TlsInfo & { certificates: CertificateSummary[] };
+}
+
+// How a stored body is written: UTF-8 text as is, anything else as base64
+export type BodyEncoding = 'text' | 'base64';
+
+// Entry shape written by the har_capture.py addon, one per line of traffic.jsonl
+export interface JsonlEntry {
+  id: string;
+  timestamp: string;
+  timestampMs: number;
+  request: {
+    method: string;
+    url: string;
+    host: string;
+    path: string;
+    httpVersion: string;
+    headers: Array<{ name: string; value: string }>;
+    queryString: Array<{ name: string; value: string }>;
+    bodySize: number;
+    body?: string;
+    // Set whenever body or bodySha256 is; absent on entries captured before the marker existed
+    bodyEncoding?: BodyEncoding;
+    // Set instead of body when the body is kept in a blob file (see BlobStore)
+    bodySha256?: string;
+  };
+  response: {
+    status: number;
+    statusText: string;
+    httpVersion: string;
+    headers: Array<{ name: string; value: string }>;
+    contentType: string;
+    bodySize: number;
+    body?: string;
+    bodyEncoding?: BodyEncoding;
+    bodySha256?: string;
+  };
+  timings: {
+    blocked: number;
+    dns: number;
+    connect: number;
+    ssl: number;
+    send: number;
+    wait: number;
+    receive: number;
+  };
+  serverIPAddress?: string;
+  connection?: ConnectionInfo;
+  // ID of the entry this request was replayed from (mitm.replay)
+  replayOf?: string;
+  // IDs of the mitm.set_rules rules that changed this flow
+  rules?: string[];
+  // Breakpoints (mitm.breakpoint_add) that held this flow and how each was released
+  breakpoints?: BreakpointHit[];
+  condition?: ConditionHit;
+  // Set on entries imported from a HAR or mitmproxy flow file rather than captured live
+  source?: {
+    format: 'har' | 'flows';
+    file: string;
+  };
+}
+
+// Line shape written by the har_capture.py addon to websocket.jsonl, one per message
+export interface WebSocketMessageRecord {
+  id: string;
+  // Entry of the HTTP upgrade request that opened the connection
+  entryId: string;
+  // Position of the message within its connection
+  index: number;
+  timestamp: string;
+  timestampMs: number;
+  // send: client to server, receive: server to client
+  direction: 'send' | 'receive';
+  // close records the end of the connection, with the close reason as payload
+  opcode: 'text' | 'binary' | 'close';
+  size: number;
+  payload: string;
+  encoding: 'text' | 'base64';
+  closeCode?: number;
+}
+
+// Line shape written by the har_capture.py addon to failures.jsonl: TLS handshakes and
+// flows that failed, which never produce a traffic entry of their own
+export interface FailureEvent {
+  id: string;
+  // tls_client: the client rejected the handshake (often certificate pinning);
+  // tls_server: the handshake with the server failed; http_error: the flow failed
+  type: 'tls_client' | 'tls_server' | 'http_error';
+  timestamp: string;
+  timestampMs: number;
+  // SNI, or the server address when the client sent none
+  host: string;
+  sni?: string;
+  clientAddress?: string;
+  serverAddress?: string;
+  error: string;
+  // For http_error: the flow's entry ID and URL
+  entryId?: string;
+  url?: string;
+}
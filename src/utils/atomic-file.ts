@@ -0,0 +1,34 @@
+import * as fs from 'fs';
+import { randomUUID } from 'crypto';
+
+// Unique per call, so concurrent writes to the same file never share a temporary file
+function tempPathFor(filePath: string): string {
+  return `${filePath}.${process.pid}.${randomUUID()}.tmp`;
+}
+
+/**
+ * Write a file through a temporary sibling and a rename, so readers never see a
+ * partially written file.
+ */
+export async function writeFileAtomic(filePath: string, content: string): Promise<void> {
+  const tempPath = tempPathFor(filePath);
+  await fs.promises.writeFile(tempPath, content, 'utf-8');
+  await fs.promises.rename(tempPath, filePath);
+}
+
+/**
+ * Like writeFileAtomic, but only replaces the file if it still holds `expected`, for files
+ * other processes may write without coordinating. Returns false, leaving the file as it is,
+ * when it changed.
+ */
+export async function replaceFileIfUnchanged(filePath: string, expected: string, content: string): Promise<boolean> {
+  const tempPath = tempPathFor(filePath);
+  await fs.promises.writeFile(tempPath, content, 'utf-8');
+  const current = await fs.promises.readFile(filePath, 'utf-8').catch(() => null);
+  if (current !== expected) {
+    await fs.promises.rm(tempPath, { force: true });
+    return false;
+  }
+  await fs.promises.rename(tempPath, filePath);
+  return true;
+}
@@ -0,0 +1,100 @@
+import * as zlib from 'zlib';
+import { BodyEncoding } from '../types/traffic.js';
+
+const BASE64_PATTERN = /^[A-Za-z0-9+/]+={0,2}$/;
+
+const utf8Decoder = new TextDecoder('utf-8', { fatal: true });
+
+function isValidUtf8(buffer: Buffer): boolean {
+  try {
+    utf8Decoder.decode(buffer);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Decode a body stored by har_capture.py if it was written as base64.
+ *
+ * Entries carry a bodyEncoding marker for each body, which is trusted when given. Entries
+ * captured before the marker existed store a body as text when it decodes as UTF-8 and as
+ * base64 otherwise, without saying which. Without a marker a body is therefore treated as
+ * base64 only when it has base64 syntax and decodes to bytes that are not valid UTF-8 (text
+ * would have been stored as is).
+ */
+export function decodeBase64Body(body: string, encoding?: BodyEncoding): Buffer | null {
+  if (encoding) {
+    return encoding === 'base64' ? Buffer.from(body, 'base64') : null;
+  }
+  if (body.length < 4 || body.length % 4 !== 0 || !BASE64_PATTERN.test(body)) {
+    return null;
+  }
+  const buffer = Buffer.from(body, 'base64');
+  return isValidUtf8(buffer) ? null : buffer;
+}
+
+/**
+ * Raw bytes of a stored body, whichever way it was encoded.
+ */
+export function storedBodyBytes(body: string, encoding?: BodyEncoding): Buffer {
+  return decodeBase64Body(body, encoding) ?? Buffer.from(body, 'utf-8');
+}
+
+/**
+ * Encode raw body bytes the way har_capture.py stores them: UTF-8 text when the bytes
+ * decode cleanly, base64 otherwise.
+ */
+export function encodeBody(buffer: Buffer): { body: string; encoding: BodyEncoding } {
+  return isValidUtf8(buffer)
+    ? { body: buffer.toString('utf-8'), encoding: 'text' }
+    : { body: buffer.toString('base64'), encoding: 'base64' };
+}
+
+/**
+ * Like encodeBody for a slice cut from a larger body: a multi-byte character split at the
+ * end of the slice does not turn a text body into base64.
+ */
+export function encodeBodySlice(buffer: Buffer): { body: string; encoding: BodyEncoding } {
+  try {
+    const body = new TextDecoder('utf-8', { fatal: true }).decode(buffer, { stream: true });
+    // A slice too short to hold one whole character would return no text at all
+    if (body || buffer.length === 0) return { body, encoding: 'text' };
+  } catch {
+    // Fall through to base64
+  }
+  return { body: buffer.toString('base64'), encoding: 'base64' };
+}
+
+/**
+ * Render binary data (or its latin1 text) as single-byte text, replacing non-printable bytes with '.'.
+ */
+export function toPrintable(data: Buffer | string): string {
+  return (typeof data === 'string' ? data : data.toString('latin1')).replace(/[^\x20-\x7e\xa0-\xff]/g, '.');
+}
+
+/**
+ * Undo a Content-Encoding the way mitmproxy's `message.content` does, so bodies match
+ * what the addon stores. Unknown or corrupt encodings leave the content untouched.
+ */
+export function decodeContentEncoding(content: Buffer, encoding: string): Buffer {
+  try {
+    switch (encoding.trim().toLowerCase()) {
+      case 'gzip':
+      case 'x-gzip':
+        return zlib.gunzipSync(content);
+      case 'deflate':
+        try {
+          return zlib.inflateSync(content);
+        } catch {
+          return zlib.inflateRawSync(content);
+        }
+      case 'br':
+        return zlib.brotliDecompressSync(content);
+      default:
+        return content;
+    }
+  } catch {
+    return content;
+  }
+}
@@ -0,0 +1,101 @@
+import { HarCookie } from '../types/har.js';
+
+type Header = { name: string; value: string };
+
+// Latest expiry with a four-digit year, well inside the range a Date can hold
+const MAX_EXPIRES_MS = Date.UTC(9999, 11, 31, 23, 59, 59, 999);
+
+function headerValues(headers: Header[], name: string): string[] {
+  return headers.filter(h => h.name.toLowerCase() === name).map(h => h.value);
+}
+
+/**
+ * Parse a request `Cookie` header ("a=1; b=2") into HAR cookies.
+ */
+export function parseCookieHeader(value: string): HarCookie[] {
+  return value
+    .split(';')
+    .map(part => part.trim())
+    .filter(part => part.length > 0)
+    .map(part => {
+      const eq = part.indexOf('=');
+      return eq === -1
+        ? { name: part, value: '' }
+        : { name: part.slice(0, eq).trim(), value: part.slice(eq + 1).trim() };
+    });
+}
+
+/**
+ * Parse one `Set-Cookie` header value into a HAR cookie with its attributes.
+ * Max-Age is resolved relative to `receivedAtMs`, the time the response arrived.
+ */
+export function parseSetCookie(value: string, receivedAtMs: number = Date.now()): HarCookie | null {
+  const [pair, ...attributes] = value.split(';');
+  const eq = pair.indexOf('=');
+  if (eq === -1) return null;
+
+  const cookie: HarCookie = {
+    name: pair.slice(0, eq).trim(),
+    value: pair.slice(eq + 1).trim(),
+  };
+
+  let maxAgeSeconds: number | undefined;
+
+  for (const attribute of attributes) {
+    const [rawKey, ...rest] = attribute.split('=');
+    const key = rawKey.trim().toLowerCase();
+    const attrValue = rest.join('=').trim();
+
+    switch (key) {
+      case 'path':
+        cookie.path = attrValue;
+        break;
+      case 'domain':
+        cookie.domain = attrValue;
+        break;
+      case 'expires': {
+        const date = new Date(attrValue);
+        if (!isNaN(date.getTime())) cookie.expires = date.toISOString();
+        break;
+      }
+      case 'max-age': {
+        const seconds = parseInt(attrValue, 10);
+        if (!isNaN(seconds)) maxAgeSeconds = seconds;
+        break;
+      }
+      case 'httponly':
+        cookie.httpOnly = true;
+        break;
+      case 'secure':
+        cookie.secure = true;
+        break;
+      case 'samesite':
+        cookie.sameSite = attrValue;
+        break;
+    }
+  }
+
+  // Max-Age takes precedence over Expires; out-of-range results are clamped, not rejected
+  if (maxAgeSeconds !== undefined) {
+    const expiresMs = Math.min(Math.max(receivedAtMs + maxAgeSeconds * 1000, 0), MAX_EXPIRES_MS);
+    cookie.expires = new Date(expiresMs).toISOString();
+  }
+
+  return cookie;
+}
+
+/**
+ * Cookies sent with a request, from all of its `Cookie` headers.
+ */
+export function requestCookies(headers: Header[]): HarCookie[] {
+  return headerValues(headers, 'cookie').flatMap(parseCookieHeader);
+}
+
+/**
+ * Cookies set by a response, one per `Set-Cookie` header; unparseable headers are skipped.
+ */
+export function responseCookies(headers: Header[], receivedAtMs: number): HarCookie[] {
+  return headerValues(headers, 'set-cookie')
+    .map(value => parseSetCookie(value, receivedAtMs))
+    .filter((c): c is HarCookie => c !== null);
+}
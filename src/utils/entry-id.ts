@@ -0,0 +1,8 @@
+import * as crypto from 'crypto';
+
+/**
+ * Generate an entry ID with the same shape as the ones written by har_capture.py.
+ */
+export function newEntryId(): string {
+  return `entry-${crypto.randomBytes(6).toString('hex')}`;
+}
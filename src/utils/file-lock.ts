@@ -0,0 +1,156 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import { randomUUID } from 'crypto';
+
+export interface FileLockOptions {
+  // Give up acquiring the lock after this long
+  timeoutMs: number;
+  // A lock file older than this is taken to be left behind by a crashed holder
+  staleMs: number;
+}
+
+interface LockOwner {
+  pid: number;
+  hostname: string;
+  token: string;
+  acquiredAt: string;
+}
+
+const RETRY_DELAY_MS = 25;
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM: the process exists but belongs to another user
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+// A lock file as seen at one moment, to tell whether it was replaced since
+interface LockSnapshot {
+  owner: LockOwner | null;
+  ino: number;
+  mtimeMs: number;
+}
+
+async function readOwner(lockPath: string): Promise<LockOwner | null> {
+  try {
+    return JSON.parse(await fs.promises.readFile(lockPath, 'utf-8')) as LockOwner;
+  } catch {
+    // Gone, or caught before its holder wrote it
+    return null;
+  }
+}
+
+async function readLock(lockPath: string): Promise<LockSnapshot | null> {
+  let stat: fs.Stats;
+  try {
+    stat = await fs.promises.stat(lockPath);
+  } catch {
+    return null;
+  }
+  return { owner: await readOwner(lockPath), ino: stat.ino, mtimeMs: stat.mtimeMs };
+}
+
+function sameLock(a: LockSnapshot, b: LockSnapshot): boolean {
+  if (a.owner || b.owner) return a.owner?.token === b.owner?.token;
+  return a.ino === b.ino && a.mtimeMs === b.mtimeMs;
+}
+
+/**
+ * Whether a lock file was abandoned: its holder on this host is no longer running, or it is
+ * older than staleMs (holders on other hosts cannot be checked).
+ */
+function isStale(lock: LockSnapshot, staleMs: number): boolean {
+  if (Date.now() - lock.mtimeMs > staleMs) return true;
+  return lock.owner !== null && lock.owner.hostname === os.hostname() && !isProcessAlive(lock.owner.pid);
+}
+
+/**
+ * Remove the lock file if it is still the one in `expected`. Removals take a second lock,
+ * `<lockPath>.break`, around the check and the removal, so a waiter that judged an old lock
+ * stale cannot remove the lock another waiter took after breaking that one.
+ */
+async function removeLock(lockPath: string, expected: LockSnapshot, staleMs: number): Promise<void> {
+  const breakPath = `${lockPath}.break`;
+  for (;;) {
+    try {
+      await fs.promises.writeFile(breakPath, String(process.pid), { flag: 'wx' });
+      break;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+    }
+    // Only held for a check and a removal, so an old one was left by a crashed process
+    const stat = await fs.promises.stat(breakPath).catch(() => null);
+    if (stat && Date.now() - stat.mtimeMs > staleMs) {
+      await fs.promises.rm(breakPath, { force: true });
+    } else {
+      await new Promise(resolve => setTimeout(resolve, RETRY_DELAY_MS));
+    }
+  }
+
+  try {
+    const current = await readLock(lockPath);
+    if (current && sameLock(current, expected)) {
+      await fs.promises.rm(lockPath, { force: true });
+    }
+  } finally {
+    await fs.promises.rm(breakPath, { force: true });
+  }
+}
+
+/**
+ * Run fn while holding an advisory lock on filePath: a `<filePath>.lock` file created
+ * exclusively, holding the owner's pid, host and a token. Every process writing the file
+ * must take the same lock for it to protect anything.
+ */
+export async function withFileLock<T>(
+  filePath: string,
+  options: FileLockOptions,
+  fn: () => Promise<T>
+): Promise<T> {
+  const lockPath = `${filePath}.lock`;
+  const owner: LockOwner = {
+    pid: process.pid,
+    hostname: os.hostname(),
+    token: randomUUID(),
+    acquiredAt: new Date().toISOString(),
+  };
+  const deadline = Date.now() + options.timeoutMs;
+
+  for (;;) {
+    try {
+      await fs.promises.writeFile(lockPath, JSON.stringify(owner), { flag: 'wx' });
+      break;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+    }
+
+    const current = await readLock(lockPath);
+    if (!current) continue;
+    if (isStale(current, options.staleMs)) {
+      await removeLock(lockPath, current, options.staleMs);
+      continue;
+    }
+    if (Date.now() >= deadline) {
+      const holder = current.owner;
+      throw new Error(
+        `Timed out after ${options.timeoutMs}ms waiting for ${lockPath}` +
+          (holder ? ` (held by pid ${holder.pid} on ${holder.hostname} since ${holder.acquiredAt})` : '')
+      );
+    }
+    await new Promise(resolve => setTimeout(resolve, RETRY_DELAY_MS));
+  }
+
+  try {
+    return await fn();
+  } finally {
+    // Only remove the lock if it is still ours; a holder that overran staleMs may have lost it
+    const current = await readLock(lockPath);
+    if (current?.owner?.token === owner.token) {
+      await removeLock(lockPath, current, options.staleMs);
+    }
+  }
+}
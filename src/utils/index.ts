@@ -1,2 +1,10 @@
 export * from './logger.js';
 export * from './port-finder.js';
+export * from './body.js';
+export * from './cookies.js';
+export * from './tnetstring.js';
+export * from './multipart.js';
+export * from './entry-id.js';
+export * from './json-pointer.js';
+export * from './atomic-file.js';
+export * from './file-lock.js';
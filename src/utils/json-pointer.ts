@@ -0,0 +1,115 @@
+/**
+ * JSON Pointer (RFC 6901) resolution and the add/replace/remove subset of
+ * JSON Patch (RFC 6902).
+ */
+
+export interface JsonPatchOperation {
+  op: 'add' | 'replace' | 'remove';
+  path: string;
+  value?: unknown;
+}
+
+type Container = Record<string, unknown> | unknown[];
+
+/**
+ * Split a JSON pointer into unescaped reference tokens. "" is the whole document.
+ */
+export function parseJsonPointer(pointer: string): string[] {
+  if (pointer === '') return [];
+  if (!pointer.startsWith('/')) {
+    throw new Error(`Invalid JSON pointer "${pointer}": must be empty or start with "/"`);
+  }
+  return pointer
+    .slice(1)
+    .split('/')
+    .map(token => token.replace(/~1/g, '/').replace(/~0/g, '~'));
+}
+
+/**
+ * Build a JSON pointer from reference tokens.
+ */
+export function formatJsonPointer(tokens: Array<string | number>): string {
+  return tokens.map(token => '/' + String(token).replace(/~/g, '~0').replace(/\//g, '~1')).join('');
+}
+
+function isContainer(value: unknown): value is Container {
+  return typeof value === 'object' && value !== null;
+}
+
+function arrayIndex(array: unknown[], token: string, pointer: string, allowEnd: boolean): number {
+  if (allowEnd && token === '-') return array.length;
+  if (!/^(0|[1-9]\d*)$/.test(token)) {
+    throw new Error(`Invalid array index "${token}" in ${pointer}`);
+  }
+  const index = Number(token);
+  if (index > array.length || (!allowEnd && index === array.length)) {
+    throw new Error(`Array index ${index} out of bounds in ${pointer}`);
+  }
+  return index;
+}
+
+/**
+ * Resolve a JSON pointer against a document. Returns undefined when it does not exist.
+ */
+export function resolveJsonPointer(document: unknown, pointer: string): unknown {
+  let current = document;
+  for (const token of parseJsonPointer(pointer)) {
+    if (Array.isArray(current)) {
+      if (!/^(0|[1-9]\d*)$/.test(token)) return undefined;
+      current = current[Number(token)];
+    } else if (isContainer(current) && Object.prototype.hasOwnProperty.call(current, token)) {
+      current = (current as Record<string, unknown>)[token];
+    } else {
+      return undefined;
+    }
+  }
+  return current;
+}
+
+function applyOperation(document: unknown, operation: JsonPatchOperation): unknown {
+  const tokens = parseJsonPointer(operation.path);
+  if (operation.op !== 'remove' && operation.value === undefined) {
+    throw new Error(`Missing value for "${operation.op}" at ${operation.path}`);
+  }
+
+  if (tokens.length === 0) {
+    if (operation.op === 'remove') return undefined;
+    return operation.value;
+  }
+
+  const parent = resolveJsonPointer(document, formatJsonPointer(tokens.slice(0, -1)));
+  const last = tokens[tokens.length - 1];
+  if (!isContainer(parent)) {
+    throw new Error(`Path not found: ${operation.path}`);
+  }
+
+  if (Array.isArray(parent)) {
+    const index = arrayIndex(parent, last, operation.path, operation.op === 'add');
+    if (operation.op === 'add') {
+      parent.splice(index, 0, operation.value);
+    } else if (operation.op === 'replace') {
+      parent[index] = operation.value;
+    } else {
+      parent.splice(index, 1);
+    }
+    return document;
+  }
+
+  if (operation.op !== 'add' && !Object.prototype.hasOwnProperty.call(parent, last)) {
+    throw new Error(`Path not found: ${operation.path}`);
+  }
+  if (operation.op === 'remove') {
+    delete parent[last];
+  } else {
+    parent[last] = operation.value;
+  }
+  return document;
+}
+
+/**
+ * Apply patch operations in order. The document is modified in place; the return
+ * value is the patched document (different when the root itself is replaced).
+ */
+export function applyJsonPatch(document: unknown, operations: JsonPatchOperation[]): unknown {
+  return operations.reduce(applyOperation, document);
+}
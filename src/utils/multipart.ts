@@ -0,0 +1,93 @@
+export interface MultipartPart {
+  name: string;
+  filename?: string;
+  contentType?: string;
+  headers: Array<{ name: string; value: string }>;
+  data: Buffer;
+}
+
+/**
+ * Extract the boundary parameter from a multipart Content-Type header.
+ */
+export function getMultipartBoundary(contentType: string): string | null {
+  if (!/^\s*multipart\//i.test(contentType)) return null;
+  const match = /boundary=(?:"([^"]+)"|([^;\s]+))/i.exec(contentType);
+  return match ? (match[1] ?? match[2]) : null;
+}
+
+function dispositionParam(disposition: string, param: string): string | undefined {
+  // filename*=UTF-8''... (RFC 5987) wins over the plain parameter
+  const extended = new RegExp(`(?:^|;)\\s*${param}\\*=(?:[\\w-]+)?'[^']*'([^;]+)`, 'i').exec(disposition);
+  if (extended) {
+    try {
+      return decodeURIComponent(extended[1].trim());
+    } catch {
+      return extended[1].trim();
+    }
+  }
+  const match = new RegExp(`(?:^|;)\\s*${param}=(?:"((?:[^"\\\\]|\\\\.)*)"|([^;]*))`, 'i').exec(disposition);
+  if (!match) return undefined;
+  return match[1] !== undefined ? match[1].replace(/\\(.)/g, '$1') : match[2].trim();
+}
+
+/**
+ * Split a multipart body into its parts. Returns null when the body does not
+ * contain the boundary, e.g. because it was truncated.
+ */
+export function parseMultipart(body: Buffer, boundary: string): MultipartPart[] | null {
+  const delimiter = Buffer.from(`--${boundary}`, 'latin1');
+  const parts: MultipartPart[] = [];
+
+  let position = body.indexOf(delimiter);
+  if (position === -1) return null;
+
+  for (;;) {
+    position += delimiter.length;
+    // Closing delimiter "--boundary--"
+    if (body[position] === 0x2d && body[position + 1] === 0x2d) break;
+    // Skip the CRLF after the delimiter
+    if (body[position] === 0x0d) position++;
+    if (body[position] === 0x0a) position++;
+
+    const next = body.indexOf(delimiter, position);
+    if (next === -1) break;
+
+    // Part content ends with the CRLF that precedes the next delimiter
+    let end = next;
+    if (body[end - 1] === 0x0a) end--;
+    if (body[end - 1] === 0x0d) end--;
+
+    const part = body.subarray(position, end);
+    let headerEnd = part.indexOf('\r\n\r\n');
+    let separatorLength = 4;
+    if (headerEnd === -1) {
+      headerEnd = part.indexOf('\n\n');
+      separatorLength = 2;
+    }
+
+    if (headerEnd !== -1) {
+      const headers = part
+        .subarray(0, headerEnd)
+        .toString('utf-8')
+        .split(/\r?\n/)
+        .filter(line => line.includes(':'))
+        .map(line => {
+          const colon = line.indexOf(':');
+          return { name: line.slice(0, colon).trim(), value: line.slice(colon + 1).trim() };
+        });
+
+      const disposition = headers.find(h => h.name.toLowerCase() === 'content-disposition')?.value ?? '';
+      parts.push({
+        name: dispositionParam(disposition, 'name') ?? '',
+        filename: dispositionParam(disposition, 'filename'),
+        contentType: headers.find(h => h.name.toLowerCase() === 'content-type')?.value,
+        headers,
+        data: Buffer.from(part.subarray(headerEnd + separatorLength)),
+      });
+    }
+
+    position = next;
+  }
+
+  return parts;
+}
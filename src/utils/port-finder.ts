@@ -1,7 +1,11 @@
 import * as net from 'net';
 
 export class PortFinder {
-  async isPortAvailable(port: number): Promise<boolean> {
+  /**
+   * Whether a listening socket can be bound to the port on host. A wildcard host ('0.0.0.0',
+   * '::' or '') conflicts with a socket on any address.
+   */
+  async isPortAvailable(port: number, host = '127.0.0.1'): Promise<boolean> {
     return new Promise((resolve) => {
       const server = net.createServer();
 
@@ -14,7 +18,7 @@ export class PortFinder {
         resolve(true);
       });
 
-      server.listen(port, '127.0.0.1');
+      server.listen(port, host || undefined);
     });
   }
 
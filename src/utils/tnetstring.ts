@@ -0,0 +1,96 @@
+/**
+ * Decoder for tnetstrings, the serialization mitmproxy uses for `.flows` files
+ * (`mitmdump -w`). A file is a sequence of top-level values, one per flow.
+ *
+ * Each value is `<length>:<payload><type>` where type is one of:
+ *   ,  bytes    ;  unicode string    #  integer    ^  float
+ *   !  boolean  ~  null              ]  list       }  dictionary
+ */
+
+export type TNetValue =
+  | Buffer
+  | string
+  | number
+  | boolean
+  | null
+  | TNetValue[]
+  | { [key: string]: TNetValue };
+
+function parseValue(data: Buffer, start: number): { value: TNetValue; end: number } {
+  const colon = data.indexOf(0x3a, start);
+  if (colon === -1 || colon - start > 12) {
+    throw new Error(`Invalid tnetstring: missing length prefix at offset ${start}`);
+  }
+
+  const length = parseInt(data.toString('ascii', start, colon), 10);
+  if (isNaN(length) || length < 0) {
+    throw new Error(`Invalid tnetstring: bad length at offset ${start}`);
+  }
+
+  const payloadStart = colon + 1;
+  const payloadEnd = payloadStart + length;
+  if (payloadEnd >= data.length) {
+    throw new Error(`Invalid tnetstring: truncated value at offset ${start}`);
+  }
+
+  const type = String.fromCharCode(data[payloadEnd]);
+  const payload = data.subarray(payloadStart, payloadEnd);
+  const end = payloadEnd + 1;
+
+  switch (type) {
+    case ',':
+      return { value: Buffer.from(payload), end };
+    case ';':
+      return { value: payload.toString('utf-8'), end };
+    case '#':
+      return { value: parseInt(payload.toString('ascii'), 10), end };
+    case '^':
+      return { value: parseFloat(payload.toString('ascii')), end };
+    case '!':
+      return { value: payload.toString('ascii') === 'true', end };
+    case '~':
+      return { value: null, end };
+    case ']': {
+      const items: TNetValue[] = [];
+      let position = payloadStart;
+      while (position < payloadEnd) {
+        const item = parseValue(data, position);
+        items.push(item.value);
+        position = item.end;
+      }
+      return { value: items, end };
+    }
+    case '}': {
+      const dict: { [key: string]: TNetValue } = {};
+      let position = payloadStart;
+      while (position < payloadEnd) {
+        const key = parseValue(data, position);
+        const value = parseValue(data, key.end);
+        dict[Buffer.isBuffer(key.value) ? key.value.toString('utf-8') : String(key.value)] = value.value;
+        position = value.end;
+      }
+      return { value: dict, end };
+    }
+    default:
+      throw new Error(`Invalid tnetstring: unknown type '${type}' at offset ${payloadEnd}`);
+  }
+}
+
+/**
+ * Decode every top-level value in a buffer.
+ */
+export function parseTNetStrings(data: Buffer): TNetValue[] {
+  const values: TNetValue[] = [];
+  let position = 0;
+  while (position < data.length) {
+    // Tolerate trailing whitespace between or after values
+    if (data[position] === 0x0a || data[position] === 0x0d || data[position] === 0x20) {
+      position++;
+      continue;
+    }
+    const { value, end } = parseValue(data, position);
+    values.push(value);
+    position = end;
+  }
+  return values;
+}
@@ -0,0 +1,78 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { BlobStore } from '../../src/core/blob-store.js';
+import { makeEntry } from '../helpers.js';
+
+describe('BlobStore', () => {
+  let dir: string;
+  let blobs: BlobStore;
+
+  function writeBlob(body: Buffer): string {
+    const sha256 = createHash('sha256').update(body).digest('hex');
+    fs.mkdirSync(path.join(dir, sha256.slice(0, 2)), { recursive: true });
+    fs.writeFileSync(path.join(dir, sha256.slice(0, 2), sha256), body);
+    return sha256;
+  }
+
+  async function collect(windows: AsyncIterable<{ text: string; offset: number }>) {
+    const result: Array<{ text: string; offset: number }> = [];
+    for await (const window of windows) result.push(window);
+    return result;
+  }
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'blob-store-'));
+    blobs = new BlobStore(dir);
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('reads text windows that start where the body text does', async () => {
+    // "é" is two bytes, split between the first and second chunk
+    const sha256 = writeBlob(Buffer.from('café au lait', 'utf-8'));
+    const windows = await collect(blobs.textWindows(sha256, false, 1024, 4));
+
+    expect(windows.at(-1)!.text).toBe('café au lait');
+    for (const { text, offset } of windows) {
+      expect('café au lait'.slice(offset, offset + text.length)).toBe(text);
+    }
+  });
+
+  it('reads binary blobs as latin1 and stops at maxBytes', async () => {
+    const sha256 = writeBlob(Buffer.from([0x00, 0xff, 0x41, 0x42, 0x43]));
+    const windows = await collect(blobs.textWindows(sha256, true, 4, 2));
+    expect(windows.at(-1)!.text).toBe('\x00\xffAB');
+  });
+
+  it('finds a match that spans two chunks', async () => {
+    const sha256 = writeBlob(Buffer.from('xxxxxxSECRETxxxxxx', 'utf-8'));
+    const windows = await collect(blobs.textWindows(sha256, false, 1024, 4));
+    expect(windows.some(window => window.text.includes('SECRET'))).toBe(true);
+    expect(await blobs.test(sha256, false, /SECRET/, 1024)).toBe(true);
+    expect(await blobs.test(sha256, false, /SECRET/, 8)).toBe(false);
+  });
+
+  it('inlines bodies up to maxBytes and lists the larger ones', async () => {
+    const entry = makeEntry({
+      request: { bodySha256: writeBlob(Buffer.from('small')), bodySize: 5, bodyEncoding: 'text' },
+      response: { bodySha256: writeBlob(Buffer.from('x'.repeat(100))), bodySize: 100, bodyEncoding: 'text' },
+    });
+    const { entry: inlined, oversized } = await blobs.inline(entry, 10);
+
+    expect(inlined.request).toMatchObject({ body: 'small', bodyEncoding: 'text' });
+    expect(inlined.request.bodySha256).toBeUndefined();
+    expect(inlined.response).toBe(entry.response);
+    expect(oversized).toEqual(['response']);
+  });
+
+  it('reports a missing blob', async () => {
+    await expect(collect(blobs.textWindows('ab'.repeat(32), false, 1024))).rejects.toMatchObject({
+      code: 'INTERNAL_ERROR',
+    });
+  });
+});
@@ -0,0 +1,106 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+  listPendingFlows,
+  PendingFlow,
+  readPendingFlow,
+  ResumeDecision,
+  validateDecision,
+  waitForRelease,
+  writeDecision,
+} from '../../src/core/breakpoints.js';
+
+function pendingFlow(overrides: Partial<PendingFlow> = {}): PendingFlow {
+  return {
+    id: 'p1',
+    entryId: 'entry-1',
+    breakpointId: 'bp',
+    phase: 'request',
+    heldAt: '2026-01-01T00:00:00.000Z',
+    expiresAt: new Date(Date.now() + 60_000).toISOString(),
+    timeoutAction: 'continue',
+    request: { method: 'GET', url: 'https://api.example.com/items', headers: [], bodySize: 0 },
+    ...overrides,
+  };
+}
+
+describe('pending flows', () => {
+  let mitmDir: string;
+
+  // Hold a flow the way har_capture.py does: pending/<id>.json
+  function hold(flow: PendingFlow): void {
+    fs.mkdirSync(path.join(mitmDir, 'pending'), { recursive: true });
+    fs.writeFileSync(path.join(mitmDir, 'pending', `${flow.id}.json`), JSON.stringify(flow));
+  }
+
+  beforeEach(() => {
+    mitmDir = fs.mkdtempSync(path.join(os.tmpdir(), 'breakpoints-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(mitmDir, { recursive: true, force: true });
+  });
+
+  it('lists held flows oldest first, leaving out expired ones', async () => {
+    expect(await listPendingFlows(mitmDir)).toEqual([]);
+
+    hold(pendingFlow({ id: 'newer', heldAt: '2026-01-01T00:00:02.000Z' }));
+    hold(pendingFlow({ id: 'older', heldAt: '2026-01-01T00:00:01.000Z' }));
+    hold(pendingFlow({ id: 'expired', expiresAt: new Date(Date.now() - 1000).toISOString() }));
+    fs.writeFileSync(path.join(mitmDir, 'pending', 'partial.json.tmp'), '{');
+
+    expect((await listPendingFlows(mitmDir)).map(flow => flow.id)).toEqual(['older', 'newer']);
+  });
+
+  it('only reads pending IDs in the addon format', async () => {
+    hold(pendingFlow());
+    expect(await readPendingFlow(mitmDir, 'p1')).toMatchObject({ id: 'p1' });
+    expect(await readPendingFlow(mitmDir, '../pending/p1')).toBeNull();
+    expect(await readPendingFlow(mitmDir, 'missing')).toBeNull();
+  });
+
+  it('writes the decision and waits for the addon to release the flow', async () => {
+    hold(pendingFlow());
+    await writeDecision(mitmDir, 'p1', { action: 'continue', setHeaders: { 'X-Debug': '1' } });
+    expect(JSON.parse(fs.readFileSync(path.join(mitmDir, 'decisions', 'p1.json'), 'utf-8'))).toEqual({
+      action: 'continue',
+      setHeaders: { 'X-Debug': '1' },
+    });
+
+    expect(await waitForRelease(mitmDir, 'p1', 150)).toBe(false);
+
+    setTimeout(() => fs.rmSync(path.join(mitmDir, 'pending', 'p1.json')), 50);
+    expect(await waitForRelease(mitmDir, 'p1', 2000)).toBe(true);
+  });
+});
+
+describe('validateDecision', () => {
+  const request = pendingFlow();
+  const response = pendingFlow({
+    phase: 'response',
+    response: { status: 200, statusText: 'OK', headers: [], bodySize: 0 },
+  });
+
+  it.each<[string, PendingFlow, ResumeDecision]>([
+    ['an edited request', request, { action: 'continue', method: 'POST', url: 'https://example.com/', body: 'x' }],
+    ['an edited response', response, { action: 'continue', status: 500, bodyBase64: 'AA==' }],
+    ['a fake response', request, { action: 'respond', status: 418, setHeaders: { 'X-A': '1' } }],
+    ['a plain drop', response, { action: 'drop' }],
+  ])('accepts %s', (_name, pending, decision) => {
+    expect(() => validateDecision(pending, decision)).not.toThrow();
+  });
+
+  it.each<[string, PendingFlow, ResumeDecision, RegExp]>([
+    ['both body forms', request, { action: 'continue', body: 'x', bodyBase64: 'eA==' }, /either body or bodyBase64/],
+    ['edits on a drop', request, { action: 'drop', removeHeaders: ['x'] }, /takes no edits/],
+    ['a new URL for a held response', response, { action: 'continue', url: 'https://example.com/' }, /method and url/],
+    ['a new method with respond', request, { action: 'respond', method: 'PUT' }, /method and url/],
+    ['a status for a continued request', request, { action: 'continue', status: 200 }, /status applies/],
+  ])('rejects %s', (_name, pending, decision, message) => {
+    expect(() => validateDecision(pending, decision)).toThrow(
+      expect.objectContaining({ code: 'INVALID_ARGUMENT', message: expect.stringMatching(message) })
+    );
+  });
+});
@@ -0,0 +1,211 @@
+import { describe, expect, it } from 'vitest';
+import { CODE_TARGETS, generateCode } from '../../src/core/code-generator.js';
+import { makeEntry } from '../helpers.js';
+
+const jsonPost = makeEntry({
+  request: {
+    method: 'POST',
+    headers: [
+      { name: 'Host', value: 'api.example.com' },
+      { name: 'Content-Type', value: 'application/json' },
+      { name: 'Cookie', value: 'sid=abc; theme=dark' },
+      { name: 'Content-Length', value: '12' },
+    ],
+    body: '{"name":"x"}',
+    bodyEncoding: 'text',
+    bodySize: 12,
+  },
+});
+
+const binaryPut = makeEntry({
+  request: {
+    method: 'PUT',
+    url: 'https://api.example.com/blob',
+    path: '/blob',
+    queryString: [],
+    headers: [{ name: 'Content-Type', value: 'application/octet-stream' }],
+    body: Buffer.from([0xff, 0x00, 0x10]).toString('base64'),
+    bodyEncoding: 'base64',
+    bodySize: 3,
+  },
+});
+
+const multipartBody = [
+  '--XyZ',
+  'Content-Disposition: form-data; name="title"',
+  '',
+  'Hello',
+  '--XyZ',
+  'Content-Disposition: form-data; name="file"; filename="a.txt"',
+  'Content-Type: text/plain',
+  '',
+  'contents',
+  '--XyZ--',
+  '',
+].join('\r\n');
+
+const multipartPost = makeEntry({
+  request: {
+    method: 'POST',
+    url: 'https://api.example.com/upload',
+    path: '/upload',
+    queryString: [],
+    headers: [{ name: 'Content-Type', value: 'multipart/form-data; boundary=XyZ' }],
+    body: multipartBody,
+    bodyEncoding: 'text',
+    bodySize: multipartBody.length,
+  },
+});
+
+describe('generateCode', () => {
+  it('renders curl', () => {
+    expect(generateCode(jsonPost, 'curl').code).toBe([
+      "curl 'https://api.example.com/items?page=1' \\",
+      "  -H 'Content-Type: application/json' \\",
+      "  -b 'sid=abc; theme=dark' \\",
+      `  --data-raw '{"name":"x"}'`,
+    ].join('\n'));
+  });
+
+  it('renders python-requests', () => {
+    expect(generateCode(jsonPost, 'python-requests').code).toBe(`import requests
+
+url = "https://api.example.com/items"
+params = {
+    "page": "1",
+}
+headers = {
+    "Content-Type": "application/json",
+}
+cookies = {
+    "sid": "abc",
+    "theme": "dark",
+}
+data = "{\\"name\\":\\"x\\"}"
+
+response = requests.post(url, params=params, headers=headers, cookies=cookies, data=data)
+print(response.status_code)
+print(response.text)
+`);
+  });
+
+  it('renders python-httpx', () => {
+    expect(generateCode(jsonPost, 'python-httpx').code).toBe(`import httpx
+
+url = "https://api.example.com/items"
+params = {
+    "page": "1",
+}
+headers = {
+    "Content-Type": "application/json",
+    "Cookie": "sid=abc; theme=dark",
+}
+content = "{\\"name\\":\\"x\\"}"
+
+response = httpx.request("POST", url, params=params, headers=headers, content=content)
+print(response.status_code)
+print(response.text)
+`);
+  });
+
+  it('renders fetch, noting that browsers drop the Cookie header', () => {
+    const { code, notes } = generateCode(jsonPost, 'fetch');
+    expect(code).toBe(`const response = await fetch("https://api.example.com/items?page=1", {
+  method: "POST",
+  headers: {
+    "Content-Type": "application/json",
+    "Cookie": "sid=abc; theme=dark",
+  },
+  body: "{\\"name\\":\\"x\\"}",
+});
+
+console.log(response.status);
+console.log(await response.text());
+`);
+    expect(notes).toEqual([expect.stringContaining('Browsers refuse to set the Cookie header')]);
+  });
+
+  it('renders undici', () => {
+    expect(generateCode(jsonPost, 'undici').code).toBe(`import { request } from "undici";
+
+const { statusCode, body } = await request("https://api.example.com/items?page=1", {
+  method: "POST",
+  headers: {
+    "Content-Type": "application/json",
+    "Cookie": "sid=abc; theme=dark",
+  },
+  body: "{\\"name\\":\\"x\\"}",
+});
+
+console.log(statusCode);
+console.log(await body.text());
+`);
+  });
+
+  it('renders okhttp with Content-Type taken from the body', () => {
+    expect(generateCode(jsonPost, 'okhttp').code).toBe(`import okhttp3.MediaType.Companion.toMediaTypeOrNull
+import okhttp3.OkHttpClient
+import okhttp3.Request
+import okhttp3.RequestBody.Companion.toRequestBody
+
+val client = OkHttpClient()
+
+val body = "{\\"name\\":\\"x\\"}".toByteArray().toRequestBody("application/json".toMediaTypeOrNull())
+
+val request = Request.Builder()
+    .url("https://api.example.com/items?page=1")
+    .method("POST", body)
+    .addHeader("Cookie", "sid=abc; theme=dark")
+    .build()
+
+client.newCall(request).execute().use { response ->
+    println(response.code)
+    println(response.body?.string())
+}
+`);
+  });
+
+  it('renders a raw HTTP/1.1 request with a recomputed Content-Length', () => {
+    expect(generateCode(jsonPost, 'http').code).toBe(
+      'POST /items?page=1 HTTP/1.1\r\n' +
+        'Host: api.example.com\r\n' +
+        'Content-Type: application/json\r\n' +
+        'Cookie: sid=abc; theme=dark\r\n' +
+        'Content-Length: 12\r\n' +
+        '\r\n' +
+        '{"name":"x"}'
+    );
+  });
+
+  it('embeds binary bodies as base64 for every target', () => {
+    const encoded = Buffer.from([0xff, 0x00, 0x10]).toString('base64');
+    for (const target of CODE_TARGETS) {
+      const { code } = generateCode(binaryPut, target);
+      expect(code, target).toContain(encoded);
+    }
+    expect(generateCode(binaryPut, 'curl').code).toMatch(/^echo \/wAQ \| base64 --decode \| curl /);
+    expect(generateCode(binaryPut, 'python-requests').code).toContain('data = base64.b64decode("/wAQ")');
+  });
+
+  it('rebuilds multipart forms with each target\'s form API', () => {
+    expect(generateCode(multipartPost, 'python-requests').code).toContain(
+      'files = [\n    ("title", (None, "Hello")),\n    ("file", ("a.txt", "contents", "text/plain")),\n]'
+    );
+    expect(generateCode(multipartPost, 'python-httpx').code).toContain('data = {\n    "title": "Hello",\n}');
+    expect(generateCode(multipartPost, 'fetch').code).toContain(
+      'form.append("file", new Blob(["contents"], { type: "text/plain" }), "a.txt");'
+    );
+    expect(generateCode(multipartPost, 'undici').code).toContain('import { FormData, request } from "undici";');
+    expect(generateCode(multipartPost, 'okhttp').code).toContain('.addFormDataPart("title", "Hello")');
+    // The rebuilt form gets its own boundary, so the captured Content-Type must not be sent
+    for (const target of ['python-requests', 'python-httpx', 'fetch', 'undici', 'okhttp'] as const) {
+      expect(generateCode(multipartPost, target).code, target).not.toContain('boundary=XyZ');
+    }
+    expect(generateCode(multipartPost, 'curl').notes).toContain('The multipart body is sent verbatim with its original boundary.');
+  });
+
+  it('notes a body that was not captured', () => {
+    const entry = makeEntry({ request: { method: 'POST', bodySize: 10 } });
+    expect(generateCode(entry, 'curl').notes).toEqual(['The request body was not captured, so the snippet sends none.']);
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { CookieJarBuilder } from '../../src/core/cookie-jar.js';
+import { makeEntry } from '../helpers.js';
+
+let clock = 0;
+
+function exchange(id: string, url: string, cookie?: string, setCookies: string[] = []) {
+  const timestampMs = Date.UTC(2026, 0, 1, 0, 0, clock++);
+  return makeEntry({
+    id,
+    timestamp: new Date(timestampMs).toISOString(),
+    timestampMs,
+    request: { url, headers: cookie ? [{ name: 'Cookie', value: cookie }] : [] },
+    response: { headers: setCookies.map(value => ({ name: 'Set-Cookie', value })) },
+  });
+}
+
+function buildJar(...entries: ReturnType<typeof exchange>[]) {
+  const builder = new CookieJarBuilder({ maxEntryIds: 2 });
+  entries.forEach(entry => builder.add(entry));
+  return builder.build();
+}
+
+describe('CookieJarBuilder', () => {
+  it('tracks who set each cookie and which requests sent it', () => {
+    const login = exchange('login', 'https://api.example.com/login', undefined, [
+      'sid=one; Domain=.example.com; Path=/; HttpOnly',
+    ]);
+    const first = exchange('a', 'https://www.example.com/a', 'sid=one');
+    const second = exchange('b', 'https://api.example.com/b', 'sid=one');
+    const last = exchange('c', 'https://api.example.com/c', 'sid=stale');
+    const [sid] = buildJar(login, first, second, last);
+
+    expect(sid).toMatchObject({
+      name: 'sid',
+      domain: 'example.com',
+      hostOnly: false,
+      path: '/',
+      value: 'one',
+      httpOnly: true,
+      deleted: false,
+      valueMismatches: 1,
+    });
+    expect(sid.setBy.map(set => set.entryId)).toEqual(['login']);
+    // Only the last maxEntryIds requests are kept
+    expect(sid.sentIn).toEqual({
+      count: 3,
+      firstSeen: first.timestamp,
+      lastSeen: last.timestamp,
+      entryIds: ['b', 'c'],
+    });
+  });
+
+  it('keeps host-only cookies to their host and defaults the path', () => {
+    const jar = buildJar(
+      exchange('set', 'https://api.example.com/v1/users/me', undefined, ['pref=dark']),
+      exchange('other-host', 'https://www.example.com/v1/x', 'pref=dark'),
+    );
+
+    expect(jar.map(cookie => [cookie.domain, cookie.hostOnly, cookie.path, cookie.setBy.length])).toEqual([
+      ['api.example.com', true, '/v1/users', 1],
+      // The other host had the cookie before the capture
+      ['www.example.com', true, '/', 0],
+    ]);
+  });
+
+  it('attributes a sent cookie to the most specific path', () => {
+    const jar = buildJar(
+      exchange('root', 'https://example.com/', undefined, ['t=root; Path=/']),
+      exchange('api', 'https://example.com/api/login', undefined, ['t=api; Path=/api']),
+      exchange('call', 'https://example.com/api/items', 't=api'),
+      exchange('apiary', 'https://example.com/apiary', 't=root'),
+    );
+
+    expect(jar.map(cookie => [cookie.path, cookie.sentIn.entryIds, cookie.valueMismatches])).toEqual([
+      ['/', ['apiary'], 0],
+      ['/api', ['call'], 0],
+    ]);
+  });
+
+  it('marks cookies the server expired as deleted', () => {
+    const [cookie] = buildJar(
+      exchange('set', 'https://example.com/', undefined, ['sid=1; Max-Age=3600']),
+      exchange('logout', 'https://example.com/logout', 'sid=1', ['sid=; Max-Age=0']),
+    );
+
+    expect(cookie).toMatchObject({ value: '', deleted: true });
+    expect(cookie.setBy.map(set => [set.entryId, set.deleted])).toEqual([['set', false], ['logout', true]]);
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, expect, it } from 'vitest';
+import { diffEntries } from '../../src/core/entry-diff.js';
+import { makeEntry } from '../helpers.js';
+
+const json = (value: unknown) => ({ body: JSON.stringify(value), bodyEncoding: 'text' as const });
+
+const left = makeEntry({
+  id: 'left',
+  request: {
+    url: 'https://api.example.com/items?page=1&ts=100',
+    queryString: [{ name: 'page', value: '1' }, { name: 'ts', value: '100' }],
+    headers: [{ name: 'Host', value: 'api.example.com' }, { name: 'X-Request-Id', value: 'a' }],
+  },
+  response: {
+    headers: [{ name: 'Date', value: 'Thu, 01 Jan 2026 00:00:00 GMT' }, { name: 'Cache-Control', value: 'no-store' }],
+    ...json({ items: [{ id: 1, name: 'one', updatedAt: '2026-01-01' }], requestNonce: 'x' }),
+  },
+});
+
+const right = makeEntry({
+  id: 'right',
+  request: {
+    url: 'https://api.example.com/items?page=2&ts=200',
+    queryString: [{ name: 'page', value: '2' }, { name: 'ts', value: '200' }],
+    headers: [{ name: 'host', value: 'api.example.com' }, { name: 'X-Request-Id', value: 'b' }],
+  },
+  response: {
+    headers: [{ name: 'Date', value: 'Thu, 01 Jan 2026 00:00:05 GMT' }, { name: 'Cache-Control', value: 'no-store' }],
+    ...json({ items: [{ id: 1, name: 'uno', updatedAt: '2026-01-02' }, { id: 2 }], requestNonce: 'y' }),
+  },
+});
+
+describe('diffEntries', () => {
+  it('reports every difference by default', () => {
+    const diff = diffEntries(left, right);
+
+    expect(diff.identical).toBe(false);
+    expect(diff.url).toBeUndefined();
+    expect(diff.query).toEqual([
+      { path: 'page', change: 'changed', left: '1', right: '2' },
+      { path: 'ts', change: 'changed', left: '100', right: '200' },
+    ]);
+    // Header names compare case-insensitively
+    expect(diff.requestHeaders).toEqual([{ path: 'x-request-id', change: 'changed', left: 'a', right: 'b' }]);
+    expect(diff.responseHeaders.map(c => c.path)).toEqual(['date']);
+    expect(diff.responseBody).toMatchObject({ identical: false, mode: 'json' });
+    expect(diff.responseBody.changes).toEqual([
+      { path: '/items/0/name', change: 'changed', left: 'one', right: 'uno' },
+      { path: '/items/0/updatedAt', change: 'changed', left: '2026-01-01', right: '2026-01-02' },
+      { path: '/items/1', change: 'added', right: { id: 2 } },
+      { path: '/requestNonce', change: 'changed', left: 'x', right: 'y' },
+    ]);
+    expect(diff.ignored).toBe(0);
+  });
+
+  it('skips volatile headers, parameters and JSON keys with ignoreVolatile', () => {
+    const diff = diffEntries(left, right, { ignoreVolatile: true });
+
+    expect(diff.query.map(c => c.path)).toEqual(['page']);
+    expect(diff.requestHeaders).toEqual([]);
+    expect(diff.responseHeaders).toEqual([]);
+    expect(diff.responseBody.changes?.map(c => c.path)).toEqual(['/items/0/name', '/items/1']);
+    expect(diff.ignored).toBe(5);
+  });
+
+  it('skips names and JSON pointers given as ignore rules', () => {
+    const diff = diffEntries(left, right, { ignore: ['PAGE', 'x-*', '/items/*/name', '/items/1'] });
+
+    expect(diff.query.map(c => c.path)).toEqual(['ts']);
+    expect(diff.requestHeaders).toEqual([]);
+    expect(diff.responseBody.changes?.map(c => c.path)).toEqual(['/items/0/updatedAt', '/requestNonce']);
+  });
+
+  it('is identical once every difference is ignored', () => {
+    const same = makeEntry({ id: 'same', timestamp: '2026-01-02T00:00:00.000Z' });
+    const diff = diffEntries(makeEntry(), same);
+    expect(diff.identical).toBe(true);
+    expect(diff.left.id).toBe('entry-1');
+    expect(diff.right.timestamp).toBe('2026-01-02T00:00:00.000Z');
+    expect(diff.requestBody).toEqual({ identical: true, mode: 'empty', leftSize: 0, rightSize: 0 });
+  });
+
+  it('reports method, path and status changes', () => {
+    const diff = diffEntries(makeEntry(), makeEntry({
+      request: { method: 'POST', url: 'https://api.example.com/orders?page=1' },
+      response: { status: 201, statusText: 'Created' },
+    }));
+    expect(diff.method).toEqual({ left: 'GET', right: 'POST' });
+    expect(diff.url).toEqual({ left: 'https://api.example.com/items', right: 'https://api.example.com/orders' });
+    expect(diff.status).toEqual({ left: '200 OK', right: '201 Created' });
+  });
+
+  it('diffs text bodies line by line', () => {
+    const text = (body: string) => makeEntry({ response: { body, bodyEncoding: 'text' } });
+    const lines = Array.from({ length: 10 }, (_, i) => `line ${i + 1}`);
+    const changed = [...lines];
+    changed[4] = 'line five';
+
+    const diff = diffEntries(text(lines.join('\n')), text(changed.join('\n')), { contextLines: 1 });
+    expect(diff.responseBody).toMatchObject({ identical: false, mode: 'text' });
+    expect(diff.responseBody.unified).toEqual(['@@ -4,3 +4,3 @@', ' line 4', '-line 5', '+line five', ' line 6']);
+  });
+
+  it('compares binary bodies by hash', () => {
+    const binary = (bytes: number[]) =>
+      makeEntry({ response: { body: Buffer.from(bytes).toString('base64'), bodyEncoding: 'base64' } });
+
+    expect(diffEntries(binary([0, 1, 2]), binary([0, 1, 2])).responseBody).toMatchObject({
+      identical: true,
+      mode: 'binary',
+      leftSize: 3,
+    });
+    const diff = diffEntries(binary([0, 1, 2]), binary([0xff]));
+    expect(diff.responseBody).toMatchObject({ identical: false, mode: 'binary', leftSize: 3, rightSize: 1 });
+    expect(diff.responseBody.leftSha256).not.toBe(diff.responseBody.rightSha256);
+  });
+
+  it('caps the number of changes', () => {
+    const many = (offset: number) =>
+      makeEntry({ response: json(Object.fromEntries(Array.from({ length: 5 }, (_, i) => [`k${i}`, i + offset]))) });
+
+    const diff = diffEntries(many(0), many(1), { maxChanges: 2 });
+    expect(diff.responseBody.changes).toHaveLength(2);
+    expect(diff.responseBody.truncated).toBe(true);
+  });
+});
@@ -0,0 +1,179 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+  compileBodyFilterExpression,
+  compileFilterExpression,
+  parseFilter,
+} from '../../src/core/filter-expression.js';
+import { MitmError, ErrorCode } from '../../src/types/errors.js';
+import { makeEntry } from '../helpers.js';
+
+const login = makeEntry({
+  id: 'login',
+  request: {
+    method: 'POST',
+    url: 'https://auth.example.com/login',
+    host: 'auth.example.com',
+    path: '/login',
+    headers: [{ name: 'Content-Type', value: 'application/json' }],
+    body: '{"user":"alice"}',
+    bodySize: 16,
+  },
+  response: {
+    status: 401,
+    headers: [{ name: 'WWW-Authenticate', value: 'Bearer' }],
+    contentType: 'application/json',
+    body: '{"error":"bad password"}',
+    bodySize: 24,
+  },
+});
+const script = makeEntry({
+  id: 'script',
+  request: { url: 'https://cdn.example.com/app.js', host: 'cdn.example.com', path: '/app.js' },
+  response: { contentType: 'application/javascript' },
+});
+const pending = makeEntry({ id: 'pending', response: { status: 0 } });
+const entries = [login, script, pending];
+
+function matching(expression: string): string[] {
+  const predicate = compileFilterExpression(expression);
+  return entries.filter(predicate).map(entry => entry.id);
+}
+
+function parseError(expression: string): MitmError {
+  try {
+    parseFilter(expression);
+  } catch (error) {
+    return error as MitmError;
+  }
+  throw new Error(`Expected '${expression}' to be rejected`);
+}
+
+describe('parseFilter', () => {
+  it('gives & precedence over | and ANDs adjacent expressions', () => {
+    expect(parseFilter('~m POST | ~d cdn & ~s')).toEqual({
+      type: 'or',
+      children: [
+        { type: 'filter', code: 'm', value: 'POST' },
+        {
+          type: 'and',
+          children: [
+            { type: 'filter', code: 'd', value: 'cdn' },
+            { type: 'filter', code: 's' },
+          ],
+        },
+      ],
+    });
+    expect(parseFilter('~m POST ~s')).toEqual({
+      type: 'and',
+      children: [
+        { type: 'filter', code: 'm', value: 'POST' },
+        { type: 'filter', code: 's' },
+      ],
+    });
+  });
+
+  it('parses negation, grouping, quoted values and bare URL regexes', () => {
+    expect(parseFilter('!(~c 200 | ~c 204)')).toEqual({
+      type: 'not',
+      child: {
+        type: 'or',
+        children: [
+          { type: 'filter', code: 'c', value: '200' },
+          { type: 'filter', code: 'c', value: '204' },
+        ],
+      },
+    });
+    expect(parseFilter(`~h "x-api key: \\"a b\\""`)).toEqual({ type: 'filter', code: 'h', value: 'x-api key: "a b"' });
+    expect(parseFilter('example\\.com/login')).toEqual({ type: 'filter', code: 'u', value: 'example\\.com/login' });
+  });
+
+  it('reports syntax errors with their position', () => {
+    const cases: Array<[string, RegExp, number | undefined]> = [
+      ['', /expression is empty/, undefined],
+      ['~zz foo', /unknown filter '~zz'/, 0],
+      ['~d', /'~d' requires an argument/, 0],
+      ['~c abc', /requires an integer/, 3],
+      ['(~s', /missing '\)'/, 0],
+      ['~s )', /unexpected '\)'/, 3],
+      ['~h "open', /unterminated quoted string/, 3],
+      ['~s &', /unexpected end of expression/, 4],
+    ];
+    for (const [expression, message, position] of cases) {
+      const error = parseError(expression);
+      expect(error).toBeInstanceOf(MitmError);
+      expect(error.code).toBe(ErrorCode.INVALID_ARGUMENT);
+      expect(error.message).toMatch(message);
+      expect(error.details?.position).toBe(position);
+    }
+  });
+});
+
+describe('compileFilterExpression', () => {
+  it('matches request and response fields case-insensitively', () => {
+    expect(matching('~m post')).toEqual(['login']);
+    expect(matching('~d ^cdn\\.')).toEqual(['script']);
+    expect(matching('~c 401')).toEqual(['login']);
+    expect(matching('~hq content-type:\\s*application/json')).toEqual(['login']);
+    expect(matching('~hs www-authenticate')).toEqual(['login']);
+    expect(matching('~bq alice')).toEqual(['login']);
+    expect(matching('~bs "bad password"')).toEqual(['login']);
+    expect(matching('~b alice|password')).toEqual(['login']);
+    expect(matching('~ts javascript')).toEqual(['script']);
+    expect(matching('app\\.js$')).toEqual(['script']);
+  });
+
+  it('distinguishes flows with and without a response', () => {
+    expect(matching('~q')).toEqual(['pending']);
+    expect(matching('~s')).toEqual(['login', 'script']);
+    expect(matching('~a')).toEqual(['script']);
+    expect(matching('~all')).toEqual(['login', 'script', 'pending']);
+  });
+
+  it('combines filters with !, & and |', () => {
+    expect(matching('!~c 401 & ~s')).toEqual(['script']);
+    expect(matching('~d auth | ~q')).toEqual(['login', 'pending']);
+    expect(matching('~d example !(~d cdn)')).toEqual(['login', 'pending']);
+  });
+
+  it('matches binary bodies by their decoded bytes', () => {
+    const upload = makeEntry({
+      request: { body: Buffer.from([0xff, ...Buffer.from('MAGIC')]).toString('base64'), bodyEncoding: 'base64' },
+    });
+    expect(upload.request.body).toBe('/01BR0lD');
+
+    expect(compileFilterExpression('~bq MAGIC')(upload)).toBe(true);
+    expect(compileFilterExpression('~bq \\xffMAGIC')(upload)).toBe(true);
+    expect(compileFilterExpression('~bq BR0l')(upload)).toBe(false);
+  });
+
+  it('rejects invalid regexes', () => {
+    expect(() => compileFilterExpression('~u "("')).toThrow(/bad regex for '~u'/);
+  });
+});
+
+describe('compileBodyFilterExpression', () => {
+  const blob = makeEntry({
+    id: 'blob',
+    response: { bodySha256: 'ab'.repeat(32), bodySize: 1 << 20, bodyEncoding: 'text' },
+  });
+
+  it('hands blob bodies to testBlob and inline bodies to the regex', async () => {
+    const testBlob = vi.fn(async () => true);
+    const predicate = compileBodyFilterExpression('~b token', testBlob);
+
+    expect(await predicate(blob)).toBe(true);
+    expect(testBlob).toHaveBeenCalledWith(blob, 'response', expect.any(RegExp));
+    expect(await predicate(login)).toBe(false);
+    expect(testBlob).toHaveBeenCalledTimes(1);
+  });
+
+  it('only reads a blob when the rest of the expression leaves the entry undecided', async () => {
+    const testBlob = vi.fn(async () => false);
+
+    expect(await compileBodyFilterExpression('~d cdn & ~bs token', testBlob)(blob)).toBe(false);
+    expect(await compileBodyFilterExpression('~d api | ~bs token', testBlob)(blob)).toBe(true);
+    expect(testBlob).not.toHaveBeenCalled();
+    expect(await compileBodyFilterExpression('!(~d cdn | ~bs token)', testBlob)(blob)).toBe(true);
+    expect(testBlob).toHaveBeenCalledTimes(1);
+  });
+});
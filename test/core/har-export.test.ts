@@ -0,0 +1,103 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { HarWriter, toHarLogEntry } from '../../src/core/har-export.js';
+import { makeEntry } from '../helpers.js';
+
+const redirect = makeEntry({
+  id: 'redirect',
+  timestampMs: Date.UTC(2026, 0, 1, 0, 0, 1),
+  request: { headers: [{ name: 'Cookie', value: 'sid=abc' }] },
+  response: {
+    status: 302,
+    statusText: 'Found',
+    headers: [
+      { name: 'Location', value: '/login' },
+      { name: 'Set-Cookie', value: 'sid=def; Max-Age=99999999999999' },
+    ],
+  },
+  timings: { blocked: 1, dns: 2, connect: 3, ssl: 4, send: 5, wait: 6, receive: -1 },
+});
+
+const image = makeEntry({
+  id: 'image',
+  response: {
+    contentType: 'image/png',
+    body: Buffer.from([0x89, 0x50, 0x4e, 0x47]).toString('base64'),
+    bodyEncoding: 'base64',
+    bodySize: 4,
+  },
+});
+
+describe('toHarLogEntry', () => {
+  it('folds the TLS handshake into connect and starts the entry at the request', () => {
+    const har = toHarLogEntry(redirect, { includeBodies: true });
+
+    expect(har.timings).toEqual({ blocked: 1, dns: 2, connect: 7, ssl: 4, send: 5, wait: 6, receive: 0 });
+    expect(har.time).toBe(21);
+    expect(har.startedDateTime).toBe(new Date(redirect.timestampMs - 21).toISOString());
+  });
+
+  it('fills in cookies and the redirect URL from the headers', () => {
+    const har = toHarLogEntry(redirect, { includeBodies: true });
+
+    expect(har.request.cookies).toEqual([{ name: 'sid', value: 'abc' }]);
+    expect(har.response.cookies).toEqual([{ name: 'sid', value: 'def', expires: '9999-12-31T23:59:59.999Z' }]);
+    expect(har.response.redirectURL).toBe('/login');
+    expect(har._id).toBe('redirect');
+  });
+
+  it('marks binary bodies as base64 and leaves bodies out on request', () => {
+    expect(toHarLogEntry(image, { includeBodies: true }).response.content).toEqual({
+      size: 4,
+      mimeType: 'image/png',
+      text: image.response.body,
+      encoding: 'base64',
+    });
+    expect(toHarLogEntry(image, { includeBodies: false }).response.content).toEqual({ size: 4, mimeType: 'image/png' });
+  });
+});
+
+describe('HarWriter', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'har-export-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const options = { creator: { name: 'test', version: '1' }, pageTitle: 'Session', includeBodies: true };
+
+  it('writes a HAR 1.2 log with every entry on one page', () => {
+    const outputPath = path.join(dir, 'out.har');
+    const writer = new HarWriter(outputPath, options);
+    writer.open();
+    writer.write(redirect);
+    writer.write(image);
+    expect(writer.close()).toBe(2);
+
+    const { log } = JSON.parse(fs.readFileSync(outputPath, 'utf-8'));
+    expect(log.version).toBe('1.2');
+    expect(log.creator).toEqual(options.creator);
+    expect(log.entries.map((e: { _id: string; pageref: string }) => [e._id, e.pageref])).toEqual([
+      ['redirect', 'page_1'],
+      ['image', 'page_1'],
+    ]);
+    expect(log.pages).toEqual([
+      { startedDateTime: log.entries[0].startedDateTime, id: 'page_1', title: 'Session', pageTimings: {} },
+    ]);
+  });
+
+  it('writes an empty log without pages', () => {
+    const outputPath = path.join(dir, 'empty.har');
+    const writer = new HarWriter(outputPath, options);
+    writer.open();
+    expect(writer.close()).toBe(0);
+
+    expect(JSON.parse(fs.readFileSync(outputPath, 'utf-8')).log).toMatchObject({ entries: [], pages: [] });
+  });
+});
@@ -0,0 +1,19 @@
+import { describe, expect, it } from 'vitest';
+import { inferScalarSchema, inferSchema, mergeSchemas } from '../../src/core/json-schema.js';
+
+describe('json-schema', () => {
+  it('infers string formats and scalar types from text', () => {
+    expect(inferSchema({ at: '2026-01-01T00:00:00Z', tags: ['a'] })).toEqual({
+      type: 'object',
+      properties: { at: { type: 'string', format: 'date-time' }, tags: { type: 'array', items: { type: 'string' } } },
+      required: ['at', 'tags'],
+    });
+    expect(inferScalarSchema('42')).toEqual({ type: 'integer' });
+    expect(inferScalarSchema('true')).toEqual({ type: 'boolean' });
+  });
+
+  it('merges differing types into a union', () => {
+    expect(mergeSchemas(inferSchema(1), inferSchema('x'))).toEqual({ type: ['integer', 'string'] });
+    expect(mergeSchemas(inferSchema(1), inferSchema(1.5))).toEqual({ type: 'number' });
+  });
+});
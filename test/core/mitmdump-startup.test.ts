@@ -0,0 +1,111 @@
+import * as fs from 'fs';
+import * as net from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+  getMitmdumpVersion,
+  MITMDUMP_READY_MARKER,
+  OutputTail,
+  ReadinessOptions,
+  waitForMitmdump,
+} from '../../src/core/mitmdump-startup.js';
+
+describe('getMitmdumpVersion', () => {
+  let dir: string;
+
+  // A stand-in for the mitmdump binary
+  function fakeMitmdump(script: string): string {
+    const filePath = path.join(dir, 'mitmdump');
+    fs.writeFileSync(filePath, `#!/bin/sh\n${script}\n`, { mode: 0o755 });
+    return filePath;
+  }
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'mitmdump-startup-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('reads the mitmproxy version', async () => {
+    const mitmdump = fakeMitmdump('echo "Mitmproxy: 11.0.2"; echo "Python:    3.12.1"');
+    expect(await getMitmdumpVersion(mitmdump)).toBe('11.0.2');
+  });
+
+  it('reports a missing binary', async () => {
+    await expect(getMitmdumpVersion(path.join(dir, 'missing'))).rejects.toMatchObject({
+      code: 'MITMDUMP_NOT_FOUND',
+    });
+  });
+
+  it('reports the output of a failing binary', async () => {
+    const mitmdump = fakeMitmdump(
+      'echo "Traceback (most recent call last):" >&2; echo "ImportError: mitmproxy" >&2; exit 1'
+    );
+    await expect(getMitmdumpVersion(mitmdump)).rejects.toMatchObject({
+      code: 'MITMDUMP_START_FAILED',
+      details: { output: ['Traceback (most recent call last):', 'ImportError: mitmproxy'] },
+    });
+  });
+});
+
+describe('OutputTail', () => {
+  it('keeps the last non-empty lines within its size', () => {
+    const tail = new OutputTail(20);
+    tail.push('first line\n\nsecond line\n');
+    tail.push('third\r\n');
+
+    expect(tail.lines(2)).toEqual(['second line', 'third']);
+    expect(tail.includes('first')).toBe(false);
+  });
+});
+
+describe('waitForMitmdump', () => {
+  let server: net.Server | undefined;
+
+  function options(overrides: Partial<ReadinessOptions> = {}): ReadinessOptions {
+    return {
+      listenHost: '127.0.0.1',
+      port: 1,
+      timeoutMs: 1000,
+      output: new OutputTail(),
+      exitStatus: () => null,
+      ...overrides,
+    };
+  }
+
+  afterEach(async () => {
+    await new Promise(resolve => (server ? server.close(resolve) : resolve(undefined)));
+    server = undefined;
+  });
+
+  it('is ready once the addon logs its marker', async () => {
+    const output = new OutputTail();
+    output.push(`[12:00:00] ${MITMDUMP_READY_MARKER} on port 8080\n`);
+    expect(await waitForMitmdump(options({ output }))).toBe('addon');
+  });
+
+  it('is ready once the listen port accepts connections', async () => {
+    server = net.createServer(socket => socket.destroy());
+    await new Promise<void>(resolve => server!.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as net.AddressInfo;
+
+    expect(await waitForMitmdump(options({ listenHost: '0.0.0.0', port }))).toBe('port');
+  });
+
+  it('fails when the process exits during startup', async () => {
+    await expect(waitForMitmdump(options({ exitStatus: () => ({ code: 2, signal: null }) }))).rejects.toMatchObject({
+      code: 'MITMDUMP_START_FAILED',
+      details: { exitCode: 2, signal: null },
+    });
+  });
+
+  it('times out when nothing listens', async () => {
+    await expect(waitForMitmdump(options({ timeoutMs: 0 }))).rejects.toMatchObject({
+      code: 'TIMEOUT',
+      details: { timeoutMs: 0 },
+    });
+  });
+});
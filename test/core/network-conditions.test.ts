@@ -0,0 +1,64 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { readConditionsFile, validateConditions, writeConditionsFile } from '../../src/core/network-conditions.js';
+import { NetworkCondition, NetworkConditionSchema } from '../../src/types/schemas.js';
+
+const condition = (input: Record<string, unknown>): NetworkCondition =>
+  NetworkConditionSchema.parse({ id: 'slow', ...input });
+
+describe('validateConditions', () => {
+  it('accepts latency, bandwidth and failure conditions', () => {
+    expect(() => validateConditions([
+      condition({ match: { host: 'api.example.com' }, latencyMs: 500, jitterMs: 100 }),
+      condition({ id: 'flaky', failure: { percent: 10, mode: 'status' } }),
+      condition({ id: 'narrow', downloadKbps: 64 }),
+    ])).not.toThrow();
+  });
+
+  it.each([
+    ['a duplicate ID', [condition({ latencyMs: 1 }), condition({ latencyMs: 2 })], /duplicate condition ID/],
+    ['a condition without effect', [condition({ match: { host: 'example.com' } })], /no effect/],
+    ['an invalid filter', [condition({ latencyMs: 1, match: { filter: '~m' } })], /Condition slow/],
+  ])('rejects %s', (_name, conditions, message) => {
+    expect(() => validateConditions(conditions)).toThrow(
+      expect.objectContaining({
+        code: 'INVALID_ARGUMENT',
+        message: expect.stringMatching(message),
+        details: { conditionId: 'slow' },
+      })
+    );
+  });
+
+  it('fills in failure defaults', () => {
+    expect(condition({ failure: { percent: 50, mode: 'timeout' } }).failure).toEqual({
+      percent: 50,
+      mode: 'timeout',
+      status: 503,
+      hangMs: 60000,
+    });
+  });
+});
+
+describe('conditions file', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'network-conditions-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('writes the file the addon reads and reads it back', async () => {
+    const filePath = path.join(dir, 'conditions.json');
+    expect(await readConditionsFile(filePath)).toEqual([]);
+
+    const conditions = [condition({ latencyMs: 250 })];
+    await writeConditionsFile(filePath, conditions);
+    expect(JSON.parse(fs.readFileSync(filePath, 'utf-8'))).toMatchObject({ version: 1, conditions });
+    expect(await readConditionsFile(filePath)).toEqual(conditions);
+  });
+});
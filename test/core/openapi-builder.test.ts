@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { OpenApiBuilder } from '../../src/core/openapi-builder.js';
+import { makeEntry } from '../helpers.js';
+
+const INFO = { title: 'Captured API', version: '1.0.0' };
+
+function getUser(id: string, body: unknown, query = '') {
+  return makeEntry({
+    request: {
+      url: `https://api.example.com/users/${id}/orders/9f86d081884c7d65${query}`,
+      headers: [
+        { name: 'Host', value: 'api.example.com' },
+        { name: 'Authorization', value: 'Bearer abc' },
+        { name: 'X-Request-Id', value: '7' },
+      ],
+    },
+    response: {
+      contentType: 'application/json',
+      body: JSON.stringify(body),
+      bodyEncoding: 'text',
+    },
+  });
+}
+
+describe('OpenApiBuilder', () => {
+  it('templates ID segments into named path parameters', () => {
+    const builder = new OpenApiBuilder();
+    builder.add(getUser('42', { id: 42 }));
+    builder.add(getUser('43', { id: 43 }));
+
+    const document = builder.build(INFO) as { paths: Record<string, Record<string, any>> };
+    expect(Object.keys(document.paths)).toEqual(['/users/{userId}/orders/{orderId}']);
+
+    const operation = document.paths['/users/{userId}/orders/{orderId}'].get;
+    expect(operation.operationId).toBe('getUsersByUserIdOrdersByOrderId');
+    expect(operation.parameters).toEqual([
+      { name: 'userId', in: 'path', required: true, schema: { type: 'integer' }, example: '42' },
+      { name: 'orderId', in: 'path', required: true, schema: { type: 'string' }, example: '9f86d081884c7d65' },
+      { name: 'X-Request-Id', in: 'header', required: true, schema: { type: 'integer' }, example: '7' },
+    ]);
+  });
+
+  it('numbers repeated placeholders without a usable name', () => {
+    const builder = new OpenApiBuilder();
+    builder.add(makeEntry({ request: { url: 'https://api.example.com/1/2' } }));
+
+    const document = builder.build(INFO) as { paths: Record<string, unknown> };
+    expect(Object.keys(document.paths)).toEqual(['/{id}/{id2}']);
+  });
+
+  it('marks query parameters missing from some calls as optional', () => {
+    const builder = new OpenApiBuilder();
+    builder.add(getUser('1', {}, '?expand=items'));
+    builder.add(getUser('2', {}));
+
+    const document = builder.build(INFO) as { paths: Record<string, Record<string, any>> };
+    const [operation] = Object.values(document.paths).map(item => item.get);
+    expect(operation.parameters).toContainEqual(
+      { name: 'expand', in: 'query', required: false, schema: { type: 'string' }, example: 'items' }
+    );
+  });
+
+  it('infers response schemas, security schemes and servers', () => {
+    const builder = new OpenApiBuilder();
+    builder.add(getUser('1', { id: 1, email: 'a@example.com' }));
+    builder.add(getUser('2', { id: 2 }));
+
+    const document = builder.build(INFO) as Record<string, any>;
+    expect(document.servers).toEqual([{ url: 'https://api.example.com' }]);
+    expect(document.components.securitySchemes).toEqual({ bearerAuth: { type: 'http', scheme: 'bearer' } });
+
+    const operation = document.paths['/users/{userId}/orders/{orderId}'].get;
+    expect(operation.security).toEqual([{ bearerAuth: [] }]);
+    expect(operation.responses['200'].content['application/json']).toEqual({
+      schema: {
+        type: 'object',
+        properties: { id: { type: 'integer' }, email: { type: 'string', format: 'email' } },
+        required: ['id'],
+      },
+      example: { id: 1, email: 'a@example.com' },
+    });
+    expect(builder.summary()).toEqual({
+      entriesUsed: 2,
+      hosts: ['https://api.example.com'],
+      paths: 1,
+      operations: 1,
+      securitySchemes: ['bearerAuth'],
+    });
+  });
+});
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { isIdSegment, toPathTemplate } from '../../src/core/path-template.js';
+
+describe('isIdSegment', () => {
+  it('recognises numeric, UUID, hex and opaque token segments', () => {
+    expect(isIdSegment('42')).toBe(true);
+    expect(isIdSegment('3f2504e0-4f89-11d3-9a0c-0305e82c3301')).toBe(true);
+    expect(isIdSegment('9f86d081884c7d65')).toBe(true);
+    expect(isIdSegment('aZ3kq9Lm2Px7Rt5Vb8Nc1Yd4')).toBe(true);
+  });
+
+  it('keeps route names', () => {
+    expect(isIdSegment('users')).toBe(false);
+    expect(isIdSegment('v1')).toBe(false);
+    expect(isIdSegment('deadbeef')).toBe(false);
+    expect(isIdSegment('a-long-route-name-without-digits')).toBe(false);
+  });
+
+  it('decodes percent-encoded segments', () => {
+    expect(isIdSegment('%34%32')).toBe(true);
+    expect(isIdSegment('%E0%A4%A')).toBe(false);
+  });
+});
+
+describe('toPathTemplate', () => {
+  it('collapses ID segments and drops the query string', () => {
+    expect(toPathTemplate('/v1/users/42/orders/9f86d081884c7d65?expand=items')).toBe('/v1/users/{id}/orders/{id}');
+  });
+
+  it('keeps the root and trailing slashes', () => {
+    expect(toPathTemplate('?q=1')).toBe('/');
+    expect(toPathTemplate('/users/7/')).toBe('/users/{id}/');
+  });
+});
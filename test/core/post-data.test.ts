@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { buildPostData, hasFormBody } from '../../src/core/post-data.js';
+import { JsonlEntry } from '../../src/types/traffic.js';
+import { makeEntry } from '../helpers.js';
+
+function post(contentType: string, body: Buffer | string, overrides: Partial<JsonlEntry['request']> = {}) {
+  const data = Buffer.isBuffer(body) ? body : Buffer.from(body, 'utf-8');
+  const text = data.toString('utf-8');
+  const binary = !Buffer.from(text, 'utf-8').equals(data);
+  return makeEntry({
+    request: {
+      method: 'POST',
+      headers: [{ name: 'Content-Type', value: contentType }],
+      body: binary ? data.toString('base64') : text,
+      bodyEncoding: binary ? 'base64' : 'text',
+      bodySize: data.length,
+      ...overrides,
+    },
+  }).request;
+}
+
+const both = { text: true, params: true };
+
+describe('hasFormBody', () => {
+  it('recognizes URL-encoded and multipart bodies', () => {
+    expect(hasFormBody(post('application/x-www-form-urlencoded; charset=UTF-8', 'a=1'))).toBe(true);
+    expect(hasFormBody(post('multipart/form-data; boundary=xyz', ''))).toBe(true);
+    expect(hasFormBody(post('multipart/form-data', ''))).toBe(false);
+    expect(hasFormBody(post('application/json', '{}'))).toBe(false);
+  });
+});
+
+describe('buildPostData', () => {
+  it('parses URL-encoded forms into params', () => {
+    expect(buildPostData(post('application/x-www-form-urlencoded', 'q=caf%C3%A9+au+lait&tag=a&tag=b'), both)).toEqual({
+      mimeType: 'application/x-www-form-urlencoded',
+      text: 'q=caf%C3%A9+au+lait&tag=a&tag=b',
+      params: [
+        { name: 'q', value: 'café au lait' },
+        { name: 'tag', value: 'a' },
+        { name: 'tag', value: 'b' },
+      ],
+    });
+  });
+
+  it('lists multipart fields and files without the file content', () => {
+    const body = Buffer.concat([
+      Buffer.from('--xyz\r\nContent-Disposition: form-data; name="title"\r\n\r\nHoliday\r\n'),
+      Buffer.from('--xyz\r\nContent-Disposition: form-data; name="photo"; filename="a.png"\r\n'),
+      Buffer.from('Content-Type: image/png\r\n\r\n'),
+      Buffer.from([0x89, 0x50, 0x4e, 0x47, 0xff]),
+      Buffer.from('\r\n--xyz\r\nContent-Disposition: form-data; name="raw"\r\n\r\n'),
+      Buffer.from([0xff, 0xfe]),
+      Buffer.from('\r\n--xyz--\r\n'),
+    ]);
+
+    expect(buildPostData(post('multipart/form-data; boundary=xyz', body), { text: false, params: true })).toEqual({
+      mimeType: 'multipart/form-data; boundary=xyz',
+      params: [
+        { name: 'title', value: 'Holiday', _size: 7 },
+        { name: 'photo', fileName: 'a.png', contentType: 'image/png', _size: 5 },
+        // A value that is not UTF-8 text is left out
+        { name: 'raw', _size: 2 },
+      ],
+    });
+  });
+
+  it('keeps binary bodies as base64 text', () => {
+    const postData = buildPostData(post('application/octet-stream', Buffer.from([0, 0xff])), both);
+    expect(postData).toEqual({ mimeType: 'application/octet-stream', text: 'AP8=', _encoding: 'base64' });
+  });
+
+  it('leaves out params of a malformed multipart body', () => {
+    const postData = buildPostData(post('multipart/form-data; boundary=xyz', 'not multipart'), both);
+    expect(postData).toEqual({ mimeType: 'multipart/form-data; boundary=xyz', text: 'not multipart' });
+  });
+
+  it('gives only the MIME type for a body kept in a blob', () => {
+    const request = post('application/json', '', { bodySize: 10, bodySha256: 'ab'.repeat(32) });
+    expect(buildPostData({ ...request, body: undefined }, both)).toEqual({ mimeType: 'application/json' });
+  });
+
+  it('returns undefined without a body', () => {
+    expect(buildPostData(makeEntry().request, both)).toBeUndefined();
+  });
+});
@@ -0,0 +1,218 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ProxyManager } from '../../src/core/proxy-manager.js';
+import { MITMDUMP_READY_MARKER } from '../../src/core/mitmdump-startup.js';
+import { Config } from '../../src/config.js';
+import { Logger } from '../../src/utils/logger.js';
+import { MitmError } from '../../src/types/errors.js';
+import { SessionState } from '../../src/types/session.js';
+import { TrafficStore } from '../../src/core/traffic-store.js';
+import { makeEntry } from '../helpers.js';
+
+const SESSION_ID = 'sniaff-test';
+
+describe('ProxyManager', () => {
+  let dir: string;
+  let manager: ProxyManager;
+
+  /**
+   * A stand-in for mitmdump that reports ready and then crashes on its first `crashes` runs,
+   * staying up after that.
+   */
+  function fakeMitmdump(crashes: number): string {
+    const filePath = path.join(dir, 'mitmdump');
+    fs.writeFileSync(filePath, [
+      '#!/bin/sh',
+      'if [ "$1" = "--version" ]; then echo "Mitmproxy: 11.0.2"; exit 0; fi',
+      `echo run >> ${path.join(dir, 'runs')}`,
+      `echo "${MITMDUMP_READY_MARKER}"`,
+      `if [ "$(wc -l < ${path.join(dir, 'runs')})" -le ${crashes} ]; then sleep 0.5; exit 3; fi`,
+      'exec sleep 30',
+      '',
+    ].join('\n'), { mode: 0o755 });
+    return filePath;
+  }
+
+  function createManager(crashes: number): ProxyManager {
+    const config: Config = {
+      sniaffDir: dir,
+      sessionsDir: path.join(dir, 'sessions'),
+      logsDir: path.join(dir, 'logs'),
+      mitmdumpPath: fakeMitmdump(crashes),
+      addonScriptPath: path.join(dir, 'har_capture.py'),
+      defaultProxyPort: 38080,
+      portRangeStart: 38080,
+      portRangeEnd: 38180,
+      startTimeout: 5000,
+      stopTimeout: 5000,
+      statePollInterval: 50,
+    };
+    return new ProxyManager({ config, logger: new Logger('test') });
+  }
+
+  function createSession(sessionId: string): void {
+    fs.mkdirSync(path.join(dir, 'sessions', sessionId), { recursive: true });
+    fs.writeFileSync(path.join(dir, 'sessions', sessionId, 'state.json'), JSON.stringify({
+      sessionId,
+      type: 'android',
+      status: 'active',
+      createdAt: new Date().toISOString(),
+    }));
+  }
+
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'proxy-manager-'));
+    createSession(SESSION_ID);
+  });
+
+  afterEach(async () => {
+    await manager.cleanup();
+    fs.rmSync(dir, { recursive: true, force: true });
+    vi.restoreAllMocks();
+  });
+
+  const readState = () =>
+    JSON.parse(fs.readFileSync(path.join(dir, 'sessions', SESSION_ID, 'state.json'), 'utf-8')) as SessionState;
+  const restarts = () => manager.getSession(SESSION_ID)!.restarts.map(r => [r.attempt, r.delayMs, r.outcome]);
+
+  describe('crash recovery', () => {
+    it('restarts a crashed mitmdump on the same port with growing delays', async () => {
+      manager = createManager(2);
+      const restartPolicy = { enabled: true, maxRetries: 3, initialDelayMs: 20, maxDelayMs: 30 };
+      const { proxyPort } = await manager.startProxy({ sessionId: SESSION_ID, restartPolicy });
+
+      await vi.waitFor(() => expect(restarts()).toEqual([[1, 20, 'restarted'], [2, 30, 'restarted']]), {
+        timeout: 5000,
+        interval: 50,
+      });
+      const session = manager.getSession(SESSION_ID)!;
+      expect(session).toMatchObject({ status: 'ready', proxyPort, pid: session.restarts[1].pid });
+      expect(session.restarts[0]).toMatchObject({ exitCode: 3, error: 'Process exited with code 3, signal null' });
+
+
+      // The restart is recorded before state.json is updated
+      await vi.waitFor(() => expect(readState().mitm).toMatchObject({ status: 'ready', pid: session.pid, proxyPort }));
+      expect(readState().mitm?.error).toBeUndefined();
+    });
+
+    it('gives up with MITMDUMP_CRASHED once the retries are used up', async () => {
+      manager = createManager(99);
+      const crashed = new Promise<MitmError>(resolve => manager.once('crashed', (_id, error) => resolve(error)));
+      await manager.startProxy({
+        sessionId: SESSION_ID,
+        restartPolicy: { enabled: true, maxRetries: 1, initialDelayMs: 20 },
+      });
+
+      expect(await crashed).toMatchObject({ code: 'MITMDUMP_CRASHED', details: { restartsTried: 1, exitCode: 3 } });
+      expect(restarts()).toEqual([[1, 20, 'restarted'], [0, 0, 'gave-up']]);
+      expect(manager.getSession(SESSION_ID)).toMatchObject({
+        status: 'error',
+        pid: null,
+        lastError: { code: 'MITMDUMP_CRASHED' },
+      });
+    });
+
+    it('does not restart unless the policy is enabled', async () => {
+      manager = createManager(99);
+      const crashed = new Promise<MitmError>(resolve => manager.once('crashed', (_id, error) => resolve(error)));
+      await manager.startProxy({ sessionId: SESSION_ID });
+
+      expect((await crashed).message).toBe('mitmdump crashed: Process exited with code 3, signal null');
+      expect(restarts()).toEqual([]);
+      expect(fs.readFileSync(path.join(dir, 'runs'), 'utf-8')).toBe('run\n');
+    });
+  });
+
+  describe('core session lifecycle', () => {
+    function setCoreStatus(status: string): void {
+      const statePath = path.join(dir, 'sessions', SESSION_ID, 'state.json');
+      fs.writeFileSync(statePath, JSON.stringify({ ...readState(), status }));
+    }
+
+    it('stops the proxy when the core session ends', async () => {
+      manager = createManager(0);
+      const { pid } = await manager.startProxy({ sessionId: SESSION_ID });
+      setCoreStatus('stopping');
+
+      await vi.waitFor(() => expect(manager.getSession(SESSION_ID)).toBeUndefined(), { timeout: 5000 });
+      expect(readState().mitm).toMatchObject({ status: 'stopped' });
+      expect(readState().mitm?.pid).toBeUndefined();
+      expect(() => process.kill(pid!, 0)).toThrow();
+    });
+
+    it('keeps the proxy running but flags the session when state.json disappears', async () => {
+      manager = createManager(0);
+      await manager.startProxy({ sessionId: SESSION_ID });
+      fs.rmSync(path.join(dir, 'sessions', SESSION_ID, 'state.json'));
+
+      await vi.waitFor(() => expect(manager.getSession(SESSION_ID)?.coreSessionStatus).toBe('missing'));
+      expect(manager.getSession(SESSION_ID)?.status).toBe('ready');
+    });
+  });
+
+  describe('traffic stores', () => {
+    const query = { limit: 10, offset: 0, includeBody: false };
+
+    // A session with one captured entry and no proxy running
+    function captureSession(sessionId: string): void {
+      createSession(sessionId);
+      fs.mkdirSync(path.join(dir, 'sessions', sessionId, 'mitm'));
+      const jsonlPath = path.join(dir, 'sessions', sessionId, 'mitm', 'traffic.jsonl');
+      fs.writeFileSync(jsonlPath, JSON.stringify(makeEntry()) + '\n');
+    }
+
+    async function expectClosed(store: TrafficStore): Promise<void> {
+      await vi.waitFor(() => expect(store.query(query)).rejects.toMatchObject({ code: 'DATABASE_ERROR' }));
+    }
+
+    beforeEach(() => {
+      manager = createManager(0);
+      captureSession(SESSION_ID);
+    });
+
+    it('keeps the store of a stopped proxy open until the tool call reading it returns', async () => {
+      await manager.startProxy({ sessionId: SESSION_ID });
+      let held: TrafficStore | undefined;
+
+      await manager.holdTrafficStores(async () => {
+        held = await manager.readTrafficStore(SESSION_ID);
+        await manager.stopProxy(SESSION_ID);
+        expect((await held.query(query)).total).toBe(1);
+      });
+      await expectClosed(held!);
+    });
+
+    it('keeps an evicted read-only store open until the tool call reading it returns', async () => {
+      const others = Array.from({ length: 8 }, (_, i) => `sniaff-other-${i}`);
+      others.forEach(captureSession);
+      let held: TrafficStore | undefined;
+
+      await manager.holdTrafficStores(async () => {
+        held = await manager.readTrafficStore(SESSION_ID);
+        for (const sessionId of others) {
+          await manager.holdTrafficStores(() => manager.readTrafficStore(sessionId));
+        }
+        // Evicted: the next reader gets a store of its own
+        expect(await manager.holdTrafficStores(() => manager.readTrafficStore(SESSION_ID))).not.toBe(held);
+        expect((await held.query(query)).total).toBe(1);
+      });
+      await expectClosed(held!);
+    });
+
+    it('keeps holders of a read-only store it takes over for a proxy', async () => {
+      let held: TrafficStore | undefined;
+
+      await manager.holdTrafficStores(async () => {
+        held = await manager.readTrafficStore(SESSION_ID);
+        await manager.startProxy({ sessionId: SESSION_ID });
+        expect(manager.getTrafficStore(SESSION_ID)).toBe(held);
+        await manager.stopProxy(SESSION_ID);
+        expect((await held.query(query)).total).toBe(1);
+      });
+      await expectClosed(held!);
+    });
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildModeArgs,
+  isForwardProxyMode,
+  parseProxyMode,
+  parseSize,
+  resolveProxyOptions,
+  validateProxyOptions,
+} from '../../src/core/proxy-mode.js';
+
+describe('parseProxyMode', () => {
+  it('parses modes with and without a target', () => {
+    expect(parseProxyMode('regular')).toEqual({ kind: 'regular' });
+    expect(parseProxyMode('socks5')).toEqual({ kind: 'socks5' });
+    expect(parseProxyMode('upstream:http://proxy.internal:3128')).toEqual({
+      kind: 'upstream',
+      target: 'http://proxy.internal:3128',
+    });
+    expect(parseProxyMode('reverse:https://api.example.com/')).toEqual({
+      kind: 'reverse',
+      target: 'https://api.example.com/',
+    });
+  });
+
+  it.each([
+    ['wireguard', /Unknown proxy mode/],
+    ['reverse', /Unknown proxy mode/],
+    ['upstream:not a url', /Invalid upstream URL/],
+    ['reverse:ftp://example.com', /must be http or https/],
+    ['reverse:https://example.com/api', /takes no path or query/],
+  ])('rejects %s', (mode, message) => {
+    expect(() => parseProxyMode(mode)).toThrow(
+      expect.objectContaining({ code: 'INVALID_ARGUMENT', message: expect.stringMatching(message) })
+    );
+  });
+
+  it('tells forward proxy modes apart', () => {
+    expect(isForwardProxyMode(parseProxyMode('upstream:http://proxy.internal:3128'))).toBe(true);
+    expect(isForwardProxyMode(parseProxyMode('reverse:https://api.example.com'))).toBe(false);
+    expect(isForwardProxyMode(parseProxyMode('transparent'))).toBe(false);
+  });
+});
+
+describe('proxy options', () => {
+  it('reads mitmproxy sizes in binary multiples', () => {
+    expect(parseSize('512')).toBe(512);
+    expect(parseSize('256k')).toBe(256 * 1024);
+    expect(parseSize('10M')).toBe(10 * 1024 ** 2);
+    expect(parseSize('1g')).toBe(1024 ** 3);
+  });
+
+  it.each([
+    [{ ignoreHosts: ['a'], allowHosts: ['b'] }, /cannot be combined/],
+    [{ ignoreHosts: ['('] }, /Invalid host pattern/],
+    [{ confdir: 'certs' }, /absolute path/],
+    [{ streamLargeBodies: '10 MB' }, /Invalid streamLargeBodies size/],
+    [{ bodyBlobThreshold: '1t' }, /Invalid bodyBlobThreshold size/],
+  ])('rejects %j', (options, message) => {
+    expect(() => validateProxyOptions(resolveProxyOptions(options))).toThrow(
+      expect.objectContaining({ code: 'INVALID_ARGUMENT', message: expect.stringMatching(message) })
+    );
+  });
+
+  it('builds the mitmdump arguments', () => {
+    expect(buildModeArgs('regular', resolveProxyOptions())).toEqual([
+      '--mode', 'regular',
+      '--ssl-insecure',
+      '--set', 'stream_large_bodies=10m',
+      '--set', `blob_threshold=${256 * 1024}`,
+    ]);
+
+    const options = resolveProxyOptions({ allowHosts: ['example\\.com'], sslInsecure: false, confdir: '/etc/mitm' });
+    expect(buildModeArgs('socks5', options)).toEqual([
+      '--mode', 'socks5',
+      '--allow-hosts', 'example\\.com',
+      '--set', 'confdir=/etc/mitm',
+      '--set', 'stream_large_bodies=10m',
+      '--set', `blob_threshold=${256 * 1024}`,
+    ]);
+  });
+});
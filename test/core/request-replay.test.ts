@@ -0,0 +1,197 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { gzipSync } from 'zlib';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { prepareReplay, sendReplay, toReplayEntry } from '../../src/core/request-replay.js';
+import { MitmError, ErrorCode } from '../../src/types/errors.js';
+import { makeEntry } from '../helpers.js';
+
+interface Received {
+  method: string;
+  url: string;
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+// Local stand-in for the captured app's server: records each request and answers with
+// the handler's response
+async function startServer(
+  handler: (request: Received, response: http.ServerResponse) => void
+): Promise<{ server: http.Server; port: number; received: Received[] }> {
+  const received: Received[] = [];
+  const server = http.createServer((request, response) => {
+    const chunks: Buffer[] = [];
+    request.on('data', (chunk: Buffer) => chunks.push(chunk));
+    request.on('end', () => {
+      const record = {
+        method: request.method ?? '',
+        url: request.url ?? '',
+        headers: request.headers,
+        body: Buffer.concat(chunks).toString('utf-8'),
+      };
+      received.push(record);
+      handler(record, response);
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  return { server, port: (server.address() as AddressInfo).port, received };
+}
+
+function stopServer(server: http.Server): Promise<void> {
+  server.closeAllConnections();
+  return new Promise(resolve => server.close(() => resolve()));
+}
+
+const original = makeEntry({
+  id: 'original',
+  request: {
+    method: 'POST',
+    url: 'http://api.example.com/orders?page=1&debug=1',
+    host: 'api.example.com',
+    path: '/orders?page=1&debug=1',
+    headers: [
+      { name: 'Host', value: 'api.example.com' },
+      { name: 'Authorization', value: 'Bearer old' },
+      { name: 'X-Trace', value: 'abc' },
+      { name: 'Content-Type', value: 'application/json' },
+      { name: 'Content-Length', value: '31' },
+      { name: 'Content-Encoding', value: 'gzip' },
+    ],
+    body: '{"item":"book","quantity":1}',
+    bodyEncoding: 'text',
+    bodySize: 28,
+  },
+});
+
+describe('prepareReplay', () => {
+  it('applies header, query, method and JSON Patch changes', () => {
+    const request = prepareReplay(original, {
+      method: 'put',
+      setHeaders: { Authorization: 'Bearer new' },
+      removeHeaders: ['x-trace'],
+      setQuery: { page: '2', debug: null },
+      jsonPatch: [
+        { op: 'replace', path: '/quantity', value: 3 },
+        { op: 'add', path: '/note', value: 'gift' },
+      ],
+    });
+
+    expect(request.method).toBe('PUT');
+    expect(request.url).toBe('http://api.example.com/orders?page=2');
+    expect(request.body?.toString('utf-8')).toBe('{"item":"book","quantity":3,"note":"gift"}');
+    expect(request.headers).toEqual([
+      { name: 'Host', value: 'api.example.com' },
+      { name: 'Content-Type', value: 'application/json' },
+      { name: 'Authorization', value: 'Bearer new' },
+      { name: 'Content-Length', value: String(request.body?.length) },
+    ]);
+  });
+
+  it('decodes base64 bodies and accepts replacement bodies', () => {
+    const binary = makeEntry({
+      request: { method: 'POST', body: Buffer.from([0, 1, 2, 255]).toString('base64'), bodyEncoding: 'base64', bodySize: 4 },
+    });
+    expect(prepareReplay(binary, {}).body).toEqual(Buffer.from([0, 1, 2, 255]));
+    expect(prepareReplay(binary, { body: 'plain' }).body?.toString('utf-8')).toBe('plain');
+    expect(prepareReplay(binary, { bodyBase64: 'AAE=' }).body).toEqual(Buffer.from([0, 1]));
+  });
+
+  it('rejects invalid patches', () => {
+    const rejected = (patch: Parameters<typeof prepareReplay>[1]): MitmError => {
+      try {
+        prepareReplay(original, patch);
+      } catch (error) {
+        return error as MitmError;
+      }
+      throw new Error('Expected the patch to be rejected');
+    };
+
+    expect(rejected({ url: 'ftp://example.com/' }).message).toMatch(/Only http and https/);
+    expect(rejected({ url: 'not a url' }).code).toBe(ErrorCode.INVALID_ARGUMENT);
+    expect(rejected({ body: 'a', bodyBase64: 'YQ==' }).message).toMatch(/either body or bodyBase64/);
+    expect(rejected({ body: 'not json', jsonPatch: [{ op: 'remove', path: '/a' }] }).message).toMatch(
+      /requires a JSON request body/
+    );
+    expect(rejected({ jsonPatch: [{ op: 'remove', path: '/missing' }] }).message).toMatch(/Cannot apply jsonPatch/);
+  });
+});
+
+describe('sendReplay', () => {
+  let server: Awaited<ReturnType<typeof startServer>>;
+
+  beforeEach(async () => {
+    server = await startServer((request, response) => {
+      if (request.url.startsWith('/slow')) return;
+      const body = gzipSync(JSON.stringify({ ok: true, echo: request.body }));
+      response.writeHead(201, 'Created', {
+        'Content-Type': 'application/json',
+        'Content-Encoding': 'gzip',
+        'Set-Cookie': ['a=1', 'b=2'],
+      });
+      response.end(body);
+    });
+  });
+
+  afterEach(async () => {
+    await stopServer(server.server);
+  });
+
+  it('sends the prepared request and records the decoded response as a linked entry', async () => {
+    const request = prepareReplay(original, {
+      url: `http://127.0.0.1:${server.port}/orders?page=1`,
+      setHeaders: { Authorization: 'Bearer new' },
+      jsonPatch: [{ op: 'replace', path: '/quantity', value: 2 }],
+    });
+    const response = await sendReplay(request, { timeoutMs: 5000 });
+
+    expect(server.received).toHaveLength(1);
+    const [received] = server.received;
+    expect(received.method).toBe('POST');
+    expect(received.url).toBe('/orders?page=1');
+    expect(received.headers.host).toBe(`127.0.0.1:${server.port}`);
+    expect(received.headers.authorization).toBe('Bearer new');
+    expect(received.headers['x-trace']).toBe('abc');
+    expect(received.headers['content-encoding']).toBeUndefined();
+    expect(received.body).toBe('{"item":"book","quantity":2}');
+
+    expect(response.status).toBe(201);
+    expect(response.statusText).toBe('Created');
+    expect(response.headers.filter(h => h.name.toLowerCase() === 'set-cookie').map(h => h.value)).toEqual(['a=1', 'b=2']);
+    expect(JSON.parse(response.body.toString('utf-8'))).toEqual({ ok: true, echo: received.body });
+
+    const entry = toReplayEntry('replay-1', original.id, request, response, 1000);
+    expect(entry).toMatchObject({
+      id: 'replay-1',
+      replayOf: 'original',
+      timestampMs: 1000,
+      request: { method: 'POST', host: '127.0.0.1', path: '/orders?page=1', queryString: [{ name: 'page', value: '1' }] },
+      response: { status: 201, contentType: 'application/json', bodyEncoding: 'text' },
+    });
+    expect(entry.request.body).toBe(received.body);
+  });
+
+  it('sends plain HTTP replays through a proxy in absolute form', async () => {
+    const request = prepareReplay(original, { url: 'http://api.example.com/orders' });
+    await sendReplay(request, { proxy: { host: '127.0.0.1', port: server.port }, timeoutMs: 5000 });
+
+    expect(server.received[0].url).toBe('http://api.example.com/orders');
+    expect(server.received[0].headers.host).toBe('api.example.com');
+  });
+
+  it('times out when the server does not answer', async () => {
+    const request = prepareReplay(original, { url: `http://127.0.0.1:${server.port}/slow` });
+    const error = await sendReplay(request, { timeoutMs: 200 }).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(MitmError);
+    expect((error as MitmError).code).toBe(ErrorCode.TIMEOUT);
+  });
+
+  it('reports connection failures', async () => {
+    await stopServer(server.server);
+    const request = prepareReplay(original, { url: `http://127.0.0.1:${server.port}/` });
+    const error = await sendReplay(request, { timeoutMs: 5000 }).catch((e: unknown) => e);
+
+    expect((error as MitmError).code).toBe(ErrorCode.INTERNAL_ERROR);
+    expect((error as MitmError).message).toMatch(/Replay request failed/);
+  });
+});
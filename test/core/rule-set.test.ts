@@ -0,0 +1,95 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { mergeRules, readRulesFile, validateRules, writeRulesFile } from '../../src/core/rule-set.js';
+import { Rule, RuleSchema } from '../../src/types/schemas.js';
+
+const rule = (input: Record<string, unknown>): Rule => RuleSchema.parse({ id: 'r1', ...input });
+
+const mock = { mapLocal: { body: '{}' } };
+
+describe('validateRules', () => {
+  it('accepts rules with Python regex syntax', async () => {
+    await expect(validateRules([
+      rule({
+        match: { path: '(?i)^/users/(?P<id>\\d+)$', filter: '~d example.com & ~m POST' },
+        bodyRewrites: [
+          { type: 'regex', phase: 'response', pattern: '(?P<k>"admin"):false', replacement: '\\g<k>:true' },
+          { type: 'jsonPointer', phase: 'request', pointer: '/user/name', value: 'x' },
+        ],
+      }),
+    ])).resolves.toBeUndefined();
+  });
+
+  it.each([
+    ['a duplicate ID', [rule(mock), rule(mock)], /duplicate rule ID/],
+    ['a rule without actions', [rule({})], /no action/],
+    ['mapLocal with mapRemote', [rule({ ...mock, mapRemote: { url: 'https://example.com/' } })], /cannot be combined/],
+    ['two mapLocal bodies', [rule({ mapLocal: { body: 'a', bodyBase64: 'YQ==' } })], /only one of/],
+    ['a relative mapLocal file', [rule({ mapLocal: { file: 'body.json' } })], /absolute path/],
+    ['a missing mapLocal file', [rule({ mapLocal: { file: '/nonexistent/body.json' } })], /not found/],
+    ['an invalid filter', [rule({ ...mock, match: { filter: '~q (' } })], /Rule r1/],
+    ['an invalid path regex', [rule({ ...mock, match: { path: '(' } })], /invalid regex "\("/],
+    ['a header without value', [rule({ headers: [{ phase: 'request', action: 'add', name: 'X-A' }] })], /needs a value/],
+    [
+      'an invalid rewrite regex',
+      [rule({ bodyRewrites: [{ type: 'regex', phase: 'request', pattern: '[', replacement: '' }] })],
+      /invalid regex "\["/,
+    ],
+    [
+      'an invalid JSON pointer',
+      [rule({ bodyRewrites: [{ type: 'jsonPointer', phase: 'request', pointer: 'user', value: 1 }] })],
+      /Rule r1/,
+    ],
+    [
+      'a pointer rewrite without value',
+      [rule({ bodyRewrites: [{ type: 'jsonPointer', phase: 'request', pointer: '/user' }] })],
+      /needs a value or remove/,
+    ],
+  ])('rejects %s', async (_name, rules, message) => {
+    await expect(validateRules(rules)).rejects.toMatchObject({
+      code: 'INVALID_ARGUMENT',
+      message: expect.stringMatching(message),
+    });
+  });
+});
+
+describe('mergeRules', () => {
+  it('updates rules in place and appends new ones', () => {
+    const existing = [{ id: 'a', v: 1 }, { id: 'b', v: 1 }];
+    expect(mergeRules(existing, [{ id: 'c', v: 2 }, { id: 'a', v: 2 }])).toEqual([
+      { id: 'a', v: 2 },
+      { id: 'b', v: 1 },
+      { id: 'c', v: 2 },
+    ]);
+  });
+});
+
+describe('rules file', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'rule-set-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('writes the file the addon reads and reads it back', async () => {
+    const filePath = path.join(dir, 'rules.json');
+    expect(await readRulesFile(filePath)).toEqual([]);
+
+    const rules = [rule(mock)];
+    await writeRulesFile(filePath, rules);
+    expect(JSON.parse(fs.readFileSync(filePath, 'utf-8'))).toMatchObject({ version: 1, rules });
+    expect(await readRulesFile(filePath)).toEqual(rules);
+  });
+
+  it('reports an unreadable file', async () => {
+    const filePath = path.join(dir, 'rules.json');
+    fs.writeFileSync(filePath, '{');
+    await expect(readRulesFile(filePath)).rejects.toMatchObject({ code: 'INTERNAL_ERROR' });
+  });
+});
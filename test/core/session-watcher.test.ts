@@ -0,0 +1,71 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { SessionStateWatcher } from '../../src/core/session-watcher.js';
+import { StateClient } from '../../src/core/state-client.js';
+import { CoreSessionStatus } from '../../src/types/session.js';
+import { Logger } from '../../src/utils/logger.js';
+
+const SESSION_ID = 'sniaff-test';
+
+describe('SessionStateWatcher', () => {
+  let dir: string;
+  let watcher: SessionStateWatcher;
+  let transitions: Array<[CoreSessionStatus, CoreSessionStatus]>;
+
+  function writeState(status: string): void {
+    const statePath = path.join(dir, SESSION_ID, 'state.json');
+    // Replaced the way the core writes it
+    fs.writeFileSync(`${statePath}.tmp`, JSON.stringify({ sessionId: SESSION_ID, type: 'android', status }));
+    fs.renameSync(`${statePath}.tmp`, statePath);
+  }
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'session-watcher-'));
+    fs.mkdirSync(path.join(dir, SESSION_ID));
+    writeState('active');
+
+    transitions = [];
+    watcher = new SessionStateWatcher(new StateClient(dir, new Logger('test')), SESSION_ID, 'active', {
+      pollIntervalMs: 20,
+      onTransition: (from, to) => transitions.push([from, to]),
+    });
+    watcher.start();
+  });
+
+  afterEach(() => {
+    watcher.stop();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('reports each change of the core session status once', async () => {
+    writeState('active');
+    writeState('stopping');
+    await vi.waitFor(() => expect(transitions).toEqual([['active', 'stopping']]));
+
+    writeState('stopped');
+    await vi.waitFor(() => expect(transitions).toEqual([['active', 'stopping'], ['stopping', 'stopped']]));
+  });
+
+  it('reports state.json going missing and coming back', async () => {
+    fs.rmSync(path.join(dir, SESSION_ID, 'state.json'));
+    await vi.waitFor(() => expect(transitions).toEqual([['active', 'missing']]));
+
+    writeState('active');
+    await vi.waitFor(() => expect(transitions).toEqual([['active', 'missing'], ['missing', 'active']]));
+  });
+
+  it('ignores a state.json it cannot parse', async () => {
+    fs.writeFileSync(path.join(dir, SESSION_ID, 'state.json'), '{"status":');
+    await new Promise(resolve => setTimeout(resolve, 100));
+    expect(transitions).toEqual([]);
+  });
+
+  it('reports nothing once stopped', async () => {
+    watcher.stop();
+    writeState('stopped');
+    await new Promise(resolve => setTimeout(resolve, 100));
+    expect(transitions).toEqual([]);
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { summarizeFailures } from '../../src/core/tls-failures.js';
+import { FailureEvent } from '../../src/types/traffic.js';
+
+let sequence = 0;
+
+function failure(
+  type: FailureEvent['type'],
+  host: string,
+  error: string,
+  clientAddress = '10.0.0.5:50000'
+): FailureEvent {
+  const timestampMs = Date.UTC(2026, 0, 1, 0, 0, sequence++);
+  const timestamp = new Date(timestampMs).toISOString();
+  return { id: `f${sequence}`, type, timestamp, timestampMs, host, clientAddress, error };
+}
+
+const rejected = "Client TLS handshake failed. The client does not trust the proxy's certificate (pinned)";
+
+describe('summarizeFailures', () => {
+  it('reports pinning for a host whose client rejects the certificate', () => {
+    const events = [
+      failure('tls_client', 'Pinned.example.com', rejected),
+      failure('tls_client', 'pinned.example.com', 'sslv3 alert bad certificate', '10.0.0.6:1'),
+      failure('tls_server', 'upstream.example.com', 'certificate verify failed'),
+    ];
+    const summary = summarizeFailures(events, new Map([['api.example.com', 3]]), 3);
+
+    expect(summary.totalEvents).toBe(3);
+    expect(summary.hosts.map(host => [host.host, host.diagnosis])).toEqual([
+      ['pinned.example.com', 'pinning-likely'],
+      ['upstream.example.com', 'upstream-tls-error'],
+    ]);
+    expect(summary.hosts[0]).toMatchObject({
+      clientFailures: 2,
+      certificateRejections: 2,
+      clients: ['10.0.0.5', '10.0.0.6'],
+      firstSeen: events[0].timestamp,
+      lastSeen: events[1].timestamp,
+      sampleError: rejected,
+    });
+    expect(summary.verdict).toMatch(/looks like certificate pinning/);
+  });
+
+  it('tells partial pinning from other client and connection errors', () => {
+    const summary = summarizeFailures([
+      failure('tls_client', 'sdk.example.com', 'unknown ca'),
+      failure('tls_client', 'old.example.com', 'no shared cipher'),
+      failure('http_error', 'down.example.com', 'Connection refused'),
+    ], new Map([['sdk.example.com', 1]]), 1);
+
+    expect(Object.fromEntries(summary.hosts.map(host => [host.host, host.diagnosis]))).toEqual({
+      'sdk.example.com': 'intermittent-pinning',
+      'old.example.com': 'client-tls-error',
+      'down.example.com': 'connection-error',
+    });
+  });
+
+  it('blames an untrusted CA when no HTTPS flow succeeded', () => {
+    const summary = summarizeFailures([failure('tls_client', 'api.example.com', rejected)], new Map(), 0);
+    expect(summary.verdict).toMatch(/does not trust the mitmproxy CA/);
+  });
+
+  it('says so when nothing failed or nothing was rejected', () => {
+    expect(summarizeFailures([], new Map(), 0).verdict).toBe('No TLS or connection failures recorded.');
+    expect(summarizeFailures([failure('http_error', 'a.example.com', 'reset')], new Map(), 0).verdict)
+      .toMatch(/No certificate rejections/);
+  });
+});
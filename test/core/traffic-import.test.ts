@@ -0,0 +1,143 @@
+import * as zlib from 'zlib';
+import { describe, expect, it } from 'vitest';
+import { detectImportFormat, parseFlowsFile, parseHarFile, parseImportFile } from '../../src/core/traffic-import.js';
+import { toHarLogEntry } from '../../src/core/har-export.js';
+import { makeEntry } from '../helpers.js';
+
+type Encodable = Buffer | string | number | boolean | null | Encodable[] | { [key: string]: Encodable };
+
+// Encode a value the way mitmproxy writes .flows files, with bytes for dictionary keys
+function tnet(value: Encodable): Buffer {
+  const frame = (payload: Buffer, type: string) =>
+    Buffer.concat([Buffer.from(`${payload.length}:`), payload, Buffer.from(type)]);
+
+  if (Buffer.isBuffer(value)) return frame(value, ',');
+  if (typeof value === 'string') return frame(Buffer.from(value, 'utf-8'), ';');
+  if (typeof value === 'number') return frame(Buffer.from(String(value)), Number.isInteger(value) ? '#' : '^');
+  if (typeof value === 'boolean') return frame(Buffer.from(String(value)), '!');
+  if (value === null) return frame(Buffer.alloc(0), '~');
+  if (Array.isArray(value)) return frame(Buffer.concat(value.map(tnet)), ']');
+  return frame(
+    Buffer.concat(Object.entries(value).flatMap(([key, item]) => [tnet(Buffer.from(key)), tnet(item)])),
+    '}'
+  );
+}
+
+const b = (text: string) => Buffer.from(text, 'utf-8');
+
+describe('detectImportFormat', () => {
+  it('tells HAR from flow files by their first byte', () => {
+    expect(detectImportFormat(b('\uFEFF  {"log":{}}'))).toBe('har');
+    expect(detectImportFormat(b('123:'))).toBe('flows');
+    expect(() => detectImportFormat(b('<html>'))).toThrow(expect.objectContaining({ code: 'INVALID_ARGUMENT' }));
+  });
+});
+
+describe('parseHarFile', () => {
+  const exported = makeEntry({
+    request: {
+      method: 'POST',
+      url: 'https://api.example.com/upload?kind=avatar',
+      path: '/upload?kind=avatar',
+      headers: [
+        { name: 'Host', value: 'api.example.com' },
+        { name: 'Content-Type', value: 'application/octet-stream' },
+      ],
+      queryString: [{ name: 'kind', value: 'avatar' }],
+      body: Buffer.from([0xff, 0x00, 0x01]).toString('base64'),
+      bodyEncoding: 'base64',
+      bodySize: 3,
+    },
+    response: {
+      status: 201,
+      statusText: 'Created',
+      headers: [{ name: 'Content-Type', value: 'application/json' }],
+      contentType: 'application/json',
+      body: '{"ok":true}',
+      bodyEncoding: 'text',
+      bodySize: 11,
+    },
+    timings: { blocked: 1, dns: 2, connect: 3, ssl: 4, send: 5, wait: 6, receive: 7 },
+    serverIPAddress: '203.0.113.7',
+  });
+
+  it('reads back what export_har writes', () => {
+    const har = { log: { version: '1.2', entries: [toHarLogEntry(exported, { includeBodies: true })] } };
+    const { format, entries, skipped } = parseHarFile(b(JSON.stringify(har)), '/tmp/session.har');
+
+    expect(format).toBe('har');
+    expect(skipped).toBe(0);
+    const [entry] = entries;
+    expect(entry.id).not.toBe(exported.id);
+    expect(entry.timestampMs).toBe(exported.timestampMs);
+    expect(entry.request).toEqual(exported.request);
+    expect(entry.response).toEqual(exported.response);
+    expect(entry.timings).toEqual(exported.timings);
+    expect(entry.serverIPAddress).toBe('203.0.113.7');
+    expect(entry.source).toEqual({ format: 'har', file: '/tmp/session.har' });
+  });
+
+  it('skips entries without a request and rejects files without entries', () => {
+    const har = { log: { entries: [{ response: { status: 200 } }] } };
+    expect(parseHarFile(b(JSON.stringify(har)), 'x.har')).toMatchObject({ entries: [], skipped: 1 });
+
+    expect(() => parseHarFile(b('{"log":{}}'), 'x.har')).toThrow(/missing log.entries/);
+    expect(() => parseHarFile(b('{'), 'x.har')).toThrow(/Invalid HAR file/);
+  });
+});
+
+describe('parseFlowsFile', () => {
+  const httpFlow = {
+    type: 'http',
+    request: {
+      scheme: b('https'),
+      host: b('10.0.0.1'),
+      port: 443,
+      authority: b(''),
+      path: b('/items?page=2'),
+      method: b('POST'),
+      http_version: b('HTTP/2.0'),
+      headers: [[b('host'), b('api.example.com')], [b('content-encoding'), b('gzip')]],
+      content: zlib.gzipSync(b('{"q":1}')),
+      timestamp_start: 1767225600.0,
+      timestamp_end: 1767225600.01,
+    },
+    response: {
+      status_code: 200,
+      reason: b('OK'),
+      http_version: b('HTTP/2.0'),
+      headers: [[b('content-type'), b('application/json')]],
+      content: b('[]'),
+      timestamp_start: 1767225600.11,
+      timestamp_end: 1767225600.12,
+    },
+    server_conn: { peername: [b('10.0.0.1'), 443] },
+  };
+
+  it('converts HTTP flows and skips the others', () => {
+    const data = Buffer.concat([tnet(httpFlow), tnet({ type: 'tcp', messages: [] })]);
+    const { format, entries, skipped } = parseImportFile(data, '/tmp/capture.flows');
+
+    expect(format).toBe('flows');
+    expect(skipped).toBe(1);
+    const [entry] = entries;
+    expect(entry.timestamp).toBe('2026-01-01T00:00:00.120Z');
+    expect(entry.request).toMatchObject({
+      method: 'POST',
+      url: 'https://api.example.com/items?page=2',
+      host: 'api.example.com',
+      queryString: [{ name: 'page', value: '2' }],
+      // Content-Encoding is undone, as the addon stores bodies
+      body: '{"q":1}',
+      bodyEncoding: 'text',
+      bodySize: 7,
+    });
+    expect(entry.response).toMatchObject({ status: 200, contentType: 'application/json', body: '[]' });
+    expect(entry.timings).toMatchObject({ send: 10, wait: 100, receive: 10 });
+    expect(entry.serverIPAddress).toBe('10.0.0.1');
+  });
+
+  it('reports a truncated file', () => {
+    expect(() => parseFlowsFile(tnet(httpFlow).subarray(0, 50), 'x.flows')).toThrow(/Invalid mitmproxy flow file/);
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createSearchMatcher,
+  SEARCH_SCOPES,
+  searchBodyWindows,
+  searchEntry,
+} from '../../src/core/traffic-search.js';
+import { makeEntry } from '../helpers.js';
+
+const entry = makeEntry({
+  request: {
+    method: 'POST',
+    url: 'https://api.example.com/login?user=alice',
+    queryString: [{ name: 'user', value: 'alice' }],
+    headers: [
+      { name: 'Host', value: 'api.example.com' },
+      { name: 'Authorization', value: 'Bearer alice-token' },
+    ],
+    body: '{"username":"alice","password":"hunter2"}',
+    bodyEncoding: 'text',
+  },
+  response: {
+    headers: [{ name: 'Set-Cookie', value: 'session=alice-session' }],
+    body: Buffer.from('\x00\x01token=alice\x02', 'latin1').toString('base64'),
+    bodyEncoding: 'base64',
+  },
+});
+
+describe('createSearchMatcher', () => {
+  it('escapes literal patterns', () => {
+    const matcher = createSearchMatcher('a.b(c)', { regex: false, caseSensitive: false });
+    expect(matcher.test('xA.B(C)x')).toBe(true);
+    matcher.lastIndex = 0;
+    expect(matcher.test('aXb(c)')).toBe(false);
+  });
+
+  it('honours caseSensitive', () => {
+    expect(createSearchMatcher('Alice', { regex: false, caseSensitive: true }).test('alice')).toBe(false);
+  });
+
+  it('rejects an invalid regex', () => {
+    expect(() => createSearchMatcher('(', { regex: true, caseSensitive: false })).toThrow(
+      expect.objectContaining({ code: 'INVALID_ARGUMENT' })
+    );
+  });
+});
+
+describe('searchEntry', () => {
+  const search = (pattern: string, scopes = SEARCH_SCOPES, limit = 10) =>
+    searchEntry(entry, createSearchMatcher(pattern, { regex: true, caseSensitive: false }), scopes, limit);
+
+  it('reports each match in scope order', () => {
+    expect(search('alice').map(m => m.location)).toEqual([
+      'query param "user"',
+      'request header "Authorization"',
+      'request body',
+      'response header "Set-Cookie"',
+      'response body (base64-decoded)',
+    ]);
+  });
+
+  it('only searches the requested scopes', () => {
+    expect(search('alice', ['requestHeaders']).map(m => m.scope)).toEqual(['requestHeaders']);
+    expect(search('hunter2', ['responseBody'])).toEqual([]);
+  });
+
+  it('names the matching header or parameter and highlights the match', () => {
+    const [match] = search('bearer', ['requestHeaders']);
+    expect(match).toMatchObject({ name: 'Authorization', offset: 15 });
+    expect(match.snippet).toBe('Authorization: **Bearer** alice-token');
+  });
+
+  it('searches binary bodies after decoding them', () => {
+    const [match] = search('token=alice', ['responseBody']);
+    expect(match).toMatchObject({ base64Decoded: true, location: 'response body (base64-decoded)' });
+  });
+
+  it('stops at the match limit', () => {
+    expect(search('alice', SEARCH_SCOPES, 2)).toHaveLength(2);
+  });
+
+  it('skips empty matches', () => {
+    expect(search('x*', ['requestBody'])).toEqual([]);
+  });
+});
+
+describe('searchBodyWindows', () => {
+  // Windows overlapping by four characters, as BlobStore.textWindows reads them
+  async function* windows(...texts: string[]) {
+    let offset = 0;
+    for (const text of texts) {
+      yield { text, offset };
+      offset += text.length - 4;
+    }
+  }
+  const matcher = () => createSearchMatcher('key', { regex: false, caseSensitive: false });
+
+  it('reports a match in the overlap once, at its offset in the body', async () => {
+    // Body: "abcdkey keyz"
+    const matches = await searchBodyWindows(windows('abcdkey ', 'key keyz'), matcher(), 'responseBody', false, 10);
+    expect(matches.map(m => [m.offset, m.location])).toEqual([[4, 'response body'], [8, 'response body']]);
+  });
+
+  it('searches binary bodies as decoded bytes', async () => {
+    const [match] = await searchBodyWindows(windows('\x00\x01key\xff'), matcher(), 'requestBody', true, 10);
+    expect(match).toMatchObject({
+      scope: 'requestBody',
+      location: 'request body (base64-decoded)',
+      base64Decoded: true,
+      offset: 2,
+    });
+    expect(match.snippet).toBe('..**key**\xff');
+  });
+
+  it('stops at the match limit', async () => {
+    expect(await searchBodyWindows(windows('key key key'), matcher(), 'requestBody', false, 2)).toHaveLength(2);
+  });
+});
@@ -0,0 +1,500 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { FailureQueryOptions, QueryOptions, TrafficStore, WebSocketQueryOptions } from '../../src/core/traffic-store.js';
+import { BLOBS_DIR } from '../../src/core/blob-store.js';
+import { FailureEvent, JsonlEntry, WebSocketMessageRecord } from '../../src/types/traffic.js';
+import { Logger } from '../../src/utils/logger.js';
+import { makeEntry } from '../helpers.js';
+
+// Above the addon's default blob_threshold, so the addon keeps the body in a blob
+const LARGE_BODY_BYTES = 300 * 1024;
+
+const at = (second: number) => ({
+  timestamp: new Date(Date.UTC(2026, 0, 1, 0, 0, second)).toISOString(),
+  timestampMs: Date.UTC(2026, 0, 1, 0, 0, second),
+});
+
+const toLines = (entries: JsonlEntry[]) => entries.map(e => JSON.stringify(e) + '\n').join('');
+
+describe('TrafficStore index', () => {
+  let dir: string;
+  let jsonlPath: string;
+  let store: TrafficStore;
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'traffic-store-'));
+    jsonlPath = path.join(dir, 'traffic.jsonl');
+    fs.writeFileSync(jsonlPath, toLines([
+      makeEntry({ id: 'get', ...at(1) }),
+      makeEntry({
+        id: 'post',
+        ...at(2),
+        request: { method: 'POST', url: 'https://api.example.com/orders', path: '/orders' },
+        response: { status: 201, statusText: 'Created' },
+      }),
+      makeEntry({ id: 'missing', ...at(3), response: { status: 404, statusText: 'Not Found' } }),
+    ]));
+    store = new TrafficStore(jsonlPath, new Logger('test'));
+    await store.initialize();
+  });
+
+  afterEach(async () => {
+    await store.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+    vi.restoreAllMocks();
+  });
+
+  const queryIds = async (options: Partial<QueryOptions> = {}) =>
+    (await store.query({ limit: 10, offset: 0, includeBody: false, ...options })).entries.map(e => e.id);
+
+  it('queries newest first with indexed conditions and paging', async () => {
+    expect(await queryIds()).toEqual(['missing', 'post', 'get']);
+    expect(await queryIds({ method: 'POST' })).toEqual(['post']);
+    expect(await queryIds({ statusRange: '2xx' })).toEqual(['post', 'get']);
+    expect(await queryIds({ urlPattern: '/ORDERS$' })).toEqual(['post']);
+    expect(await queryIds({ startTimeMs: at(2).timestampMs, endTimeMs: at(2).timestampMs })).toEqual(['post']);
+
+    const page = await store.query({ limit: 1, offset: 1, includeBody: false });
+    expect(page.total).toBe(3);
+    expect(page.entries.map(e => e.id)).toEqual(['post']);
+  });
+
+  it('keeps matching urlPatterns once older compiled patterns are evicted', async () => {
+    for (let i = 0; i < 40; i++) {
+      expect(await queryIds({ urlPattern: `/orders|x{${i}}y` })).toEqual(['post']);
+    }
+    expect(await queryIds({ urlPattern: '/orders|x{0}y' })).toEqual(['post']);
+  });
+
+  it('rejects an invalid urlPattern', async () => {
+    await expect(queryIds({ urlPattern: '(' })).rejects.toMatchObject({ code: 'INVALID_ARGUMENT' });
+  });
+
+  it('imports appended lines incrementally, leaving a partial line for later', async () => {
+    const appended = JSON.stringify(makeEntry({ id: 'partial', ...at(5) }));
+    fs.appendFileSync(jsonlPath, toLines([makeEntry({ id: 'appended', ...at(4) })]) + appended.slice(0, 20));
+    expect(await queryIds()).toEqual(['appended', 'missing', 'post', 'get']);
+
+    fs.appendFileSync(jsonlPath, appended.slice(20) + '\n');
+    expect(await queryIds()).toEqual(['partial', 'appended', 'missing', 'post', 'get']);
+  });
+
+  it('keeps its read position across reopening', async () => {
+    await store.close();
+    fs.appendFileSync(jsonlPath, toLines([makeEntry({ id: 'later', ...at(4) })]));
+
+    store = new TrafficStore(jsonlPath, new Logger('test'));
+    await store.initialize();
+    expect(await queryIds()).toEqual(['later', 'missing', 'post', 'get']);
+  });
+
+  it('rebuilds the index when the JSONL file shrinks', async () => {
+    expect(await queryIds()).toHaveLength(3);
+
+    fs.writeFileSync(jsonlPath, toLines([makeEntry({ id: 'replaced', ...at(9) })]));
+    expect(await queryIds()).toEqual(['replaced']);
+  });
+
+  it('rewrites the JSONL file on clear', async () => {
+    expect(await store.clear({ beforeTimeMs: at(3).timestampMs })).toEqual({ cleared: 2, skippedBodies: [] });
+
+    const remaining = fs.readFileSync(jsonlPath, 'utf-8').trim().split('\n').map(l => (JSON.parse(l) as JsonlEntry).id);
+    expect(remaining).toEqual(['missing']);
+
+    // Lines appended after the rewrite are still picked up
+    fs.appendFileSync(jsonlPath, toLines([makeEntry({ id: 'after', ...at(4) })]));
+    expect(await queryIds()).toEqual(['after', 'missing']);
+  });
+
+  it('scans past a page of entries while other operations use the index', async () => {
+    // Pairs of entries share a timestamp, so pages can end between them
+    const many = Array.from({ length: 1201 }, (_, i) => makeEntry({ id: `e${i}`, ...at(10 + Math.floor(i / 2)) }));
+    await store.append(many);
+
+    const oldestFirst: string[] = [];
+    await store.scan({ startTimeMs: at(10).timestampMs }, async (entry) => {
+      oldestFirst.push(entry.id);
+      if (oldestFirst.length % 500 === 0) await store.query({ limit: 1, offset: 0, includeBody: false });
+    });
+    expect(oldestFirst).toEqual(many.map(e => e.id));
+
+    const newestFirst: string[] = [];
+    await store.scan({ startTimeMs: at(10).timestampMs, newestFirst: true }, entry => {
+      newestFirst.push(entry.id);
+    });
+    const pairs = Array.from({ length: 601 }, (_, i) => many.slice(2 * i, 2 * i + 2).map(e => e.id));
+    expect(newestFirst).toEqual(pairs.reverse().flat());
+  });
+
+  it('summarizes endpoints with the request content type taken from the headers', async () => {
+    fs.appendFileSync(jsonlPath, toLines([
+      makeEntry({
+        id: 'json-post',
+        ...at(4),
+        request: {
+          method: 'POST',
+          url: 'https://api.example.com/orders',
+          headers: [{ name: 'content-type', value: 'application/json' }],
+        },
+      }),
+    ]));
+
+    const catalog = await store.summarize({ host: 'example.com' });
+    expect(catalog.toSummaries().map(e => [e.pathTemplate, e.calls, e.requestContentTypes])).toEqual([
+      ['/items', 2, []],
+      ['/orders', 2, [{ value: 'application/json', count: 1 }]],
+    ]);
+  });
+
+  it('queries the client connection metadata', async () => {
+    const connection = (clientAddress: string, version: string, alpn: string, sni: string, reused: boolean) => ({
+      clientConnectionId: clientAddress,
+      clientAddress,
+      clientTls: { version, alpn, sni },
+      reused,
+    });
+    fs.appendFileSync(jsonlPath, toLines([
+      makeEntry({
+        id: 'h2',
+        ...at(4),
+        connection: connection('10.0.0.5:50000', 'TLSv1.3', 'h2', 'API.example.com', false),
+      }),
+      makeEntry({
+        id: 'h1',
+        ...at(5),
+        connection: connection('10.0.0.6:50001', 'TLSv1.2', 'http/1.1', 'example.com', true),
+      }),
+    ]));
+
+    expect(await queryIds({ tlsVersion: 'tlsv1.3' })).toEqual(['h2']);
+    expect(await queryIds({ alpn: 'http/1.1' })).toEqual(['h1']);
+    // An SNI matches itself and its subdomains
+    expect(await queryIds({ sni: 'example.com' })).toEqual(['h1', 'h2']);
+    expect(await queryIds({ sni: 'api.example.com' })).toEqual(['h2']);
+    expect(await queryIds({ clientIp: '10.0.0.5' })).toEqual(['h2']);
+    // Entries without connection metadata match neither value
+    expect(await queryIds({ connectionReused: false })).toEqual(['h2']);
+    expect(await queryIds({ connectionReused: true })).toEqual(['h1']);
+  });
+
+  it('reports stats over the indexed entries', async () => {
+    const stats = await store.getStats();
+    expect(stats).toMatchObject({ totalEntries: 3, webSocketMessages: 0, failures: 0 });
+  });
+});
+
+describe('TrafficStore with bodies kept in blobs', () => {
+  let dir: string;
+  let store: TrafficStore;
+
+  // Write a body the way har_capture.py does: blobs/<first 2 hex>/<sha256>
+  function writeBlob(body: Buffer): string {
+    const sha256 = createHash('sha256').update(body).digest('hex');
+    const blobDir = path.join(dir, BLOBS_DIR, sha256.slice(0, 2));
+    fs.mkdirSync(blobDir, { recursive: true });
+    fs.writeFileSync(path.join(blobDir, sha256), body);
+    return sha256;
+  }
+
+  function writeEntries(entries: JsonlEntry[]): void {
+    fs.writeFileSync(path.join(dir, 'traffic.jsonl'), toLines(entries));
+  }
+
+  beforeEach(async () => {
+    // Logger writes every line to stderr
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'traffic-store-'));
+
+    const responseBody = Buffer.from('x'.repeat(LARGE_BODY_BYTES - 64) + '"token":"SECRETTOKEN"}', 'utf-8');
+    const requestBody = Buffer.from(`{"upload":"${'y'.repeat(LARGE_BODY_BYTES)}","tag":"UPLOADTAG"}`, 'utf-8');
+    writeEntries([
+      makeEntry({
+        id: 'large',
+        request: {
+          method: 'POST',
+          bodySize: requestBody.length,
+          bodyEncoding: 'text',
+          bodySha256: writeBlob(requestBody),
+        },
+        response: {
+          contentType: 'application/json',
+          bodySize: responseBody.length,
+          bodyEncoding: 'text',
+          bodySha256: writeBlob(responseBody),
+        },
+      }),
+      makeEntry({
+        id: 'small',
+        timestampMs: Date.parse('2026-01-01T00:00:01.000Z'),
+        response: { body: '{"token":"OTHER"}', bodyEncoding: 'text', bodySize: 17 },
+      }),
+    ]);
+
+    store = new TrafficStore(path.join(dir, 'traffic.jsonl'), new Logger('test'));
+    await store.initialize();
+  });
+
+  afterEach(async () => {
+    await store.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+    vi.restoreAllMocks();
+  });
+
+  const queryIds = async (filter: string) =>
+    (await store.query({ filter, limit: 10, offset: 0, includeBody: false })).entries.map(e => e.id);
+
+  it('matches body filters against blob bodies', async () => {
+    expect(await queryIds('~bs SECRETTOKEN')).toEqual(['large']);
+    expect(await queryIds('~bq UPLOADTAG')).toEqual(['large']);
+    expect(await queryIds('~b "SECRETTOKEN|OTHER"')).toEqual(['small', 'large']);
+    expect(await queryIds('!~bs SECRETTOKEN')).toEqual(['small']);
+  });
+
+  it('applies body filters when scanning', async () => {
+    const visited: JsonlEntry[] = [];
+    await store.scan({ filter: '~bs SECRETTOKEN' }, entry => {
+      visited.push(entry);
+    });
+
+    expect(visited.map(e => e.id)).toEqual(['large']);
+    // Without inlineBodies the visitor still gets the stored entry
+    expect(visited[0].response.bodySha256).toBeDefined();
+    expect(visited[0].response.body).toBeUndefined();
+  });
+
+  it('searches blob bodies', async () => {
+    const { results, total } = await store.search({
+      matcher: /SECRETTOKEN/g,
+      scopes: ['responseBody'],
+      limit: 10,
+      maxMatchesPerEntry: 5,
+    });
+
+    expect(total).toBe(1);
+    expect(results[0].id).toBe('large');
+    expect(results[0].matches[0]).toMatchObject({ scope: 'responseBody', offset: LARGE_BODY_BYTES - 64 + 9 });
+  });
+
+  it('moves appended bodies above the threshold into blobs', async () => {
+    const upload = 'z'.repeat(LARGE_BODY_BYTES);
+    await store.append([
+      makeEntry({ id: 'imported', request: { method: 'PUT', body: upload, bodyEncoding: 'text', bodySize: upload.length } }),
+      makeEntry({ id: 'inline', request: { body: 'short', bodyEncoding: 'text', bodySize: 5 } }),
+    ], { bodyBlobThreshold: 256 * 1024 });
+
+    const imported = await store.getRawEntry('imported');
+    expect(imported?.request.body).toBeUndefined();
+    expect(imported?.request).toMatchObject({ bodyEncoding: 'text', bodySize: LARGE_BODY_BYTES });
+    expect(imported?.request.bodySha256).toBe(createHash('sha256').update(upload).digest('hex'));
+    expect((await store.getRawEntry('imported', { inlineBodies: true }))?.request.body).toBe(upload);
+    expect((await store.getRawEntry('inline'))?.request.body).toBe('short');
+  });
+
+  it('skips bodies above the limits and reports them', async () => {
+    await store.close();
+    store = new TrafficStore(path.join(dir, 'traffic.jsonl'), new Logger('test'), {
+      maxMatchBytes: 1024,
+      maxInlineBytes: 1024,
+    });
+    await store.initialize();
+    const large = (await store.getRawEntry('large'))!;
+    const request = { entryId: 'large', side: 'request', size: large.request.bodySize };
+    const response = { entryId: 'large', side: 'response', size: large.response.bodySize };
+
+    const query = await store.query({ filter: '~bs SECRETTOKEN', limit: 10, offset: 0, includeBody: false });
+    expect(query).toMatchObject({ entries: [], total: 0, skippedBodies: [response] });
+
+    const search = await store.search({
+      matcher: /SECRETTOKEN/g,
+      scopes: ['responseBody'],
+      limit: 10,
+      maxMatchesPerEntry: 5,
+    });
+    expect(search).toMatchObject({ results: [], total: 0, skippedBodies: [response] });
+
+    const visited: JsonlEntry[] = [];
+    const scan = await store.scan({ inlineBodies: true }, entry => {
+      visited.push(entry);
+    });
+    expect(scan).toEqual({ visited: 2, skippedBodies: [request, response] });
+    expect(visited.find(e => e.id === 'large')?.response.bodySha256).toBe(large.response.bodySha256);
+
+    await expect(store.getRawEntry('large', { inlineBodies: true })).rejects.toMatchObject({
+      code: 'INVALID_ARGUMENT',
+      details: { entryId: 'large', side: 'request', maxInlineBytes: 1024 },
+    });
+  });
+
+  it('clears entries matched by a body filter', async () => {
+    expect(await store.clear({ filter: '~bs SECRETTOKEN' })).toEqual({ cleared: 1, skippedBodies: [] });
+    expect((await store.query({ limit: 10, offset: 0, includeBody: false })).entries.map(e => e.id)).toEqual(['small']);
+  });
+});
+
+describe('TrafficStore WebSocket messages', () => {
+  let dir: string;
+  let store: TrafficStore;
+
+  // One message the way har_capture.py writes it to websocket.jsonl
+  function message(
+    entryId: string,
+    index: number,
+    direction: WebSocketMessageRecord['direction'],
+    opcode: WebSocketMessageRecord['opcode'],
+    payload: string
+  ): WebSocketMessageRecord {
+    return {
+      id: `${entryId}-${index}`,
+      entryId,
+      index,
+      ...at(10 + index),
+      direction,
+      opcode,
+      size: payload.length,
+      payload,
+      encoding: opcode === 'binary' ? 'base64' : 'text',
+    };
+  }
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'traffic-store-'));
+    fs.writeFileSync(path.join(dir, 'traffic.jsonl'), toLines([
+      makeEntry({ id: 'chat', request: { url: 'wss://chat.example.com/socket', host: 'chat.example.com' } }),
+      makeEntry({ id: 'feed', request: { url: 'wss://feed.example.org/live', host: 'feed.example.org' } }),
+    ]));
+    fs.writeFileSync(path.join(dir, 'websocket.jsonl'), [
+      message('chat', 0, 'send', 'text', '{"type":"hello"}'),
+      message('chat', 1, 'receive', 'text', '{"type":"welcome"}'),
+      message('feed', 2, 'receive', 'binary', Buffer.from('hello').toString('base64')),
+      message('chat', 3, 'send', 'close', 'bye'),
+    ].map(m => JSON.stringify(m) + '\n').join(''));
+
+    store = new TrafficStore(path.join(dir, 'traffic.jsonl'), new Logger('test'));
+    await store.initialize();
+  });
+
+  afterEach(async () => {
+    await store.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+    vi.restoreAllMocks();
+  });
+
+  const messageIds = async (options: Partial<WebSocketQueryOptions> = {}) =>
+    (await store.queryWebSocketMessages({ limit: 10, offset: 0, ...options })).messages.map(m => m.id);
+
+  it('lists messages in the order they were sent', async () => {
+    expect(await messageIds()).toEqual(['chat-0', 'chat-1', 'feed-2', 'chat-3']);
+    expect(await messageIds({ entryId: 'chat', direction: 'send' })).toEqual(['chat-0', 'chat-3']);
+    expect(await messageIds({ opcode: 'binary' })).toEqual(['feed-2']);
+    expect(await messageIds({ host: 'example.com' })).toEqual(['chat-0', 'chat-1', 'chat-3']);
+    expect(await messageIds({ startTimeMs: at(11).timestampMs, endTimeMs: at(12).timestampMs }))
+      .toEqual(['chat-1', 'feed-2']);
+
+    const page = await store.queryWebSocketMessages({ limit: 1, offset: 1 });
+    expect(page.total).toBe(4);
+    expect(page.messages.map(m => m.id)).toEqual(['chat-1']);
+  });
+
+  it('matches patterns against text payloads only', async () => {
+    expect(await messageIds({ pattern: '"type":"(hello|welcome)"' })).toEqual(['chat-0', 'chat-1']);
+    // The base64 payload of the binary message is not searched
+    expect(await messageIds({ pattern: 'aGVsbG8' })).toEqual([]);
+    await expect(messageIds({ pattern: '[' })).rejects.toMatchObject({ code: 'INVALID_ARGUMENT' });
+  });
+
+  it('summarizes connections, busiest first', async () => {
+    expect(await store.listWebSocketConnections({})).toEqual([
+      {
+        entryId: 'chat',
+        url: 'wss://chat.example.com/socket',
+        messages: 3,
+        sent: 2,
+        received: 1,
+        bytes: 37,
+        firstMessage: at(10).timestamp,
+        lastMessage: at(13).timestamp,
+        closed: true,
+      },
+      {
+        entryId: 'feed',
+        url: 'wss://feed.example.org/live',
+        messages: 1,
+        sent: 0,
+        received: 1,
+        bytes: 8,
+        firstMessage: at(12).timestamp,
+        lastMessage: at(12).timestamp,
+        closed: false,
+      },
+    ]);
+  });
+
+  it('clears messages along with the handshake entry of their connection', async () => {
+    expect((await store.getStats()).webSocketMessages).toBe(4);
+
+    expect((await store.clear({ filter: '~d chat.example.com' })).cleared).toBe(1);
+    expect(await messageIds()).toEqual(['feed-2']);
+    const remaining = fs.readFileSync(path.join(dir, 'websocket.jsonl'), 'utf-8').trim().split('\n');
+    expect(remaining.map(line => (JSON.parse(line) as WebSocketMessageRecord).id)).toEqual(['feed-2']);
+  });
+});
+
+describe('TrafficStore failure events', () => {
+  let dir: string;
+  let store: TrafficStore;
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'traffic-store-'));
+    fs.writeFileSync(path.join(dir, 'traffic.jsonl'), toLines([
+      makeEntry({ id: 'plain', request: { url: 'http://api.example.com/items', host: 'api.example.com' } }),
+      makeEntry({ id: 'secure', ...at(1) }),
+      makeEntry({ id: 'cdn', ...at(2), request: { url: 'https://CDN.api.example.com/a.js', host: 'CDN.api.example.com' } }),
+    ]));
+    // Events the way har_capture.py writes them to failures.jsonl
+    const events: FailureEvent[] = [
+      { id: 'f1', type: 'tls_client', ...at(3), host: 'pinned.example.com', error: 'bad certificate' },
+      { id: 'f2', type: 'tls_server', ...at(4), host: 'API.example.com', error: 'certificate verify failed' },
+      { id: 'f3', type: 'http_error', ...at(5), host: 'other.example.org', error: 'reset', entryId: 'x' },
+    ];
+    fs.writeFileSync(path.join(dir, 'failures.jsonl'), events.map(e => JSON.stringify(e) + '\n').join(''));
+
+    store = new TrafficStore(path.join(dir, 'traffic.jsonl'), new Logger('test'));
+    await store.initialize();
+  });
+
+  afterEach(async () => {
+    await store.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+    vi.restoreAllMocks();
+  });
+
+  it('lists failures by host and time', async () => {
+    const ids = async (options: FailureQueryOptions) => (await store.getFailures(options)).map(e => e.id);
+
+    expect(await ids({})).toEqual(['f1', 'f2', 'f3']);
+    expect(await ids({ host: 'example.com' })).toEqual(['f1', 'f2']);
+    expect(await ids({ host: 'api.example.com' })).toEqual(['f2']);
+    expect(await ids({ startTimeMs: at(4).timestampMs })).toEqual(['f2', 'f3']);
+    expect((await store.getStats()).failures).toBe(3);
+  });
+
+  it('counts HTTPS entries per host', async () => {
+    const { total, byHost } = await store.countHttpsEntries(['api.example.com', 'pinned.example.com']);
+    expect(total).toBe(2);
+    expect(Object.fromEntries(byHost)).toEqual({ 'api.example.com': 1, 'pinned.example.com': 0 });
+  });
+
+  it('keeps failures on a filtered clear and drops them by time', async () => {
+    await store.clear({ filter: '~d example.com' });
+    expect(await store.getFailures({})).toHaveLength(3);
+
+    await store.clear({ beforeTimeMs: at(5).timestampMs });
+    expect((await store.getFailures({})).map(e => e.id)).toEqual(['f3']);
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { EndpointCatalog, SummaryRow } from '../../src/core/traffic-summary.js';
+
+function row(overrides: Partial<SummaryRow>): SummaryRow {
+  return {
+    host: 'api.example.com',
+    method: 'GET',
+    url: 'https://api.example.com/users/1',
+    status: 200,
+    content_type: 'application/json; charset=utf-8',
+    request_content_type: null,
+    request_body_size: 0,
+    response_body_size: 100,
+    timestamp_ms: Date.UTC(2026, 0, 1),
+    ...overrides,
+  };
+}
+
+describe('EndpointCatalog', () => {
+  it('groups calls by host and path template', () => {
+    const catalog = new EndpointCatalog();
+    catalog.add(row({}));
+    catalog.add(row({ url: 'https://api.example.com/users/2?x=1', response_body_size: 300, timestamp_ms: Date.UTC(2026, 0, 2) }));
+    catalog.add(row({
+      method: 'PUT',
+      url: 'https://api.example.com/users/3',
+      status: 204,
+      content_type: '',
+      request_content_type: 'application/json',
+      request_body_size: 50,
+      response_body_size: 0,
+    }));
+    catalog.add(row({ host: 'cdn.example.com', url: 'https://cdn.example.com/logo.png', content_type: 'image/png' }));
+
+    expect(catalog.size).toBe(2);
+    expect(catalog.calls).toBe(4);
+    expect(catalog.hosts()).toEqual({ 'api.example.com': 3, 'cdn.example.com': 1 });
+
+    const [users, logo] = catalog.toSummaries();
+    expect(users).toEqual({
+      host: 'api.example.com',
+      pathTemplate: '/users/{id}',
+      calls: 3,
+      methods: { GET: 2, PUT: 1 },
+      statusCodes: { 200: 2, 204: 1 },
+      requestContentTypes: [{ value: 'application/json', count: 1 }],
+      responseContentTypes: [{ value: 'application/json', count: 2 }],
+      requestBodySize: { min: 0, max: 50, avg: 17 },
+      responseBodySize: { min: 0, max: 300, avg: 133 },
+      firstSeen: '2026-01-01T00:00:00.000Z',
+      lastSeen: '2026-01-02T00:00:00.000Z',
+      examplePaths: ['/users/1', '/users/2', '/users/3'],
+    });
+    // Literal paths have no examples beyond the template itself
+    expect(logo).toMatchObject({ pathTemplate: '/logo.png', calls: 1, examplePaths: [] });
+  });
+});
@@ -0,0 +1,40 @@
+import { JsonlEntry } from '../src/types/traffic.js';
+
+type EntryOverrides = Omit<Partial<JsonlEntry>, 'request' | 'response'> & {
+  request?: Partial<JsonlEntry['request']>;
+  response?: Partial<JsonlEntry['response']>;
+};
+
+/**
+ * A captured GET https://api.example.com/items?page=1 answered with 200 and an empty body.
+ */
+export function makeEntry(overrides: EntryOverrides = {}): JsonlEntry {
+  const { request, response, ...rest } = overrides;
+  return {
+    id: 'entry-1',
+    timestamp: '2026-01-01T00:00:00.000Z',
+    timestampMs: Date.parse('2026-01-01T00:00:00.000Z'),
+    request: {
+      method: 'GET',
+      url: 'https://api.example.com/items?page=1',
+      host: 'api.example.com',
+      path: '/items?page=1',
+      httpVersion: 'HTTP/1.1',
+      headers: [{ name: 'Host', value: 'api.example.com' }],
+      queryString: [{ name: 'page', value: '1' }],
+      bodySize: 0,
+      ...request,
+    },
+    response: {
+      status: 200,
+      statusText: 'OK',
+      httpVersion: 'HTTP/1.1',
+      headers: [],
+      contentType: '',
+      bodySize: 0,
+      ...response,
+    },
+    timings: { blocked: 0, dns: 0, connect: 0, ssl: 0, send: 0, wait: 0, receive: 0 },
+    ...rest,
+  };
+}
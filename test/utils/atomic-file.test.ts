@@ -0,0 +1,46 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { replaceFileIfUnchanged, writeFileAtomic } from '../../src/utils/atomic-file.js';
+
+describe('atomic file writes', () => {
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'atomic-file-'));
+    filePath = path.join(dir, 'state.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('completes concurrent writes to the same file without leaving temporary files', async () => {
+    const contents = Array.from({ length: 20 }, (_, i) => JSON.stringify({ write: i, padding: 'x'.repeat(64 * 1024) }));
+    await Promise.all(contents.map(content => writeFileAtomic(filePath, content)));
+
+    expect(contents).toContain(fs.readFileSync(filePath, 'utf-8'));
+    expect(fs.readdirSync(dir)).toEqual(['state.json']);
+  });
+
+  it('replaces the file only while it holds the expected content', async () => {
+    fs.writeFileSync(filePath, 'v1');
+
+    expect(await replaceFileIfUnchanged(filePath, 'v1', 'v2')).toBe(true);
+    expect(await replaceFileIfUnchanged(filePath, 'v1', 'v3')).toBe(false);
+    expect(fs.readFileSync(filePath, 'utf-8')).toBe('v2');
+    expect(fs.readdirSync(dir)).toEqual(['state.json']);
+  });
+
+  it('completes concurrent replacements of the same file without leaving temporary files', async () => {
+    fs.writeFileSync(filePath, 'v1');
+    const results = await Promise.all(['a', 'b', 'c'].map(content => replaceFileIfUnchanged(filePath, 'v1', content)));
+
+    // Without the caller's lock more than one may pass the check, but each write stays whole
+    expect(results).toContain(true);
+    expect(['a', 'b', 'c']).toContain(fs.readFileSync(filePath, 'utf-8'));
+    expect(fs.readdirSync(dir)).toEqual(['state.json']);
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { parseCookieHeader, parseSetCookie, requestCookies, responseCookies } from '../../src/utils/cookies.js';
+
+const RECEIVED_AT = Date.UTC(2026, 0, 1);
+
+describe('parseCookieHeader', () => {
+  it('splits name=value pairs', () => {
+    expect(parseCookieHeader('a=1; b = x=y ;flag')).toEqual([
+      { name: 'a', value: '1' },
+      { name: 'b', value: 'x=y' },
+      { name: 'flag', value: '' },
+    ]);
+  });
+});
+
+describe('parseSetCookie', () => {
+  it('parses attributes', () => {
+    expect(parseSetCookie(
+      'sid=abc; Path=/; Domain=.example.com; Expires=Fri, 02 Jan 2026 00:00:00 GMT; HttpOnly; Secure; SameSite=Lax',
+      RECEIVED_AT
+    )).toEqual({
+      name: 'sid',
+      value: 'abc',
+      path: '/',
+      domain: '.example.com',
+      expires: '2026-01-02T00:00:00.000Z',
+      httpOnly: true,
+      secure: true,
+      sameSite: 'Lax',
+    });
+  });
+
+  it('resolves Max-Age against the receive time, ahead of Expires', () => {
+    expect(parseSetCookie('a=1; Expires=Fri, 02 Jan 2026 00:00:00 GMT; Max-Age=60', RECEIVED_AT)?.expires)
+      .toBe('2026-01-01T00:01:00.000Z');
+    expect(parseSetCookie('a=1; Max-Age=0', RECEIVED_AT)?.expires).toBe('2026-01-01T00:00:00.000Z');
+  });
+
+  it('clamps a Max-Age beyond the range of a date', () => {
+    expect(parseSetCookie('a=1; Max-Age=99999999999999', RECEIVED_AT)?.expires).toBe('9999-12-31T23:59:59.999Z');
+    expect(parseSetCookie('a=1; Max-Age=-99999999999999', RECEIVED_AT)?.expires).toBe('1970-01-01T00:00:00.000Z');
+  });
+
+  it('ignores an unparseable Expires and rejects a pair without =', () => {
+    expect(parseSetCookie('a=1; Expires=soon', RECEIVED_AT)).toEqual({ name: 'a', value: '1' });
+    expect(parseSetCookie('garbage', RECEIVED_AT)).toBeNull();
+  });
+});
+
+describe('requestCookies and responseCookies', () => {
+  it('read every Cookie and Set-Cookie header', () => {
+    const headers = [
+      { name: 'Cookie', value: 'a=1' },
+      { name: 'cookie', value: 'b=2' },
+      { name: 'Set-Cookie', value: 'c=3' },
+      { name: 'set-cookie', value: 'invalid' },
+      { name: 'Set-Cookie', value: 'd=4; Max-Age=99999999999999' },
+    ];
+    expect(requestCookies(headers).map(c => c.name)).toEqual(['a', 'b']);
+    expect(responseCookies(headers, RECEIVED_AT).map(c => c.name)).toEqual(['c', 'd']);
+  });
+});
@@ -0,0 +1,106 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { spawnSync } from 'child_process';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { withFileLock } from '../../src/utils/file-lock.js';
+
+const OPTIONS = { timeoutMs: 5000, staleMs: 10000 };
+
+// The pid of a process that has already exited
+function deadPid(): number {
+  return spawnSync(process.execPath, ['-e', '']).pid!;
+}
+
+describe('withFileLock', () => {
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'file-lock-'));
+    filePath = path.join(dir, 'state.json');
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  function writeLock(owner: { pid: number; hostname?: string; token: string }): void {
+    fs.writeFileSync(
+      `${filePath}.lock`,
+      JSON.stringify({ hostname: os.hostname(), acquiredAt: new Date().toISOString(), ...owner })
+    );
+  }
+
+  // Run holders concurrently and report the most that were inside the lock at once
+  async function maxConcurrentHolders(count: number, holdMs = 5): Promise<number> {
+    let inside = 0;
+    let max = 0;
+    await Promise.all(
+      Array.from({ length: count }, () =>
+        withFileLock(filePath, OPTIONS, async () => {
+          inside++;
+          max = Math.max(max, inside);
+          await new Promise(resolve => setTimeout(resolve, holdMs));
+          inside--;
+        })
+      )
+    );
+    return max;
+  }
+
+  it('runs holders one at a time and removes the lock afterwards', async () => {
+    expect(await maxConcurrentHolders(10)).toBe(1);
+    expect(fs.existsSync(`${filePath}.lock`)).toBe(false);
+  });
+
+  it('breaks a lock left by a dead process', async () => {
+    writeLock({ pid: deadPid(), token: 'dead' });
+
+    await expect(withFileLock(filePath, OPTIONS, async () => 'ran')).resolves.toBe('ran');
+    expect(fs.readdirSync(dir)).toEqual([]);
+  });
+
+  it('does not let a waiter that judged a lock stale remove the lock that replaced it', async () => {
+    writeLock({ pid: deadPid(), token: 'dead' });
+    // Hold back the first removal of the lock file, as if that waiter were descheduled
+    // between deciding the lock was stale and removing it
+    const rm = fs.promises.rm;
+    let delayed = false;
+    vi.spyOn(fs.promises, 'rm').mockImplementation(async (target, options) => {
+      if (target === `${filePath}.lock` && !delayed) {
+        delayed = true;
+        await new Promise(resolve => setTimeout(resolve, 100));
+      }
+      return rm(target, options);
+    });
+
+    expect(await maxConcurrentHolders(2, 300)).toBe(1);
+    expect(delayed).toBe(true);
+  });
+
+  it('breaks a lock older than staleMs', async () => {
+    writeLock({ pid: process.pid, hostname: 'elsewhere', token: 'old' });
+    const old = new Date(Date.now() - 60000);
+    fs.utimesSync(`${filePath}.lock`, old, old);
+
+    await expect(withFileLock(filePath, OPTIONS, async () => 'ran')).resolves.toBe('ran');
+  });
+
+  it('times out while a live holder keeps the lock', async () => {
+    writeLock({ pid: process.pid, token: 'live' });
+
+    await expect(withFileLock(filePath, { timeoutMs: 100, staleMs: 10000 }, async () => 'ran')).rejects.toThrow(
+      /Timed out after 100ms waiting for .*\(held by pid \d+/
+    );
+    expect(JSON.parse(fs.readFileSync(`${filePath}.lock`, 'utf-8')).token).toBe('live');
+  });
+
+  it('does not remove a lock another holder took over', async () => {
+    await withFileLock(filePath, OPTIONS, async () => {
+      writeLock({ pid: process.pid, token: 'successor' });
+    });
+    expect(JSON.parse(fs.readFileSync(`${filePath}.lock`, 'utf-8')).token).toBe('successor');
+  });
+});
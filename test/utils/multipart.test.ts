@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { getMultipartBoundary, parseMultipart } from '../../src/utils/multipart.js';
+
+function multipart(boundary: string, parts: Array<{ headers: string[]; data: string }>): Buffer {
+  const body = parts.map(p => `--${boundary}\r\n${p.headers.join('\r\n')}\r\n\r\n${p.data}\r\n`).join('');
+  return Buffer.from(`${body}--${boundary}--\r\n`, 'utf-8');
+}
+
+describe('getMultipartBoundary', () => {
+  it('reads quoted and bare boundaries of multipart types only', () => {
+    expect(getMultipartBoundary('multipart/form-data; boundary=abc123')).toBe('abc123');
+    expect(getMultipartBoundary('Multipart/Mixed; boundary="a b;c"; charset=utf-8')).toBe('a b;c');
+    expect(getMultipartBoundary('text/plain; boundary=abc')).toBeNull();
+  });
+});
+
+describe('parseMultipart', () => {
+  it('splits fields and files with their headers', () => {
+    const body = multipart('XyZ', [
+      { headers: ['Content-Disposition: form-data; name="title"'], data: 'Hello\r\nworld' },
+      {
+        headers: ['Content-Disposition: form-data; name="file"; filename="a \\"b\\".txt"', 'Content-Type: text/plain'],
+        data: 'contents',
+      },
+    ]);
+
+    const parts = parseMultipart(body, 'XyZ');
+    expect(parts).toHaveLength(2);
+    expect(parts![0]).toMatchObject({ name: 'title', filename: undefined, contentType: undefined });
+    expect(parts![0].data.toString()).toBe('Hello\r\nworld');
+    expect(parts![1]).toMatchObject({ name: 'file', filename: 'a "b".txt', contentType: 'text/plain' });
+    expect(parts![1].data.toString()).toBe('contents');
+  });
+
+  it('prefers the RFC 5987 filename* without mistaking it for name', () => {
+    const [part] = parseMultipart(multipart('b', [{
+      headers: [`Content-Disposition: form-data; name="file"; filename*=UTF-8''r%C3%A9sum%C3%A9.pdf`],
+      data: '%PDF',
+    }]), 'b')!;
+
+    expect(part.name).toBe('file');
+    expect(part.filename).toBe('résumé.pdf');
+  });
+
+  it('does not read a name out of another parameter', () => {
+    const [part] = parseMultipart(multipart('b', [{
+      headers: ['Content-Disposition: form-data; filename="x.bin"; name="upload"'],
+      data: '',
+    }]), 'b')!;
+
+    expect(part).toMatchObject({ name: 'upload', filename: 'x.bin' });
+  });
+
+  it('returns null when the boundary is missing', () => {
+    expect(parseMultipart(Buffer.from('no parts here'), 'b')).toBeNull();
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { parseTNetStrings } from '../../src/utils/tnetstring.js';
+
+// Encode a payload with its length prefix and type marker
+function tnet(payload: string, type: string): string {
+  return `${Buffer.byteLength(payload)}:${payload}${type}`;
+}
+
+function parse(text: string) {
+  return parseTNetStrings(Buffer.from(text, 'utf-8'));
+}
+
+describe('parseTNetStrings', () => {
+  it('decodes scalar types', () => {
+    expect(parse(tnet('hello', ','))).toEqual([Buffer.from('hello')]);
+    expect(parse(tnet('héllo', ';'))).toEqual(['héllo']);
+    expect(parse(tnet('-42', '#'))).toEqual([-42]);
+    expect(parse(tnet('1.25', '^'))).toEqual([1.25]);
+    expect(parse(tnet('true', '!') + tnet('false', '!'))).toEqual([true, false]);
+    expect(parse(tnet('', '~'))).toEqual([null]);
+  });
+
+  it('decodes nested lists and dictionaries with byte keys', () => {
+    const list = tnet(tnet('1', '#') + tnet('ab', ','), ']');
+    const dict = tnet(tnet('type', ',') + tnet('http', ',') + tnet('items', ';') + list, '}');
+
+    expect(parse(dict)).toEqual([{ type: Buffer.from('http'), items: [1, Buffer.from('ab')] }]);
+    expect(parse(tnet('', '}') + tnet('', ']'))).toEqual([{}, []]);
+  });
+
+  it('reads a sequence of top-level values separated by whitespace', () => {
+    expect(parse(`${tnet('1', '#')}\n${tnet('2', '#')}\r\n ${tnet('3', '#')}\n`)).toEqual([1, 2, 3]);
+  });
+
+  it('rejects malformed input', () => {
+    expect(() => parse('hello')).toThrow(/missing length prefix/);
+    expect(() => parse('x:abc,')).toThrow(/bad length/);
+    expect(() => parse('10:abc,')).toThrow(/truncated value/);
+    expect(() => parse('3:abc?')).toThrow(/unknown type '\?'/);
+  });
+});